@@ -0,0 +1,526 @@
+// SIKGCli.ts - Command-line front end of the SIKG core for CI pipelines
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { NodeHost } from '../host/NodeHost';
+import { Host } from '../host/SIKGHost';
+import { SIKGManager } from '../sikg/SIKGManager';
+import { ChangeAnalyzer } from '../sikg/ChangeAnalyzer';
+import { TestPrioritizer } from '../sikg/TestPrioritizer';
+import { SemanticChangeInfo, TestImpact } from '../sikg/GraphTypes';
+import { GitService, DiffScope } from '../services/GitService';
+import { TestReportParser } from '../services/runner/util/TestReportParser';
+import { ReportedTestMatcher } from '../services/runner/util/ReportedTestMatcher';
+import { ConfigManager } from '../utils/ConfigManager';
+import { Logger } from '../utils/Logger';
+import { SelectionFormatter, SelectionFormat, SELECTION_FORMATS } from './SelectionFormatter';
+
+// Config files looked for in the first workspace folder when --config is not given
+const DEFAULT_CONFIG_FILES = ['sikg.config.json', path.join('.vscode', 'settings.json')];
+
+// File in the storage directory that hands the latest analysis to select and record-results
+const ANALYSIS_FILE = 'last-analysis.json';
+
+// Duration assumed for tests that have never run, when selecting by time
+const DEFAULT_TEST_DURATION_MS = 1000;
+
+const CLI_COMMANDS = ['build', 'analyze', 'select', 'record-results', 'export'] as const;
+type CliCommand = typeof CLI_COMMANDS[number];
+
+const USAGE = `Usage: sikg <command> [options]
+
+Commands:
+  build                       Build the knowledge graph, or bring a stored one up to date
+    --rebuild                 Rebuild from scratch, keeping the state learned from test runs
+  analyze                     Find semantic changes and score the tests they impact
+    --base <rev>              Analyze the changes from <rev> to --head instead of uncommitted changes
+    --head <rev>              End of the range, default HEAD; the working tree should be at this commit
+    --staged                  Analyze the changes staged for the next commit
+    --commit <rev>            Analyze one commit, compared with its parent
+    --merge-base <rev>        Analyze everything since the branch left <rev>, uncommitted edits included
+  select                      Print the tests of the latest analysis in priority order
+    --budget <n|Ns|Nm>        Limit to n tests, or to tests that fit N seconds or minutes
+    --format <format>         ${SELECTION_FORMATS.join(', ')} (default list)
+  record-results <report>...  Learn from JUnit XML, TRX, Jest, Mocha or go test -json reports
+  export                      Print the graph as JSON
+
+Options:
+  --workspace <dir>           Workspace folder, may be repeated (default: current directory)
+  --config <file>             JSON file with sikg.* settings (default: sikg.config.json or .vscode/settings.json)
+  --storage <dir>             Where graphs are stored (default: <workspace>/.sikg)
+  --output <file>             Write the result to a file instead of standard output
+`;
+
+/**
+ * Error in the command line, reported with the usage text
+ */
+class UsageError extends Error {}
+
+/**
+ * Runs one `sikg` command. Logs go to standard error and results to standard output,
+ * so the output can be piped into a test runner.
+ */
+export class SIKGCli {
+    private options: CliOptions = { workspaces: [], reports: [], rebuild: false };
+    private host!: NodeHost;
+    private configManager!: ConfigManager;
+    private sikgManager!: SIKGManager;
+
+    /**
+     * Run a command
+     * @param args Command-line arguments without the program name
+     * @returns Exit code: 0 on success, 1 if the command failed, 2 for a bad command line
+     */
+    public async run(args: string[]): Promise<number> {
+        try {
+            this.options = this.parseArguments(args);
+        } catch (error) {
+            process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+            return 2;
+        }
+
+        if (this.options.command === 'help') {
+            process.stdout.write(USAGE);
+            return 0;
+        }
+
+        try {
+            await this.initialize();
+
+            switch (this.options.command) {
+                case 'build':
+                    await this.build();
+                    break;
+                case 'analyze':
+                    await this.analyze();
+                    break;
+                case 'select':
+                    await this.select();
+                    break;
+                case 'record-results':
+                    await this.recordResults();
+                    break;
+                case 'export':
+                    await this.export();
+                    break;
+            }
+            return 0;
+        } catch (error) {
+            Logger.error(`sikg ${this.options.command} failed:`, error);
+            process.stderr.write(`sikg ${this.options.command} failed: ${error instanceof Error ? error.message : String(error)}\n`);
+            return 1;
+        }
+    }
+
+    /**
+     * Build the graph, or load the stored graph and re-parse the files changed since it was saved
+     */
+    private async build(): Promise<void> {
+        if (this.options.rebuild) {
+            const report = await this.sikgManager.rebuildGraph();
+            Logger.info(this.sikgManager.formatLearnedStateReport(report));
+        }
+        await this.sikgManager.save();
+
+        this.writeOutput(JSON.stringify({
+            graphIds: this.sikgManager.getGraphIds(),
+            tests: this.sikgManager.getTestNodes().length
+        }, null, 2));
+    }
+
+    /**
+     * Analyze the changes of the chosen scope and store the impacted tests for select and record-results
+     */
+    private async analyze(): Promise<void> {
+        const scope = this.getDiffScope();
+
+        const gitService = new GitService();
+        gitService.setScope(scope);
+
+        const changes = await gitService.getChanges();
+        Logger.info(`Found ${changes.length} changed files in ${GitService.describeScope(scope)}`);
+
+        let semanticChanges: SemanticChangeInfo[] = [];
+        let testImpacts: Record<string, TestImpact> = {};
+        if (changes.length > 0) {
+            semanticChanges = await new ChangeAnalyzer(this.sikgManager, gitService, this.configManager).analyzeChanges(changes);
+            testImpacts = await new TestPrioritizer(this.sikgManager, this.configManager).calculateTestImpact(semanticChanges);
+        }
+
+        const analysis: StoredAnalysis = {
+            scope,
+            analyzedAt: new Date().toISOString(),
+            changedFiles: changes.map(change => change.filePath),
+            semanticChanges,
+            testImpacts
+        };
+        fs.writeFileSync(path.join(this.host.storagePath, ANALYSIS_FILE), JSON.stringify(analysis, null, 2));
+
+        this.writeOutput(JSON.stringify({
+            ...analysis,
+            testImpacts: Object.values(testImpacts).sort((a, b) => b.impactScore - a.impactScore)
+        }, null, 2));
+    }
+
+    /**
+     * Get the changes the analyze options ask for
+     */
+    private getDiffScope(): DiffScope {
+        if (this.options.base) {
+            return { kind: 'range', base: this.options.base, head: this.options.head || 'HEAD' };
+        }
+        if (this.options.commit) {
+            return { kind: 'commit', commit: this.options.commit };
+        }
+        if (this.options.mergeBase) {
+            return { kind: 'mergeBase', base: this.options.mergeBase };
+        }
+        return this.options.staged ? { kind: 'staged' } : { kind: 'workingTree' };
+    }
+
+    /**
+     * Print the impacted tests of the latest analysis in priority order, within the budget
+     */
+    private async select(): Promise<void> {
+        const analysis = this.readAnalysis();
+        if (!analysis) {
+            throw new Error('No analysis found. Run "sikg analyze" first.');
+        }
+
+        let tests = new TestPrioritizer(this.sikgManager, this.configManager).getPrioritizedTests(analysis.testImpacts);
+        if (this.options.budget) {
+            tests = this.applyBudget(tests, this.options.budget);
+        }
+
+        const format = this.options.format || 'list';
+        const { output, skipped } = SelectionFormatter.format(tests, format);
+        if (skipped.length > 0) {
+            Logger.warn(`${skipped.length} selected tests cannot be expressed in the ${format} format, e.g. ${skipped[0].testPath}`);
+        }
+
+        this.writeOutput(output);
+    }
+
+    /**
+     * Keep tests in priority order until the budget is used up
+     */
+    private applyBudget(tests: TestImpact[], budget: string): TestImpact[] {
+        const timeMatch = /^(\d+(?:\.\d+)?)(s|m)$/.exec(budget);
+        if (!timeMatch) {
+            return tests.slice(0, parseInt(budget, 10));
+        }
+
+        const budgetMs = parseFloat(timeMatch[1]) * (timeMatch[2] === 'm' ? 60000 : 1000);
+        const durations = tests.map(test => this.sikgManager.getNode(test.testId)?.properties.executionTime || 0);
+        const knownDurations = durations.filter(duration => duration > 0);
+        // Tests that have never run are assumed to take as long as the others on average
+        const assumedDuration = knownDurations.length > 0
+            ? knownDurations.reduce((sum, duration) => sum + duration, 0) / knownDurations.length
+            : DEFAULT_TEST_DURATION_MS;
+
+        const selected: TestImpact[] = [];
+        let usedMs = 0;
+        for (let i = 0; i < tests.length; i++) {
+            const duration = durations[i] || assumedDuration;
+            if (usedMs + duration > budgetMs) {
+                break;
+            }
+            usedMs += duration;
+            selected.push(tests[i]);
+        }
+
+        Logger.info(`Selected ${selected.length} of ${tests.length} tests, expected to take ${Math.round(usedMs / 1000)}s`);
+        return selected;
+    }
+
+    /**
+     * Map the results of test reports to the graph's tests and learn from them
+     */
+    private async recordResults(): Promise<void> {
+        // Results are compared with the predictions of the latest analysis, if there is one
+        const analysis = this.readAnalysis();
+        const matcher = new ReportedTestMatcher(this.sikgManager.getTestNodes(), analysis?.testImpacts || {});
+
+        let reportedCount = 0;
+        for (const reportFile of this.options.reports) {
+            const testCases = TestReportParser.parse(fs.readFileSync(path.resolve(reportFile), 'utf8'));
+            if (testCases.length === 0) {
+                Logger.warn(`No test results found in ${reportFile}`);
+            }
+            reportedCount += testCases.length;
+            Logger.info(`Matched ${matcher.addTestCases(testCases)} of ${testCases.length} test results in ${reportFile}`);
+        }
+
+        const results = matcher.getResults();
+        if (results.length > 0) {
+            await this.sikgManager.updateWithTestResults(results);
+        }
+        await this.sikgManager.save();
+
+        this.writeOutput(JSON.stringify({
+            reported: reportedCount,
+            recorded: results.length,
+            passed: results.filter(result => result.status === 'passed').length,
+            failed: results.filter(result => result.status === 'failed').length,
+            skipped: results.filter(result => result.status === 'skipped').length
+        }, null, 2));
+    }
+
+    /**
+     * Print the graph in the format of the visualization
+     */
+    private async export(): Promise<void> {
+        this.writeOutput(JSON.stringify(await this.sikgManager.exportGraphForVisualization(), null, 2));
+    }
+
+    /**
+     * Set up the host, settings, logger and graph for the workspace
+     */
+    private async initialize(): Promise<void> {
+        const workspaces = this.options.workspaces.length > 0
+            ? this.options.workspaces.map(workspace => path.resolve(workspace))
+            : [process.cwd()];
+        const storagePath = path.resolve(this.options.storage || path.join(workspaces[0], '.sikg'));
+        const ignoreStorage = !this.options.storage || !fs.existsSync(storagePath);
+        fs.mkdirSync(storagePath, { recursive: true });
+        
+        // Graphs and logs kept inside the work tree must not show up as changes of the checkout
+        const gitignorePath = path.join(storagePath, '.gitignore');
+        if (ignoreStorage && !fs.existsSync(gitignorePath)) {
+            fs.writeFileSync(gitignorePath, '*\n');
+        }
+
+        this.host = new NodeHost({
+            workspaceRoots: workspaces,
+            storagePath,
+            settings: this.readSettings(workspaces[0]),
+            version: this.getVersion()
+        });
+        Host.init(this.host);
+
+        this.configManager = new ConfigManager(this.host.configuration);
+        await this.configManager.initialize();
+        Logger.init(this.host.log, storagePath, this.configManager.getLogLevel());
+
+        this.sikgManager = new SIKGManager(this.host, this.configManager);
+        await this.sikgManager.initialize();
+    }
+
+    /**
+     * Read the sikg.* settings from the config file, in the format of VS Code's settings.json
+     * @returns Settings keyed without the "sikg." prefix
+     */
+    private readSettings(workspaceRoot: string): Record<string, any> {
+        let configPath = this.options.config ? path.resolve(this.options.config) : undefined;
+        if (!configPath) {
+            configPath = DEFAULT_CONFIG_FILES
+                .map(file => path.join(workspaceRoot, file))
+                .find(file => fs.existsSync(file));
+            if (!configPath) {
+                return {};
+            }
+        }
+
+        const content = this.stripJsonComments(fs.readFileSync(configPath, 'utf8'));
+        let config: Record<string, any>;
+        try {
+            config = JSON.parse(content);
+        } catch (error) {
+            throw new Error(`Could not parse ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        const settings: Record<string, any> = {};
+        for (const [key, value] of Object.entries(config)) {
+            if (key.startsWith('sikg.')) {
+                settings[key.substring('sikg.'.length)] = value;
+            }
+        }
+        return settings;
+    }
+
+    /**
+     * Remove comments and trailing commas, which settings.json may contain, from JSON text
+     */
+    private stripJsonComments(content: string): string {
+        let result = '';
+        let i = 0;
+
+        while (i < content.length) {
+            const char = content[i];
+            if (char === '"') {
+                // Copy strings as they are, including escaped quotes
+                const start = i++;
+                while (i < content.length && content[i] !== '"') {
+                    i += content[i] === '\\' ? 2 : 1;
+                }
+                result += content.substring(start, ++i);
+            } else if (char === '/' && content[i + 1] === '/') {
+                while (i < content.length && content[i] !== '\n') {
+                    i++;
+                }
+            } else if (char === '/' && content[i + 1] === '*') {
+                const end = content.indexOf('*/', i + 2);
+                i = end < 0 ? content.length : end + 2;
+            } else {
+                result += char;
+                i++;
+            }
+        }
+
+        return result.replace(/,(\s*[}\]])/g, '$1');
+    }
+
+    /**
+     * Read the analysis stored by the latest analyze command
+     */
+    private readAnalysis(): StoredAnalysis | undefined {
+        const analysisPath = path.join(this.host.storagePath, ANALYSIS_FILE);
+        if (!fs.existsSync(analysisPath)) {
+            return undefined;
+        }
+        return JSON.parse(fs.readFileSync(analysisPath, 'utf8'));
+    }
+
+    /**
+     * Write a result to the output file or standard output
+     */
+    private writeOutput(text: string): void {
+        const output = text.length > 0 && !text.endsWith('\n') ? `${text}\n` : text;
+        if (this.options.output) {
+            fs.writeFileSync(path.resolve(this.options.output), output);
+        } else {
+            process.stdout.write(output);
+        }
+    }
+
+    /**
+     * Get the version of the installed package, recorded in saved graphs
+     */
+    private getVersion(): string {
+        try {
+            return JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8')).version;
+        } catch (error) {
+            return 'unknown';
+        }
+    }
+
+    /**
+     * Parse the command line
+     * @throws UsageError if the command or an option is not recognized
+     */
+    private parseArguments(args: string[]): CliOptions {
+        const options: CliOptions = { workspaces: [], reports: [], rebuild: false };
+        const command = args[0];
+
+        if (!command || command === 'help' || command === '--help' || command === '-h') {
+            return { ...options, command: 'help' };
+        }
+        if (!CLI_COMMANDS.includes(command as CliCommand)) {
+            throw new UsageError(`Unknown command: ${command}`);
+        }
+        options.command = command as CliCommand;
+
+        for (let i = 1; i < args.length; i++) {
+            const arg = args[i];
+            const value = (): string => {
+                const next = args[++i];
+                if (next === undefined || next.startsWith('--')) {
+                    throw new UsageError(`Missing value for ${arg}`);
+                }
+                return next;
+            };
+
+            switch (arg) {
+                case '--workspace':
+                    options.workspaces.push(value());
+                    break;
+                case '--config':
+                    options.config = value();
+                    break;
+                case '--storage':
+                    options.storage = value();
+                    break;
+                case '--output':
+                    options.output = value();
+                    break;
+                case '--base':
+                    options.base = value();
+                    break;
+                case '--head':
+                    options.head = value();
+                    break;
+                case '--staged':
+                    options.staged = true;
+                    break;
+                case '--commit':
+                    options.commit = value();
+                    break;
+                case '--merge-base':
+                    options.mergeBase = value();
+                    break;
+                case '--budget':
+                    options.budget = value();
+                    if (!/^\d+$|^\d+(?:\.\d+)?[sm]$/.test(options.budget)) {
+                        throw new UsageError(`Invalid budget: ${options.budget}. Use a number of tests, or e.g. 90s or 5m.`);
+                    }
+                    break;
+                case '--format': {
+                    const format = value();
+                    if (!SELECTION_FORMATS.includes(format as SelectionFormat)) {
+                        throw new UsageError(`Unknown format: ${format}`);
+                    }
+                    options.format = format as SelectionFormat;
+                    break;
+                }
+                case '--rebuild':
+                    options.rebuild = true;
+                    break;
+                default:
+                    if (arg.startsWith('--') || options.command !== 'record-results') {
+                        throw new UsageError(`Unknown option: ${arg}`);
+                    }
+                    options.reports.push(arg);
+            }
+        }
+
+        if (options.command === 'record-results' && options.reports.length === 0) {
+            throw new UsageError('record-results needs at least one report file');
+        }
+        if (options.head && !options.base) {
+            throw new UsageError('--head needs --base');
+        }
+        if ([options.base, options.commit, options.mergeBase, options.staged || undefined].filter(Boolean).length > 1) {
+            throw new UsageError('Use only one of --base, --commit, --merge-base and --staged');
+        }
+
+        return options;
+    }
+}
+
+interface CliOptions {
+    command?: CliCommand | 'help';
+    workspaces: string[];
+    config?: string;
+    storage?: string;
+    output?: string;
+    base?: string;
+    head?: string;
+    commit?: string;
+    mergeBase?: string;
+    staged?: boolean;
+    budget?: string;                  // Number of tests, or a time such as "90s" or "5m"
+    format?: SelectionFormat;
+    reports: string[];                // Test reports given to record-results
+    rebuild: boolean;
+}
+
+/**
+ * Result of the analyze command, stored for select and record-results
+ */
+interface StoredAnalysis {
+    scope: DiffScope;
+    analyzedAt: string;
+    changedFiles: string[];
+    semanticChanges: SemanticChangeInfo[];
+    testImpacts: Record<string, TestImpact>;
+}
@@ -0,0 +1,159 @@
+// SelectionFormatter.ts - Writes selected tests in the forms CI scripts and test runners accept
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestImpact } from '../sikg/GraphTypes';
+import { ParserUtils } from '../sikg/parser/util/ParserUtils';
+import { GoTestJsonParser } from '../services/runner/util/GoTestJsonParser';
+
+export const SELECTION_FORMATS = ['json', 'list', 'pytest', 'jest', 'mocha', 'go', 'maven', 'gradle', 'dotnet'] as const;
+export type SelectionFormat = typeof SELECTION_FORMATS[number];
+
+// Test files each runner-specific format can select from
+const FORMAT_FILE_PATTERNS: Partial<Record<SelectionFormat, RegExp>> = {
+    pytest: /\.py$/,
+    jest: /\.[cm]?[jt]sx?$/,
+    mocha: /\.[cm]?[jt]sx?$/,
+    go: /_test\.go$/,
+    maven: /\.java$/,
+    gradle: /\.java$/,
+    dotnet: /\.cs$/
+};
+
+/**
+ * Formats a test selection. Runner-specific formats produce the argument a runner
+ * selects tests with, following the commands the editor's test runners build:
+ *
+ * - pytest: node IDs, one per line (`pytest $(sikg select --format pytest)`)
+ * - jest, mocha: a name pattern for `-t` or `--grep`
+ * - go: a pattern for `go test -run`
+ * - maven: a value for `-Dtest=`
+ * - gradle: `--tests` arguments
+ * - dotnet: a value for `dotnet test --filter`
+ */
+export class SelectionFormatter {
+    /**
+     * Format selected tests
+     * @param tests Selected tests in priority order
+     * @returns The formatted selection, and the tests the format cannot express
+     */
+    public static format(tests: TestImpact[], format: SelectionFormat): { output: string; skipped: TestImpact[] } {
+        const pattern = FORMAT_FILE_PATTERNS[format];
+        const selected = pattern ? tests.filter(test => pattern.test(test.testPath)) : tests;
+        const skipped = pattern ? tests.filter(test => !pattern.test(test.testPath)) : [];
+
+        return { output: this.formatTests(selected, format), skipped };
+    }
+
+    /**
+     * Format tests that all belong to the format's language
+     */
+    private static formatTests(tests: TestImpact[], format: SelectionFormat): string {
+        switch (format) {
+            case 'json':
+                return JSON.stringify(tests.map(test => ({
+                    testId: test.testId,
+                    testName: test.testName,
+                    testPath: test.testPath,
+                    impactScore: test.impactScore,
+                    contributingChanges: test.contributingChanges
+                })), null, 2);
+            case 'list':
+                return tests.map(test => `${test.testPath}::${test.testName}`).join('\n');
+            case 'pytest':
+                return tests.map(test => `${this.getRunPath(test.testPath)}::${test.testName.split('.').join('::')}`).join('\n');
+            case 'jest':
+            case 'mocha':
+                return this.unique(tests.map(test => this.escapeRegExp(test.testName))).join('|');
+            case 'go': {
+                // go test selects top-level tests; subtests run with their parent
+                const names = this.unique(tests.map(test => GoTestJsonParser.getTopLevelName(test.testName.split('.').pop() || test.testName)));
+                return names.length > 0 ? `^(${names.join('|')})$` : '';
+            }
+            case 'maven':
+                return this.groupByClass(tests)
+                    .map(({ className, methodNames }) => methodNames.length > 0 ? `${className}#${methodNames.join('+')}` : className)
+                    .join(',');
+            case 'gradle':
+                return this.groupByClass(tests)
+                    .flatMap(({ className, methodNames }) =>
+                        methodNames.length > 0 ? methodNames.map(methodName => `${className}.${methodName}`) : [className])
+                    .map(filter => `--tests ${filter}`)
+                    .join(' ');
+            case 'dotnet':
+                return this.groupByClass(tests)
+                    .flatMap(({ className, methodNames }) =>
+                        methodNames.length > 0 ? methodNames.map(methodName => `${className}.${methodName}`) : [className])
+                    .map(filter => `FullyQualifiedName~${filter}`)
+                    .join('|');
+        }
+    }
+
+    /**
+     * Group Java and C# tests by class. A test named after its class stands for the whole class.
+     */
+    private static groupByClass(tests: TestImpact[]): { className: string; methodNames: string[] }[] {
+        const groups = new Map<string, { className: string; methodNames: string[]; wholeClass: boolean }>();
+
+        for (const test of tests) {
+            const simpleClassName = path.basename(test.testPath).replace(/\.\w+$/, '');
+            // C# filters match by substring, so the simple class name is enough
+            const className = test.testPath.endsWith('.java') ? this.getQualifiedJavaClassName(test.testPath) : simpleClassName;
+
+            let group = groups.get(className);
+            if (!group) {
+                group = { className, methodNames: [], wholeClass: false };
+                groups.set(className, group);
+            }
+
+            if (test.testName === simpleClassName) {
+                group.wholeClass = true;
+            } else {
+                group.methodNames.push(test.testName.split('.').pop() || test.testName);
+            }
+        }
+
+        return Array.from(groups.values()).map(group => ({
+            className: group.className,
+            methodNames: group.wholeClass ? [] : this.unique(group.methodNames)
+        }));
+    }
+
+    /**
+     * Get the fully qualified class name of a Java test file from its package declaration
+     */
+    private static getQualifiedJavaClassName(filePath: string): string {
+        const simpleClassName = path.basename(filePath, '.java');
+
+        try {
+            const content = fs.readFileSync(ParserUtils.resolveWorkspacePath(filePath), 'utf8');
+            const packageMatch = /^\s*package\s+([\w.]+)\s*;/m.exec(content);
+            if (packageMatch) {
+                return `${packageMatch[1]}.${simpleClassName}`;
+            }
+        } catch (error) {
+            // Fall back to the simple name, which Surefire and Gradle also accept
+        }
+
+        return simpleClassName;
+    }
+
+    /**
+     * Get the path a runner started in the workspace folder is given for a test file
+     */
+    private static getRunPath(filePath: string): string {
+        const absolutePath = ParserUtils.resolveWorkspacePath(filePath);
+        const workspaceFolder = ParserUtils.getWorkspaceFolder(absolutePath);
+        return workspaceFolder
+            ? path.relative(workspaceFolder.fsPath, absolutePath).replace(/\\/g, '/')
+            : filePath;
+    }
+
+    private static unique(values: string[]): string[] {
+        return Array.from(new Set(values));
+    }
+
+    private static escapeRegExp(text: string): string {
+        return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+}
@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+// sikg.ts - Entry point of the sikg command
+
+import { SIKGCli } from './SIKGCli';
+
+new SIKGCli().run(process.argv.slice(2)).then(exitCode => {
+    process.exitCode = exitCode;
+});
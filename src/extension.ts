@@ -2,14 +2,19 @@
 
 import * as vscode from 'vscode';
 import { SIKGManager } from './sikg/SIKGManager';
+import { GraphIntegrityChecker } from './sikg/GraphIntegrityChecker';
 import { TestPrioritizer } from './sikg/TestPrioritizer';
 import { ChangeAnalyzer } from './sikg/ChangeAnalyzer';
 import { StatusBarManager } from './ui/StatusBarManager';
 import { SIKGViewProvider } from './ui/SIKGViewProvider';
-import { GitService } from './services/GitService';
+import { SIKGTestController } from './ui/SIKGTestController';
+import { GitService, DiffScope } from './services/GitService';
 import { TestRunnerService } from './services/TestRunnerService';
+import { CoverageImportService } from './services/CoverageImportService';
 import { Logger } from './utils/Logger';
 import { ConfigManager } from './utils/ConfigManager';
+import { Host } from './host/SIKGHost';
+import { VSCodeHost } from './host/VSCodeHost';
 
 // Global extension state
 let sikgManager: SIKGManager;
@@ -17,18 +22,25 @@ let testPrioritizer: TestPrioritizer;
 let changeAnalyzer: ChangeAnalyzer;
 let statusBarManager: StatusBarManager;
 let sikgViewProvider: SIKGViewProvider;
+let sikgTestController: SIKGTestController;
 let gitService: GitService;
 let testRunnerService: TestRunnerService;
+let coverageImportService: CoverageImportService;
 let configManager: ConfigManager;
+let host: VSCodeHost;
 
 export async function activate(context: vscode.ExtensionContext) {
     try {
+        // The SIKG core reaches VS Code only through the host
+        host = new VSCodeHost(context);
+        Host.init(host);
+        
         // Initialize configuration first
-        configManager = new ConfigManager(context);
+        configManager = new ConfigManager(host.configuration);
         await configManager.initialize();
         
         // Initialize logger with enhanced error handling
-        Logger.init(context, configManager.getLogLevel());
+        Logger.init(host.log, host.storagePath, configManager.getLogLevel());
         Logger.info('🚀 Activating SIKG Extension...');
         
         // Check for required extensions
@@ -43,7 +55,7 @@ export async function activate(context: vscode.ExtensionContext) {
         
         // Initialize SIKG manager with proper error handling
         try {
-            sikgManager = new SIKGManager(context, configManager);
+            sikgManager = new SIKGManager(host, configManager);
             await sikgManager.initialize();
             Logger.info('✅ SIKG Manager initialized successfully');
         } catch (error) {
@@ -55,6 +67,7 @@ export async function activate(context: vscode.ExtensionContext) {
         try {
             changeAnalyzer = new ChangeAnalyzer(sikgManager, gitService, configManager);
             testPrioritizer = new TestPrioritizer(sikgManager, configManager);
+            coverageImportService = new CoverageImportService(sikgManager);
             Logger.info('✅ Analysis components initialized successfully');
         } catch (error) {
             Logger.error('❌ Failed to initialize analysis components:', error);
@@ -67,6 +80,10 @@ export async function activate(context: vscode.ExtensionContext) {
             context.subscriptions.push(
                 vscode.window.registerWebviewViewProvider('sikgView', sikgViewProvider)
             );
+            
+            sikgTestController = new SIKGTestController(sikgManager, testRunnerService, sikgViewProvider);
+            context.subscriptions.push(sikgTestController);
+            sikgTestController.refresh();
             Logger.info('✅ UI components registered successfully');
         } catch (error) {
             Logger.error('❌ Failed to register UI components:', error);
@@ -180,30 +197,47 @@ function showWelcomeMessage(context: vscode.ExtensionContext): void {
 function registerCommands(context: vscode.ExtensionContext) {
     // Command to analyze the current changes and suggest tests with enhanced error handling
     context.subscriptions.push(
-        vscode.commands.registerCommand('sikg.analyzeChanges', async () => {
+        vscode.commands.registerCommand('sikg.analyzeChanges', async (scope?: DiffScope) => {
             try {
-                Logger.info('🔍 Starting change analysis...');
+                // Callers may name the changes to analyze; otherwise the user picks them
+                const diffScope = scope || await pickDiffScope();
+                if (!diffScope) {
+                    return;
+                }
+                
+                Logger.info(`🔍 Starting change analysis of ${GitService.describeScope(diffScope)}...`);
                 statusBarManager.updateStatus('Analyzing changes...', true);
                 
-                // Get current changes from git with error handling
+                // Get the changes from git with error handling
                 let changes;
                 try {
-                    changes = await gitService.getUncommittedChanges();
+                    gitService.setScope(diffScope);
+                    changes = await gitService.getChanges();
                 } catch (error) {
-                    Logger.error('Failed to get uncommitted changes from Git:', error);
-                    vscode.window.showErrorMessage('Failed to get Git changes. Make sure you\'re in a Git repository.');
+                    Logger.error(`Failed to get ${GitService.describeScope(diffScope)} from Git:`, error);
+                    vscode.window.showErrorMessage(
+                        `Failed to get Git changes: ${error instanceof Error ? error.message : String(error)}. Make sure you\'re in a Git repository.`
+                    );
                     statusBarManager.updateStatus('Git error');
                     return;
                 }
                 
                 if (!changes || changes.length === 0) {
-                    vscode.window.showInformationMessage('No changes detected to analyze.');
+                    vscode.window.showInformationMessage(`No changes detected in ${GitService.describeScope(diffScope)}.`);
                     statusBarManager.updateStatus('No changes detected');
                     return;
                 }
                 
                 Logger.info(`📄 Found ${changes.length} changed files`);
                 
+                // Re-parse edited files so node locations match the working tree
+                try {
+                    await sikgManager.refreshChangedFiles(changes.map(change => change.filePath));
+                    sikgTestController.refresh();
+                } catch (error) {
+                    Logger.warn('Failed to refresh changed files in the knowledge graph:', error);
+                }
+                
                 // Analyze semantic changes with enhanced error handling
                 let semanticChanges;
                 try {
@@ -254,6 +288,7 @@ function registerCommands(context: vscode.ExtensionContext) {
                 
                 // Display results in SIKG view
                 sikgViewProvider.updateWithResults(semanticChanges, testImpacts);
+                sikgTestController.updateWithTestImpacts(testImpacts);
                 
                 // Show success message
                 const testCount = Object.keys(testImpacts).length;
@@ -387,10 +422,26 @@ function registerCommands(context: vscode.ExtensionContext) {
                     return;
                 }
                 
-                // Rebuild the entire graph
-                await sikgManager.rebuildGraph();
+                // Rebuild the entire graph, keeping learned test history and weights
+                const report = await sikgManager.rebuildGraph();
+                sikgTestController.refresh();
                 
-                vscode.window.showInformationMessage('SIKG Knowledge Graph rebuilt successfully.');
+                const orphanedCount = report.orphanedNodes.length + report.orphanedEdges.length;
+                if (orphanedCount > 0) {
+                    const action = await vscode.window.showWarningMessage(
+                        `SIKG Knowledge Graph rebuilt. ${orphanedCount} learned entries refer to code or tests that no longer exist.`,
+                        'Show Report'
+                    );
+                    if (action === 'Show Report') {
+                        const document = await vscode.workspace.openTextDocument({
+                            content: sikgManager.formatLearnedStateReport(report),
+                            language: 'markdown'
+                        });
+                        await vscode.window.showTextDocument(document);
+                    }
+                } else {
+                    vscode.window.showInformationMessage('SIKG Knowledge Graph rebuilt successfully.');
+                }
                 statusBarManager.updateStatus('Knowledge graph rebuilt');
                 Logger.info('✅ Knowledge graph rebuild completed');
                 
@@ -402,6 +453,256 @@ function registerCommands(context: vscode.ExtensionContext) {
         })
     );
     
+    // Command to build TESTS edges from per-test coverage
+    context.subscriptions.push(
+        vscode.commands.registerCommand('sikg.collectCoverage', async () => {
+            try {
+                Logger.info('📊 Starting coverage collection...');
+                statusBarManager.updateStatus('Collecting coverage...', true);
+                
+                const testNodes = sikgManager.getTestNodes();
+                if (testNodes.length === 0) {
+                    vscode.window.showInformationMessage('No tests found in the knowledge graph. Rebuild the graph first.');
+                    statusBarManager.updateStatus('Ready');
+                    return;
+                }
+                
+                const { coverage, errors } = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: 'SIKG: Collecting coverage',
+                        cancellable: true
+                    },
+                    (progress, token) => testRunnerService.collectCoverage(
+                        testNodes,
+                        (message, increment) => progress.report({ message, increment }),
+                        token
+                    )
+                );
+                
+                if (coverage.length === 0) {
+                    const reason = errors.length > 0 ? ` ${errors[0]}` : '';
+                    vscode.window.showWarningMessage(`No coverage could be collected.${reason}`);
+                    statusBarManager.updateStatus('No coverage collected');
+                    return;
+                }
+                
+                // Coverage of a complete run replaces the static guesses of the covered tests
+                const result = await sikgManager.applyTestCoverage(coverage, 'coverage', true);
+                
+                const message = `Coverage collected for ${result.testsMapped} tests: ${result.edgesAdded} edges added, ` +
+                    `${result.edgesUpdated} confirmed, ${result.edgesRemoved} static guesses removed.`;
+                if (errors.length > 0) {
+                    vscode.window.showWarningMessage(`${message} ${errors.length} test files failed, see the output panel.`);
+                } else {
+                    vscode.window.showInformationMessage(message);
+                }
+                statusBarManager.updateStatus(`Coverage: ${result.testsMapped} tests`);
+                
+            } catch (error) {
+                Logger.error('❌ Error collecting coverage:', error);
+                vscode.window.showErrorMessage(`Failed to collect coverage: ${error instanceof Error ? error.message : String(error)}`);
+                statusBarManager.updateStatus('Coverage failed');
+            }
+        })
+    );
+    
+    // Command to import coverage reports produced elsewhere, e.g. by CI
+    context.subscriptions.push(
+        vscode.commands.registerCommand('sikg.importCoverage', async () => {
+            try {
+                const reportUris = await vscode.window.showOpenDialog({
+                    canSelectMany: true,
+                    openLabel: 'Import Coverage',
+                    filters: {
+                        'Coverage Reports': ['info', 'lcov', 'xml', 'json'],
+                        'All Files': ['*']
+                    }
+                });
+                
+                if (!reportUris || reportUris.length === 0) {
+                    return;
+                }
+                
+                Logger.info(`📥 Importing ${reportUris.length} coverage reports...`);
+                statusBarManager.updateStatus('Importing coverage...', true);
+                
+                const result = await coverageImportService.importReports(reportUris.map(uri => uri.fsPath));
+                
+                if (result.reportsImported === 0) {
+                    vscode.window.showErrorMessage('No supported coverage report found. Supported formats: lcov, Cobertura XML, coverage.py JSON and istanbul JSON.');
+                    statusBarManager.updateStatus('Coverage import failed');
+                    return;
+                }
+                
+                const message = `Imported coverage: ${result.testsMapped} tests mapped, ${result.edgesAdded} edges added, ` +
+                    `${result.edgesUpdated} strengthened, ${result.edgesWeakened} weakened.`;
+                const problems = [
+                    result.unmappedFiles.length > 0 ? `${result.unmappedFiles.length} files could not be mapped` : '',
+                    result.unmappedContexts.length > 0 ? `${result.unmappedContexts.length} test contexts could not be mapped` : '',
+                    result.unreadableReports.length > 0 ? `${result.unreadableReports.length} reports could not be read` : ''
+                ].filter(problem => problem);
+                
+                if (problems.length > 0) {
+                    const action = await vscode.window.showWarningMessage(
+                        `${message} ${problems.join(', ')}.`,
+                        'Show Report'
+                    );
+                    if (action === 'Show Report') {
+                        const document = await vscode.workspace.openTextDocument({
+                            content: coverageImportService.formatUnmappedReport(result),
+                            language: 'markdown'
+                        });
+                        await vscode.window.showTextDocument(document);
+                    }
+                } else {
+                    vscode.window.showInformationMessage(message);
+                }
+                
+                statusBarManager.updateStatus('Coverage imported');
+                
+            } catch (error) {
+                Logger.error('❌ Error importing coverage:', error);
+                vscode.window.showErrorMessage(`Failed to import coverage: ${error instanceof Error ? error.message : String(error)}`);
+                statusBarManager.updateStatus('Coverage import failed');
+            }
+        })
+    );
+    
+    // Command to list, inspect and delete the graphs stored for each workspace
+    context.subscriptions.push(
+        vscode.commands.registerCommand('sikg.manageGraphs', async () => {
+            try {
+                const graphStorage = sikgManager.getGraphStorage();
+                const currentGraphIds = sikgManager.getGraphIds();
+                const graphs = graphStorage.listGraphs();
+
+                if (graphs.length === 0) {
+                    vscode.window.showInformationMessage('No stored SIKG graphs found.');
+                    return;
+                }
+
+                const selected = await vscode.window.showQuickPick(
+                    graphs.map(graph => ({
+                        label: `${currentGraphIds.includes(graph.id) ? '$(folder-opened) ' : '$(folder) '}${graph.workspaceName}`,
+                        description: graph.workspaceRoot || graph.graphPath,
+                        detail: [
+                            graph.nodeCount !== undefined ? `${graph.nodeCount} nodes, ${graph.edgeCount} edges` : undefined,
+                            `${(graph.sizeBytes / 1024).toFixed(1)} KB`,
+                            graph.savedAt ? `saved ${new Date(graph.savedAt).toLocaleString()}` : undefined,
+                            currentGraphIds.includes(graph.id) ? 'current workspace' : undefined
+                        ].filter(Boolean).join(' · '),
+                        graph
+                    })),
+                    { placeHolder: 'Select a stored knowledge graph' }
+                );
+
+                if (!selected) {
+                    return;
+                }
+
+                const isCurrent = currentGraphIds.includes(selected.graph.id);
+                const action = await vscode.window.showQuickPick(['Inspect', 'Delete'], {
+                    placeHolder: `${selected.graph.workspaceName}: choose an action`
+                });
+
+                if (action === 'Inspect') {
+                    const document = await vscode.workspace.openTextDocument({
+                        content: graphStorage.formatGraphReport(selected.graph),
+                        language: 'markdown'
+                    });
+                    await vscode.window.showTextDocument(document);
+                } else if (action === 'Delete') {
+                    const confirm = await vscode.window.showWarningMessage(
+                        isCurrent
+                            ? `Delete the graph of the open workspace ${selected.graph.workspaceName}? It will be rebuilt from scratch and learned test history is lost.`
+                            : `Delete the stored graph of ${selected.graph.workspaceName}? Learned test history is lost.`,
+                        { modal: true },
+                        'Delete'
+                    );
+
+                    if (confirm !== 'Delete') {
+                        return;
+                    }
+
+                    graphStorage.deleteGraph(selected.graph);
+
+                    if (isCurrent) {
+                        // Only the deleted folder's graph and learned state start over; other folders keep theirs
+                        statusBarManager.updateStatus('Rebuilding knowledge graph...', true);
+                        await sikgManager.resetPartition(selected.graph.id);
+                        sikgTestController.refresh();
+                        statusBarManager.updateStatus('Knowledge graph rebuilt');
+                    }
+
+                    vscode.window.showInformationMessage(`Deleted the stored graph of ${selected.graph.workspaceName}.`);
+                }
+
+            } catch (error) {
+                Logger.error('❌ Error managing stored graphs:', error);
+                vscode.window.showErrorMessage(`Failed to manage stored graphs: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        })
+    );
+
+    // Command to find and repair inconsistencies in the knowledge graph
+    context.subscriptions.push(
+        vscode.commands.registerCommand('sikg.validateGraph', async () => {
+            try {
+                Logger.info('🩺 Validating knowledge graph...');
+                statusBarManager.updateStatus('Validating knowledge graph...', true);
+                
+                const checker = new GraphIntegrityChecker(sikgManager);
+                const report = checker.check();
+                
+                if (report.issues.length === 0) {
+                    vscode.window.showInformationMessage(
+                        `SIKG graph is consistent: ${report.nodeCount} nodes and ${report.edgeCount} edges checked.`
+                    );
+                    statusBarManager.updateStatus('Knowledge graph valid');
+                    return;
+                }
+                
+                statusBarManager.updateStatus(`Knowledge graph has ${report.issues.length} issues`);
+                const action = await vscode.window.showWarningMessage(
+                    `Found ${report.issues.length} issues in the SIKG graph.`,
+                    'Repair',
+                    'Show Report'
+                );
+                
+                let repairResult;
+                if (action === 'Repair') {
+                    statusBarManager.updateStatus('Repairing knowledge graph...', true);
+                    repairResult = await checker.repair(report);
+                    sikgTestController.refresh();
+                    statusBarManager.updateStatus('Knowledge graph repaired');
+                    
+                    const next = await vscode.window.showInformationMessage(
+                        `Repaired the SIKG graph: ${repairResult.edgesDropped} edges dropped, ${repairResult.edgesRelinked} relinked, ` +
+                            `${repairResult.filesReparsed.length} files re-parsed.`,
+                        'Show Report'
+                    );
+                    if (next !== 'Show Report') {
+                        return;
+                    }
+                } else if (action !== 'Show Report') {
+                    return;
+                }
+                
+                const document = await vscode.workspace.openTextDocument({
+                    content: checker.formatReport(report, repairResult),
+                    language: 'markdown'
+                });
+                await vscode.window.showTextDocument(document);
+                
+            } catch (error) {
+                Logger.error('❌ Error validating knowledge graph:', error);
+                vscode.window.showErrorMessage(`Failed to validate graph: ${error instanceof Error ? error.message : String(error)}`);
+                statusBarManager.updateStatus('Graph validation failed');
+            }
+        })
+    );
+
     // Command to show results panel
     context.subscriptions.push(
         vscode.commands.registerCommand('sikg.showResults', async () => {
@@ -438,6 +739,84 @@ function registerCommands(context: vscode.ExtensionContext) {
     );
 }
 
+/**
+ * Ask which changes to analyze
+ * @returns The chosen scope, or undefined if the user cancelled
+ */
+async function pickDiffScope(): Promise<DiffScope | undefined> {
+    const mergeBaseBranch = configManager.getMergeBaseBranch();
+    const choice = await vscode.window.showQuickPick(
+        [
+            { label: '$(edit) Uncommitted changes', description: 'Staged and unstaged edits', scopeKind: 'workingTree' as const },
+            { label: '$(diff-added) Staged changes', description: 'git diff --cached', scopeKind: 'staged' as const },
+            { label: '$(git-pull-request) Changes since branching', description: `Everything since the merge-base with ${mergeBaseBranch}, uncommitted edits included`, scopeKind: 'mergeBase' as const },
+            { label: '$(git-commit) Commit...', description: 'One commit compared with its parent', scopeKind: 'commit' as const },
+            { label: '$(git-compare) Commit range...', description: 'base..head', scopeKind: 'range' as const }
+        ],
+        { placeHolder: 'Which changes should SIKG analyze?' }
+    );
+
+    switch (choice?.scopeKind) {
+        case undefined:
+            return undefined;
+        case 'workingTree':
+        case 'staged':
+            return { kind: choice.scopeKind };
+        case 'mergeBase':
+            return { kind: 'mergeBase', base: mergeBaseBranch };
+        case 'commit': {
+            // Each folder may be in its own repository, so the commit is picked from one folder's history
+            const folders = host.workspace.getWorkspaceFolders().filter(folder => gitService.getRepositoryRoot(folder.fsPath));
+            let folder = folders[0];
+            if (folders.length > 1) {
+                const picked = await vscode.window.showQuickPick(
+                    folders.map(info => ({ label: info.name, description: info.fsPath, folder: info })),
+                    { placeHolder: 'Select the workspace folder whose commits to list' }
+                );
+                if (!picked) {
+                    return undefined;
+                }
+                folder = picked.folder;
+            }
+            const commits = folder ? gitService.getRecentCommits(folder.fsPath, 50) : [];
+            if (!folder || commits.length === 0) {
+                vscode.window.showInformationMessage('No commits found in the workspace repository.');
+                return undefined;
+            }
+            const commit = await vscode.window.showQuickPick(
+                commits.map(info => ({ label: info.subject, description: `${info.hash} · ${info.author} · ${info.date}`, hash: info.hash })),
+                { placeHolder: `Select a commit of ${folder.name} to analyze`, matchOnDescription: true }
+            );
+            return commit ? { kind: 'commit', commit: commit.hash, folder: folder.fsPath } : undefined;
+        }
+        case 'range': {
+            const range = await vscode.window.showInputBox({
+                prompt: 'Commit range to analyze. The working tree should be at head, because changed lines are matched against the checked-out files.',
+                value: `${mergeBaseBranch}..HEAD`,
+                validateInput: value => parseRange(value) ? undefined : 'Enter a range as base..head, e.g. main..HEAD'
+            });
+            if (!range) {
+                return undefined;
+            }
+            const [base, head] = parseRange(range)!;
+            return { kind: 'range', base, head };
+        }
+    }
+}
+
+/**
+ * Split a commit range such as "main..HEAD" into its base and head
+ * @returns The base and head, or undefined if the text is not a two-dot range
+ */
+function parseRange(text: string): [string, string] | undefined {
+    const parts = text.trim().split('..');
+    // "a...b" leaves a part starting with a dot
+    if (parts.length !== 2 || parts.some(part => !part || part.startsWith('.') || part.endsWith('.') || /\s/.test(part))) {
+        return undefined;
+    }
+    return [parts[0], parts[1]];
+}
+
 function setupEventListeners(context: vscode.ExtensionContext) {
     // Listen for git changes when users save files with error handling
     context.subscriptions.push(
@@ -448,8 +827,8 @@ function setupEventListeners(context: vscode.ExtensionContext) {
                 
                 if (analyzeOnSave) {
                     Logger.debug(`📄 File saved: ${document.fileName}, triggering analysis`);
-                    // Run change analysis on save
-                    await vscode.commands.executeCommand('sikg.analyzeChanges');
+                    // Run change analysis on save, without asking which changes
+                    await vscode.commands.executeCommand('sikg.analyzeChanges', { kind: 'workingTree' });
                 }
             } catch (error) {
                 Logger.error('Error in onDidSaveTextDocument handler:', error);
@@ -457,6 +836,15 @@ function setupEventListeners(context: vscode.ExtensionContext) {
         })
     );
     
+    // Remember when test tasks start so their reports can be told apart from stale ones
+    context.subscriptions.push(
+        vscode.tasks.onDidStartTaskProcess(event => {
+            if (event.execution.task.group === vscode.TaskGroup.Test) {
+                testRunnerService.trackTaskStart(event.execution);
+            }
+        })
+    );
+    
     // Listen for test executions to gather feedback data with error handling
     context.subscriptions.push(
         vscode.tasks.onDidEndTaskProcess(async (event) => {
@@ -466,9 +854,14 @@ function setupEventListeners(context: vscode.ExtensionContext) {
                     Logger.debug('Test task completed, processing results...');
                     
                     // Get test results and update the SIKG
-                    const results = await testRunnerService.parseTestResults(event.execution);
+                    const results = await testRunnerService.parseTestResults(
+                        event.execution,
+                        sikgManager.getTestNodes(),
+                        sikgViewProvider.getLatestTestImpacts()
+                    );
                     if (results && results.length > 0) {
                         await sikgManager.updateWithTestResults(results);
+                        sikgViewProvider.updateWithTestResults(results);
                         Logger.info(`Updated SIKG with ${results.length} test results`);
                     }
                 }
@@ -490,7 +883,7 @@ function setupEventListeners(context: vscode.ExtensionContext) {
                     
                     // Update logger level if changed
                     const newLogLevel = configManager.getLogLevel();
-                    Logger.init(context, newLogLevel);
+                    Logger.init(host.log, host.storagePath, newLogLevel);
                     
                     Logger.info('✅ Configuration reloaded');
                 }
@@ -626,8 +1019,14 @@ function createGraphVisualizationHtml(graph: any): string {
                 .node { cursor: pointer; }
                 .link { stroke: #999; stroke-opacity: 0.6; }
                 .test-node { fill: #6baed6; }
+                .suite-node { fill: #3182bd; }
+                .fixture-node { fill: #9ecae1; }
                 .code-node { fill: #fd8d3c; }
+                .module-node { fill: #e6550d; }
+                .file-node { fill: #756bb1; }
+                .package-node { fill: #74c476; }
                 .unknown-node { fill: #969696; } /* Gray for unknown nodes */
+                .legend span { display: inline-block; width: 10px; height: 10px; border-radius: 5px; margin-right: 4px; }
                 .changed-node { fill: #e31a1c; stroke: #b10026; stroke-width: 2px; }
                 .node text { font-size: 10px; }
                 .tooltip {
@@ -662,6 +1061,7 @@ function createGraphVisualizationHtml(graph: any): string {
                     <input type="checkbox" id="show-changed-only" />
                     <label for="show-changed-only">Show changed nodes only</label>
                 </div>
+                <div class="legend" id="legend"></div>
             </div>
             <div class="tooltip" id="tooltip"></div>
             <svg id="graph"></svg>
@@ -669,6 +1069,23 @@ function createGraphVisualizationHtml(graph: any): string {
                 // Graph visualization code
                 const graph = ${JSON.stringify(graph)};
                 
+                // CSS class and legend label of each node type
+                const nodeTypes = {
+                    File: { className: "file-node", label: "File", color: "#756bb1" },
+                    Module: { className: "module-node", label: "Module", color: "#e6550d" },
+                    CodeElement: { className: "code-node", label: "Code element", color: "#fd8d3c" },
+                    TestSuite: { className: "suite-node", label: "Test suite", color: "#3182bd" },
+                    TestCase: { className: "test-node", label: "Test", color: "#6baed6" },
+                    Fixture: { className: "fixture-node", label: "Fixture", color: "#9ecae1" },
+                    ExternalPackage: { className: "package-node", label: "External package", color: "#74c476" }
+                };
+                
+                const presentTypes = new Set(graph.nodes.map(n => n.type));
+                document.getElementById("legend").innerHTML = Object.entries(nodeTypes)
+                    .filter(([type]) => presentTypes.has(type))
+                    .map(([, t]) => \`<div><span style="background: \${t.color}"></span>\${t.label}</div>\`)
+                    .join("");
+                
                 // D3 visualization code for the graph
                 const svg = d3.select("#graph");
                 const width = window.innerWidth;
@@ -701,7 +1118,26 @@ function createGraphVisualizationHtml(graph: any): string {
                     .data(graph.links)
                     .enter().append("line")
                     .attr("class", "link")
-                    .attr("stroke-width", d => Math.sqrt(d.weight || 1));
+                    .attr("stroke-width", d => Math.sqrt(d.weight || 1))
+                    .style("stroke-opacity", d => 0.2 + 0.6 * (d.confidence !== undefined ? d.confidence : 1))
+                    .on("mouseover", function(event, d) {
+                        tooltip.transition()
+                            .duration(200)
+                            .style("opacity", .9);
+                        tooltip.html(\`<strong>\${d.type}</strong><br/>
+                                        Weight: \${(d.weight || 0).toFixed(2)}<br/>
+                                        Produced by: \${d.producer || "unknown"}<br/>
+                                        \${d.confidence !== undefined ? "Confidence: " + (d.confidence * 100).toFixed(0) + "%<br/>" : ""}
+                                        \${d.createdAt ? "Created: " + new Date(d.createdAt).toLocaleString() + "<br/>" : ""}
+                                        Last confirmed: \${d.lastConfirmed ? new Date(d.lastConfirmed).toLocaleString() : "never"}\`)
+                            .style("left", (event.pageX + 10) + "px")
+                            .style("top", (event.pageY - 28) + "px");
+                    })
+                    .on("mouseout", function() {
+                        tooltip.transition()
+                            .duration(500)
+                            .style("opacity", 0);
+                    });
                 
                 // Create nodes
                 const node = container.append("g")
@@ -710,9 +1146,7 @@ function createGraphVisualizationHtml(graph: any): string {
                     .enter().append("g")
                     .attr("class", d => {
                         let classes = "node";
-                        if (d.type === "TestCase") classes += " test-node";
-                        else if (d.type === "CodeElement") classes += " code-node";
-                        else classes += " unknown-node";
+                        classes += " " + (nodeTypes[d.type] ? nodeTypes[d.type].className : "unknown-node");
                         if (d.changed) classes += " changed-node";
                         return classes;
                     })
@@ -725,7 +1159,7 @@ function createGraphVisualizationHtml(graph: any): string {
                             .duration(200)
                             .style("opacity", .9);
                         tooltip.html(\`<strong>\${d.label || d.id}</strong><br/>
-                                        Type: \${d.type}<br/>
+                                        Type: \${nodeTypes[d.type] ? nodeTypes[d.type].label : d.type}<br/>
                                         \${d.changed ? "Changed: Yes<br/>" : ""}
                                         \${d.impact ? "Impact: " + (d.impact * 100).toFixed(0) + "%" : ""}\`)
                             .style("left", (event.pageX + 10) + "px")
@@ -828,17 +1262,26 @@ function createGraphVisualizationHtml(graph: any): string {
     `;
 }
 
-export function deactivate() {
+export async function deactivate(): Promise<void> {
     // Clean up resources with error handling
     Logger.info('🔄 Deactivating SIKG Extension...');
     
     try {
         if (sikgManager) {
-            sikgManager.dispose();
+            // VS Code waits for the returned promise, so results saved in the last moments are not lost
+            await sikgManager.dispose();
         }
     } catch (error) {
         Logger.error('Error disposing SIKG Manager:', error);
     }
     
+    try {
+        if (testRunnerService) {
+            testRunnerService.dispose();
+        }
+    } catch (error) {
+        Logger.error('Error disposing Test Runner Service:', error);
+    }
+    
     Logger.info('✅ SIKG Extension deactivated');
 }
\ No newline at end of file
@@ -0,0 +1,146 @@
+// NodeHost.ts - Runs the SIKG core in plain Node, without an editor
+
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+    SIKGHost,
+    WorkspaceHost,
+    FileDiscovery,
+    ConfigurationSource,
+    LogSink,
+    WorkspaceFolderInfo
+} from './SIKGHost';
+
+/**
+ * Options of a host outside the editor
+ */
+export interface NodeHostOptions {
+    workspaceRoots: string[];         // Absolute paths of the workspace folders
+    storagePath: string;              // Directory under which graphs and logs are stored
+    settings?: Record<string, any>;   // Values of the sikg.* settings, keyed without the "sikg." prefix
+    version?: string;
+    log?: LogSink;                    // Defaults to standard error, leaving standard output to the caller
+}
+
+/**
+ * Host for CI pipelines and unit tests: workspace folders and settings are given up front,
+ * files are found by walking the folders, and there are no open editors or language servers
+ */
+export class NodeHost implements SIKGHost {
+    public readonly workspace: WorkspaceHost;
+    public readonly files: FileDiscovery;
+    public readonly configuration: ConfigurationSource;
+    public readonly log: LogSink;
+    public readonly storagePath: string;
+    public readonly version: string;
+
+    constructor(options: NodeHostOptions) {
+        const folders: WorkspaceFolderInfo[] = options.workspaceRoots.map(root => ({
+            name: path.basename(path.resolve(root)),
+            fsPath: path.resolve(root)
+        }));
+        const settings = options.settings || {};
+
+        this.storagePath = options.storagePath;
+        this.version = options.version || 'unknown';
+
+        this.workspace = {
+            getWorkspaceFolders: () => folders,
+            getOpenDocumentLanguage: () => undefined
+        };
+
+        this.files = {
+            findFiles: (folder, include, exclude) => this.findFiles(folder.fsPath, include, exclude)
+        };
+
+        this.configuration = {
+            get: <T>(key: string, defaultValue: T): T => settings[key] !== undefined ? settings[key] as T : defaultValue,
+            // Settings are fixed for the lifetime of the process
+            onDidChange: () => undefined
+        };
+
+        this.log = options.log || { appendLine: line => process.stderr.write(line + '\n') };
+    }
+
+    /**
+     * Walk a folder for files whose folder-relative path matches a glob pattern. Folders
+     * matching the exclude pattern are not entered, and symbolic links are not followed.
+     */
+    private async findFiles(root: string, include: string, exclude: string): Promise<string[]> {
+        const includePattern = NodeHost.globToRegExp(include);
+        const excludePattern = exclude ? NodeHost.globToRegExp(exclude) : null;
+        const files: string[] = [];
+        const pending = [''];
+
+        while (pending.length > 0) {
+            const relativeDir = pending.pop()!;
+            let entries: fs.Dirent[];
+            try {
+                entries = await fs.promises.readdir(path.join(root, relativeDir), { withFileTypes: true });
+            } catch (error) {
+                continue;
+            }
+
+            for (const entry of entries) {
+                const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+                if (entry.isDirectory()) {
+                    // "**/node_modules/**" matches the folder's path with a trailing slash
+                    if (!excludePattern?.test(`${relativePath}/`)) {
+                        pending.push(relativePath);
+                    }
+                } else if (entry.isFile() && includePattern.test(relativePath) && !excludePattern?.test(relativePath)) {
+                    files.push(path.join(root, relativePath));
+                }
+            }
+        }
+
+        return files.sort();
+    }
+
+    /**
+     * Convert a glob pattern as used in the sikg.* settings to a regular expression.
+     * Supports "**", "*", "?", character classes and nested {a,b} alternatives.
+     */
+    public static globToRegExp(pattern: string): RegExp {
+        let source = '';
+        let braceDepth = 0;
+
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+            if (char === '*' && pattern[i + 1] === '*') {
+                // "**/" also matches no folder at all
+                if (pattern[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else if (char === '*') {
+                source += '[^/]*';
+            } else if (char === '?') {
+                source += '[^/]';
+            } else if (char === '[') {
+                const end = pattern.indexOf(']', i + 1);
+                if (end < 0) {
+                    source += '\\[';
+                } else {
+                    source += `[${pattern.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+                    i = end;
+                }
+            } else if (char === '{') {
+                braceDepth++;
+                source += '(?:';
+            } else if (char === '}' && braceDepth > 0) {
+                braceDepth--;
+                source += ')';
+            } else if (char === ',' && braceDepth > 0) {
+                source += '|';
+            } else {
+                source += char.replace(/[.+^$()|{}\\]/g, '\\$&');
+            }
+        }
+
+        return new RegExp(`^${source}$`);
+    }
+}
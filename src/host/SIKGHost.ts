@@ -0,0 +1,117 @@
+// SIKGHost.ts - Services the SIKG core needs from the program it runs in
+
+import type { SIKGManager } from '../sikg/SIKGManager';
+import { LanguageServerPassResult } from '../sikg/GraphTypes';
+
+/**
+ * A root folder of the workspace
+ */
+export interface WorkspaceFolderInfo {
+    name: string;                     // Name that qualifies workspace-relative paths in multi-root workspaces
+    fsPath: string;                   // Absolute path of the folder
+}
+
+/**
+ * Workspace folders and editor state
+ */
+export interface WorkspaceHost {
+    /**
+     * Get the root folders of the workspace, in order
+     */
+    getWorkspaceFolders(): WorkspaceFolderInfo[];
+
+    /**
+     * Get the language ID of a file that is open in an editor
+     * @returns The language ID, or undefined if the file is not open or there is no editor
+     */
+    getOpenDocumentLanguage(filePath: string): string | undefined;
+}
+
+/**
+ * Finds files in a workspace folder
+ */
+export interface FileDiscovery {
+    /**
+     * Find files matching a glob pattern
+     * @param folder Folder to search
+     * @param include Glob pattern, matched against folder-relative paths
+     * @param exclude Glob pattern of files and folders to leave out
+     * @returns Absolute paths of the matching files
+     */
+    findFiles(folder: WorkspaceFolderInfo, include: string, exclude: string): Promise<string[]>;
+}
+
+/**
+ * The `sikg.*` settings
+ */
+export interface ConfigurationSource {
+    /**
+     * Get a setting
+     * @param key Setting name without the "sikg." prefix
+     * @param defaultValue Value to use if the setting is not set
+     */
+    get<T>(key: string, defaultValue: T): T;
+
+    /**
+     * Register a listener called whenever a `sikg.*` setting changes
+     */
+    onDidChange(listener: () => void): void;
+}
+
+/**
+ * Destination of log lines
+ */
+export interface LogSink {
+    appendLine(line: string): void;
+}
+
+/**
+ * Relationship queries answered by the language servers of an editor
+ */
+export interface LanguageServerHost {
+    /**
+     * Add the edges the language servers report for the symbols of some files
+     * @param filePaths Workspace-relative paths of the code files to visit
+     * @param timeBudgetMs Time after which no further files are started
+     */
+    enhance(sikgManager: SIKGManager, filePaths: string[], timeBudgetMs: number): Promise<LanguageServerPassResult>;
+}
+
+/**
+ * Everything the SIKG core uses from its surroundings, implemented by VSCodeHost inside
+ * the editor and by NodeHost in plain Node, e.g. in CI or unit tests
+ */
+export interface SIKGHost {
+    workspace: WorkspaceHost;
+    files: FileDiscovery;
+    configuration: ConfigurationSource;
+    log: LogSink;
+    storagePath: string;              // Directory under which graphs and logs are stored
+    version: string;                  // Version of the program, recorded in saved graphs
+    languageServers?: LanguageServerHost;   // Missing where no language servers are available
+}
+
+/**
+ * Holds the host of the running program for code that is not handed one, such as the
+ * static helpers of ParserUtils
+ */
+export class Host {
+    private static current: SIKGHost | undefined;
+
+    /**
+     * Set the host of the running program; called once at startup
+     */
+    public static init(host: SIKGHost): void {
+        this.current = host;
+    }
+
+    /**
+     * Get the host of the running program
+     */
+    public static get(): SIKGHost {
+        if (!this.current) {
+            throw new Error('SIKG host is not initialized');
+        }
+        return this.current;
+    }
+}
@@ -0,0 +1,75 @@
+// VSCodeHost.ts - Runs the SIKG core inside the VS Code extension host
+
+import * as vscode from 'vscode';
+import { SIKGManager } from '../sikg/SIKGManager';
+import { LanguageServerEnhancer } from '../sikg/LanguageServerEnhancer';
+import { LanguageServerPassResult } from '../sikg/GraphTypes';
+import {
+    SIKGHost,
+    WorkspaceHost,
+    FileDiscovery,
+    ConfigurationSource,
+    LogSink,
+    LanguageServerHost,
+    WorkspaceFolderInfo
+} from './SIKGHost';
+
+/**
+ * Host backed by the VS Code API: the open workspace, the user's settings, the SIKG
+ * output channel and the installed language servers
+ */
+export class VSCodeHost implements SIKGHost {
+    public readonly workspace: WorkspaceHost;
+    public readonly files: FileDiscovery;
+    public readonly configuration: ConfigurationSource;
+    public readonly log: LogSink;
+    public readonly storagePath: string;
+    public readonly version: string;
+    public readonly languageServers: LanguageServerHost;
+
+    constructor(context: vscode.ExtensionContext) {
+        this.storagePath = context.globalStorageUri.fsPath;
+        this.version = context.extension?.packageJSON?.version || 'unknown';
+
+        this.workspace = {
+            getWorkspaceFolders: (): WorkspaceFolderInfo[] =>
+                (vscode.workspace.workspaceFolders || []).map(folder => ({ name: folder.name, fsPath: folder.uri.fsPath })),
+            getOpenDocumentLanguage: (filePath: string): string | undefined =>
+                vscode.workspace.textDocuments.find(doc =>
+                    doc.fileName === filePath ||
+                    doc.fileName.endsWith(filePath) ||
+                    doc.uri.fsPath === filePath
+                )?.languageId
+        };
+
+        this.files = {
+            findFiles: async (folder: WorkspaceFolderInfo, include: string, exclude: string): Promise<string[]> => {
+                const uris = await vscode.workspace.findFiles(
+                    new vscode.RelativePattern(vscode.Uri.file(folder.fsPath), include),
+                    exclude
+                );
+                return uris.map(uri => uri.fsPath);
+            }
+        };
+
+        this.configuration = {
+            get: <T>(key: string, defaultValue: T): T => vscode.workspace.getConfiguration('sikg').get<T>(key, defaultValue),
+            onDidChange: (listener: () => void): void => {
+                context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+                    if (e.affectsConfiguration('sikg')) {
+                        listener();
+                    }
+                }));
+            }
+        };
+
+        const outputChannel = vscode.window.createOutputChannel('SIKG');
+        context.subscriptions.push(outputChannel);
+        this.log = outputChannel;
+
+        this.languageServers = {
+            enhance: (sikgManager: SIKGManager, filePaths: string[], timeBudgetMs: number): Promise<LanguageServerPassResult> =>
+                new LanguageServerEnhancer(sikgManager).enhance(filePaths, timeBudgetMs)
+        };
+    }
+}
@@ -0,0 +1,253 @@
+// Coverage Import Service - Imports coverage reports produced outside of SIKG
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { SIKGManager } from '../sikg/SIKGManager';
+import { Node, TestCoverage } from '../sikg/GraphTypes';
+import { ParserUtils } from '../sikg/parser/util/ParserUtils';
+import { Logger } from '../utils/Logger';
+import { CoverageReportParser, CoverageReport } from './runner/util/CoverageReportParser';
+
+/**
+ * Imports lcov, Cobertura, coverage.py JSON and istanbul JSON reports, e.g. artifacts
+ * of CI pipelines, into the TESTS edges of the graph
+ */
+export class CoverageImportService {
+    private sikgManager: SIKGManager;
+
+    constructor(sikgManager: SIKGManager) {
+        this.sikgManager = sikgManager;
+    }
+
+    /**
+     * Import coverage reports into the graph. Per-test contexts add or strengthen
+     * TESTS edges; coverage without contexts weakens guessed edges to code no test ran.
+     * @param reportPaths Absolute paths of the reports
+     */
+    public async importReports(reportPaths: string[]): Promise<CoverageImportResult> {
+        const result: CoverageImportResult = {
+            reportsImported: 0,
+            testsMapped: 0,
+            edgesAdded: 0,
+            edgesUpdated: 0,
+            edgesWeakened: 0,
+            unmappedFiles: [],
+            unmappedContexts: [],
+            unreadableReports: []
+        };
+
+        const testNodes = this.sikgManager.getTestNodes();
+        const testFiles = new Set(testNodes.map(node => node.filePath));
+        const knownFiles = new Set([...this.sikgManager.getCodeNodes().map(node => node.filePath), ...testFiles]);
+        const testsByName = new Map<string, Node[]>();
+        for (const node of testNodes) {
+            testsByName.set(node.name, [...(testsByName.get(node.name) || []), node]);
+        }
+
+        const coverageById = new Map<string, TestCoverage>();
+        const aggregateLines: Record<string, number[]> = {};
+        const unmappedFiles = new Set<string>();
+        const unmappedContexts = new Set<string>();
+
+        for (const reportPath of reportPaths) {
+            let report: CoverageReport | null;
+            try {
+                report = CoverageReportParser.parse(fs.readFileSync(reportPath, 'utf8'));
+            } catch (error) {
+                Logger.warn(`Failed to read coverage report ${reportPath}:`, error);
+                report = null;
+            }
+
+            if (!report) {
+                result.unreadableReports.push(reportPath);
+                continue;
+            }
+
+            Logger.info(`Importing ${report.format} coverage for ${report.files.length} files from ${reportPath}`);
+            result.reportsImported++;
+
+            for (const fileCoverage of report.files) {
+                const filePath = this.resolveReportPath(fileCoverage.file, path.dirname(reportPath), report.sourceRoots, knownFiles);
+                if (!filePath) {
+                    unmappedFiles.add(fileCoverage.file);
+                    continue;
+                }
+
+                aggregateLines[filePath] = this.mergeLines(aggregateLines[filePath], fileCoverage.lines);
+
+                for (const [context, lines] of Object.entries(fileCoverage.contexts || {})) {
+                    const testNode = this.matchContext(context, testsByName);
+                    if (!testNode) {
+                        unmappedContexts.add(context);
+                        continue;
+                    }
+
+                    let coverage = coverageById.get(testNode.id);
+                    if (!coverage) {
+                        coverage = { testId: testNode.id, files: {} };
+                        coverageById.set(testNode.id, coverage);
+                    }
+                    coverage.files[filePath] = this.mergeLines(coverage.files[filePath], lines);
+                }
+            }
+        }
+
+        if (coverageById.size > 0) {
+            // A report may cover only part of the suite, so static guesses are kept
+            const mapping = await this.sikgManager.applyTestCoverage(Array.from(coverageById.values()), 'coverage-import', false);
+            result.testsMapped = mapping.testsMapped;
+            result.edgesAdded = mapping.edgesAdded;
+            result.edgesUpdated = mapping.edgesUpdated;
+        }
+
+        if (Object.keys(aggregateLines).length > 0) {
+            const mapping = await this.sikgManager.applyAggregateCoverage(aggregateLines, 'coverage-import');
+            result.edgesWeakened = mapping.edgesUpdated;
+            mapping.unmappedFiles
+                .filter(filePath => !testFiles.has(filePath))
+                .forEach(filePath => unmappedFiles.add(filePath));
+        }
+
+        result.unmappedFiles = Array.from(unmappedFiles).sort();
+        result.unmappedContexts = Array.from(unmappedContexts).sort();
+
+        Logger.info(`Coverage import finished: ${result.testsMapped} tests mapped, ${result.unmappedFiles.length} files unmapped`);
+        return result;
+    }
+
+    /**
+     * Format the files and contexts an import could not map as a Markdown report
+     */
+    public formatUnmappedReport(result: CoverageImportResult): string {
+        const lines = [
+            '# SIKG Coverage Import',
+            '',
+            `Imported ${result.reportsImported} reports. ${result.testsMapped} tests mapped, ` +
+                `${result.edgesAdded} edges added, ${result.edgesUpdated} strengthened, ${result.edgesWeakened} weakened.`,
+            ''
+        ];
+
+        if (result.unmappedFiles.length > 0) {
+            lines.push(
+                '## Unmapped files',
+                '',
+                'These files are outside the workspace or have no code elements in the knowledge graph:',
+                '',
+                ...result.unmappedFiles.map(file => `- \`${file}\``),
+                ''
+            );
+        }
+
+        if (result.unmappedContexts.length > 0) {
+            lines.push(
+                '## Unmapped test contexts',
+                '',
+                'These test contexts did not match a single test in the knowledge graph:',
+                '',
+                ...result.unmappedContexts.map(context => `- \`${context}\``),
+                ''
+            );
+        }
+
+        if (result.unreadableReports.length > 0) {
+            lines.push(
+                '## Unreadable reports',
+                '',
+                ...result.unreadableReports.map(report => `- \`${report}\``),
+                ''
+            );
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Resolve a file name from a report to a workspace-relative path. Relative names are
+     * tried against the report's source roots, the report directory and the workspace;
+     * absolute paths from other machines (e.g. CI runners) are matched by path suffix.
+     * @returns The workspace-relative path, or null if the file is not in the workspace
+     */
+    private resolveReportPath(file: string, reportDir: string, sourceRoots: string[], knownFiles: Set<string>): string | null {
+        const candidates = path.isAbsolute(file)
+            ? [file]
+            : [
+                ...sourceRoots.map(root => path.resolve(reportDir, root, file)),
+                path.resolve(reportDir, file),
+                ParserUtils.resolveWorkspacePath(file)
+            ];
+
+        for (const candidate of candidates) {
+            const relativePath = ParserUtils.getWorkspaceRelativePath(candidate);
+            if (knownFiles.has(relativePath)) {
+                return relativePath;
+            }
+        }
+
+        // Prefer the longest graph path that the report path ends with
+        const normalized = file.replace(/\\/g, '/');
+        let bestMatch: string | null = null;
+        for (const knownFile of knownFiles) {
+            if ((normalized.endsWith(`/${knownFile}`) || knownFile.endsWith(`/${normalized}`)) &&
+                (!bestMatch || knownFile.length > bestMatch.length)) {
+                bestMatch = knownFile;
+            }
+        }
+        if (bestMatch) {
+            return bestMatch;
+        }
+
+        // Files that exist in the workspace but are not in the graph are still reported
+        for (const candidate of candidates) {
+            const relativePath = ParserUtils.getWorkspaceRelativePath(candidate);
+            if (!path.isAbsolute(relativePath) && fs.existsSync(candidate)) {
+                return relativePath;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Find the test node a coverage context refers to
+     */
+    private matchContext(context: string, testsByName: Map<string, Node[]>): Node | undefined {
+        const testFile = CoverageReportParser.getContextTestFile(context)?.replace(/\\/g, '/');
+
+        for (const name of CoverageReportParser.getContextTestNames(context)) {
+            const nodes = testsByName.get(name);
+            if (!nodes || nodes.length === 0) {
+                continue;
+            }
+            if (nodes.length === 1) {
+                return nodes[0];
+            }
+            if (testFile) {
+                return nodes.find(node => node.filePath.endsWith(testFile) || testFile.endsWith(node.filePath));
+            }
+            return undefined;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Merge two sorted lists of line numbers
+     */
+    private mergeLines(existing: number[] | undefined, lines: number[]): number[] {
+        return Array.from(new Set([...(existing || []), ...lines])).sort((a, b) => a - b);
+    }
+}
+
+/**
+ * Summary of a coverage import
+ */
+export interface CoverageImportResult {
+    reportsImported: number;
+    testsMapped: number;
+    edgesAdded: number;
+    edgesUpdated: number;
+    edgesWeakened: number;
+    unmappedFiles: string[];
+    unmappedContexts: string[];
+    unreadableReports: string[];
+}
@@ -1,50 +1,112 @@
 // Git Service - Interface with Git repository
 
-import * as vscode from 'vscode';
+import * as path from 'path';
 import { execSync } from 'child_process';
 import { Logger } from '../utils/Logger';
+import { ParserUtils } from '../sikg/parser/util/ParserUtils';
+import { Host } from '../host/SIKGHost';
 
 export class GitService {
+    private repositoryRoots: Map<string, string | null> = new Map();
+    private scope: DiffScope = { kind: 'workingTree' };
+
+    /**
+     * Set which changes getChanges and getDiffDetails report
+     * @throws Error if a commit of the scope is not a plain Git revision
+     */
+    public setScope(scope: DiffScope): void {
+        const revisions = scope.kind === 'commit' ? [scope.commit]
+            : scope.kind === 'range' ? [scope.base, scope.head]
+            : scope.kind === 'mergeBase' ? [scope.base]
+            : [];
+        for (const revision of revisions) {
+            // Revisions end up on a command line
+            if (!/^[\w./~^@{}-]+$/.test(revision) || revision.startsWith('-')) {
+                throw new Error(`Invalid Git revision: ${revision}`);
+            }
+        }
+        this.scope = scope;
+    }
+
+    /**
+     * Get the scope set with setScope
+     */
+    public getScope(): DiffScope {
+        return this.scope;
+    }
+
+    /**
+     * Describe a scope for messages, e.g. "staged changes" or "main..feature"
+     */
+    public static describeScope(scope: DiffScope): string {
+        switch (scope.kind) {
+            case 'workingTree':
+                return 'uncommitted changes';
+            case 'staged':
+                return 'staged changes';
+            case 'commit':
+                return `commit ${scope.commit}`;
+            case 'range':
+                return `${scope.base}..${scope.head}`;
+            case 'mergeBase':
+                return `changes since branching from ${scope.base}`;
+        }
+    }
+
     /**
-     * Get uncommitted changes from Git
+     * Get the changes of the current scope
+     * @returns Changes with workspace-relative paths, qualified with the folder name in multi-root workspaces
+     */
+    public async getChanges(): Promise<FileChange[]> {
+        return this.scope.kind === 'workingTree'
+            ? this.getUncommittedChanges()
+            : this.getScopeChanges();
+    }
+
+    /**
+     * Get uncommitted changes from Git in every workspace folder
+     * @returns Changes with workspace-relative paths, qualified with the folder name in multi-root workspaces
      */
     public async getUncommittedChanges(): Promise<FileChange[]> {
         try {
-            // Use Git API from VS Code if available
-            const changes: FileChange[] = [];
+            const changes = new Map<string, FileChange>();
             
-            if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-                const workspaceFolder = vscode.workspace.workspaceFolders[0].uri.fsPath;
+            for (const folder of Host.get().workspace.getWorkspaceFolders()) {
+                const workspaceFolder = folder.fsPath;
+                const repositoryRoot = this.getRepositoryRoot(workspaceFolder);
+                if (!repositoryRoot) {
+                    Logger.warn(`Workspace folder ${folder.name} is not in a Git repository, skipping it`);
+                    continue;
+                }
                 
-                // Git status command
-                const gitStatusOutput = this.runGitCommand('git status --porcelain', workspaceFolder);
+                // Git status command, limited to the folder; paths are relative to the repository root.
+                // Files in untracked folders are listed one by one instead of as the folder.
+                const gitStatusOutput = this.runGitCommand('git status --porcelain -uall -- .', workspaceFolder);
                 const lines = gitStatusOutput.split('\n').filter(line => line.trim().length > 0);
                 
                 for (const line of lines) {
                     const status = line.substring(0, 2).trim();
-                    const filePath = line.substring(3).trim();
-                    
-                    // Skip untracked files
-                    if (status === '??') {
-                        continue;
-                    }
+                    // Renames are reported as "old -> new"; the file lives on under its new path
+                    const repositoryPath = line.substring(3).trim().split(' -> ').pop()!;
                     
-                    // Determine change type
+                    // Determine change type; untracked files are new files too
                     let changeType: 'add' | 'modify' | 'delete' = 'modify';
-                    if (status.includes('A')) {
+                    if (status.includes('A') || status === '??') {
                         changeType = 'add';
                     } else if (status.includes('D')) {
                         changeType = 'delete';
                     }
                     
-                    changes.push({
+                    // Nested workspace folders report the same file more than once
+                    const filePath = ParserUtils.getWorkspaceRelativePath(path.join(repositoryRoot, repositoryPath));
+                    changes.set(filePath, {
                         filePath,
                         changeType
                     });
                 }
             }
             
-            return changes;
+            return Array.from(changes.values());
         } catch (error) {
             Logger.error('Error getting uncommitted changes:', error);
             return [];
@@ -52,18 +114,155 @@ export class GitService {
     }
 
     /**
-     * Get diff details for a file
+     * Get the changes of a scope other than the working tree in every workspace folder,
+     * or only in the folder of a commit scope that names one
+     * @throws Error if a revision of the scope does not exist in a folder's repository
+     */
+    private async getScopeChanges(): Promise<FileChange[]> {
+        const changes = new Map<string, FileChange>();
+
+        for (const folder of Host.get().workspace.getWorkspaceFolders()) {
+            const workspaceFolder = folder.fsPath;
+            if (this.scope.kind === 'commit' && this.scope.folder && path.resolve(this.scope.folder) !== path.resolve(workspaceFolder)) {
+                // A commit exists only in the repository it was picked from
+                continue;
+            }
+            const repositoryRoot = this.getRepositoryRoot(workspaceFolder);
+            if (!repositoryRoot) {
+                Logger.warn(`Workspace folder ${folder.name} is not in a Git repository, skipping it`);
+                continue;
+            }
+
+            // Lines look like "M\tpath" or "R087\told/path\tnew/path", with paths relative to the repository root
+            const revisions = this.getDiffRevisions(workspaceFolder);
+            const gitDiffOutput = this.runGitCommand(`git diff -M --name-status ${revisions} -- .`, workspaceFolder);
+            for (const line of gitDiffOutput.split('\n')) {
+                const [status, ...paths] = line.split('\t');
+                if (!status || paths.length === 0) {
+                    continue;
+                }
+
+                // Renamed and copied files live on under their new path
+                let changeType: 'add' | 'modify' | 'delete' = 'modify';
+                if (status.startsWith('A') || status.startsWith('C')) {
+                    changeType = 'add';
+                } else if (status.startsWith('D')) {
+                    changeType = 'delete';
+                }
+
+                const filePath = ParserUtils.getWorkspaceRelativePath(path.join(repositoryRoot, paths[paths.length - 1]));
+                changes.set(filePath, { filePath, changeType });
+            }
+
+            // Scopes that end at the working tree include files not yet added to Git
+            if (this.scope.kind === 'mergeBase') {
+                const untrackedOutput = this.runGitCommand('git ls-files --others --exclude-standard --full-name -- .', workspaceFolder);
+                for (const repositoryPath of untrackedOutput.split('\n').filter(line => line.length > 0)) {
+                    const filePath = ParserUtils.getWorkspaceRelativePath(path.join(repositoryRoot, repositoryPath));
+                    changes.set(filePath, { filePath, changeType: 'add' });
+                }
+            }
+        }
+
+        return Array.from(changes.values());
+    }
+
+    /**
+     * Get recent commits of the repository containing a workspace folder, newest first
+     */
+    public getRecentCommits(workspaceFolder: string, limit: number): CommitInfo[] {
+        try {
+            const output = this.runGitCommand(`git log -n ${limit} --format=%h%x09%an%x09%ar%x09%s`, workspaceFolder);
+            return output.split('\n')
+                .filter(line => line.length > 0)
+                .map(line => {
+                    const [hash, author, date, ...subject] = line.split('\t');
+                    return { hash, author, date, subject: subject.join('\t') };
+                });
+        } catch (error) {
+            // Repositories without commits have no history
+            return [];
+        }
+    }
+
+    /**
+     * Get the files renamed or moved since the last commit, staged or not. Git only detects
+     * moves whose new path is added to the index; files moved to a path not yet added are
+     * paired with a deleted file of the same content.
+     * @returns New path by old path, both workspace-relative and qualified with the folder name in multi-root workspaces
+     */
+    public async getRenamedFiles(): Promise<Map<string, string>> {
+        const renamedFiles = new Map<string, string>();
+
+        for (const folder of Host.get().workspace.getWorkspaceFolders()) {
+            const workspaceFolder = folder.fsPath;
+            const repositoryRoot = this.getRepositoryRoot(workspaceFolder);
+            if (!repositoryRoot) {
+                continue;
+            }
+
+            try {
+                const addRename = (oldPath: string, newPath: string) => renamedFiles.set(
+                    ParserUtils.getWorkspaceRelativePath(path.join(repositoryRoot, oldPath)),
+                    ParserUtils.getWorkspaceRelativePath(path.join(repositoryRoot, newPath))
+                );
+
+                // Lines look like ":100644 100644 <old blob> <new blob> R087\told/path\tnew/path"
+                // or ":100644 000000 <old blob> <new blob> D\tpath", with paths relative to the repository root
+                const deletedPaths = new Map<string, string>();
+                const gitDiffOutput = this.runGitCommand('git diff -M --raw --no-abbrev HEAD -- .', workspaceFolder);
+                for (const line of gitDiffOutput.split('\n')) {
+                    const [info, oldPath, newPath] = line.split('\t');
+                    const [, , oldBlob, , status] = (info || '').split(' ');
+                    if (status?.startsWith('R') && oldPath && newPath) {
+                        addRename(oldPath, newPath);
+                    } else if (status === 'D' && oldPath) {
+                        deletedPaths.set(oldBlob, oldPath);
+                    }
+                }
+
+                const untrackedPaths = deletedPaths.size > 0
+                    ? this.runGitCommand('git ls-files --others --exclude-standard --full-name -- .', workspaceFolder)
+                        .split('\n')
+                        .filter(line => line.length > 0)
+                    : [];
+                if (untrackedPaths.length > 0) {
+                    // Hashes come back one per line, in the order of the paths
+                    const blobs = execSync('git hash-object --stdin-paths', { cwd: repositoryRoot, input: untrackedPaths.join('\n'), stdio: ['pipe', 'pipe', 'ignore'] })
+                        .toString()
+                        .split('\n');
+                    untrackedPaths.forEach((newPath, index) => {
+                        const oldPath = deletedPaths.get(blobs[index]);
+                        if (oldPath) {
+                            addRename(oldPath, newPath);
+                            deletedPaths.delete(blobs[index]);
+                        }
+                    });
+                }
+            } catch (error) {
+                // Repositories without commits have nothing to compare against
+                Logger.debug(`Could not detect renamed files in ${folder.name}`);
+            }
+        }
+
+        return renamedFiles;
+    }
+
+    /**
+     * Get diff details for a file within the current scope
+     * @param filePath Workspace-relative or absolute path of the file
      */
     public async getDiffDetails(filePath: string): Promise<DiffDetail | null> {
         try {
-            if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+            const absolutePath = ParserUtils.resolveWorkspacePath(filePath);
+            const workspaceFolder = ParserUtils.getWorkspaceFolder(absolutePath);
+            if (!workspaceFolder) {
                 return null;
             }
             
-            const workspaceFolder = vscode.workspace.workspaceFolders[0].uri.fsPath;
-            
-            // Git diff command
-            const gitDiffOutput = this.runGitCommand(`git diff -- "${filePath}"`, workspaceFolder);
+            // Git diff command, run in the folder so that its own repository is used
+            const revisions = this.getDiffRevisions(workspaceFolder.fsPath);
+            const gitDiffOutput = this.runGitCommand(`git diff ${revisions} -- "${absolutePath}"`, workspaceFolder.fsPath);
             
             return this.parseDiff(gitDiffOutput);
         } catch (error) {
@@ -72,6 +271,146 @@ export class GitService {
         }
     }
 
+    /**
+     * Get the content a file had before the changes of the current scope
+     * @param filePath Workspace-relative or absolute path of the file
+     * @returns The earlier content, or null if the file did not exist on the older side
+     */
+    public async getOriginalContent(filePath: string): Promise<string | null> {
+        try {
+            const absolutePath = ParserUtils.resolveWorkspacePath(filePath);
+            const workspaceFolder = ParserUtils.getWorkspaceFolder(absolutePath);
+            const repositoryRoot = workspaceFolder ? this.getRepositoryRoot(workspaceFolder.fsPath) : null;
+            const revision = workspaceFolder && repositoryRoot ? this.getBaseRevision(workspaceFolder.fsPath) : null;
+            if (!workspaceFolder || !repositoryRoot || !revision) {
+                return null;
+            }
+
+            // git show takes paths relative to the repository root
+            const repositoryPath = path.relative(repositoryRoot, absolutePath).replace(/\\/g, '/');
+            return execSync(`git show "${revision}:${repositoryPath}"`, { cwd: workspaceFolder.fsPath, stdio: ['ignore', 'pipe', 'ignore'] })
+                .toString();
+        } catch (error) {
+            // Added files, and files renamed since the older side, have no content under this path there
+            Logger.debug(`No earlier version of ${filePath} found`);
+            return null;
+        }
+    }
+
+    /**
+     * Get the arguments that make `git diff` compare the two sides of the current scope
+     * @throws Error if the merge-base of a mergeBase scope cannot be found
+     */
+    private getDiffRevisions(workspaceFolder: string): string {
+        switch (this.scope.kind) {
+            case 'workingTree':
+                // Staged and unstaged edits; repositories without commits have only unstaged ones
+                return this.hasCommits(workspaceFolder) ? 'HEAD' : '';
+            case 'staged':
+                return '--cached';
+            case 'commit':
+                // Merge commits are compared with their first parent, root commits with the empty tree
+                return this.hasParent(this.scope.commit, workspaceFolder)
+                    ? `${this.scope.commit}^ ${this.scope.commit}`
+                    : `${this.getEmptyTree(workspaceFolder)} ${this.scope.commit}`;
+            case 'range':
+                return `${this.scope.base} ${this.scope.head}`;
+            case 'mergeBase':
+                // Compared with the working tree, so edits not yet committed are included
+                return this.getMergeBase(this.scope.base, workspaceFolder);
+        }
+    }
+
+    /**
+     * Get the revision the older side of the current scope is read from
+     * @returns The revision, or null if the repository has no commits to compare with
+     * @throws Error if the merge-base of a mergeBase scope cannot be found
+     */
+    private getBaseRevision(workspaceFolder: string): string | null {
+        switch (this.scope.kind) {
+            case 'workingTree':
+            case 'staged':
+                return this.hasCommits(workspaceFolder) ? 'HEAD' : null;
+            case 'commit':
+                // Everything in a root commit is new
+                return this.hasParent(this.scope.commit, workspaceFolder) ? `${this.scope.commit}^` : null;
+            case 'range':
+                return this.scope.base;
+            case 'mergeBase':
+                return this.getMergeBase(this.scope.base, workspaceFolder);
+        }
+    }
+
+    /**
+     * Get the commit where HEAD branched from a revision
+     * @throws Error if the two have no common ancestor
+     */
+    private getMergeBase(base: string, workspaceFolder: string): string {
+        try {
+            return execSync(`git merge-base ${base} HEAD`, { cwd: workspaceFolder, stdio: ['ignore', 'pipe', 'ignore'] })
+                .toString()
+                .trim();
+        } catch (error) {
+            throw new Error(`No common ancestor of ${base} and HEAD found in ${workspaceFolder}`);
+        }
+    }
+
+    /**
+     * Check if a commit has a parent, i.e. is not the root commit of its history
+     */
+    private hasParent(commit: string, workspaceFolder: string): boolean {
+        try {
+            execSync(`git rev-parse --verify -q ${commit}^`, { cwd: workspaceFolder, stdio: 'ignore' });
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Get the ID of the empty tree, which root commits are compared with
+     */
+    private getEmptyTree(workspaceFolder: string): string {
+        // Hashing empty input instead of /dev/null also works on Windows
+        return execSync('git hash-object -t tree --stdin', { cwd: workspaceFolder, input: '', stdio: ['pipe', 'pipe', 'ignore'] })
+            .toString()
+            .trim();
+    }
+
+    /**
+     * Check if the repository containing a workspace folder has a commit checked out
+     */
+    private hasCommits(workspaceFolder: string): boolean {
+        try {
+            execSync('git rev-parse --verify -q HEAD', { cwd: workspaceFolder, stdio: 'ignore' });
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Get the root of the Git repository that contains a workspace folder
+     * @returns The repository root, or null if the folder is not in a repository
+     */
+    public getRepositoryRoot(workspaceFolder: string): string | null {
+        if (!this.repositoryRoots.has(workspaceFolder)) {
+            let repositoryRoot: string | null = null;
+            try {
+                repositoryRoot = path.resolve(
+                    execSync('git rev-parse --show-toplevel', { cwd: workspaceFolder, stdio: ['ignore', 'pipe', 'ignore'] })
+                        .toString()
+                        .trim()
+                );
+            } catch (error) {
+                Logger.debug(`No Git repository found for ${workspaceFolder}`);
+            }
+            this.repositoryRoots.set(workspaceFolder, repositoryRoot);
+        }
+        
+        return this.repositoryRoots.get(workspaceFolder) || null;
+    }
+
     /**
      * Parse Git diff output
      */
@@ -88,18 +427,21 @@ export class GitService {
         };
         
         // Split diff output into hunks
-        const hunkPattern = /@@ -(\d+),(\d+) \+(\d+),(\d+) @@/g;
+        // Counts of one line are left out, as in "@@ -6 +6 @@"
+        const hunkPattern = /@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/g;
         let match;
         let currentPosition = 0;
         
         while ((match = hunkPattern.exec(diffOutput)) !== null) {
             const oldStart = parseInt(match[1], 10);
-            const oldLines = parseInt(match[2], 10);
+            const oldLines = match[2] !== undefined ? parseInt(match[2], 10) : 1;
             const newStart = parseInt(match[3], 10);
-            const newLines = parseInt(match[4], 10);
+            const newLines = match[4] !== undefined ? parseInt(match[4], 10) : 1;
             
-            // Extract hunk content
-            const hunkHeaderEnd = match.index + match[0].length;
+            // Extract hunk content, which starts on the next line: the header may end with
+            // the enclosing function, e.g. "@@ -3,4 +3,4 @@ def add(a, b):"
+            const headerLineEnd = diffOutput.indexOf('\n', match.index);
+            const hunkHeaderEnd = headerLineEnd !== -1 ? headerLineEnd + 1 : diffOutput.length;
             const nextHunkStart = hunkPattern.lastIndex;
             
             // Find the end of the current hunk
@@ -166,6 +508,27 @@ export class GitService {
     }
 }
 
+/**
+ * Which changes are analyzed. Changed lines are matched against the checked-out files,
+ * so scopes whose newer side is not the working tree should have it checked out.
+ */
+export type DiffScope =
+    | { kind: 'workingTree' }                             // Staged and unstaged edits, and untracked files
+    | { kind: 'staged' }                                  // Edits staged for the next commit
+    | { kind: 'commit'; commit: string; folder?: string } // One commit, compared with its parent; only in the repository of folder if given
+    | { kind: 'range'; base: string; head: string }       // base..head
+    | { kind: 'mergeBase'; base: string };                // Everything since the branch left base, uncommitted edits and untracked files included
+
+/**
+ * A commit as listed for choosing one
+ */
+export interface CommitInfo {
+    hash: string;                     // Abbreviated commit hash
+    author: string;
+    date: string;                     // Relative date, e.g. "2 days ago"
+    subject: string;
+}
+
 export interface FileChange {
     filePath: string;
     changeType: 'add' | 'modify' | 'delete';
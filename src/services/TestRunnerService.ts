@@ -3,16 +3,48 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { TestImpact, TestResult } from '../sikg/GraphTypes';
+import { Node, TestImpact, TestResult, TestCoverage } from '../sikg/GraphTypes';
 import { Logger } from '../utils/Logger';
+import { TestRunnerBase, RunnableTest } from './runner/TestRunnerBase';
+import { PythonTestRunner } from './runner/language/PythonTestRunner';
+import { JavaScriptTestRunner } from './runner/language/JavaScriptTestRunner';
+import { GoTestRunner } from './runner/language/GoTestRunner';
+import { JavaTestRunner } from './runner/language/JavaTestRunner';
+import { DotNetTestRunner } from './runner/language/DotNetTestRunner';
+import { TestReportParser, ReportedTestCase } from './runner/util/TestReportParser';
+import { ReportedTestMatcher } from './runner/util/ReportedTestMatcher';
+
+// Report files looked for after a test task that has no entry in sikg.testTaskReports
+const DEFAULT_TASK_REPORT_PATTERNS = [
+    '**/junit*.xml',
+    '**/test-results*.xml',
+    '**/TEST-*.xml',
+    '**/*.trx',
+    '**/test-report*.json',
+    '**/go-test*.json'
+];
 
 export class TestRunnerService {
+    private runners: TestRunnerBase[] = [];
+    private taskStartTimes: Map<vscode.TaskExecution, number> = new Map();
+
+    constructor() {
+        this.registerRunner(new PythonTestRunner());
+        this.registerRunner(new JavaScriptTestRunner());
+        this.registerRunner(new GoTestRunner());
+        this.registerRunner(new JavaTestRunner());
+        this.registerRunner(new DotNetTestRunner());
+    }
+
     /**
      * Run prioritized tests based on impact scores
+     * @param token Stops the running test command and skips the remaining test files
+     * @returns Results of the test files that ran to completion
      */
     public async runPrioritizedTests(
         testImpacts: Record<string, TestImpact>,
-        topN?: number
+        topN?: number,
+        token?: vscode.CancellationToken
     ): Promise<TestResult[]> {
         Logger.info(`Running prioritized tests, top ${topN || 'all'}`);
         
@@ -48,18 +80,26 @@ export class TestRunnerService {
         const allResults: TestResult[] = [];
         
         for (const [filePath, tests] of Object.entries(testsByFile)) {
+            if (token?.isCancellationRequested) {
+                Logger.info('Test run cancelled');
+                break;
+            }
+            
             try {
-                // Prepare test execution based on file type
-                const fileExt = path.extname(filePath).toLowerCase();
-                let testResults: TestResult[];
-                
-                if (fileExt === '.py') {
-                    // JavaScript/TypeScript tests (Jest, Mocha, etc.)
-                    testResults = await this.runPythonTests(filePath, tests, testImpacts);
-                } else {
+                // Pick the runner backend based on the file type
+                const runner = this.getRunnerForFile(filePath);
+                if (!runner) {
+                    Logger.warn(`No test runner available for ${filePath}, skipping ${tests.length} tests`);
                     continue;
                 }
                 
+                const testResults = await runner.runTests(filePath, tests, testImpacts, token);
+                
+                // Tests of a stopped test command did not fail, they did not finish
+                if (token?.isCancellationRequested) {
+                    Logger.info(`Test run cancelled while running ${filePath}`);
+                    break;
+                }
                 allResults.push(...testResults);
                 
             } catch (error) {
@@ -84,173 +124,177 @@ export class TestRunnerService {
     }
 
     /**
-     * Parse test results from a task execution
+     * Run tests under coverage and collect the lines each test executed
+     * @param testNodes Test nodes to run
+     * @param onProgress Called before each test file with a progress message
+     * @param token Cancels the remaining test files
+     * @returns Coverage per test, plus errors of files that could not be covered
      */
-    public async parseTestResults(taskExecution: vscode.TaskExecution): Promise<TestResult[] | null> {
-        // This is simplified - in a real extension, parse specific test runner output
-        return null;
+    public async collectCoverage(
+        testNodes: Node[],
+        onProgress?: (message: string, increment: number) => void,
+        token?: vscode.CancellationToken
+    ): Promise<{ coverage: TestCoverage[]; errors: string[] }> {
+        const testsByFile: Record<string, RunnableTest[]> = {};
+        for (const node of testNodes) {
+            (testsByFile[node.filePath] = testsByFile[node.filePath] || []).push({
+                testId: node.id,
+                testName: node.name
+            });
+        }
+
+        const coverage: TestCoverage[] = [];
+        const errors: string[] = [];
+        const unsupportedFiles: string[] = [];
+        const files = Object.keys(testsByFile);
+
+        for (const filePath of files) {
+            if (token?.isCancellationRequested) {
+                Logger.info('Coverage collection cancelled');
+                break;
+            }
+
+            onProgress?.(filePath, 100 / files.length);
+
+            const runner = this.getRunnerForFile(filePath);
+            if (!runner) {
+                unsupportedFiles.push(filePath);
+                continue;
+            }
+
+            try {
+                const fileCoverage = await runner.collectCoverage(filePath, testsByFile[filePath]);
+                if (fileCoverage) {
+                    coverage.push(...fileCoverage);
+                } else {
+                    unsupportedFiles.push(filePath);
+                }
+            } catch (error) {
+                Logger.error(`Error collecting coverage for ${filePath}:`, error);
+                errors.push(`${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        if (unsupportedFiles.length > 0) {
+            Logger.info(`Coverage collection is not supported for ${unsupportedFiles.length} test files, e.g. ${unsupportedFiles[0]}`);
+        }
+
+        return { coverage, errors };
     }
 
+    /**
+     * Remember when a task started, so only reports written by that task are read
+     */
+    public trackTaskStart(taskExecution: vscode.TaskExecution): void {
+        this.taskStartTimes.set(taskExecution, Date.now());
+    }
 
     /**
-     * Run Python tests using pytest or unittest
+     * Parse test results from the reports written by a finished test task
+     * @param taskExecution The finished task
+     * @param testNodes Test nodes of the graph that results are mapped to
+     * @param testImpacts Latest impact scores, used to annotate the results for learning
+     * @returns Results for all reported tests found in the graph, or null if no report was found
      */
-    private async runPythonTests(
-        filePath: string,
-        tests: { testId: string; testName: string }[],
+    public async parseTestResults(
+        taskExecution: vscode.TaskExecution,
+        testNodes: Node[],
         testImpacts: Record<string, TestImpact>
-    ): Promise<TestResult[]> {
-        Logger.info(`Running Python tests in ${filePath}`);
-        
-        try {
-            // Determine if we should use pytest or unittest
-            const isPytest = filePath.includes('test_') || filePath.includes('_test');
-            const content = fs.readFileSync(filePath, 'utf8');
-            const isUnittest = content.includes('import unittest') || content.includes('unittest.TestCase');
-            
-            // Prepare the results array
-            const results: TestResult[] = [];
-            
-            // Handle actual test execution - for a real extension, you would run the actual tests
-            // Here we're simulating execution for demonstration purposes
-            
-            for (const test of tests) {
-                // Get the test name in the expected format (TestClass.test_method or test_function)
-                const testName = test.testName;
-                const predictedImpact = testImpacts[test.testId]?.impactScore || 0;
-                const changedNodeIds = testImpacts[test.testId]?.contributingChanges.map(c => c.nodeId) || [];
-                
-                // Execute the test (simulated)
-                // In a real implementation, you would use child_process.exec to run pytest or unittest
-                // For example: pytest file::TestClass::test_method -v
-                
-                // Create a terminal command (though we won't execute it in this demonstration)
-                let command = '';
-                if (isPytest) {
-                    command = `pytest ${filePath}::${testName} -v`;
-                } else if (isUnittest) {
-                    // Check if testName includes the class name
-                    if (testName.includes('.')) {
-                        const [className, methodName] = testName.split('.');
-                        command = `python -m unittest ${filePath.replace(/\.py$/, '')}.${className}.${methodName}`;
-                    } else {
-                        command = `python -m unittest ${filePath.replace(/\.py$/, '')}.${testName}`;
-                    }
-                } else {
-                    command = `python ${filePath} ${testName}`;
-                }
-                
-                Logger.debug(`Test command (simulated): ${command}`);
-                
-                // Simulate success/failure based on impact score
-                // In a real implementation, you would parse the actual test results
-                const passProbability = 1 - Math.min(0.8, predictedImpact);
-                const passed = Math.random() > passProbability;
-                
-                // Simulate execution time (random value for demonstration)
-                const executionTime = Math.random() * 1000 + 100;
-                
-                results.push({
-                    testId: test.testId,
-                    status: passed ? 'passed' : 'failed',
-                    executionTime,
-                    predictedImpact,
-                    changedNodeIds,
-                    timestamp: new Date().toISOString()
-                });
+    ): Promise<TestResult[] | null> {
+        const task = taskExecution.task;
+        const startTime = this.taskStartTimes.get(taskExecution) ??
+            Date.now() - vscode.workspace.getConfiguration('sikg').get<number>('testTimeout', 300) * 1000;
+        this.taskStartTimes.delete(taskExecution);
+
+        const reportFiles = await this.findTaskReports(task, startTime);
+        if (reportFiles.length === 0) {
+            Logger.debug(`No test report found for task "${task.name}". Configure one in sikg.testTaskReports.`);
+            return null;
+        }
+
+        const matcher = new ReportedTestMatcher(testNodes, testImpacts);
+
+        for (const reportFile of reportFiles) {
+            let testCases: ReportedTestCase[];
+            try {
+                testCases = TestReportParser.parse(fs.readFileSync(reportFile, 'utf8'));
+            } catch (error) {
+                Logger.warn(`Failed to read test report ${reportFile}:`, error);
+                continue;
             }
-            
-            // In a real implementation, you would parse the output from the test runner
-            // and create TestResult objects based on the actual results
-            
-            return results;
-            
-        } catch (error) {
-            Logger.error(`Error running Python tests in ${filePath}:`, error);
-            
-            // Return failed results
-            return tests.map(test => ({
-                testId: test.testId,
-                status: 'failed' as const,
-                executionTime: 0,
-                predictedImpact: testImpacts[test.testId]?.impactScore,
-                changedNodeIds: testImpacts[test.testId]?.contributingChanges.map(c => c.nodeId),
-                errorMessage: `Failed to run test: ${error instanceof Error ? error.message : String(error)}`,
-                timestamp: new Date().toISOString()
-            }));
+
+            Logger.debug(`Read ${testCases.length} test results from ${reportFile}`);
+            matcher.addTestCases(testCases);
         }
+
+        const results = matcher.getResults();
+        Logger.info(`Mapped ${results.length} results from task "${task.name}" to SIKG tests`);
+        return results.length > 0 ? results : null;
     }
 
-/**
- * In a real implementation, this method would launch the actual Python test via child_process.exec
- * and parse the results.
- */
-    private async executePythonTest(command: string): Promise<{passed: boolean, output: string, executionTime: number}> {
-        // This is a placeholder/mock implementation
-        // In a real extension, you would use child_process.exec to run the test
-        
-        return new Promise((resolve) => {
-            // Simulate test execution time
-            const startTime = Date.now();
-            setTimeout(() => {
-                const executionTime = Date.now() - startTime;
-                const passed = Math.random() > 0.3; // 70% pass rate for simulation
-                
-                let output = '';
-                if (passed) {
-                    output = `Test passed in ${executionTime}ms`;
-                } else {
-                    output = `Test failed: AssertionError: Expected value not received`;
-                }
-                
-                resolve({
-                    passed,
-                    output,
-                    executionTime
-                });
-            }, Math.random() * 300 + 50); // Random delay between 50-350ms
+    /**
+     * Find the report files a test task wrote since it started
+     */
+    private async findTaskReports(task: vscode.Task, startTime: number): Promise<string[]> {
+        const configured = vscode.workspace.getConfiguration('sikg').get<Record<string, string>>('testTaskReports', {});
+        const configuredPattern = configured[task.name] || configured['*'];
+        const patterns = configuredPattern ? [configuredPattern] : DEFAULT_TASK_REPORT_PATTERNS;
+
+        const folders = task.scope && typeof task.scope === 'object'
+            ? [task.scope]
+            : vscode.workspace.workspaceFolders || [];
+
+        const reportFiles = new Set<string>();
+
+        for (const pattern of patterns) {
+            if (path.isAbsolute(pattern)) {
+                reportFiles.add(pattern);
+                continue;
+            }
+
+            for (const folder of folders) {
+                const uris = await vscode.workspace.findFiles(
+                    new vscode.RelativePattern(folder, pattern),
+                    '**/node_modules/**',
+                    50
+                );
+                uris.forEach(uri => reportFiles.add(uri.fsPath));
+            }
+        }
+
+        return Array.from(reportFiles).filter(reportFile => {
+            try {
+                // Allow for coarse file system timestamps
+                return fs.statSync(reportFile).mtimeMs >= startTime - 1000;
+            } catch (error) {
+                return false;
+            }
         });
     }
 
     /**
-     * Run generic tests using VS Code Test API
+     * Get the runner backend for a test file
      */
-    private async runGenericTests(
-        filePath: string,
-        tests: { testId: string; testName: string }[],
-        testImpacts: Record<string, TestImpact>
-    ): Promise<TestResult[]> {
-        // Use VS Code Test API
-        return this.simulateTestResults(tests, testImpacts);
+    private getRunnerForFile(filePath: string): TestRunnerBase | undefined {
+        return this.runners.find(runner => runner.canHandle(filePath));
     }
 
     /**
-     * Helper method to simulate test results (for demonstration only)
+     * Register a runner backend with the service
      */
-    private simulateTestResults(
-        tests: { testId: string; testName: string }[],
-        testImpacts: Record<string, TestImpact>
-    ): TestResult[] {
-        const results: TestResult[] = [];
-        
-        for (const test of tests) {
-            const predictedImpact = testImpacts[test.testId]?.impactScore || 0;
-            const changedNodeIds = testImpacts[test.testId]?.contributingChanges.map(c => c.nodeId) || [];
-            
-            // Higher impact scores more likely to fail (for simulation only)
-            const passProbability = 1 - Math.min(0.8, predictedImpact);
-            const passed = Math.random() > passProbability;
-            
-            results.push({
-                testId: test.testId,
-                status: passed ? 'passed' : 'failed',
-                executionTime: Math.random() * 1000 + 100, // Random execution time for simulation
-                predictedImpact,
-                changedNodeIds,
-                timestamp: new Date().toISOString()
-            });
+    private registerRunner(runner: TestRunnerBase): void {
+        this.runners.push(runner);
+        Logger.debug(`Registered test runner for language: ${runner.getLanguage()}`);
+    }
+
+    /**
+     * Clean up resources used by the runner backends
+     */
+    public dispose(): void {
+        for (const runner of this.runners) {
+            runner.dispose();
         }
-        
-        return results;
+        this.runners = [];
+        this.taskStartTimes.clear();
     }
-}
\ No newline at end of file
+}
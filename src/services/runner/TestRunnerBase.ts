@@ -0,0 +1,338 @@
+// TestRunnerBase.ts - Abstract base class for test runner backends
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as child_process from 'child_process';
+import { TestImpact, TestResult, TestCoverage } from '../../sikg/GraphTypes';
+import { Logger } from '../../utils/Logger';
+import { ParserUtils } from '../../sikg/parser/util/ParserUtils';
+
+/**
+ * Abstract base class for all test runner backends
+ */
+export abstract class TestRunnerBase {
+    /**
+     * Run the selected tests of a single test file
+     * @param filePath Workspace-relative path of the test file
+     * @param tests Tests from the file that should be executed
+     * @param testImpacts Impact scores for the tests, used to annotate the results
+     * @param token Stops the test command when the run is cancelled
+     * @returns One test result per requested test
+     */
+    public abstract runTests(
+        filePath: string,
+        tests: RunnableTest[],
+        testImpacts: Record<string, TestImpact>,
+        token?: vscode.CancellationToken
+    ): Promise<TestResult[]>;
+
+    /**
+     * Check if this runner can execute the tests in a given file
+     * @param filePath Path to the test file
+     * @returns True if this runner can handle the file
+     */
+    public abstract canHandle(filePath: string): boolean;
+
+    /**
+     * Get the language supported by this runner
+     */
+    public abstract getLanguage(): string;
+
+    /**
+     * Run the selected tests of a file under coverage and record the lines each test executed
+     * @param filePath Workspace-relative path of the test file
+     * @param tests Tests from the file that should be executed
+     * @returns Covered lines per test, or null if this runner cannot collect coverage
+     */
+    public async collectCoverage(filePath: string, tests: RunnableTest[]): Promise<TestCoverage[] | null> {
+        return null;
+    }
+
+    /**
+     * Clean up any resources used by this runner
+     */
+    public dispose(): void {
+        // Nothing to dispose by default
+    }
+
+    /**
+     * Resolve the directory the test command should run in
+     * @param filePath Workspace-relative or absolute path of the test file
+     * @returns The workspace folder containing the file, or the file's directory
+     */
+    protected getWorkingDirectory(filePath: string): string {
+        const absolutePath = ParserUtils.resolveWorkspacePath(filePath);
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(absolutePath));
+        if (workspaceFolder) {
+            return workspaceFolder.uri.fsPath;
+        }
+
+        if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
+            return vscode.workspace.workspaceFolders[0].uri.fsPath;
+        }
+
+        return path.dirname(absolutePath);
+    }
+
+    /**
+     * Find the nearest directory above a file that looks like a project root,
+     * without leaving the workspace folder that contains the file
+     * @param filePath Absolute path of the test file
+     * @param isProjectRoot Predicate that recognizes a project root directory
+     * @returns The project root, or null if none was found
+     */
+    protected findNearestDirectory(filePath: string, isProjectRoot: (dir: string) => boolean): string | null {
+        const workspaceRoot = this.getWorkingDirectory(filePath);
+        let currentDir = path.dirname(filePath);
+
+        while (currentDir !== path.dirname(currentDir)) {
+            if (isProjectRoot(currentDir)) {
+                return currentDir;
+            }
+            if (currentDir === workspaceRoot) {
+                break;
+            }
+            currentDir = path.dirname(currentDir);
+        }
+
+        return null;
+    }
+
+    /**
+     * Get the maximum time a single test command may run
+     */
+    protected getTimeoutMs(): number {
+        return vscode.workspace.getConfiguration('sikg').get<number>('testTimeout', 300) * 1000;
+    }
+
+    /**
+     * Run a command and capture its output without throwing on a non-zero exit code.
+     * On Windows the command runs through the shell so that npm's .cmd shims resolve,
+     * which is why the command and its arguments are quoted there.
+     * @param command Executable to run
+     * @param args Arguments to pass to the executable, unquoted
+     * @param cwd Working directory for the command
+     * @param token Stops the process when cancellation is requested
+     * @returns Exit code and captured output of the process
+     */
+    protected runProcess(command: string, args: string[], cwd: string, token?: vscode.CancellationToken): Promise<ProcessOutput> {
+        const timeout = this.getTimeoutMs();
+        Logger.debug(`Running test command: ${command} ${args.join(' ')} (cwd: ${cwd})`);
+
+        return new Promise((resolve, reject) => {
+            const startTime = Date.now();
+            let stdout = '';
+            let stderr = '';
+            let timedOut = false;
+            let cancelled = false;
+
+            const useShell = process.platform === 'win32';
+            const child = child_process.spawn(
+                useShell ? this.quoteForShell(command) : command,
+                useShell ? args.map(arg => this.quoteForShell(arg)) : args,
+                { cwd, env: process.env, shell: useShell }
+            );
+
+            const timer = setTimeout(() => {
+                timedOut = true;
+                Logger.warn(`Test command timed out after ${timeout}ms: ${command}`);
+                child.kill();
+            }, timeout);
+
+            const cancellation = token?.onCancellationRequested(() => {
+                cancelled = true;
+                Logger.info(`Test command cancelled: ${command}`);
+                child.kill();
+            });
+
+            child.stdout.on('data', data => { stdout += data.toString(); });
+            child.stderr.on('data', data => { stderr += data.toString(); });
+
+            child.on('error', error => {
+                clearTimeout(timer);
+                cancellation?.dispose();
+                reject(error);
+            });
+
+            child.on('close', exitCode => {
+                clearTimeout(timer);
+                cancellation?.dispose();
+                resolve({
+                    exitCode,
+                    stdout,
+                    stderr,
+                    timedOut,
+                    cancelled,
+                    duration: Date.now() - startTime
+                });
+            });
+        });
+    }
+
+    /**
+     * Quote an argument for cmd.exe, where spaces would split it and characters like "|" or "&"
+     * would pipe or chain commands. Embedded double quotes are doubled, which keeps cmd.exe's
+     * quoting in step and reads back as a single quote in the started program.
+     */
+    private quoteForShell(arg: string): string {
+        return /[\s"|&<>^()]/.test(arg) ? `"${arg.replace(/"/g, '""')}"` : arg;
+    }
+
+    /**
+     * Check if a command can be started and exits successfully
+     * @param command Executable to probe
+     * @param args Arguments to pass to the executable
+     * @param cwd Working directory for the probe
+     */
+    protected async isCommandAvailable(command: string, args: string[], cwd: string): Promise<boolean> {
+        try {
+            const output = await this.runProcess(command, args, cwd);
+            return output.exitCode === 0;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Merge an outcome into the outcome map. Several reported cases may map to the same
+     * SIKG test (e.g. parametrized tests), so failures win over passes and times add up.
+     * @param outcomes Outcomes collected so far, keyed by test ID
+     * @param outcome Outcome to merge
+     */
+    protected mergeOutcome(outcomes: Map<string, TestOutcome>, outcome: TestOutcome): void {
+        const existing = outcomes.get(outcome.testId);
+        if (!existing) {
+            outcomes.set(outcome.testId, { ...outcome });
+            return;
+        }
+
+        existing.executionTime += outcome.executionTime;
+
+        if (outcome.status === 'failed') {
+            existing.status = 'failed';
+            existing.errorMessage = [existing.errorMessage, outcome.errorMessage]
+                .filter(message => message)
+                .join('\n');
+        } else if (outcome.status === 'passed' && existing.status === 'skipped') {
+            existing.status = 'passed';
+        }
+    }
+
+    /**
+     * Convert collected outcomes into test results for every requested test.
+     * Tests that the runner never reported are returned as skipped.
+     * @param tests Tests that were requested
+     * @param outcomes Outcomes keyed by test ID
+     * @param testImpacts Impact scores used to annotate the results
+     */
+    protected toTestResults(
+        tests: RunnableTest[],
+        outcomes: Map<string, TestOutcome>,
+        testImpacts: Record<string, TestImpact>
+    ): TestResult[] {
+        return tests.map(test => {
+            const outcome = outcomes.get(test.testId);
+            if (!outcome) {
+                Logger.debug(`No result reported for test ${test.testName} (${test.testId})`);
+            }
+
+            return this.createResult(
+                test,
+                outcome ? outcome.status : 'skipped',
+                outcome ? outcome.executionTime : 0,
+                testImpacts,
+                outcome ? outcome.errorMessage : 'Test was not reported by the test runner'
+            );
+        });
+    }
+
+    /**
+     * Create failed results for all tests, e.g. when the runner could not be started
+     * @param tests Tests that were requested
+     * @param testImpacts Impact scores used to annotate the results
+     * @param errorMessage Reason for the failure
+     */
+    protected createFailedResults(
+        tests: RunnableTest[],
+        testImpacts: Record<string, TestImpact>,
+        errorMessage: string
+    ): TestResult[] {
+        return tests.map(test => this.createResult(test, 'failed', 0, testImpacts, errorMessage));
+    }
+
+    /**
+     * Create a single test result annotated with the predicted impact
+     */
+    protected createResult(
+        test: RunnableTest,
+        status: TestResult['status'],
+        executionTime: number,
+        testImpacts: Record<string, TestImpact>,
+        errorMessage?: string
+    ): TestResult {
+        return {
+            testId: test.testId,
+            status,
+            executionTime,
+            predictedImpact: testImpacts[test.testId]?.impactScore,
+            changedNodeIds: testImpacts[test.testId]?.contributingChanges.map(c => c.nodeId),
+            errorMessage: status === 'passed' ? undefined : errorMessage,
+            timestamp: new Date().toISOString()
+        };
+    }
+
+    /**
+     * Add covered lines of a file to a test's coverage, keyed by workspace-relative path
+     * @param coverage Coverage of a single test
+     * @param filePath Covered file, absolute or relative to cwd
+     * @param lines Covered line numbers
+     * @param cwd Directory the coverage tool ran in
+     */
+    protected addCoveredLines(coverage: TestCoverage, filePath: string, lines: number[], cwd: string): void {
+        if (lines.length === 0) {
+            return;
+        }
+
+        const relativePath = ParserUtils.getWorkspaceRelativePath(path.resolve(cwd, filePath));
+        const existing = coverage.files[relativePath] || [];
+        coverage.files[relativePath] = Array.from(new Set([...existing, ...lines])).sort((a, b) => a - b);
+    }
+
+    /**
+     * Keep the tail of long process output so error messages stay readable
+     */
+    protected truncateOutput(output: string, maxLength: number = 2000): string {
+        const trimmed = output.trim();
+        return trimmed.length > maxLength ? `...${trimmed.substring(trimmed.length - maxLength)}` : trimmed;
+    }
+}
+
+/**
+ * A test selected for execution
+ */
+export interface RunnableTest {
+    testId: string;
+    testName: string;
+}
+
+/**
+ * Outcome of a test as reported by a test framework
+ */
+export interface TestOutcome {
+    testId: string;
+    status: TestResult['status'];
+    executionTime: number;
+    errorMessage?: string;
+}
+
+/**
+ * Captured output of a test process
+ */
+export interface ProcessOutput {
+    exitCode: number | null;
+    stdout: string;
+    stderr: string;
+    timedOut: boolean;
+    cancelled: boolean;               // Stopped because the run was cancelled
+    duration: number;
+}
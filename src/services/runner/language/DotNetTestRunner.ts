@@ -0,0 +1,141 @@
+// DotNetTestRunner.ts - Runs C# tests with `dotnet test`
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { TestImpact, TestResult } from '../../../sikg/GraphTypes';
+import { Logger } from '../../../utils/Logger';
+import { FileUtils } from '../../../sikg/parser/util/FileUtils';
+import { ParserUtils } from '../../../sikg/parser/util/ParserUtils';
+import { TrxReportParser, TrxTestCase } from '../util/TrxReportParser';
+import { TestRunnerBase, RunnableTest, TestOutcome } from '../TestRunnerBase';
+
+/**
+ * .NET test runner. Runs the test project of a C# file with `dotnet test` and a
+ * name filter, and reads results from a TRX report.
+ */
+export class DotNetTestRunner extends TestRunnerBase {
+    /**
+     * Get the language supported by this runner
+     */
+    public getLanguage(): string {
+        return 'csharp';
+    }
+
+    /**
+     * Check if this runner can execute the tests in a given file
+     */
+    public canHandle(filePath: string): boolean {
+        return ParserUtils.getLanguageFromFilePath(filePath) === 'csharp';
+    }
+
+    /**
+     * Run the selected tests of a C# test file
+     */
+    public async runTests(
+        filePath: string,
+        tests: RunnableTest[],
+        testImpacts: Record<string, TestImpact>,
+        token?: vscode.CancellationToken
+    ): Promise<TestResult[]> {
+        const absolutePath = ParserUtils.resolveWorkspacePath(filePath);
+        const projectDir = this.findNearestDirectory(absolutePath, dir => this.containsProjectFile(dir));
+
+        if (!projectDir) {
+            return this.createFailedResults(tests, testImpacts, `Could not find a .csproj file for ${filePath}`);
+        }
+
+        Logger.info(`Running ${tests.length} .NET tests in ${filePath}`);
+
+        const tempDir = FileUtils.createTempDirectory('sikg-dotnet-');
+        const reportPath = path.join(tempDir, 'report.trx');
+
+        try {
+            const className = path.basename(absolutePath, '.cs');
+            const runsWholeClass = tests.some(test => test.testName === className);
+            const filter = runsWholeClass
+                ? `FullyQualifiedName~${className}`
+                : tests.map(test => `FullyQualifiedName~${className}.${this.getMethodName(test.testName)}`).join('|');
+
+            const output = await this.runProcess(
+                'dotnet',
+                [
+                    'test',
+                    projectDir,
+                    '--filter',
+                    filter,
+                    '--results-directory',
+                    tempDir,
+                    '--logger',
+                    'trx;LogFileName=report.trx'
+                ],
+                projectDir,
+                token
+            );
+
+            if (!FileUtils.fileExists(reportPath)) {
+                // No report is written when the project fails to build
+                return this.createFailedResults(
+                    tests,
+                    testImpacts,
+                    `dotnet test exited with code ${output.exitCode}: ${this.truncateOutput(output.stdout + output.stderr)}`
+                );
+            }
+
+            const testCases = TrxReportParser.parse(fs.readFileSync(reportPath, 'utf8'));
+            const outcomes = new Map<string, TestOutcome>();
+
+            for (const testCase of testCases) {
+                const test = this.matchTest(tests, testCase, className);
+                if (!test) {
+                    continue;
+                }
+
+                this.mergeOutcome(outcomes, {
+                    testId: test.testId,
+                    status: testCase.status,
+                    executionTime: testCase.time * 1000,
+                    errorMessage: testCase.message
+                });
+            }
+
+            return this.toTestResults(tests, outcomes, testImpacts);
+        } finally {
+            FileUtils.cleanupTempDirectory(tempDir);
+        }
+    }
+
+    /**
+     * Map a TRX test case back to the SIKG test it belongs to
+     */
+    private matchTest(tests: RunnableTest[], testCase: TrxTestCase, className: string): RunnableTest | undefined {
+        // xUnit reports "Ns.Class.Method(x: 1)", MSTest and NUnit report "Method" or "Method(1)"
+        const methodName = this.getMethodName(testCase.name.replace(/\(.*\)$/, ''));
+        const reportedClass = testCase.className.split('.').pop() || '';
+
+        if (reportedClass && reportedClass !== className && !testCase.name.includes(`${className}.`)) {
+            return undefined;
+        }
+
+        return tests.find(test => this.getMethodName(test.testName) === methodName) ||
+            tests.find(test => test.testName === className);
+    }
+
+    /**
+     * Get the method name from a SIKG test name such as "CalculatorTests.Adds"
+     */
+    private getMethodName(testName: string): string {
+        return testName.split('.').pop() || testName;
+    }
+
+    /**
+     * Check if a directory contains a C# project file
+     */
+    private containsProjectFile(dir: string): boolean {
+        try {
+            return fs.readdirSync(dir).some(entry => entry.endsWith('.csproj'));
+        } catch (error) {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,96 @@
+// GoTestRunner.ts - Runs Go tests with `go test -json`
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { TestImpact, TestResult } from '../../../sikg/GraphTypes';
+import { Logger } from '../../../utils/Logger';
+import { ParserUtils } from '../../../sikg/parser/util/ParserUtils';
+import { GoTestJsonParser } from '../util/GoTestJsonParser';
+import { TestRunnerBase, RunnableTest, TestOutcome } from '../TestRunnerBase';
+
+/**
+ * Go test runner. Runs the package of a test file with `go test -json -run` from the
+ * nearest module root and reads results from the test2json event stream.
+ */
+export class GoTestRunner extends TestRunnerBase {
+    /**
+     * Get the language supported by this runner
+     */
+    public getLanguage(): string {
+        return 'go';
+    }
+
+    /**
+     * Check if this runner can execute the tests in a given file
+     */
+    public canHandle(filePath: string): boolean {
+        return ParserUtils.getLanguageFromFilePath(filePath) === 'go';
+    }
+
+    /**
+     * Run the selected tests of a Go test file
+     */
+    public async runTests(
+        filePath: string,
+        tests: RunnableTest[],
+        testImpacts: Record<string, TestImpact>,
+        token?: vscode.CancellationToken
+    ): Promise<TestResult[]> {
+        Logger.info(`Running ${tests.length} Go tests in ${filePath}`);
+
+        const absolutePath = ParserUtils.resolveWorkspacePath(filePath);
+        const moduleRoot = this.findNearestDirectory(absolutePath, dir => fs.existsSync(path.join(dir, 'go.mod'))) ||
+            this.getWorkingDirectory(filePath);
+
+        // go test selects packages, not files, so run the file's package filtered by name
+        const packageDir = path.relative(moduleRoot, path.dirname(absolutePath)).replace(/\\/g, '/');
+        const packagePattern = packageDir ? `./${packageDir}` : '.';
+        const runPattern = `^(${tests.map(test => this.getTopLevelName(test.testName)).join('|')})$`;
+
+        const output = await this.runProcess('go', ['test', '-json', '-count=1', '-run', runPattern, packagePattern], moduleRoot, token);
+
+        const testCases = GoTestJsonParser.parse(output.stdout);
+        const testsByName = new Map(tests.map(test => [this.getTopLevelName(test.testName), test]));
+        const outcomes = new Map<string, TestOutcome>();
+
+        for (const testCase of testCases) {
+            // Subtests ("TestAdd/negative") count towards their top-level test
+            const test = testsByName.get(GoTestJsonParser.getTopLevelName(testCase.name));
+            if (!test) {
+                continue;
+            }
+
+            // The elapsed time of the top-level test already includes its subtests
+            const isSubtest = testCase.name.includes('/');
+            this.mergeOutcome(outcomes, {
+                testId: test.testId,
+                status: testCase.status,
+                executionTime: isSubtest ? 0 : testCase.time * 1000,
+                errorMessage: testCase.status === 'failed' ? this.truncateOutput(testCase.output) : undefined
+            });
+        }
+
+        if (outcomes.size === 0 && output.exitCode !== 0) {
+            // Build failures are reported outside of any test
+            return this.createFailedResults(
+                tests,
+                testImpacts,
+                `go test exited with code ${output.exitCode}: ${this.truncateOutput(output.stdout + output.stderr)}`
+            );
+        }
+
+        if (output.timedOut) {
+            Logger.warn(`go test timed out for ${filePath}; results may be incomplete`);
+        }
+
+        return this.toTestResults(tests, outcomes, testImpacts);
+    }
+
+    /**
+     * Get the Go test function name from a SIKG test name
+     */
+    private getTopLevelName(testName: string): string {
+        return GoTestJsonParser.getTopLevelName(testName.split('.').pop() || testName);
+    }
+}
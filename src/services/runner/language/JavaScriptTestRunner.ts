@@ -0,0 +1,394 @@
+// JavaScriptTestRunner.ts - Runs JavaScript/TypeScript tests with Jest, Mocha or Vitest
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { TestImpact, TestResult, TestCoverage } from '../../../sikg/GraphTypes';
+import { Logger } from '../../../utils/Logger';
+import { FileUtils } from '../../../sikg/parser/util/FileUtils';
+import { ParserUtils } from '../../../sikg/parser/util/ParserUtils';
+import { CoverageReportParser } from '../util/CoverageReportParser';
+import { JavaScriptTestSelector, JavaScriptTestFramework } from '../util/JavaScriptTestSelector';
+import { TestRunnerBase, RunnableTest, TestOutcome } from '../TestRunnerBase';
+
+/**
+ * JavaScript/TypeScript test runner. Detects the project's test framework from the
+ * nearest package.json and reads results from the framework's JSON reporter.
+ */
+export class JavaScriptTestRunner extends TestRunnerBase {
+    /**
+     * Get the language supported by this runner
+     */
+    public getLanguage(): string {
+        return 'javascript';
+    }
+
+    /**
+     * Check if this runner can execute the tests in a given file
+     */
+    public canHandle(filePath: string): boolean {
+        const language = ParserUtils.getLanguageFromFilePath(filePath);
+        return language === 'javascript' || language === 'typescript';
+    }
+
+    /**
+     * Run the selected tests of a JavaScript/TypeScript test file
+     */
+    public async runTests(
+        filePath: string,
+        tests: RunnableTest[],
+        testImpacts: Record<string, TestImpact>,
+        token?: vscode.CancellationToken
+    ): Promise<TestResult[]> {
+        const absolutePath = ParserUtils.resolveWorkspacePath(filePath);
+        const projectRoot = this.findNearestDirectory(absolutePath, dir => fs.existsSync(path.join(dir, 'package.json'))) ||
+            this.getWorkingDirectory(filePath);
+        const framework = this.detectFramework(projectRoot);
+
+        if (!framework) {
+            return this.createFailedResults(
+                tests,
+                testImpacts,
+                `Could not detect a Jest, Mocha or Vitest setup for ${filePath}. Set sikg.javascriptTestFramework to choose one.`
+            );
+        }
+
+        Logger.info(`Running ${tests.length} ${framework} tests in ${filePath}`);
+
+        const tempDir = FileUtils.createTempDirectory('sikg-js-');
+        const reportPath = path.join(tempDir, 'report.json');
+
+        try {
+            const relativePath = path.relative(projectRoot, absolutePath).replace(/\\/g, '/');
+            const titlesById = this.findTestTitles(absolutePath, tests);
+            const namePattern = JavaScriptTestSelector.buildNamePattern(tests.flatMap(test => titlesById.get(test.testId)!));
+            const args = this.buildArguments(framework, relativePath, namePattern, reportPath);
+            const command = this.getFrameworkCommand(framework, projectRoot);
+
+            const output = await this.runProcess(command.executable, [...command.args, ...args], projectRoot, token);
+
+            let report: any;
+            try {
+                report = this.readReport(framework, reportPath, output.stdout);
+            } catch (error) {
+                return this.createFailedResults(
+                    tests,
+                    testImpacts,
+                    `${framework} exited with code ${output.exitCode}: ${this.truncateOutput(output.stdout + output.stderr)}`
+                );
+            }
+
+            const outcomes = framework === 'mocha'
+                ? this.collectMochaOutcomes(report, tests, titlesById)
+                : this.collectJestOutcomes(report, tests, titlesById);
+
+            if (outcomes.size === 0) {
+                // A suite-level error (e.g. a syntax error) fails the whole file
+                const suiteError = this.getJestSuiteError(report);
+                if (suiteError) {
+                    return this.createFailedResults(tests, testImpacts, suiteError);
+                }
+            }
+
+            return this.toTestResults(tests, outcomes, testImpacts);
+        } finally {
+            FileUtils.cleanupTempDirectory(tempDir);
+        }
+    }
+
+    /**
+     * Run each selected test on its own under istanbul coverage. JavaScript coverage tools
+     * have no per-test contexts, so one run per test is needed to attribute lines to tests.
+     */
+    public async collectCoverage(filePath: string, tests: RunnableTest[]): Promise<TestCoverage[] | null> {
+        const absolutePath = ParserUtils.resolveWorkspacePath(filePath);
+        const projectRoot = this.findNearestDirectory(absolutePath, dir => fs.existsSync(path.join(dir, 'package.json'))) ||
+            this.getWorkingDirectory(filePath);
+        const framework = this.detectFramework(projectRoot);
+
+        if (!framework) {
+            throw new Error(`Could not detect a Jest, Mocha or Vitest setup for ${filePath}`);
+        }
+
+        Logger.info(`Collecting coverage for ${tests.length} ${framework} tests in ${filePath}`);
+
+        const relativePath = path.relative(projectRoot, absolutePath).replace(/\\/g, '/');
+        const titlesById = this.findTestTitles(absolutePath, tests);
+        const coverages: TestCoverage[] = [];
+
+        for (const test of tests) {
+            const tempDir = FileUtils.createTempDirectory('sikg-jscov-');
+            const coverageDir = path.join(tempDir, 'coverage');
+
+            try {
+                const namePattern = JavaScriptTestSelector.buildNamePattern(titlesById.get(test.testId)!);
+                const args = this.buildArguments(framework, relativePath, namePattern, path.join(tempDir, 'report.json'));
+                const command = this.getCoverageCommand(framework, projectRoot, args, coverageDir);
+
+                const output = await this.runProcess(command.executable, command.args, projectRoot);
+
+                const reportPath = path.join(coverageDir, 'coverage-final.json');
+                if (!FileUtils.fileExists(reportPath)) {
+                    Logger.warn(`No coverage report for ${test.testName} (exit code ${output.exitCode}): ${this.truncateOutput(output.stderr, 500)}`);
+                    continue;
+                }
+
+                const coverage: TestCoverage = { testId: test.testId, files: {} };
+                for (const fileCoverage of CoverageReportParser.parseIstanbulJson(fs.readFileSync(reportPath, 'utf8'))) {
+                    this.addCoveredLines(coverage, fileCoverage.file, fileCoverage.lines, projectRoot);
+                }
+                coverages.push(coverage);
+            } finally {
+                FileUtils.cleanupTempDirectory(tempDir);
+            }
+        }
+
+        return coverages;
+    }
+
+    /**
+     * Find the describe/it/test titles that select each requested test. Tests whose name
+     * the file does not mention are selected by their name, as a title fragment.
+     * @returns Full titles keyed by test ID
+     */
+    private findTestTitles(absolutePath: string, tests: RunnableTest[]): Map<string, string[][]> {
+        let content = '';
+        try {
+            content = fs.readFileSync(absolutePath, 'utf8');
+        } catch (error) {
+            Logger.debug(`Could not read test file ${absolutePath}:`, error);
+        }
+
+        const blocks = JavaScriptTestSelector.parseBlocks(content);
+        return new Map(tests.map(test => {
+            const titles = JavaScriptTestSelector.findTitles(test.testName, content, blocks);
+            return [test.testId, titles.length > 0 ? titles : [[test.testName]]];
+        }));
+    }
+
+    /**
+     * Get the command that runs a framework with istanbul JSON coverage written to a directory
+     */
+    private getCoverageCommand(
+        framework: JavaScriptTestFramework,
+        projectRoot: string,
+        args: string[],
+        coverageDir: string
+    ): { executable: string; args: string[] } {
+        const command = this.getFrameworkCommand(framework, projectRoot);
+
+        switch (framework) {
+            case 'jest':
+                return {
+                    executable: command.executable,
+                    args: [...command.args, ...args, '--coverage', '--coverageReporters=json', `--coverageDirectory=${coverageDir}`]
+                };
+            case 'vitest':
+                return {
+                    executable: command.executable,
+                    args: [...command.args, ...args, '--coverage.enabled=true', '--coverage.reporter=json', `--coverage.reportsDirectory=${coverageDir}`]
+                };
+            case 'mocha': {
+                // Mocha has no built-in coverage, so wrap it in nyc
+                const nyc = this.getFrameworkCommand('nyc', projectRoot);
+                return {
+                    executable: nyc.executable,
+                    args: [
+                        ...nyc.args,
+                        '--reporter=json',
+                        `--report-dir=${coverageDir}`,
+                        `--temp-dir=${path.join(coverageDir, '.nyc_output')}`,
+                        command.executable,
+                        ...command.args,
+                        ...args
+                    ]
+                };
+            }
+        }
+    }
+
+    /**
+     * Build framework-specific arguments that select one file and a name pattern
+     */
+    private buildArguments(
+        framework: JavaScriptTestFramework,
+        relativePath: string,
+        namePattern: string,
+        reportPath: string
+    ): string[] {
+        if (process.platform === 'win32') {
+            // The pattern is quoted for cmd.exe, which cannot quote a double quote and expands %VAR% even within
+            // quotes; in the regular expression any character may stand in for them
+            namePattern = namePattern.replace(/["%]/g, '.');
+        }
+
+        switch (framework) {
+            case 'jest':
+                return ['--runTestsByPath', relativePath, '-t', namePattern, '--json', `--outputFile=${reportPath}`, '--ci'];
+            case 'vitest':
+                return ['run', relativePath, '-t', namePattern, '--reporter=json', `--outputFile=${reportPath}`];
+            case 'mocha':
+                return [relativePath, '--grep', namePattern, '--reporter', 'json', '--reporter-option', `output=${reportPath}`];
+        }
+    }
+
+    /**
+     * Read the JSON report written by the framework
+     */
+    private readReport(framework: JavaScriptTestFramework, reportPath: string, stdout: string): any {
+        if (FileUtils.fileExists(reportPath)) {
+            return JSON.parse(fs.readFileSync(reportPath, 'utf8'));
+        }
+
+        // Older Mocha versions ignore the output option and print the report to stdout
+        if (framework === 'mocha') {
+            const start = stdout.search(/^\{/m);
+            if (start >= 0) {
+                return JSON.parse(stdout.substring(start));
+            }
+        }
+
+        throw new Error(`No ${framework} report was written`);
+    }
+
+    /**
+     * Collect outcomes from a Jest or Vitest JSON report (both share the same shape)
+     */
+    private collectJestOutcomes(report: any, tests: RunnableTest[], titlesById: Map<string, string[][]>): Map<string, TestOutcome> {
+        const outcomes = new Map<string, TestOutcome>();
+
+        for (const fileResult of report.testResults || []) {
+            for (const assertion of fileResult.assertionResults || []) {
+                const titles: string[] = [...(assertion.ancestorTitles || []), assertion.title];
+                const test = this.matchTest(tests, titlesById, titles, assertion.fullName);
+                if (!test) {
+                    continue;
+                }
+
+                this.mergeOutcome(outcomes, {
+                    testId: test.testId,
+                    status: this.toJestStatus(assertion.status),
+                    executionTime: assertion.duration || 0,
+                    errorMessage: (assertion.failureMessages || []).map((m: string) => this.stripAnsi(m)).join('\n') || undefined
+                });
+            }
+        }
+
+        return outcomes;
+    }
+
+    /**
+     * Collect outcomes from a Mocha JSON report
+     */
+    private collectMochaOutcomes(report: any, tests: RunnableTest[], titlesById: Map<string, string[][]>): Map<string, TestOutcome> {
+        const outcomes = new Map<string, TestOutcome>();
+        const failed = new Set((report.failures || []).map((t: any) => t.fullTitle));
+        const pending = new Set((report.pending || []).map((t: any) => t.fullTitle));
+
+        for (const mochaTest of report.tests || []) {
+            const test = this.matchTest(tests, titlesById, [mochaTest.title], mochaTest.fullTitle);
+            if (!test) {
+                continue;
+            }
+
+            let status: TestResult['status'] = 'passed';
+            if (failed.has(mochaTest.fullTitle) || (mochaTest.err && Object.keys(mochaTest.err).length > 0)) {
+                status = 'failed';
+            } else if (pending.has(mochaTest.fullTitle)) {
+                status = 'skipped';
+            }
+
+            this.mergeOutcome(outcomes, {
+                testId: test.testId,
+                status,
+                executionTime: mochaTest.duration || 0,
+                errorMessage: mochaTest.err ? (mochaTest.err.stack || mochaTest.err.message) : undefined
+            });
+        }
+
+        return outcomes;
+    }
+
+    /**
+     * Find the requested test that a reported test belongs to: the test whose selected titles
+     * are the reported full title or a describe block around it. Otherwise SIKG test names may
+     * be the plain title, the dotted or spaced full title, or a fragment of the full title.
+     */
+    private matchTest(
+        tests: RunnableTest[],
+        titlesById: Map<string, string[][]>,
+        titles: string[],
+        fullName: string
+    ): RunnableTest | undefined {
+        const selectedBy = (test: RunnableTest) => (titlesById.get(test.testId) || []).some(selected => {
+            const selectedName = selected.join(' ');
+            return fullName === selectedName || (fullName || '').startsWith(`${selectedName} `);
+        });
+        const candidates = new Set([
+            titles[titles.length - 1],
+            fullName,
+            titles.join('.'),
+            titles.join(' ')
+        ]);
+
+        return tests.find(selectedBy) ||
+            tests.find(test => candidates.has(test.testName)) ||
+            tests.find(test => fullName && fullName.includes(test.testName));
+    }
+
+    /**
+     * Get the error of a test file that failed before any test ran
+     */
+    private getJestSuiteError(report: any): string | null {
+        for (const fileResult of report.testResults || []) {
+            if (fileResult.status === 'failed' && fileResult.message) {
+                return this.stripAnsi(fileResult.message);
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Convert a Jest/Vitest assertion status to a test result status
+     */
+    private toJestStatus(status: string): TestResult['status'] {
+        switch (status) {
+            case 'passed':
+                return 'passed';
+            case 'failed':
+                return 'failed';
+            default:
+                // pending, skipped, todo, disabled
+                return 'skipped';
+        }
+    }
+
+    /**
+     * Detect the test framework used by a project
+     */
+    private detectFramework(projectRoot: string): JavaScriptTestFramework | null {
+        const configured = vscode.workspace.getConfiguration('sikg').get<string>('javascriptTestFramework', 'auto');
+        return JavaScriptTestSelector.detectFramework(projectRoot, configured);
+    }
+
+    /**
+     * Get the command that starts a framework, preferring the project's local install
+     */
+    private getFrameworkCommand(framework: JavaScriptTestFramework | 'nyc', projectRoot: string): { executable: string; args: string[] } {
+        const binary = process.platform === 'win32' ? `${framework}.cmd` : framework;
+        const localBinary = path.join(projectRoot, 'node_modules', '.bin', binary);
+
+        if (fs.existsSync(localBinary)) {
+            return { executable: localBinary, args: [] };
+        }
+
+        return { executable: 'npx', args: ['--no-install', framework] };
+    }
+
+    /**
+     * Remove terminal color codes from framework output
+     */
+    private stripAnsi(text: string): string {
+        return text.replace(/\u001b\[[0-9;]*m/g, '');
+    }
+}
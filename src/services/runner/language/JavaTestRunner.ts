@@ -0,0 +1,219 @@
+// JavaTestRunner.ts - Runs Java tests with Maven or Gradle
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { TestImpact, TestResult } from '../../../sikg/GraphTypes';
+import { Logger } from '../../../utils/Logger';
+import { ParserUtils } from '../../../sikg/parser/util/ParserUtils';
+import { JUnitReportParser, JUnitTestCase } from '../util/JUnitReportParser';
+import { TestRunnerBase, RunnableTest, TestOutcome } from '../TestRunnerBase';
+
+/**
+ * Java test runner. Runs the selected tests through Maven Surefire or Gradle with a
+ * test filter and reads results from the JUnit XML reports both tools write.
+ */
+export class JavaTestRunner extends TestRunnerBase {
+    /**
+     * Get the language supported by this runner
+     */
+    public getLanguage(): string {
+        return 'java';
+    }
+
+    /**
+     * Check if this runner can execute the tests in a given file
+     */
+    public canHandle(filePath: string): boolean {
+        return ParserUtils.getLanguageFromFilePath(filePath) === 'java';
+    }
+
+    /**
+     * Run the selected tests of a Java test file
+     */
+    public async runTests(
+        filePath: string,
+        tests: RunnableTest[],
+        testImpacts: Record<string, TestImpact>,
+        token?: vscode.CancellationToken
+    ): Promise<TestResult[]> {
+        const absolutePath = ParserUtils.resolveWorkspacePath(filePath);
+        const projectRoot = this.findNearestDirectory(absolutePath, dir => this.getBuildTool(dir) !== null);
+        const buildTool = projectRoot ? this.getBuildTool(projectRoot) : null;
+
+        if (!projectRoot || !buildTool) {
+            return this.createFailedResults(
+                tests,
+                testImpacts,
+                `Could not find a Maven or Gradle build for ${filePath}`
+            );
+        }
+
+        Logger.info(`Running ${tests.length} Java tests in ${filePath} with ${buildTool}`);
+
+        const className = this.getQualifiedClassName(absolutePath);
+        const simpleClassName = path.basename(absolutePath, '.java');
+
+        // A test named after the class stands for the whole class
+        const runsWholeClass = tests.some(test => test.testName === simpleClassName);
+        const methodNames = runsWholeClass ? [] : tests.map(test => this.getMethodName(test.testName));
+
+        const command = this.getBuildCommand(buildTool, projectRoot);
+        const args = buildTool === 'maven'
+            ? this.buildMavenArguments(className, methodNames)
+            : this.buildGradleArguments(className, methodNames);
+
+        const runStart = Date.now();
+        const output = await this.runProcess(command, args, projectRoot, token);
+
+        const reportDir = buildTool === 'maven'
+            ? path.join(projectRoot, 'target', 'surefire-reports')
+            : path.join(projectRoot, 'build', 'test-results', 'test');
+        const testCases = this.readReports(reportDir, className, runStart);
+
+        if (testCases.length === 0) {
+            return this.createFailedResults(
+                tests,
+                testImpacts,
+                `${buildTool} exited with code ${output.exitCode} without a test report: ${this.truncateOutput(output.stdout + output.stderr)}`
+            );
+        }
+
+        const outcomes = new Map<string, TestOutcome>();
+
+        for (const testCase of testCases) {
+            const test = this.matchTest(tests, testCase, simpleClassName);
+            if (!test) {
+                continue;
+            }
+
+            this.mergeOutcome(outcomes, {
+                testId: test.testId,
+                status: testCase.status,
+                executionTime: testCase.time * 1000,
+                errorMessage: testCase.message
+            });
+        }
+
+        return this.toTestResults(tests, outcomes, testImpacts);
+    }
+
+    /**
+     * Build Maven arguments, e.g. -Dtest=com.acme.CalcTest#testAdd+testSub
+     */
+    private buildMavenArguments(className: string, methodNames: string[]): string[] {
+        const testFilter = methodNames.length > 0 ? `${className}#${methodNames.join('+')}` : className;
+        return ['-q', 'test', `-Dtest=${testFilter}`, '-DfailIfNoTests=false', '-Dsurefire.failIfNoSpecifiedTests=false'];
+    }
+
+    /**
+     * Build Gradle arguments, e.g. test --tests com.acme.CalcTest.testAdd
+     */
+    private buildGradleArguments(className: string, methodNames: string[]): string[] {
+        const filters = methodNames.length > 0
+            ? methodNames.map(methodName => `${className}.${methodName}`)
+            : [className];
+        return ['test', ...filters.flatMap(filter => ['--tests', filter])];
+    }
+
+    /**
+     * Read the JUnit XML reports of a test class written during the current run
+     */
+    private readReports(reportDir: string, className: string, runStart: number): JUnitTestCase[] {
+        if (!fs.existsSync(reportDir)) {
+            return [];
+        }
+
+        const testCases: JUnitTestCase[] = [];
+
+        for (const entry of fs.readdirSync(reportDir)) {
+            // Nested classes are reported as TEST-com.acme.CalcTest$Nested.xml
+            if (!entry.startsWith(`TEST-${className}`) || !entry.endsWith('.xml')) {
+                continue;
+            }
+
+            const reportPath = path.join(reportDir, entry);
+            try {
+                // Ignore stale reports left over from earlier builds
+                if (fs.statSync(reportPath).mtimeMs < runStart - 1000) {
+                    continue;
+                }
+                testCases.push(...JUnitReportParser.parse(fs.readFileSync(reportPath, 'utf8')));
+            } catch (error) {
+                Logger.debug(`Could not read test report ${reportPath}:`, error);
+            }
+        }
+
+        return testCases;
+    }
+
+    /**
+     * Map a reported test case back to the SIKG test it belongs to
+     */
+    private matchTest(tests: RunnableTest[], testCase: JUnitTestCase, simpleClassName: string): RunnableTest | undefined {
+        // JUnit 5 reports "testAdd()" and parametrized tests as "testAdd(int)[1]"
+        const methodName = testCase.name.replace(/\[.*\]$/, '').replace(/\(.*\)$/, '');
+
+        return tests.find(test => this.getMethodName(test.testName) === methodName) ||
+            tests.find(test => test.testName === simpleClassName);
+    }
+
+    /**
+     * Get the method name from a SIKG test name such as "CalcTest.testAdd"
+     */
+    private getMethodName(testName: string): string {
+        return testName.split('.').pop() || testName;
+    }
+
+    /**
+     * Get the fully qualified class name of a Java source file from its package declaration
+     */
+    private getQualifiedClassName(absolutePath: string): string {
+        const simpleClassName = path.basename(absolutePath, '.java');
+
+        try {
+            const content = fs.readFileSync(absolutePath, 'utf8');
+            const packageMatch = /^\s*package\s+([\w.]+)\s*;/m.exec(content);
+            if (packageMatch) {
+                return `${packageMatch[1]}.${simpleClassName}`;
+            }
+        } catch (error) {
+            Logger.debug(`Could not read package of ${absolutePath}:`, error);
+        }
+
+        return simpleClassName;
+    }
+
+    /**
+     * Detect the build tool of a project directory
+     */
+    private getBuildTool(dir: string): JavaBuildTool | null {
+        if (fs.existsSync(path.join(dir, 'pom.xml'))) {
+            return 'maven';
+        }
+        if (fs.existsSync(path.join(dir, 'build.gradle')) || fs.existsSync(path.join(dir, 'build.gradle.kts'))) {
+            return 'gradle';
+        }
+        return null;
+    }
+
+    /**
+     * Get the command that starts a build tool, preferring the project's wrapper script
+     */
+    private getBuildCommand(buildTool: JavaBuildTool, projectRoot: string): string {
+        const wrapperName = buildTool === 'maven' ? 'mvnw' : 'gradlew';
+        const wrapper = path.join(projectRoot, process.platform === 'win32' ? `${wrapperName}.bat` : wrapperName);
+        const mavenWindowsWrapper = path.join(projectRoot, 'mvnw.cmd');
+
+        if (fs.existsSync(wrapper)) {
+            return wrapper;
+        }
+        if (buildTool === 'maven' && process.platform === 'win32' && fs.existsSync(mavenWindowsWrapper)) {
+            return mavenWindowsWrapper;
+        }
+
+        return buildTool === 'maven' ? 'mvn' : 'gradle';
+    }
+}
+
+type JavaBuildTool = 'maven' | 'gradle';
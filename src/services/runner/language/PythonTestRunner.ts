@@ -0,0 +1,359 @@
+// PythonTestRunner.ts - Runs Python tests with pytest or unittest
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { TestImpact, TestResult, TestCoverage } from '../../../sikg/GraphTypes';
+import { Logger } from '../../../utils/Logger';
+import { FileUtils } from '../../../sikg/parser/util/FileUtils';
+import { ParserUtils } from '../../../sikg/parser/util/ParserUtils';
+import { JUnitReportParser } from '../util/JUnitReportParser';
+import { CoverageReportParser } from '../util/CoverageReportParser';
+import { PytestReportMapper } from '../util/PytestReportMapper';
+import { TestRunnerBase, RunnableTest, TestOutcome } from '../TestRunnerBase';
+
+/**
+ * Python test runner. Uses pytest with a JUnit XML report when pytest is installed,
+ * and falls back to `python -m unittest -v` otherwise.
+ */
+export class PythonTestRunner extends TestRunnerBase {
+    private pythonCommands: Map<string, string> = new Map();
+    private pytestAvailable: Map<string, boolean> = new Map();
+    private coverageAvailable: Map<string, boolean> = new Map();
+
+    /**
+     * Get the language supported by this runner
+     */
+    public getLanguage(): string {
+        return 'python';
+    }
+
+    /**
+     * Check if this runner can execute the tests in a given file
+     */
+    public canHandle(filePath: string): boolean {
+        return ParserUtils.isPythonFile(filePath);
+    }
+
+    /**
+     * Run the selected tests of a Python test file
+     */
+    public async runTests(
+        filePath: string,
+        tests: RunnableTest[],
+        testImpacts: Record<string, TestImpact>,
+        token?: vscode.CancellationToken
+    ): Promise<TestResult[]> {
+        Logger.info(`Running ${tests.length} Python tests in ${filePath}`);
+
+        const cwd = this.getWorkingDirectory(filePath);
+        const pythonCommand = await this.getPythonCommand(cwd);
+
+        if (await this.isPytestAvailable(pythonCommand, cwd)) {
+            return this.runWithPytest(pythonCommand, filePath, tests, testImpacts, cwd, token);
+        }
+
+        Logger.debug('pytest is not available, falling back to unittest');
+        return this.runWithUnittest(pythonCommand, filePath, tests, testImpacts, cwd, token);
+    }
+
+    /**
+     * Run tests with pytest and read the results from a JUnit XML report
+     */
+    private async runWithPytest(
+        pythonCommand: string,
+        filePath: string,
+        tests: RunnableTest[],
+        testImpacts: Record<string, TestImpact>,
+        cwd: string,
+        token?: vscode.CancellationToken
+    ): Promise<TestResult[]> {
+        const tempDir = FileUtils.createTempDirectory('sikg-pytest-');
+        const reportPath = path.join(tempDir, 'report.xml');
+
+        try {
+            const relativePath = this.getPathRelativeToCwd(filePath, cwd);
+            const nodeIds = tests.map(test => `${relativePath}::${test.testName.split('.').join('::')}`);
+
+            const output = await this.runProcess(
+                pythonCommand,
+                ['-m', 'pytest', ...nodeIds, `--junitxml=${reportPath}`, '-q', '-p', 'no:cacheprovider'],
+                cwd,
+                token
+            );
+
+            if (!FileUtils.fileExists(reportPath)) {
+                // pytest writes no report for usage or collection errors
+                return this.createFailedResults(
+                    tests,
+                    testImpacts,
+                    `pytest exited with code ${output.exitCode}: ${this.truncateOutput(output.stdout + output.stderr)}`
+                );
+            }
+
+            const testCases = JUnitReportParser.parse(fs.readFileSync(reportPath, 'utf8'));
+            const outcomes = new Map<string, TestOutcome>();
+
+            for (const outcome of PytestReportMapper.mapTestCases(testCases, tests, relativePath)) {
+                this.mergeOutcome(outcomes, outcome);
+            }
+
+            if (output.timedOut) {
+                Logger.warn(`pytest timed out for ${filePath}; results may be incomplete`);
+            }
+
+            return this.toTestResults(tests, outcomes, testImpacts);
+        } finally {
+            FileUtils.cleanupTempDirectory(tempDir);
+        }
+    }
+
+    /**
+     * Run tests with `python -m unittest -v` and parse its verbose output
+     */
+    private async runWithUnittest(
+        pythonCommand: string,
+        filePath: string,
+        tests: RunnableTest[],
+        testImpacts: Record<string, TestImpact>,
+        cwd: string,
+        token?: vscode.CancellationToken
+    ): Promise<TestResult[]> {
+        const modulePath = this.getPathRelativeToCwd(filePath, cwd)
+            .replace(/\.py$/, '')
+            .split('/')
+            .join('.');
+        const targets = tests.map(test => `${modulePath}.${test.testName}`);
+
+        const output = await this.runProcess(pythonCommand, ['-m', 'unittest', '-v', ...targets], cwd, token);
+
+        // unittest writes its report to stderr
+        const report = output.stderr;
+        const lines = report.split('\n');
+        const testsByName = new Map(tests.map(test => [test.testName, test]));
+        const outcomes = new Map<string, TestOutcome>();
+
+        // unittest does not report per-test durations, so spread the total evenly
+        const totalMatch = /^Ran (\d+) tests? in ([\d.]+)s/m.exec(report);
+        const perTestTime = totalMatch && parseInt(totalMatch[1], 10) > 0
+            ? (parseFloat(totalMatch[2]) * 1000) / parseInt(totalMatch[1], 10)
+            : 0;
+
+        const failureMessages = this.parseUnittestFailures(report);
+
+        for (let i = 0; i < lines.length; i++) {
+            // e.g. "test_add (tests.test_calc.TestCalc.test_add) ... ok" or
+            //      "test_add (tests.test_calc.TestCalc) ... ok" on Python < 3.11
+            const header = /^(\w+) \(([\w.]+)\)(.*)$/.exec(lines[i]);
+            if (!header) {
+                continue;
+            }
+
+            const methodName = header[1];
+            let statusText = header[3];
+            if (!statusText.includes(' ... ') && i + 1 < lines.length) {
+                // A docstring line is printed between the header and the status
+                statusText = lines[i + 1];
+            }
+
+            const statusMatch = / \.\.\. (.*)$/.exec(statusText);
+            if (!statusMatch) {
+                continue;
+            }
+
+            const qualifiedName = this.getUnittestQualifiedName(methodName, header[2]);
+            const test = testsByName.get(qualifiedName) || testsByName.get(methodName);
+            if (!test) {
+                continue;
+            }
+
+            this.mergeOutcome(outcomes, {
+                testId: test.testId,
+                status: this.toUnittestStatus(statusMatch[1]),
+                executionTime: perTestTime,
+                errorMessage: failureMessages.get(qualifiedName)
+            });
+        }
+
+        if (outcomes.size === 0 && output.exitCode !== 0) {
+            return this.createFailedResults(
+                tests,
+                testImpacts,
+                `unittest exited with code ${output.exitCode}: ${this.truncateOutput(report || output.stdout)}`
+            );
+        }
+
+        return this.toTestResults(tests, outcomes, testImpacts);
+    }
+
+    /**
+     * Build the "Class.method" name used by SIKG from a unittest result header
+     */
+    private getUnittestQualifiedName(methodName: string, dottedPath: string): string {
+        const parts = dottedPath.split('.');
+
+        // Python 3.11+ includes the method name in the dotted path
+        if (parts[parts.length - 1] === methodName) {
+            parts.pop();
+        }
+
+        const className = parts[parts.length - 1];
+        return className ? `${className}.${methodName}` : methodName;
+    }
+
+    /**
+     * Extract failure tracebacks from unittest output, keyed by "Class.method"
+     */
+    private parseUnittestFailures(report: string): Map<string, string> {
+        const failures = new Map<string, string>();
+        const failurePattern = /^(?:FAIL|ERROR): (\w+) \(([\w.]+)\)[^\n]*\n-{10,}\n([\s\S]*?)(?=\n={10,}|\n-{10,}\nRan |(?![\s\S]))/gm;
+        let match;
+
+        while ((match = failurePattern.exec(report)) !== null) {
+            const qualifiedName = this.getUnittestQualifiedName(match[1], match[2]);
+            failures.set(qualifiedName, this.truncateOutput(match[3]));
+        }
+
+        return failures;
+    }
+
+    /**
+     * Convert a unittest status word to a test result status
+     */
+    private toUnittestStatus(statusText: string): TestResult['status'] {
+        const status = statusText.trim();
+        if (status === 'ok' || status === 'expected failure') {
+            return 'passed';
+        }
+        if (status.startsWith('skipped')) {
+            return 'skipped';
+        }
+        return 'failed';
+    }
+
+    /**
+     * Run the selected tests under coverage.py with per-test dynamic contexts
+     */
+    public async collectCoverage(filePath: string, tests: RunnableTest[]): Promise<TestCoverage[] | null> {
+        const cwd = this.getWorkingDirectory(filePath);
+        const pythonCommand = await this.getPythonCommand(cwd);
+
+        const key = `${pythonCommand}|${cwd}`;
+        if (!this.coverageAvailable.has(key)) {
+            this.coverageAvailable.set(key, await this.isCommandAvailable(pythonCommand, ['-m', 'coverage', '--version'], cwd));
+        }
+        if (!this.coverageAvailable.get(key)) {
+            throw new Error(`coverage.py is not installed for ${pythonCommand}. Install it with "pip install coverage".`);
+        }
+
+        Logger.info(`Collecting coverage for ${tests.length} Python tests in ${filePath}`);
+
+        const tempDir = FileUtils.createTempDirectory('sikg-pycov-');
+        const configPath = path.join(tempDir, 'coveragerc');
+        const reportPath = path.join(tempDir, 'coverage.json');
+
+        try {
+            // test_function contexts record which test executed each line
+            fs.writeFileSync(configPath, [
+                '[run]',
+                `data_file = ${path.join(tempDir, '.coverage')}`,
+                'dynamic_context = test_function',
+                ''
+            ].join('\n'));
+
+            const relativePath = this.getPathRelativeToCwd(filePath, cwd);
+            const testArgs = await this.isPytestAvailable(pythonCommand, cwd)
+                ? ['-m', 'pytest', ...tests.map(test => `${relativePath}::${test.testName.split('.').join('::')}`), '-q', '-p', 'no:cacheprovider']
+                : ['-m', 'unittest', ...tests.map(test => `${relativePath.replace(/\.py$/, '').split('/').join('.')}.${test.testName}`)];
+
+            await this.runProcess(pythonCommand, ['-m', 'coverage', 'run', `--rcfile=${configPath}`, ...testArgs], cwd);
+
+            const output = await this.runProcess(
+                pythonCommand,
+                ['-m', 'coverage', 'json', `--rcfile=${configPath}`, '-o', reportPath, '--show-contexts'],
+                cwd
+            );
+
+            if (!FileUtils.fileExists(reportPath)) {
+                throw new Error(`coverage json exited with code ${output.exitCode}: ${this.truncateOutput(output.stdout + output.stderr)}`);
+            }
+
+            const testsByName = new Map(tests.map(test => [test.testName, test]));
+            const coverageById = new Map<string, TestCoverage>();
+
+            for (const fileCoverage of CoverageReportParser.parseCoveragePyJson(fs.readFileSync(reportPath, 'utf8'))) {
+                for (const [context, lines] of Object.entries(fileCoverage.contexts || {})) {
+                    const test = CoverageReportParser.getContextTestNames(context)
+                        .map(name => testsByName.get(name))
+                        .find(candidate => candidate);
+                    if (!test) {
+                        continue;
+                    }
+
+                    let coverage = coverageById.get(test.testId);
+                    if (!coverage) {
+                        coverage = { testId: test.testId, files: {} };
+                        coverageById.set(test.testId, coverage);
+                    }
+                    this.addCoveredLines(coverage, fileCoverage.file, lines, cwd);
+                }
+            }
+
+            return Array.from(coverageById.values());
+        } finally {
+            FileUtils.cleanupTempDirectory(tempDir);
+        }
+    }
+
+    /**
+     * Get a test file path relative to the working directory, with forward slashes
+     */
+    private getPathRelativeToCwd(filePath: string, cwd: string): string {
+        const absolutePath = ParserUtils.resolveWorkspacePath(filePath);
+        return path.relative(cwd, absolutePath).replace(/\\/g, '/');
+    }
+
+    /**
+     * Determine the Python interpreter to use for running tests
+     */
+    private async getPythonCommand(cwd: string): Promise<string> {
+        const configured = vscode.workspace.getConfiguration('sikg').get<string>('pythonPath', '');
+        if (configured) {
+            return configured;
+        }
+
+        const cached = this.pythonCommands.get(cwd);
+        if (cached) {
+            return cached;
+        }
+
+        let command = 'python';
+        if (!(await this.isCommandAvailable('python', ['--version'], cwd)) &&
+            await this.isCommandAvailable('python3', ['--version'], cwd)) {
+            command = 'python3';
+        }
+
+        this.pythonCommands.set(cwd, command);
+        return command;
+    }
+
+    /**
+     * Check if pytest is installed for the given interpreter
+     */
+    private async isPytestAvailable(pythonCommand: string, cwd: string): Promise<boolean> {
+        const key = `${pythonCommand}|${cwd}`;
+        if (!this.pytestAvailable.has(key)) {
+            this.pytestAvailable.set(key, await this.isCommandAvailable(pythonCommand, ['-m', 'pytest', '--version'], cwd));
+        }
+        return this.pytestAvailable.get(key)!;
+    }
+
+    /**
+     * Clean up any resources used by this runner
+     */
+    public dispose(): void {
+        this.pythonCommands.clear();
+        this.pytestAvailable.clear();
+        this.coverageAvailable.clear();
+    }
+}
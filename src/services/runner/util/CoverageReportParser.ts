@@ -0,0 +1,234 @@
+// CoverageReportParser.ts - Parsers for line coverage reports
+
+/**
+ * Parses coverage reports into covered lines per file, including per-test
+ * contexts when the report records them
+ */
+export class CoverageReportParser {
+    /**
+     * Detect the format of a coverage report and parse it
+     * @param content Content of the report
+     * @returns The parsed report, or null if the format is not recognized
+     */
+    public static parse(content: string): CoverageReport | null {
+        const trimmed = content.trim();
+
+        if (trimmed.startsWith('<')) {
+            return /<coverage\b/.test(trimmed) ? this.parseCobertura(trimmed) : null;
+        }
+
+        if (/^(?:TN|SF):/m.test(trimmed)) {
+            return { format: 'lcov', files: this.parseLcov(trimmed), sourceRoots: [] };
+        }
+
+        try {
+            const report = JSON.parse(trimmed);
+            if (report.files && report.meta) {
+                return { format: 'coverage.py', files: this.parseCoveragePyJson(trimmed), sourceRoots: [] };
+            }
+            if (Object.values<any>(report).some(data => data && data.statementMap)) {
+                return { format: 'istanbul', files: this.parseIstanbulJson(trimmed), sourceRoots: [] };
+            }
+        } catch (error) {
+            // Not JSON
+        }
+
+        return null;
+    }
+
+    /**
+     * Parse an lcov tracefile. Records with a test name (TN:) are kept as contexts.
+     * @param content Content of the tracefile
+     * @returns Covered lines per file as named in the tracefile
+     */
+    public static parseLcov(content: string): FileCoverage[] {
+        const fileCoverages = new Map<string, FileCoverage>();
+        let testName = '';
+        let file = '';
+        let lines: number[] = [];
+
+        for (const rawLine of content.split('\n')) {
+            const line = rawLine.trim();
+
+            if (line.startsWith('TN:')) {
+                testName = line.substring(3);
+            } else if (line.startsWith('SF:')) {
+                file = line.substring(3);
+                lines = [];
+            } else if (line.startsWith('DA:')) {
+                const [lineNumber, count] = line.substring(3).split(',');
+                if (parseInt(count, 10) > 0) {
+                    lines.push(parseInt(lineNumber, 10));
+                }
+            } else if (line === 'end_of_record' && file) {
+                let fileCoverage = fileCoverages.get(file);
+                if (!fileCoverage) {
+                    fileCoverage = { file, lines: [] };
+                    fileCoverages.set(file, fileCoverage);
+                }
+
+                fileCoverage.lines = Array.from(new Set([...fileCoverage.lines, ...lines])).sort((a, b) => a - b);
+                if (testName) {
+                    fileCoverage.contexts = fileCoverage.contexts || {};
+                    fileCoverage.contexts[testName] = [...(fileCoverage.contexts[testName] || []), ...lines];
+                }
+
+                file = '';
+            }
+        }
+
+        return Array.from(fileCoverages.values());
+    }
+
+    /**
+     * Parse a Cobertura XML report
+     * @param xml Content of the report
+     * @returns Covered lines per file, with the report's source roots for resolving file names
+     */
+    public static parseCobertura(xml: string): CoverageReport {
+        const sourceRoots: string[] = [];
+        const sourcePattern = /<source>([\s\S]*?)<\/source>/g;
+        let match;
+
+        while ((match = sourcePattern.exec(xml)) !== null) {
+            sourceRoots.push(match[1].trim());
+        }
+
+        const linesByFile = new Map<string, Set<number>>();
+        const classPattern = /<class\b[^>]*?\bfilename="([^"]*)"[^>]*>([\s\S]*?)<\/class>/g;
+
+        while ((match = classPattern.exec(xml)) !== null) {
+            const file = match[1];
+            const lines = linesByFile.get(file) || new Set<number>();
+            linesByFile.set(file, lines);
+
+            const linePattern = /<line\b[^>]*?\bnumber="(\d+)"[^>]*?\bhits="(\d+)"/g;
+            let lineMatch;
+            while ((lineMatch = linePattern.exec(match[2])) !== null) {
+                if (parseInt(lineMatch[2], 10) > 0) {
+                    lines.add(parseInt(lineMatch[1], 10));
+                }
+            }
+        }
+
+        return {
+            format: 'cobertura',
+            files: Array.from(linesByFile.entries()).map(([file, lines]) => ({
+                file,
+                lines: Array.from(lines).sort((a, b) => a - b)
+            })),
+            sourceRoots
+        };
+    }
+
+    /**
+     * Parse a coverage.py JSON report (`coverage json --show-contexts`)
+     * @param content Content of the report
+     * @returns Covered lines per file as named in the report
+     */
+    public static parseCoveragePyJson(content: string): FileCoverage[] {
+        const report = JSON.parse(content);
+        const fileCoverages: FileCoverage[] = [];
+
+        for (const [file, data] of Object.entries<any>(report.files || {})) {
+            const fileCoverage: FileCoverage = {
+                file,
+                lines: (data.executed_lines || []).slice()
+            };
+
+            if (data.contexts) {
+                fileCoverage.contexts = {};
+                for (const [line, contexts] of Object.entries<string[]>(data.contexts)) {
+                    for (const context of contexts) {
+                        // The empty context holds lines run outside of any test (e.g. imports)
+                        if (!context) {
+                            continue;
+                        }
+                        (fileCoverage.contexts[context] = fileCoverage.contexts[context] || []).push(parseInt(line, 10));
+                    }
+                }
+            }
+
+            fileCoverages.push(fileCoverage);
+        }
+
+        return fileCoverages;
+    }
+
+    /**
+     * Parse an istanbul JSON report (coverage-final.json) as written by nyc, Jest and Vitest
+     * @param content Content of the report
+     * @returns Covered lines per file, keyed by absolute path
+     */
+    public static parseIstanbulJson(content: string): FileCoverage[] {
+        const report = JSON.parse(content);
+        const fileCoverages: FileCoverage[] = [];
+
+        for (const [file, data] of Object.entries<any>(report)) {
+            const lines = new Set<number>();
+
+            for (const [statementId, count] of Object.entries<number>(data.s || {})) {
+                const statement = data.statementMap?.[statementId];
+                if (count > 0 && statement) {
+                    for (let line = statement.start.line; line <= statement.end.line; line++) {
+                        lines.add(line);
+                    }
+                }
+            }
+
+            fileCoverages.push({ file: data.path || file, lines: Array.from(lines).sort((a, b) => a - b) });
+        }
+
+        return fileCoverages;
+    }
+
+    /**
+     * Get the test names a coverage context may refer to, most specific first.
+     * Handles coverage.py test_function contexts ("tests.test_calc.TestCalc.test_add")
+     * and pytest-cov contexts ("tests/test_calc.py::TestCalc::test_add|run").
+     */
+    public static getContextTestNames(context: string): string[] {
+        const normalized = context
+            .replace(/\|\w+$/, '')
+            .replace(/\[.*\]$/, '');
+
+        const parts = normalized.includes('::')
+            ? normalized.split('::').slice(1)
+            : normalized.split('.');
+
+        const names: string[] = [];
+        if (parts.length >= 2) {
+            names.push(`${parts[parts.length - 2]}.${parts[parts.length - 1]}`);
+        }
+        if (parts.length >= 1) {
+            names.push(parts[parts.length - 1]);
+        }
+        return names;
+    }
+
+    /**
+     * Get the test file a pytest-cov context names, if any
+     */
+    public static getContextTestFile(context: string): string | undefined {
+        const separator = context.indexOf('::');
+        return separator > 0 ? context.substring(0, separator) : undefined;
+    }
+}
+
+/**
+ * Covered lines of a single file
+ */
+export interface FileCoverage {
+    file: string;
+    lines: number[];
+    contexts?: Record<string, number[]>;   // Context (usually a test) -> lines it covered
+}
+
+/**
+ * A parsed coverage report
+ */
+export interface CoverageReport {
+    format: 'lcov' | 'cobertura' | 'coverage.py' | 'istanbul';
+    files: FileCoverage[];
+    sourceRoots: string[];                 // Directories relative file names are resolved against
+}
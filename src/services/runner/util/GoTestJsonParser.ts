@@ -0,0 +1,100 @@
+// GoTestJsonParser.ts - Parser for `go test -json` event streams
+
+import { TestResult } from '../../../sikg/GraphTypes';
+
+/**
+ * Parses the newline-delimited JSON events written by `go test -json`
+ * (the test2json format) into per-test results
+ */
+export class GoTestJsonParser {
+    /**
+     * Parse all test results from a `go test -json` event stream
+     * @param output Raw stdout of `go test -json`
+     * @returns Results for top-level tests and subtests in first-seen order
+     */
+    public static parse(output: string): GoTestCase[] {
+        const testCases = new Map<string, GoTestCase>();
+
+        for (const line of output.split('\n')) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('{')) {
+                continue;
+            }
+
+            let event: GoTestEvent;
+            try {
+                event = JSON.parse(trimmed);
+            } catch (error) {
+                // go test may interleave non-JSON build output
+                continue;
+            }
+
+            if (!event.Test) {
+                continue;
+            }
+
+            const key = `${event.Package || ''}|${event.Test}`;
+            let testCase = testCases.get(key);
+            if (!testCase) {
+                testCase = {
+                    name: event.Test,
+                    packageName: event.Package || '',
+                    time: 0,
+                    status: 'skipped',
+                    output: ''
+                };
+                testCases.set(key, testCase);
+            }
+
+            switch (event.Action) {
+                case 'output':
+                    testCase.output += event.Output || '';
+                    break;
+                case 'pass':
+                    testCase.status = 'passed';
+                    testCase.time = event.Elapsed || 0;
+                    break;
+                case 'fail':
+                    testCase.status = 'failed';
+                    testCase.time = event.Elapsed || 0;
+                    break;
+                case 'skip':
+                    testCase.status = 'skipped';
+                    testCase.time = event.Elapsed || 0;
+                    break;
+            }
+        }
+
+        return Array.from(testCases.values());
+    }
+
+    /**
+     * Get the top-level test name of a subtest, e.g. "TestAdd/negative" -> "TestAdd"
+     */
+    public static getTopLevelName(testName: string): string {
+        return testName.split('/')[0];
+    }
+}
+
+/**
+ * A single event of the test2json format
+ */
+interface GoTestEvent {
+    Time?: string;
+    Action: 'run' | 'pause' | 'cont' | 'pass' | 'bench' | 'fail' | 'output' | 'skip' | 'start';
+    Package?: string;
+    Test?: string;
+    Elapsed?: number;
+    Output?: string;
+}
+
+/**
+ * A single test result from a `go test -json` run
+ */
+export interface GoTestCase {
+    name: string;
+    packageName: string;
+    time: number;           // Duration in seconds
+    status: TestResult['status'];
+    output: string;
+}
@@ -0,0 +1,102 @@
+// JUnitReportParser.ts - Parser for JUnit-style XML test reports
+
+import { TestResult } from '../../../sikg/GraphTypes';
+
+/**
+ * Parses JUnit XML reports as written by pytest (--junitxml), Maven Surefire,
+ * Gradle and most other test frameworks
+ */
+export class JUnitReportParser {
+    /**
+     * Parse all test cases from a JUnit XML report
+     * @param xml Content of the report
+     * @returns Parsed test cases in report order
+     */
+    public static parse(xml: string): JUnitTestCase[] {
+        const testCases: JUnitTestCase[] = [];
+
+        // Matches both <testcase ... /> and <testcase ...>...</testcase>
+        const testCasePattern = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+        let match;
+
+        while ((match = testCasePattern.exec(xml)) !== null) {
+            const attributes = this.parseAttributes(match[1]);
+            const body = match[2] || '';
+
+            let status: TestResult['status'] = 'passed';
+            let message: string | undefined;
+
+            const failure = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/.exec(body);
+            if (failure) {
+                status = 'failed';
+                const failureAttributes = this.parseAttributes(failure[2]);
+                message = [failureAttributes.message, this.decodeEntities(this.stripCdata(failure[3] || '')).trim()]
+                    .filter(part => part)
+                    .join('\n');
+            } else if (/<skipped\b/.test(body)) {
+                status = 'skipped';
+                const skipped = /<skipped\b([^>]*?)(?:\/>|>)/.exec(body);
+                message = skipped ? this.parseAttributes(skipped[1]).message : undefined;
+            }
+
+            testCases.push({
+                name: attributes.name || '',
+                className: attributes.classname || '',
+                file: attributes.file,
+                time: parseFloat(attributes.time || '0') || 0,
+                status,
+                message
+            });
+        }
+
+        return testCases;
+    }
+
+    /**
+     * Parse the attributes of an XML start tag
+     */
+    private static parseAttributes(attributeText: string): Record<string, string> {
+        const attributes: Record<string, string> = {};
+        const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+        let match;
+
+        while ((match = attributePattern.exec(attributeText)) !== null) {
+            attributes[match[1]] = this.decodeEntities(match[2] !== undefined ? match[2] : match[3]);
+        }
+
+        return attributes;
+    }
+
+    /**
+     * Remove CDATA wrappers from element text
+     */
+    private static stripCdata(text: string): string {
+        return text.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+    }
+
+    /**
+     * Decode the predefined XML entities and numeric character references
+     */
+    public static decodeEntities(text: string): string {
+        return text
+            .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+            .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'")
+            .replace(/&amp;/g, '&');
+    }
+}
+
+/**
+ * A single test case from a JUnit XML report
+ */
+export interface JUnitTestCase {
+    name: string;
+    className: string;
+    file?: string;
+    time: number;           // Duration in seconds
+    status: TestResult['status'];
+    message?: string;
+}
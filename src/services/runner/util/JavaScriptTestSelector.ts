@@ -0,0 +1,203 @@
+// JavaScriptTestSelector.ts - Chooses the framework and the test titles to run in JavaScript projects
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../../../utils/Logger';
+
+/**
+ * Detects the test framework of a JavaScript/TypeScript project and finds the describe/it/test
+ * titles that select a SIKG test. The generic test parser names JavaScript tests after a
+ * fragment of their code, so their names cannot be passed to the frameworks' name filters.
+ */
+export class JavaScriptTestSelector {
+    /**
+     * Detect the test framework used by a project
+     * @param projectRoot Directory of the project's package.json
+     * @param configured Value of the sikg.javascriptTestFramework setting
+     */
+    public static detectFramework(projectRoot: string, configured: string): JavaScriptTestFramework | null {
+        if (configured === 'jest' || configured === 'mocha' || configured === 'vitest') {
+            return configured;
+        }
+
+        // Config files are the strongest signal
+        const entries = fs.existsSync(projectRoot) ? fs.readdirSync(projectRoot) : [];
+        if (entries.some(entry => /^vitest\.config\./.test(entry))) {
+            return 'vitest';
+        }
+        if (entries.some(entry => /^jest\.config\./.test(entry))) {
+            return 'jest';
+        }
+        if (entries.some(entry => /^\.mocharc/.test(entry))) {
+            return 'mocha';
+        }
+
+        // Fall back to declared dependencies and the test script
+        try {
+            const packageJson = JSON.parse(fs.readFileSync(path.join(projectRoot, 'package.json'), 'utf8'));
+            const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+            const testScript: string = packageJson.scripts?.test || '';
+
+            for (const framework of ['vitest', 'jest', 'mocha'] as JavaScriptTestFramework[]) {
+                if (dependencies[framework] || testScript.includes(framework)) {
+                    return framework;
+                }
+            }
+
+            if (packageJson.jest || dependencies['ts-jest'] || dependencies['react-scripts']) {
+                return 'jest';
+            }
+        } catch (error) {
+            Logger.debug(`Could not read package.json in ${projectRoot}:`, error);
+        }
+
+        return null;
+    }
+
+    /**
+     * Find the describe, it and test blocks of a test file
+     * @param content Content of the test file
+     * @returns Blocks in file order, with the titles of the describe blocks around them
+     */
+    public static parseBlocks(content: string): JavaScriptTestBlock[] {
+        const lineStarts = [0];
+        for (let i = 0; i < content.length; i++) {
+            if (content[i] === '\n') {
+                lineStarts.push(i + 1);
+            }
+        }
+        const lineAt = (index: number) => {
+            let line = 0;
+            while (line + 1 < lineStarts.length && lineStarts[line + 1] <= index) {
+                line++;
+            }
+            return line + 1;
+        };
+
+        const blocks: JavaScriptTestBlock[] = [];
+        const callPattern = /\b(describe|context|suite|it|test|specify)(?:\.(?:only|skip|concurrent|todo))*\s*\(\s*(['"`])((?:\\.|(?!\2)[^\\])*)\2/g;
+        let match;
+
+        while ((match = callPattern.exec(content)) !== null) {
+            const title = match[3].replace(/\\(.)/g, '$1');
+            const end = this.findCallEnd(content, match.index + match[0].length);
+
+            // Describe blocks that are still open contain this one; the last one opened is the innermost
+            const parents = blocks.filter(block => block.kind === 'suite' && block.endIndex > match!.index);
+            const parent = parents[parents.length - 1];
+
+            blocks.push({
+                kind: ['describe', 'context', 'suite'].includes(match[1]) ? 'suite' : 'test',
+                titles: [...(parent ? parent.titles : []), title],
+                startLine: lineAt(match.index),
+                endLine: lineAt(end),
+                endIndex: end
+            });
+        }
+
+        return blocks;
+    }
+
+    /**
+     * Find the full titles that select a SIKG test: the innermost block around each line
+     * that mentions the test's name. A describe block selects all of its tests.
+     * @param testName Name of the SIKG test
+     * @param content Content of the test file
+     * @param blocks Blocks of the test file
+     * @returns Titles of the selected blocks, each with the titles of its describe blocks
+     */
+    public static findTitles(testName: string, content: string, blocks: JavaScriptTestBlock[]): string[][] {
+        const titles = new Map<string, string[]>();
+
+        content.split('\n').forEach((text, index) => {
+            const line = index + 1;
+            if (!text.includes(testName)) {
+                return;
+            }
+
+            let innermost: JavaScriptTestBlock | undefined;
+            for (const block of blocks) {
+                if (block.startLine <= line && line <= block.endLine &&
+                    (!innermost || block.titles.length > innermost.titles.length)) {
+                    innermost = block;
+                }
+            }
+            if (innermost) {
+                titles.set(innermost.titles.join(' '), innermost.titles);
+            }
+        });
+
+        return Array.from(titles.values());
+    }
+
+    /**
+     * Build a name pattern for Jest's and Vitest's -t and Mocha's --grep, which match
+     * the titles of a test and its describe blocks joined by spaces
+     * @param titles Full titles of the tests or describe blocks to run
+     */
+    public static buildNamePattern(titles: string[][]): string {
+        return titles.map(title => this.escapeRegExp(title.join(' '))).join('|');
+    }
+
+    /**
+     * Escape text for use in a framework's name pattern
+     */
+    public static escapeRegExp(text: string): string {
+        return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+
+    /**
+     * Find the closing parenthesis of a call, skipping strings and comments
+     * @param content Content of the file
+     * @param start Index just after the call's first argument
+     * @returns Index of the closing parenthesis, or the end of the content
+     */
+    private static findCallEnd(content: string, start: number): number {
+        let depth = 1;
+        let i = start;
+
+        while (i < content.length) {
+            const char = content[i];
+            if (char === '\'' || char === '"' || char === '`') {
+                i++;
+                while (i < content.length && content[i] !== char) {
+                    i += content[i] === '\\' ? 2 : 1;
+                }
+            } else if (char === '/' && content[i + 1] === '/') {
+                i = content.indexOf('\n', i);
+                if (i < 0) {
+                    return content.length;
+                }
+            } else if (char === '/' && content[i + 1] === '*') {
+                i = content.indexOf('*/', i + 2);
+                if (i < 0) {
+                    return content.length;
+                }
+                i++;
+            } else if (char === '(' || char === '{' || char === '[') {
+                depth++;
+            } else if (char === ')' || char === '}' || char === ']') {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            }
+            i++;
+        }
+
+        return content.length;
+    }
+}
+
+export type JavaScriptTestFramework = 'jest' | 'mocha' | 'vitest';
+
+/**
+ * A describe, it or test call of a JavaScript test file
+ */
+export interface JavaScriptTestBlock {
+    kind: 'suite' | 'test';
+    titles: string[];                 // Titles of the enclosing describe blocks, then the block's own
+    startLine: number;                // 1-based
+    endLine: number;
+    endIndex: number;                 // Index of the call's closing parenthesis
+}
@@ -0,0 +1,97 @@
+// PytestReportMapper.ts - Maps the test cases of a pytest JUnit report to the requested tests
+
+import { Logger } from '../../../utils/Logger';
+import { RunnableTest, TestOutcome } from '../TestRunnerBase';
+import { JUnitTestCase } from './JUnitReportParser';
+
+/**
+ * Maps the test cases pytest writes with --junitxml back to the SIKG tests of one test file
+ */
+export class PytestReportMapper {
+    /**
+     * Map the test cases of a report to outcomes of the requested tests
+     * @param testCases Test cases parsed from the report
+     * @param tests Requested tests of the file
+     * @param relativePath Path of the test file relative to the directory pytest ran in
+     * @returns One outcome per matched test case; several may share a test ID
+     */
+    public static mapTestCases(testCases: JUnitTestCase[], tests: RunnableTest[], relativePath: string): TestOutcome[] {
+        const testsByName = new Map(tests.map(test => [test.testName, test]));
+        const modulePath = relativePath.replace(/\.py$/, '').split('/').join('.');
+        const moduleName = modulePath.split('.').pop() || '';
+        const outcomes: TestOutcome[] = [];
+
+        for (const testCase of testCases) {
+            if (this.isCollectionError(testCase, modulePath)) {
+                // The module failed to import, so none of its tests ran
+                outcomes.push(...tests.map(test => ({
+                    testId: test.testId,
+                    status: 'failed' as const,
+                    executionTime: 0,
+                    errorMessage: testCase.message
+                })));
+                continue;
+            }
+
+            const test = this.matchTestCase(testCase.className, testCase.name, moduleName, testsByName);
+            if (!test) {
+                Logger.debug(`Could not map pytest result ${testCase.className}::${testCase.name} to a SIKG test`);
+                continue;
+            }
+
+            outcomes.push({
+                testId: test.testId,
+                status: testCase.status,
+                executionTime: testCase.time * 1000,
+                errorMessage: testCase.message
+            });
+        }
+
+        return outcomes;
+    }
+
+    /**
+     * Check if a test case reports that pytest could not collect a module. pytest writes
+     * these with an empty class name and the dotted module path as name, e.g.
+     * classname="" name="tests.test_calc" for an import error in tests/test_calc.py.
+     * @param testCase Test case from the report
+     * @param modulePath Dotted module path of the test file, relative to where pytest ran
+     */
+    public static isCollectionError(testCase: JUnitTestCase, modulePath: string): boolean {
+        if (testCase.className || testCase.status !== 'failed') {
+            return false;
+        }
+
+        // pytest names the module relative to its rootdir, which may differ from the cwd
+        return testCase.name === modulePath ||
+            modulePath.endsWith(`.${testCase.name}`) ||
+            testCase.name.endsWith(`.${modulePath}`);
+    }
+
+    /**
+     * Map a pytest JUnit test case back to the SIKG test it belongs to
+     * @param className Dotted class name from the report, e.g. "tests.test_calc.TestCalc"
+     * @param name Test name from the report, e.g. "test_add[1-2]"
+     * @param moduleName Module name of the test file
+     * @param testsByName Requested tests keyed by their SIKG test name
+     */
+    private static matchTestCase(
+        className: string,
+        name: string,
+        moduleName: string,
+        testsByName: Map<string, RunnableTest>
+    ): RunnableTest | undefined {
+        // Strip parametrization ids: test_add[1-2] -> test_add
+        const baseName = name.replace(/\[.*\]$/, '');
+        const lastSegment = className.split('.').pop() || '';
+
+        if (lastSegment && lastSegment !== moduleName) {
+            const qualified = testsByName.get(`${lastSegment}.${baseName}`);
+            if (qualified) {
+                return qualified;
+            }
+        }
+
+        return testsByName.get(baseName);
+    }
+}
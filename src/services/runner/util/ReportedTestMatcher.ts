@@ -0,0 +1,166 @@
+// ReportedTestMatcher.ts - Maps test cases read from reports to the test nodes of the graph
+
+import { Node, TestImpact, TestResult } from '../../../sikg/GraphTypes';
+import { Logger } from '../../../utils/Logger';
+import { ReportedTestCase } from './TestReportParser';
+
+/**
+ * Collects the results of reported test cases per test node. Reports name tests by
+ * their framework title, optionally qualified by a class, package or describe block.
+ */
+export class ReportedTestMatcher {
+    private testsByName: Map<string, Node[]> = new Map();
+    private testImpacts: Record<string, TestImpact>;
+    private resultsById: Map<string, TestResult> = new Map();
+
+    /**
+     * @param testNodes Test nodes of the graph that results are mapped to
+     * @param testImpacts Latest impact scores, used to annotate the results for learning
+     */
+    constructor(testNodes: Node[], testImpacts: Record<string, TestImpact>) {
+        for (const node of testNodes) {
+            this.testsByName.set(node.name, [...(this.testsByName.get(node.name) || []), node]);
+        }
+        this.testImpacts = testImpacts;
+    }
+
+    /**
+     * Add the test cases of a report
+     * @returns Number of test cases that matched a test node
+     */
+    public addTestCases(testCases: ReportedTestCase[]): number {
+        let matched = 0;
+
+        for (const testCase of testCases) {
+            const moduleNodes = this.matchModuleError(testCase);
+            const node = moduleNodes.length === 0 ? this.match(testCase) : undefined;
+            if (moduleNodes.length === 0 && !node) {
+                continue;
+            }
+            matched++;
+
+            for (const testNode of node ? [node] : moduleNodes) {
+                this.addResult(testNode, testCase);
+            }
+        }
+
+        return matched;
+    }
+
+    /**
+     * Add the result of a test case to the result of a test node
+     */
+    private addResult(node: Node, testCase: ReportedTestCase): void {
+        const existing = this.resultsById.get(node.id);
+        if (existing) {
+            // Parametrized cases share one node: failures win, times add up
+            existing.executionTime += testCase.time * 1000;
+            if (testCase.status === 'failed' || existing.status === 'skipped') {
+                existing.status = testCase.status;
+                existing.errorMessage = testCase.message || existing.errorMessage;
+            }
+            return;
+        }
+
+        this.resultsById.set(node.id, {
+            testId: node.id,
+            status: testCase.status,
+            executionTime: testCase.time * 1000,
+            predictedImpact: this.testImpacts[node.id]?.impactScore,
+            changedNodeIds: this.testImpacts[node.id]?.contributingChanges.map(c => c.nodeId),
+            errorMessage: testCase.status === 'passed' ? undefined : testCase.message,
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    /**
+     * Get one result per test node that any added test case matched
+     */
+    public getResults(): TestResult[] {
+        return Array.from(this.resultsById.values());
+    }
+
+    /**
+     * Map a reported test case to a test node of the graph
+     */
+    public match(testCase: ReportedTestCase): Node | undefined {
+        // Strip parametrization: test_add[1-2], testAdd(int)[1], Adds(x: 1)
+        const baseName = testCase.name.replace(/\[.*\]$/, '').replace(/\(.*\)$/, '');
+        const suiteSegments = testCase.suite.split(/[.+$]/);
+        const lastSuiteSegment = suiteSegments[suiteSegments.length - 1] || '';
+
+        const candidates = [
+            `${lastSuiteSegment}.${baseName}`,
+            `${testCase.suite}.${baseName}`,
+            `${testCase.suite} ${baseName}`,
+            baseName,
+            // xUnit reports "Ns.Class.Method"
+            baseName.split('.').pop() || baseName,
+            // A node named after the class stands for the whole class
+            lastSuiteSegment
+        ];
+
+        for (const candidate of candidates) {
+            const nodes = this.testsByName.get(candidate);
+            if (!nodes || nodes.length === 0) {
+                continue;
+            }
+            if (nodes.length === 1) {
+                return nodes[0];
+            }
+
+            // Several tests share the name: use the report's file or suite to pick one
+            const reportFile = testCase.file?.replace(/\\/g, '/');
+            const match = nodes.find(node =>
+                (reportFile && (reportFile.endsWith(node.filePath) || node.filePath.endsWith(reportFile))) ||
+                this.suiteMatchesFile(testCase.suite, node.filePath)
+            );
+            if (match) {
+                return match;
+            }
+
+            Logger.debug(`Ambiguous test result ${testCase.suite} ${testCase.name} matches ${nodes.length} tests, skipping`);
+            return undefined;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Find the test nodes of a module that failed as a whole. pytest reports a module it
+     * could not collect, e.g. because of an import error, as a failed case without a suite
+     * that is named after the module, like name="tests.test_calc".
+     * @returns Test nodes of the module, or an empty list if the case is not a module error
+     */
+    public matchModuleError(testCase: ReportedTestCase): Node[] {
+        if (testCase.suite || testCase.status !== 'failed' || !/^[\w.]+$/.test(testCase.name)) {
+            return [];
+        }
+
+        // A test that is named like the module is still a test
+        if (this.testsByName.has(testCase.name)) {
+            return [];
+        }
+
+        const nodes: Node[] = [];
+        for (const testNodes of this.testsByName.values()) {
+            nodes.push(...testNodes.filter(node => this.suiteMatchesFile(testCase.name, node.filePath)));
+        }
+        return nodes;
+    }
+
+    /**
+     * Check if a dotted suite name (e.g. "tests.test_calc.TestCalc" or "com.acme.CalcTest")
+     * refers to a test file
+     */
+    private suiteMatchesFile(suite: string, filePath: string): boolean {
+        if (!suite) {
+            return false;
+        }
+
+        const modulePath = filePath.replace(/\.\w+$/, '').replace(/[\\/]/g, '.');
+        return suite === modulePath ||
+            suite.startsWith(`${modulePath}.`) ||
+            modulePath.endsWith(`.${suite}`);
+    }
+}
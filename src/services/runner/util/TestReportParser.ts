@@ -0,0 +1,127 @@
+// TestReportParser.ts - Format-detecting parser for test reports written outside of SIKG
+
+import { TestResult } from '../../../sikg/GraphTypes';
+import { JUnitReportParser } from './JUnitReportParser';
+import { TrxReportParser } from './TrxReportParser';
+import { GoTestJsonParser } from './GoTestJsonParser';
+
+/**
+ * Parses test reports of unknown origin, e.g. reports written by the user's own test
+ * tasks. Supports JUnit XML (pytest, Surefire, Gradle, jest-junit), TRX, Jest/Vitest
+ * and Mocha JSON, and `go test -json` output.
+ */
+export class TestReportParser {
+    /**
+     * Detect the format of a report and parse its test cases
+     * @param content Content of the report
+     * @returns Parsed test cases, or an empty list if the format is not recognized
+     */
+    public static parse(content: string): ReportedTestCase[] {
+        const trimmed = content.trim();
+
+        if (trimmed.startsWith('<')) {
+            if (/<TestRun\b/.test(trimmed)) {
+                return TrxReportParser.parse(trimmed).map(testCase => ({
+                    name: testCase.name,
+                    suite: testCase.className,
+                    time: testCase.time,
+                    status: testCase.status,
+                    message: testCase.message
+                }));
+            }
+
+            return JUnitReportParser.parse(trimmed).map(testCase => ({
+                name: testCase.name,
+                suite: testCase.className,
+                file: testCase.file,
+                time: testCase.time,
+                status: testCase.status,
+                message: testCase.message
+            }));
+        }
+
+        // go test -json writes one event object per line
+        if (/^\{"(?:Time|Action)"/.test(trimmed)) {
+            return GoTestJsonParser.parse(trimmed)
+                .filter(testCase => !testCase.name.includes('/'))
+                .map(testCase => ({
+                    name: testCase.name,
+                    suite: testCase.packageName,
+                    time: testCase.time,
+                    status: testCase.status,
+                    message: testCase.status === 'failed' ? testCase.output.trim() : undefined
+                }));
+        }
+
+        let report: any;
+        try {
+            report = JSON.parse(trimmed);
+        } catch (error) {
+            return [];
+        }
+
+        if (Array.isArray(report.testResults)) {
+            return this.parseJestReport(report);
+        }
+        if (Array.isArray(report.tests) && report.stats) {
+            return this.parseMochaReport(report);
+        }
+
+        return [];
+    }
+
+    /**
+     * Parse a Jest or Vitest JSON report
+     */
+    private static parseJestReport(report: any): ReportedTestCase[] {
+        const testCases: ReportedTestCase[] = [];
+
+        for (const fileResult of report.testResults) {
+            for (const assertion of fileResult.assertionResults || []) {
+                testCases.push({
+                    name: assertion.title,
+                    suite: (assertion.ancestorTitles || []).join(' '),
+                    file: fileResult.name,
+                    time: (assertion.duration || 0) / 1000,
+                    status: assertion.status === 'passed' || assertion.status === 'failed' ? assertion.status : 'skipped',
+                    message: (assertion.failureMessages || []).join('\n').replace(/\u001b\[[0-9;]*m/g, '') || undefined
+                });
+            }
+        }
+
+        return testCases;
+    }
+
+    /**
+     * Parse a Mocha JSON report
+     */
+    private static parseMochaReport(report: any): ReportedTestCase[] {
+        const pending = new Set((report.pending || []).map((test: any) => test.fullTitle));
+
+        return report.tests.map((test: any) => {
+            const failed = test.err && Object.keys(test.err).length > 0;
+            const fullTitle: string = test.fullTitle || test.title;
+
+            return {
+                name: test.title,
+                suite: fullTitle.endsWith(test.title) ? fullTitle.substring(0, fullTitle.length - test.title.length).trim() : '',
+                file: test.file,
+                time: (test.duration || 0) / 1000,
+                status: failed ? 'failed' : pending.has(test.fullTitle) ? 'skipped' : 'passed',
+                message: failed ? (test.err.stack || test.err.message) : undefined
+            };
+        });
+    }
+}
+
+/**
+ * A test case read from a report, independent of the report format
+ */
+export interface ReportedTestCase {
+    name: string;
+    suite: string;          // Class, package or describe block the test belongs to
+    file?: string;
+    time: number;           // Duration in seconds
+    status: TestResult['status'];
+    message?: string;
+}
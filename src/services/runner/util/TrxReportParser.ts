@@ -0,0 +1,110 @@
+// TrxReportParser.ts - Parser for Visual Studio TRX test reports
+
+import { TestResult } from '../../../sikg/GraphTypes';
+import { JUnitReportParser } from './JUnitReportParser';
+
+/**
+ * Parses TRX reports as written by `dotnet test --logger trx`
+ */
+export class TrxReportParser {
+    /**
+     * Parse all test results from a TRX report
+     * @param xml Content of the report
+     * @returns Parsed test results in report order
+     */
+    public static parse(xml: string): TrxTestCase[] {
+        // Test definitions carry the class of each test, results only reference them by id
+        const classNames = new Map<string, string>();
+        const definitionPattern = /<UnitTest\b([^>]*)>[\s\S]*?<TestMethod\b([^>]*?)\/?>/g;
+        let match;
+
+        while ((match = definitionPattern.exec(xml)) !== null) {
+            const testAttributes = this.parseAttributes(match[1]);
+            const methodAttributes = this.parseAttributes(match[2]);
+            if (testAttributes.id && methodAttributes.className) {
+                // className may be assembly-qualified: "Ns.Class, Assembly"
+                classNames.set(testAttributes.id, methodAttributes.className.split(',')[0].trim());
+            }
+        }
+
+        const testCases: TrxTestCase[] = [];
+        const resultPattern = /<UnitTestResult\b([^>]*?)(?:\/>|>([\s\S]*?)<\/UnitTestResult>)/g;
+
+        while ((match = resultPattern.exec(xml)) !== null) {
+            const attributes = this.parseAttributes(match[1]);
+            const body = match[2] || '';
+
+            const messageMatch = /<Message>([\s\S]*?)<\/Message>/.exec(body);
+            const stackMatch = /<StackTrace>([\s\S]*?)<\/StackTrace>/.exec(body);
+            const message = [messageMatch?.[1], stackMatch?.[1]]
+                .filter(part => part)
+                .map(part => JUnitReportParser.decodeEntities(part!).trim())
+                .join('\n');
+
+            testCases.push({
+                name: attributes.testName || '',
+                className: classNames.get(attributes.testId || '') || '',
+                time: this.parseDuration(attributes.duration),
+                status: this.toStatus(attributes.outcome),
+                message: message || undefined
+            });
+        }
+
+        return testCases;
+    }
+
+    /**
+     * Convert a TRX outcome to a test result status
+     */
+    private static toStatus(outcome: string | undefined): TestResult['status'] {
+        switch (outcome) {
+            case 'Passed':
+            case 'PassedButRunAborted':
+                return 'passed';
+            case 'NotExecuted':
+            case 'Inconclusive':
+            case 'NotRunnable':
+            case 'Pending':
+                return 'skipped';
+            default:
+                return 'failed';
+        }
+    }
+
+    /**
+     * Parse a TRX duration ("hh:mm:ss.fffffff") into seconds
+     */
+    private static parseDuration(duration: string | undefined): number {
+        const match = duration ? /^(\d+):(\d+):([\d.]+)$/.exec(duration) : null;
+        if (!match) {
+            return 0;
+        }
+        return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]);
+    }
+
+    /**
+     * Parse the attributes of an XML start tag
+     */
+    private static parseAttributes(attributeText: string): Record<string, string> {
+        const attributes: Record<string, string> = {};
+        const attributePattern = /([\w:.-]+)\s*=\s*"([^"]*)"/g;
+        let match;
+
+        while ((match = attributePattern.exec(attributeText)) !== null) {
+            attributes[match[1]] = JUnitReportParser.decodeEntities(match[2]);
+        }
+
+        return attributes;
+    }
+}
+
+/**
+ * A single test result from a TRX report
+ */
+export interface TrxTestCase {
+    name: string;           // May be "Method" or "Ns.Class.Method(args)" depending on the framework
+    className: string;
+    time: number;           // Duration in seconds
+    status: TestResult['status'];
+    message?: string;
+}
@@ -1,7 +1,7 @@
 // Fixed ChangeAnalyzer.ts - Precise change detection and impact analysis
 
-import * as vscode from 'vscode';
 import * as crypto from 'crypto';
+import * as fs from 'fs';
 import * as path from 'path';
 import { SIKGManager } from './SIKGManager';
 import { GitService } from '../services/GitService';
@@ -9,6 +9,19 @@ import { ConfigManager } from '../utils/ConfigManager';
 import { SemanticChangeInfo } from './GraphTypes';
 import { Logger } from '../utils/Logger';
 import { ParserUtils } from './parser/util/ParserUtils';
+import { Host } from '../host/SIKGHost';
+
+// Base impact scores by semantic type
+const BASE_IMPACT_BY_TYPE: Record<SemanticChangeInfo['semanticType'], number> = {
+    'BUG_FIX': 0.8,               // High impact - fixes often change behavior
+    'FEATURE_ADDITION': 0.7,      // Moderately high - new code may have bugs
+    'REFACTORING_SIGNATURE': 0.9, // Very high - changes API/interfaces
+    'REFACTORING_LOGIC': 0.5,     // Medium - internal changes may have bugs
+    'DEPENDENCY_UPDATE': 0.6,     // Medium-high - may change dependencies
+    'PERFORMANCE_OPT': 0.4,       // Lower - shouldn't change behavior
+    'REMOVAL': 1.0,               // Highest - every remaining caller breaks
+    'UNKNOWN': 0.5                // Medium - default
+};
 
 export class ChangeAnalyzer {
     private sikgManager: SIKGManager;
@@ -28,6 +41,16 @@ export class ChangeAnalyzer {
         Logger.info(`Analyzing ${changes.length} file changes...`);
         const result: SemanticChangeInfo[] = [];
         
+        // New files may have been created since the graph was last refreshed
+        const addedFiles = changes.filter(change => change.changeType === 'add').map(change => change.filePath);
+        if (addedFiles.length > 0) {
+            try {
+                await this.sikgManager.ensureFilesParsed(addedFiles);
+            } catch (error) {
+                Logger.warn('Failed to parse added files:', error);
+            }
+        }
+        
         for (const fileChange of changes) {
             try {
                 const filePath = fileChange.filePath;
@@ -48,8 +71,14 @@ export class ChangeAnalyzer {
                     continue;
                 }
                 
-                // FIXED: Extract only ACTUALLY modified code snippets with precise line tracking
-                const modifiedSnippets = await this.extractPreciseModifiedSnippets(fileChange);
+                // A new file is added as a whole and a deleted one has no lines left to match;
+                // otherwise only the modified lines count
+                const fileAdded = fileChange.changeType === 'add';
+                const modifiedSnippets = fileAdded
+                    ? this.extractWholeFileSnippet(filePath)
+                    : fileChange.changeType === 'delete'
+                        ? []
+                        : await this.extractPreciseModifiedSnippets(fileChange);
                 
                 for (const snippet of modifiedSnippets) {
                     // FIXED: Find ONLY nodes that were actually changed in these specific lines
@@ -57,7 +86,7 @@ export class ChangeAnalyzer {
                     
                     for (const nodeId of affectedNodeIds) {
                         // Classify the change semantically based on language
-                        const semanticType = await this.classifyChangeType(
+                        const semanticType = fileAdded ? 'FEATURE_ADDITION' : await this.classifyChangeType(
                             snippet.before,
                             snippet.after,
                             nodeId,
@@ -78,6 +107,7 @@ export class ChangeAnalyzer {
                                 changeLocation: snippet.location,
                                 language: language,
                                 filePath: filePath,
+                                fileAdded,
                                 changeTimestamp: Date.now()
                             },
                             initialImpactScore
@@ -87,6 +117,11 @@ export class ChangeAnalyzer {
                         Logger.info(`Found semantic change: ${semanticType} in node ${nodeId} (${snippet.location.startLine}-${snippet.location.endLine})`);
                     }
                 }
+                
+                // Elements of the earlier version that are gone break whatever still depends on them
+                if (!fileAdded) {
+                    result.push(...await this.analyzeRemovedElements(fileChange, language));
+                }
             } catch (error) {
                 Logger.error(`Error analyzing changes for file ${fileChange.filePath}:`, error);
             }
@@ -99,6 +134,71 @@ export class ChangeAnalyzer {
         return result;
     }
 
+    /**
+     * Compare the elements of a file's earlier version with the graph and report each
+     * element that no longer exists as a REMOVAL
+     */
+    private async analyzeRemovedElements(fileChange: FileChange, language: string): Promise<SemanticChangeInfo[]> {
+        const originalContent = await this.gitService.getOriginalContent(fileChange.filePath);
+        if (originalContent === null) {
+            return [];
+        }
+
+        const originalLines = originalContent.split('\n');
+        const removedElements = await this.sikgManager.findRemovedElements(fileChange.filePath, originalContent);
+
+        return removedElements.map(element => {
+            const removedCode = originalLines.slice(element.loc.start.line - 1, element.loc.end.line).join('\n');
+            Logger.info(`Found semantic change: REMOVAL of ${element.kind} ${element.name} in ${fileChange.filePath}, ` +
+                `affecting ${element.dependentIds.length} dependent nodes`);
+
+            return {
+                nodeId: element.id,
+                semanticType: 'REMOVAL',
+                changeDetails: {
+                    linesChanged: element.loc.end.line - element.loc.start.line + 1,
+                    oldCodeHash: this.hashCode(removedCode),
+                    newCodeHash: this.hashCode(''),
+                    changeLocation: { startLine: element.loc.start.line, endLine: element.loc.end.line },
+                    language,
+                    filePath: fileChange.filePath,
+                    fileDeleted: fileChange.changeType === 'delete',
+                    elementName: element.name,
+                    elementKind: element.kind,
+                    dependentIds: element.dependentIds,
+                    changeTimestamp: Date.now()
+                },
+                // The node and its connections are gone, so only the type decides
+                initialImpactScore: BASE_IMPACT_BY_TYPE.REMOVAL
+            };
+        });
+    }
+
+    /**
+     * Treat every line of a new file as changed
+     */
+    private extractWholeFileSnippet(filePath: string): CodeSnippet[] {
+        let content: string;
+        try {
+            content = fs.readFileSync(ParserUtils.resolveWorkspacePath(filePath), 'utf8');
+        } catch (error) {
+            Logger.debug(`Could not read added file ${filePath}`);
+            return [];
+        }
+
+        const lineCount = content.split('\n').length;
+        return [{
+            before: '',
+            after: content,
+            linesChanged: lineCount,
+            location: {
+                startLine: 1,
+                endLine: lineCount,
+                actualChangedLines: Array.from({ length: lineCount }, (_, index) => index + 1)
+            }
+        }];
+    }
+
     /**
      * FIXED: Extract only the ACTUALLY modified code snippets with precise line tracking
      */
@@ -226,16 +326,9 @@ export class ChangeAnalyzer {
      */
     private normalizeFilePath(filePath: string): string {
         try {
-            // Use workspace-relative path if possible
-            if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-                const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath;
-                
-                if (path.isAbsolute(filePath)) {
-                    const relativePath = path.relative(workspaceRoot, filePath);
-                    if (!relativePath.startsWith('..')) {
-                        return relativePath.replace(/\\/g, '/');
-                    }
-                }
+            // Use workspace-relative path if possible, qualified with the folder name in multi-root workspaces
+            if (path.isAbsolute(filePath)) {
+                return ParserUtils.getWorkspaceRelativePath(path.normalize(filePath));
             }
             
             return path.normalize(filePath).replace(/\\/g, '/');
@@ -262,8 +355,9 @@ export class ChangeAnalyzer {
                 return true;
             }
             
-            // Check if one is a suffix of the other (handle relative vs absolute paths)
-            return normalized1.endsWith(normalized2) || normalized2.endsWith(normalized1);
+            // Check if one ends with the other (handle relative vs absolute paths), at a folder
+            // boundary so that "calc.py" does not match "tests/test_calc.py"
+            return normalized1.endsWith(`/${normalized2}`) || normalized2.endsWith(`/${normalized1}`);
         } catch (error) {
             Logger.debug(`Error comparing paths ${path1} and ${path2}:`, error);
             return path1 === path2;
@@ -275,16 +369,11 @@ export class ChangeAnalyzer {
      */
     private getFileLanguage(filePath: string): string {
         try {
-            // First try to get language from VS Code if file is open
-            const openDocument = vscode.workspace.textDocuments.find(doc => 
-                doc.fileName === filePath || 
-                doc.fileName.endsWith(filePath) ||
-                doc.uri.fsPath === filePath
-            );
-            
-            if (openDocument) {
-                Logger.debug(`Found open document with language: ${openDocument.languageId}`);
-                return openDocument.languageId;
+            // First try to get language from the editor if file is open
+            const openDocumentLanguage = Host.get().workspace.getOpenDocumentLanguage(filePath);
+            if (openDocumentLanguage) {
+                Logger.debug(`Found open document with language: ${openDocumentLanguage}`);
+                return openDocumentLanguage;
             }
             
             // Fall back to extension-based detection
@@ -498,22 +587,11 @@ export class ChangeAnalyzer {
             // More connections = more important node
             const connectivityFactor = Math.min(1, (incomingEdges.length + outgoingEdges.length) / 10);
             
-            // Base impact scores by semantic type
-            const baseImpactByType: Record<SemanticChangeInfo['semanticType'], number> = {
-                'BUG_FIX': 0.8,               // High impact - fixes often change behavior
-                'FEATURE_ADDITION': 0.7,      // Moderately high - new code may have bugs
-                'REFACTORING_SIGNATURE': 0.9, // Very high - changes API/interfaces
-                'REFACTORING_LOGIC': 0.5,     // Medium - internal changes may have bugs
-                'DEPENDENCY_UPDATE': 0.6,     // Medium-high - may change dependencies
-                'PERFORMANCE_OPT': 0.4,       // Lower - shouldn't change behavior
-                'UNKNOWN': 0.5                // Medium - default
-            };
-            
             // Size factor - more lines changed = higher impact
             const sizeFactor = Math.min(1, snippet.linesChanged / 50);
             
             // Calculate final score combining all factors
-            const rawImpact = baseImpactByType[semanticType] * 0.5 + 
+            const rawImpact = BASE_IMPACT_BY_TYPE[semanticType] * 0.5 + 
                           connectivityFactor * 0.3 + 
                           sizeFactor * 0.2;
             
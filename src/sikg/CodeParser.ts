@@ -10,6 +10,9 @@ import { CodeParserFactory } from './parser/code/CodeParserFactory';
  * to the new modular implementation.
  */
 export class CodeParser {
+    // Bump when the code parsers change their output, so that stored graphs re-parse code files
+    public static readonly VERSION = 4;
+
     private parserFactory: CodeParserFactory;
     private initialized: boolean = false;
 
@@ -0,0 +1,263 @@
+// GraphIntegrityChecker.ts - Finds and repairs inconsistencies in the knowledge graph
+
+import * as fs from 'fs';
+import { Logger } from '../utils/Logger';
+import { SIKGManager } from './SIKGManager';
+import { ParserUtils } from './parser/util/ParserUtils';
+import { Node, Edge, GraphIntegrityIssue, GraphIntegrityReport, GraphRepairResult } from './GraphTypes';
+
+// Issues listed per type in the Markdown report; the rest are only counted
+const MAX_LISTED_ISSUES = 200;
+
+const ISSUE_TITLES: Record<GraphIntegrityIssue['type'], string> = {
+    DANGLING_EDGE: 'Dangling edges',
+    DUPLICATE_SYMBOL: 'Duplicate symbols',
+    SELF_LOOP: 'Self-loops',
+    ORPHANED_TEST: 'Tests without TESTS edges',
+    MISSING_FILE: 'Nodes of missing files'
+};
+
+/**
+ * Checks the graph for dangling edges, duplicate symbols, self-loops, orphaned tests
+ * and nodes of deleted files, and repairs them by dropping, relinking or re-parsing
+ */
+export class GraphIntegrityChecker {
+    private sikgManager: SIKGManager;
+
+    constructor(sikgManager: SIKGManager) {
+        this.sikgManager = sikgManager;
+    }
+
+    /**
+     * Check the graph and suggest a repair for each issue found
+     */
+    public check(): GraphIntegrityReport {
+        const nodes = [...this.sikgManager.getCodeNodes(), ...this.sikgManager.getTestNodes()];
+        const edges = this.sikgManager.getAllEdges();
+        const issues: GraphIntegrityIssue[] = [];
+
+        // Nodes of files that no longer exist
+        const missingFiles = new Set<string>();
+        for (const [filePath, fileNodes] of this.groupBy(nodes, node => node.filePath)) {
+            if (!fs.existsSync(ParserUtils.resolveWorkspacePath(filePath))) {
+                missingFiles.add(filePath);
+                issues.push({
+                    type: 'MISSING_FILE',
+                    description: `${fileNodes.length} nodes belong to ${filePath}, which no longer exists`,
+                    filePath,
+                    nodeIds: fileNodes.map(node => node.id),
+                    repair: 'drop'
+                });
+            }
+        }
+
+        // More than one node for the same symbol, left behind by ID scheme changes
+        const symbols = this.groupBy(nodes, node => `${node.type}|${node.filePath}|${node.properties.kind || ''}|${node.name}`);
+        for (const symbolNodes of symbols.values()) {
+            const filePath = symbolNodes[0].filePath;
+            if (symbolNodes.length > 1 && !missingFiles.has(filePath)) {
+                issues.push({
+                    type: 'DUPLICATE_SYMBOL',
+                    description: `${symbolNodes.length} nodes for ${symbolNodes[0].name} in ${filePath}`,
+                    filePath,
+                    nodeIds: symbolNodes.map(node => node.id),
+                    repair: 'reparse'
+                });
+            }
+        }
+
+        const nodesByName = this.groupBy(this.sikgManager.getCodeNodes(), node => node.name);
+
+        for (const edge of edges) {
+            const edgeId = this.sikgManager.getEdgeId(edge);
+            const source = this.sikgManager.getNode(edge.source);
+            const target = this.sikgManager.getNode(edge.target);
+
+            if (edge.source === edge.target) {
+                issues.push({
+                    type: 'SELF_LOOP',
+                    description: `${edge.type} edge from ${source?.name || edge.source} to itself${this.describeProvenance(edge)}`,
+                    filePath: source?.filePath,
+                    nodeIds: [edge.source],
+                    edgeId,
+                    repair: 'drop'
+                });
+                continue;
+            }
+
+            if (source && target) {
+                continue;
+            }
+
+            // Targets guessed from a name can be pointed at the one node that has that name
+            const relinkTarget = source && edge.properties.targetName
+                ? this.findRelinkTarget(source, nodesByName.get(edge.properties.targetName) || [])
+                : undefined;
+
+            issues.push({
+                type: 'DANGLING_EDGE',
+                description: `${edge.type} edge from ${source?.name || edge.source} to ` +
+                    `${target?.name || edge.properties.targetName || edge.target}, which does not exist${this.describeProvenance(edge)}`,
+                filePath: source?.filePath || target?.filePath,
+                nodeIds: [edge.source, edge.target],
+                edgeId,
+                repair: relinkTarget ? 'relink' : 'drop',
+                relinkTargetId: relinkTarget?.id
+            });
+        }
+
+        for (const test of this.sikgManager.getTestNodes()) {
+            if (missingFiles.has(test.filePath)) {
+                continue;
+            }
+            if (!this.sikgManager.getOutgoingEdges(test.id).some(edge => edge.type === 'TESTS')) {
+                issues.push({
+                    type: 'ORPHANED_TEST',
+                    description: `${test.name} is not linked to any code`,
+                    filePath: test.filePath,
+                    nodeIds: [test.id],
+                    repair: 'reparse'
+                });
+            }
+        }
+
+        Logger.info(`Graph integrity check found ${issues.length} issues in ${nodes.length} nodes and ${edges.length} edges`);
+
+        return {
+            checkedAt: new Date().toISOString(),
+            nodeCount: nodes.length,
+            edgeCount: edges.length,
+            issues
+        };
+    }
+
+    /**
+     * Apply the suggested repair of each issue and save the graph
+     */
+    public async repair(report: GraphIntegrityReport): Promise<GraphRepairResult> {
+        const result: GraphRepairResult = { edgesDropped: 0, edgesRelinked: 0, nodesDropped: 0, filesReparsed: [] };
+        const filesToReparse = new Set<string>();
+
+        for (const issue of report.issues) {
+            if (issue.edgeId && issue.repair === 'drop') {
+                if (this.sikgManager.removeEdge(issue.edgeId)) {
+                    result.edgesDropped++;
+                }
+            } else if (issue.edgeId && issue.repair === 'relink' && issue.relinkTargetId) {
+                const edge = this.sikgManager.getEdge(issue.edgeId);
+                if (edge && this.sikgManager.removeEdge(issue.edgeId)) {
+                    this.sikgManager.addEdge({ ...edge, target: issue.relinkTargetId });
+                    result.edgesRelinked++;
+                }
+            } else if (issue.filePath && (issue.repair === 'reparse' || issue.type === 'MISSING_FILE')) {
+                // Re-parsing a file that no longer exists removes its nodes
+                filesToReparse.add(issue.filePath);
+                if (issue.type === 'MISSING_FILE') {
+                    result.nodesDropped += issue.nodeIds.length;
+                }
+            }
+        }
+
+        if (filesToReparse.size > 0) {
+            result.filesReparsed = Array.from(filesToReparse).sort();
+            await this.sikgManager.reparseFiles(result.filesReparsed);
+        } else {
+            this.sikgManager.scheduleSave();
+        }
+
+        Logger.info(`Graph repair dropped ${result.edgesDropped} edges and ${result.nodesDropped} nodes, ` +
+            `relinked ${result.edgesRelinked} edges and re-parsed ${result.filesReparsed.length} files`);
+        return result;
+    }
+
+    /**
+     * Format the issues of a check, and the outcome of a repair, as a Markdown report
+     */
+    public formatReport(report: GraphIntegrityReport, repairResult?: GraphRepairResult): string {
+        const lines = [
+            '# SIKG Graph Validation',
+            '',
+            `Checked ${report.nodeCount} nodes and ${report.edgeCount} edges at ${report.checkedAt}.`,
+            ''
+        ];
+
+        const issuesByType = this.groupBy(report.issues, issue => issue.type);
+
+        lines.push(
+            '| Issue | Count |',
+            '| --- | ---: |',
+            ...Object.entries(ISSUE_TITLES).map(([type, title]) =>
+                `| ${title} | ${issuesByType.get(type as GraphIntegrityIssue['type'])?.length || 0} |`),
+            ''
+        );
+
+        if (repairResult) {
+            lines.push(
+                '## Repair',
+                '',
+                `- Edges dropped: ${repairResult.edgesDropped}`,
+                `- Edges relinked: ${repairResult.edgesRelinked}`,
+                `- Nodes of missing files dropped: ${repairResult.nodesDropped}`,
+                `- Files re-parsed: ${repairResult.filesReparsed.length}`,
+                ''
+            );
+        }
+
+        for (const [type, issues] of issuesByType) {
+            lines.push(
+                `## ${ISSUE_TITLES[type]}`,
+                '',
+                '| Description | File | Repair |',
+                '| --- | --- | --- |',
+                ...issues.slice(0, MAX_LISTED_ISSUES).map(issue =>
+                    `| ${issue.description} | ${issue.filePath ? `\`${issue.filePath}\`` : ''} | ${issue.repair} |`)
+            );
+            if (issues.length > MAX_LISTED_ISSUES) {
+                lines.push('', `...and ${issues.length - MAX_LISTED_ISSUES} more.`);
+            }
+            lines.push('');
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Find the node a dangling edge should point at: the only node with the target's name
+     * in the source's file, otherwise the only one in the workspace
+     */
+    private findRelinkTarget(source: Node, candidates: Node[]): Node | undefined {
+        const sameFile = candidates.filter(candidate => candidate.filePath === source.filePath && candidate.id !== source.id);
+        if (sameFile.length === 1) {
+            return sameFile[0];
+        }
+
+        const others = candidates.filter(candidate => candidate.id !== source.id);
+        return others.length === 1 ? others[0] : undefined;
+    }
+
+    /**
+     * Describe which producer added an edge and how confident it was, e.g. " (python-ast, 90% confidence)"
+     */
+    private describeProvenance(edge: Edge): string {
+        return edge.provenance
+            ? ` (${edge.provenance.producer}, ${Math.round(edge.provenance.confidence * 100)}% confidence)`
+            : '';
+    }
+
+    /**
+     * Group values by a key
+     */
+    private groupBy<T, K>(values: T[], getKey: (value: T) => K): Map<K, T[]> {
+        const groups = new Map<K, T[]>();
+        for (const value of values) {
+            const key = getKey(value);
+            const group = groups.get(key);
+            if (group) {
+                group.push(value);
+            } else {
+                groups.set(key, [value]);
+            }
+        }
+        return groups;
+    }
+}
@@ -0,0 +1,158 @@
+// GraphMigrator.ts - Upgrades stored graph files to the current schema version
+
+import { Logger } from '../utils/Logger';
+import { CodeParser } from './CodeParser';
+import { TestParser } from './TestParser';
+import { PersistedGraph } from './GraphTypes';
+
+/**
+ * Version of the persisted graph format. Bump it and add a migration below
+ * whenever the shape of stored nodes, edges or IDs changes.
+ */
+export const GRAPH_SCHEMA_VERSION = 7;
+
+/**
+ * Upgrades one schema version to the next
+ */
+interface GraphMigration {
+    fromVersion: number;
+    description: string;
+    migrate(data: any): any;
+}
+
+/**
+ * Upgrades stored graphs step by step, one schema version at a time
+ */
+export class GraphMigrator {
+    private static readonly MIGRATIONS: GraphMigration[] = [
+        {
+            fromVersion: 1,
+            description: 'Wrap the unversioned graph in a versioned envelope',
+            migrate: (data: any) => ({
+                schemaVersion: 2,
+                // Unversioned graphs were written by the parsers that became version 1
+                parserVersions: { code: 1, test: 1 },
+                createdBy: 'unknown',
+                savedBy: 'unknown',
+                nodes: data.nodes || [],
+                edges: data.edges || [],
+                // Graphs saved before the manifest existed are re-parsed in full on the next update
+                fileManifest: data.fileManifest || []
+            })
+        },
+        {
+            fromVersion: 2,
+            description: 'Re-parse all files so that nodes carry the body fingerprints used to recognize renames',
+            migrate: (data: any) => ({
+                ...data,
+                schemaVersion: 3,
+                fileManifest: (data.fileManifest || []).map(([filePath, entry]: [string, any]) =>
+                    [filePath, { ...entry, codeHash: undefined, testHash: undefined }])
+            })
+        },
+        {
+            fromVersion: 3,
+            description: 'Give modules their own node type and re-parse code files to add File and package nodes',
+            migrate: (data: any) => ({
+                ...data,
+                schemaVersion: 4,
+                nodes: (data.nodes || []).map(([id, node]: [string, any]) =>
+                    [id, node.properties?.kind === 'module' ? { ...node, type: 'Module' } : node]),
+                fileManifest: (data.fileManifest || []).map(([filePath, entry]: [string, any]) =>
+                    [filePath, { ...entry, codeHash: undefined }])
+            })
+        },
+        {
+            fromVersion: 4,
+            description: 'Record edge provenance; parsed edges get their producer when the new parsers re-parse their files',
+            migrate: (data: any) => {
+                const migratedAt = new Date().toISOString();
+                return {
+                    ...data,
+                    schemaVersion: 5,
+                    edges: (data.edges || []).map(([id, edge]: [string, any]) => {
+                        // The old 'high' or 'low' confidence of linked edges lives on in the provenance
+                        const { confidence, ...properties } = edge.properties || {};
+                        const source: string | undefined = properties.source;
+                        return [id, {
+                            ...edge,
+                            properties,
+                            provenance: {
+                                producer: source || 'unknown',
+                                confidence: source ? (source === 'lsp' ? 0.9 : 1.0) : (confidence === 'low' ? 0.35 : 0.7),
+                                createdAt: migratedAt
+                            }
+                        }];
+                    })
+                };
+            }
+        },
+        {
+            fromVersion: 5,
+            description: 'Re-parse all files so that node IDs are qualified with the name of their workspace folder',
+            migrate: (data: any) => ({
+                ...data,
+                schemaVersion: 6,
+                fileManifest: (data.fileManifest || []).map(([filePath, entry]: [string, any]) =>
+                    [filePath, { ...entry, codeHash: undefined, testHash: undefined }])
+            })
+        },
+        {
+            fromVersion: 6,
+            description: 'Re-parse all files so that node IDs no longer depend on the name of a single workspace folder',
+            migrate: (data: any) => ({
+                ...data,
+                schemaVersion: 7,
+                // Renamed IDs are recognized as the same nodes, so learned state and aliases carry over
+                fileManifest: (data.fileManifest || []).map(([filePath, entry]: [string, any]) =>
+                    [filePath, { ...entry, codeHash: undefined, testHash: undefined }])
+            })
+        }
+    ];
+
+    /**
+     * Get the schema version of stored graph data; files without one predate versioning
+     */
+    public static getSchemaVersion(data: any): number {
+        return typeof data?.schemaVersion === 'number' ? data.schemaVersion : 1;
+    }
+
+    /**
+     * Upgrade stored graph data to the current schema version
+     * @param data Parsed content of a graph file
+     * @returns The upgraded graph, or null if no migration path exists and the graph must be re-parsed
+     */
+    public static migrate(data: any): PersistedGraph | null {
+        let version = this.getSchemaVersion(data);
+
+        if (version > GRAPH_SCHEMA_VERSION) {
+            Logger.warn(`Stored graph has schema version ${version}, newer than supported version ${GRAPH_SCHEMA_VERSION}`);
+            return null;
+        }
+
+        let migrated = data;
+        while (version < GRAPH_SCHEMA_VERSION) {
+            const migration = this.MIGRATIONS.find(candidate => candidate.fromVersion === version);
+            if (!migration) {
+                Logger.warn(`No migration for stored graph schema version ${version}`);
+                return null;
+            }
+
+            Logger.info(`Migrating stored graph from schema version ${version}: ${migration.description}`);
+            migrated = migration.migrate(migrated);
+            version = this.getSchemaVersion(migrated);
+        }
+
+        return migrated as PersistedGraph;
+    }
+
+    /**
+     * Check which kinds of files a stored graph must re-parse because their parser changed
+     */
+    public static getOutdatedParsers(graph: PersistedGraph): { code: boolean; test: boolean } {
+        return {
+            code: graph.parserVersions?.code !== CodeParser.VERSION,
+            test: graph.parserVersions?.test !== TestParser.VERSION
+        };
+    }
+}
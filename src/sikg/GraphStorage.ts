@@ -0,0 +1,392 @@
+// GraphStorage.ts - Locates, writes, reads, lists and deletes the knowledge graphs stored per workspace
+
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { Logger } from '../utils/Logger';
+
+const GRAPH_FILE = 'sikg-graph.json';
+const LEARNED_STATE_FILE = 'learned-state.json';
+const BACKUP_SUFFIX = '.bak';
+const TEMP_SUFFIX = '.tmp';
+const METADATA_FILE = 'workspace.json';
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+/**
+ * Stores one knowledge graph per workspace under the global storage directory,
+ * in a folder named after a hash of the workspace root, so that graphs of
+ * different repositories are never mixed and can be listed from any window
+ */
+export class GraphStorage {
+    private storageRoot: string;
+    private legacyGraphPath: string;
+
+    /**
+     * @param globalStoragePath The extension's global storage directory
+     */
+    constructor(globalStoragePath: string) {
+        this.storageRoot = path.join(globalStoragePath, 'graphs');
+        // Graphs were stored in a single global file before they were stored per workspace
+        this.legacyGraphPath = path.join(globalStoragePath, GRAPH_FILE);
+    }
+
+    /**
+     * Get the ID of the graph stored for a workspace root
+     */
+    public getGraphId(workspaceRoot: string): string {
+        const normalized = path.resolve(workspaceRoot).replace(/\\/g, '/');
+        const key = process.platform === 'win32' ? normalized.toLowerCase() : normalized;
+        return crypto.createHash('sha1').update(key).digest('hex').substring(0, 16);
+    }
+
+    /**
+     * Get the path of the graph file for a workspace root, creating its directory
+     */
+    public getGraphPath(workspaceRoot: string): string {
+        const graphDir = path.join(this.storageRoot, this.getGraphId(workspaceRoot));
+        if (!fs.existsSync(graphDir)) {
+            fs.mkdirSync(graphDir, { recursive: true });
+        }
+        return path.join(graphDir, GRAPH_FILE);
+    }
+
+    /**
+     * Check if a graph, or a backup to recover it from, is stored for a workspace root
+     */
+    public hasGraph(workspaceRoot: string): boolean {
+        const graphPath = this.getGraphPath(workspaceRoot);
+        return fs.existsSync(graphPath) || fs.existsSync(graphPath + BACKUP_SUFFIX);
+    }
+
+    /**
+     * Move a graph left in the legacy global location into the storage of a workspace root
+     * that has no graph yet. The legacy graph belonged to the workspace that was open last,
+     * so only the first workspace loaded adopts it; nodes of files it does not have are
+     * dropped when its files are refreshed.
+     * @returns True if the legacy graph was moved
+     */
+    public adoptLegacyGraph(workspaceRoot: string): boolean {
+        if (!fs.existsSync(this.legacyGraphPath) || this.hasGraph(workspaceRoot)) {
+            return false;
+        }
+
+        try {
+            fs.renameSync(this.legacyGraphPath, this.getGraphPath(workspaceRoot));
+            Logger.info(`Moved legacy global SIKG graph to the graph of ${workspaceRoot}`);
+            return true;
+        } catch (error) {
+            Logger.warn(`Failed to move legacy global SIKG graph ${this.legacyGraphPath}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Write the graph of a workspace root without risking the stored copy: the data is
+     * written to a temporary file, the current file is kept as the backup generation,
+     * and the temporary file is then renamed into place
+     * @param data Graph to store, encoded as compact JSON
+     * @param compress Whether to gzip the file
+     */
+    public async writeGraph(workspaceRoot: string, data: object, compress: boolean): Promise<void> {
+        await this.writeAtomically(this.getGraphPath(workspaceRoot), data, compress);
+    }
+
+    /**
+     * Read the graph of a workspace root, falling back to the backup generation if the
+     * graph file is missing or corrupt
+     * @returns The parsed graph data, or null if neither file could be read
+     */
+    public async readGraph(workspaceRoot: string): Promise<any | null> {
+        return this.readWithBackup(this.getGraphPath(workspaceRoot));
+    }
+
+    /**
+     * Write the state learned from test runs for a workspace root, stored apart from the
+     * graph so that it survives rebuilds
+     */
+    public async writeLearnedState(workspaceRoot: string, data: object, compress: boolean): Promise<void> {
+        await this.writeAtomically(this.getLearnedStatePath(workspaceRoot), data, compress);
+    }
+
+    /**
+     * Read the state learned from test runs for a workspace root
+     * @returns The parsed state, or null if none is stored
+     */
+    public async readLearnedState(workspaceRoot: string): Promise<any | null> {
+        return this.readWithBackup(this.getLearnedStatePath(workspaceRoot));
+    }
+
+    /**
+     * Record which workspace a stored graph belongs to, next to the graph file
+     */
+    public writeMetadata(workspaceRoot: string, nodeCount: number, edgeCount: number): void {
+        const metadata: StoredGraphMetadata = {
+            workspaceRoot,
+            workspaceName: path.basename(workspaceRoot),
+            savedAt: new Date().toISOString(),
+            nodeCount,
+            edgeCount
+        };
+
+        const graphDir = path.dirname(this.getGraphPath(workspaceRoot));
+        fs.writeFileSync(path.join(graphDir, METADATA_FILE), JSON.stringify(metadata, null, 2));
+    }
+
+    /**
+     * List all stored graphs, including a graph left in the legacy global location
+     */
+    public listGraphs(): StoredGraphInfo[] {
+        const graphs: StoredGraphInfo[] = [];
+
+        if (fs.existsSync(this.storageRoot)) {
+            for (const entry of fs.readdirSync(this.storageRoot, { withFileTypes: true })) {
+                if (!entry.isDirectory()) {
+                    continue;
+                }
+
+                const graphDir = path.join(this.storageRoot, entry.name);
+                const graphPath = path.join(graphDir, GRAPH_FILE);
+                if (!fs.existsSync(graphPath)) {
+                    continue;
+                }
+
+                const metadata = this.readMetadata(path.join(graphDir, METADATA_FILE));
+                graphs.push({
+                    id: entry.name,
+                    graphPath,
+                    workspaceRoot: metadata?.workspaceRoot,
+                    workspaceName: metadata?.workspaceName || entry.name,
+                    savedAt: metadata?.savedAt,
+                    nodeCount: metadata?.nodeCount,
+                    edgeCount: metadata?.edgeCount,
+                    sizeBytes: fs.statSync(graphPath).size,
+                    legacy: false
+                });
+            }
+        }
+
+        if (fs.existsSync(this.legacyGraphPath)) {
+            const stats = fs.statSync(this.legacyGraphPath);
+            graphs.push({
+                id: 'legacy',
+                graphPath: this.legacyGraphPath,
+                workspaceName: 'Legacy global graph',
+                savedAt: stats.mtime.toISOString(),
+                sizeBytes: stats.size,
+                legacy: true
+            });
+        }
+
+        return graphs.sort((a, b) => (b.savedAt || '').localeCompare(a.savedAt || ''));
+    }
+
+    /**
+     * Delete a stored graph and its metadata
+     */
+    public deleteGraph(graph: StoredGraphInfo): void {
+        if (graph.legacy) {
+            fs.rmSync(this.legacyGraphPath, { force: true });
+        } else {
+            fs.rmSync(path.dirname(graph.graphPath), { recursive: true, force: true });
+        }
+        Logger.info(`Deleted stored SIKG graph ${graph.id} (${graph.workspaceName})`);
+    }
+
+    /**
+     * Describe the contents of a stored graph as a Markdown report
+     */
+    public formatGraphReport(graph: StoredGraphInfo): string {
+        const lines = [
+            `# SIKG Graph: ${graph.workspaceName}`,
+            '',
+            `- Workspace: \`${graph.workspaceRoot || 'unknown'}\``,
+            `- Stored at: \`${graph.graphPath}\``,
+            `- Size: ${(graph.sizeBytes / 1024).toFixed(1)} KB`,
+            `- Last saved: ${graph.savedAt || 'unknown'}`,
+            ''
+        ];
+
+        let serializedGraph: any;
+        try {
+            serializedGraph = this.decodeSync(fs.readFileSync(graph.graphPath));
+        } catch (error) {
+            Logger.warn(`Failed to read stored SIKG graph ${graph.graphPath}:`, error);
+            lines.push('The graph file could not be read.');
+            return lines.join('\n');
+        }
+
+        const nodes: Array<[string, any]> = serializedGraph.nodes || [];
+        const edges: Array<[string, any]> = serializedGraph.edges || [];
+        const nodeTypes = this.countBy(nodes.map(([, node]) => node.type));
+        const edgeTypes = this.countBy(edges.map(([, edge]) => edge.type));
+        const files = new Set(nodes.map(([, node]) => node.filePath));
+
+        lines.push(
+            '## Contents',
+            '',
+            `${nodes.length} nodes and ${edges.length} edges from ${files.size} files.`,
+            '',
+            '| Node type | Count |',
+            '| --- | ---: |',
+            ...Object.entries(nodeTypes).map(([type, count]) => `| ${type} | ${count} |`),
+            '',
+            '| Edge type | Count |',
+            '| --- | ---: |',
+            ...Object.entries(edgeTypes).map(([type, count]) => `| ${type} | ${count} |`),
+            ''
+        );
+
+        // Edges saved before provenance was recorded count as produced by 'unknown'
+        const producers = new Map<string, { count: number; confidence: number; confirmed: number }>();
+        for (const [, edge] of edges) {
+            const producer = edge.provenance?.producer || 'unknown';
+            const stats = producers.get(producer) || { count: 0, confidence: 0, confirmed: 0 };
+            stats.count++;
+            stats.confidence += edge.provenance?.confidence ?? 1.0;
+            stats.confirmed += edge.provenance?.lastConfirmed ? 1 : 0;
+            producers.set(producer, stats);
+        }
+
+        lines.push(
+            '## Edge Provenance',
+            '',
+            '| Producer | Edges | Average confidence | Confirmed by tests |',
+            '| --- | ---: | ---: | ---: |',
+            ...Array.from(producers.entries())
+                .sort(([, a], [, b]) => b.count - a.count)
+                .map(([producer, stats]) =>
+                    `| ${producer} | ${stats.count} | ${(stats.confidence / stats.count).toFixed(2)} | ${stats.confirmed} |`),
+            ''
+        );
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Get the path of the learned state file for a workspace root, next to its graph
+     */
+    private getLearnedStatePath(workspaceRoot: string): string {
+        return path.join(path.dirname(this.getGraphPath(workspaceRoot)), LEARNED_STATE_FILE);
+    }
+
+    /**
+     * Write a file via a temporary file, keeping the current file as the backup generation
+     */
+    private async writeAtomically(filePath: string, data: object, compress: boolean): Promise<void> {
+        const tempPath = filePath + TEMP_SUFFIX;
+        const json = Buffer.from(JSON.stringify(data), 'utf8');
+
+        const handle = await fs.promises.open(tempPath, 'w');
+        try {
+            await handle.writeFile(compress ? await gzip(json) : json);
+            await handle.sync();
+        } finally {
+            await handle.close();
+        }
+
+        if (fs.existsSync(filePath)) {
+            await fs.promises.rename(filePath, filePath + BACKUP_SUFFIX);
+        }
+        await fs.promises.rename(tempPath, filePath);
+    }
+
+    /**
+     * Read a file, falling back to the backup generation if it is missing or corrupt
+     */
+    private async readWithBackup(filePath: string): Promise<any | null> {
+        for (const candidate of [filePath, filePath + BACKUP_SUFFIX]) {
+            if (!fs.existsSync(candidate)) {
+                continue;
+            }
+
+            try {
+                const data = await this.decode(await fs.promises.readFile(candidate));
+                if (candidate !== filePath) {
+                    Logger.warn(`Recovered ${path.basename(filePath)} from backup ${candidate}`);
+                }
+                return data;
+            } catch (error) {
+                Logger.warn(`Failed to read stored SIKG file ${candidate}:`, error);
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Parse a graph file, which is plain or gzip-compressed JSON
+     */
+    private async decode(content: Buffer): Promise<any> {
+        const json = this.isCompressed(content) ? await gunzip(content) : content;
+        return JSON.parse(json.toString('utf8'));
+    }
+
+    /**
+     * Parse a graph file synchronously, which is plain or gzip-compressed JSON
+     */
+    private decodeSync(content: Buffer): any {
+        const json = this.isCompressed(content) ? zlib.gunzipSync(content) : content;
+        return JSON.parse(json.toString('utf8'));
+    }
+
+    /**
+     * Check for the gzip header, so that graphs can be read whatever the compression setting
+     */
+    private isCompressed(content: Buffer): boolean {
+        return content.length >= 2 && content[0] === GZIP_MAGIC[0] && content[1] === GZIP_MAGIC[1];
+    }
+
+    /**
+     * Read the metadata of a stored graph
+     */
+    private readMetadata(metadataPath: string): StoredGraphMetadata | null {
+        try {
+            return fs.existsSync(metadataPath) ? JSON.parse(fs.readFileSync(metadataPath, 'utf8')) : null;
+        } catch (error) {
+            Logger.debug(`Failed to read SIKG graph metadata ${metadataPath}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Count occurrences of each value, most frequent first
+     */
+    private countBy(values: string[]): Record<string, number> {
+        const counts: Record<string, number> = {};
+        for (const value of values) {
+            counts[value] = (counts[value] || 0) + 1;
+        }
+        return Object.fromEntries(Object.entries(counts).sort((a, b) => b[1] - a[1]));
+    }
+}
+
+/**
+ * Metadata written next to each stored graph
+ */
+interface StoredGraphMetadata {
+    workspaceRoot: string;
+    workspaceName: string;
+    savedAt: string;
+    nodeCount: number;
+    edgeCount: number;
+}
+
+/**
+ * A graph found in storage
+ */
+export interface StoredGraphInfo {
+    id: string;
+    graphPath: string;
+    workspaceRoot?: string;
+    workspaceName: string;
+    savedAt?: string;
+    nodeCount?: number;
+    edgeCount?: number;
+    sizeBytes: number;
+    legacy: boolean;                  // Stored in the single global file used by older versions
+}
@@ -1,8 +1,17 @@
 // Graph Types - Type definitions for the Semantic Impact Knowledge Graph
 
+export type NodeType =
+    | 'File'                          // A parsed file, containing its module, suites, tests and fixtures
+    | 'Module'                        // The module a code file defines
+    | 'CodeElement'                   // A class, function or method
+    | 'TestSuite'                     // A test class or describe block, containing its tests
+    | 'TestCase'
+    | 'Fixture'                       // A fixture that tests request by name, e.g. a pytest fixture
+    | 'ExternalPackage';              // A package imported from outside the workspace
+
 export interface Node {
     id: string;
-    type: 'CodeElement' | 'TestCase';
+    type: NodeType;
     name: string;
     filePath: string;
     properties: Record<string, any>;
@@ -14,6 +23,14 @@ export interface Edge {
     type: string;
     weight: number;
     properties: Record<string, any>;
+    provenance?: EdgeProvenance;
+}
+
+export interface EdgeProvenance {
+    producer: string;                 // Parser, linker or strategy that created the edge, e.g. 'python-ast' or 'coverage'
+    confidence: number;               // How likely the relationship is real, from 0 (a guess) to 1 (observed)
+    createdAt: string;                // When the edge was first added
+    lastConfirmed?: string;           // When a test that passed or failed last went through the edge, or coverage observed it
 }
 
 export interface Graph {
@@ -32,7 +49,18 @@ export interface CodeElement {
         targetId: string;
         type: string;
         weight?: number;
+        targetName?: string;          // Symbol name the target ID was guessed from, used to relink unresolved targets
+        targetQualifier?: string;     // Object or module the target was accessed through, e.g. "obj" in obj.method()
+        producer?: string;            // Parser or strategy that found the relationship
+        confidence?: number;          // How likely the relationship is real, from 0 to 1
     }>;
+    imports?: ImportBinding[];        // Names bound by import statements, on module elements
+}
+
+export interface ImportBinding {
+    alias: string;                    // Name the import binds in the importing module
+    module: string;                   // Imported module, with one leading dot per level for relative imports
+    name?: string;                    // Imported symbol for "from module import name"
 }
 
 export interface TestCase {
@@ -45,13 +73,28 @@ export interface TestCase {
     coveredElements: Array<{
         targetId: string;
         weight?: number;
+        targetName?: string;          // Symbol name the target ID was guessed from, used to relink unresolved targets
+        targetQualifier?: string;     // Object the target was accessed through, e.g. "obj" in obj.method()
+        producer?: string;            // Parser or strategy that found the covered element
+        confidence?: number;          // How likely the test really exercises the element, from 0 to 1
     }>;
+    suiteName?: string;               // Test class or describe block the test belongs to
+    fixtures?: string[];              // Names of the fixtures the test requests
+}
+
+export interface TestFixture {
+    id: string;
+    name: string;
+    filePath: string;
+    scope: string;                    // How long one instance lives, e.g. 'function', 'module' or 'session'
+    loc: { start: { line: number, column: number }, end: { line: number, column: number } };
+    fixtures: string[];               // Names of the fixtures the fixture itself requests
 }
 
 export interface SemanticChangeInfo {
     nodeId: string;
     semanticType: 'BUG_FIX' | 'FEATURE_ADDITION' | 'REFACTORING_SIGNATURE' | 
-                  'REFACTORING_LOGIC' | 'DEPENDENCY_UPDATE' | 'PERFORMANCE_OPT' | 'UNKNOWN';
+                  'REFACTORING_LOGIC' | 'DEPENDENCY_UPDATE' | 'PERFORMANCE_OPT' | 'REMOVAL' | 'UNKNOWN';
     changeDetails: {
         linesChanged: number;
         oldCodeHash: string;
@@ -61,6 +104,14 @@ export interface SemanticChangeInfo {
     initialImpactScore: number;
 }
 
+export interface RemovedElement {
+    id: string;                       // ID the element had in the graph
+    name: string;
+    kind: string;
+    loc: CodeElement['loc'];          // Location in the earlier version of the file
+    dependentIds: string[];           // Nodes still in the graph that called, used, imported or tested the element
+}
+
 export interface TestResult {
     testId: string;
     status: 'passed' | 'failed' | 'skipped';
@@ -81,4 +132,78 @@ export interface TestImpact {
         semanticType: string;
         contribution: number;
     }>;
-}
\ No newline at end of file
+}
+
+export interface TestCoverage {
+    testId: string;
+    files: Record<string, number[]>;  // Workspace-relative file path -> covered line numbers
+}
+
+export interface CoverageMappingResult {
+    testsMapped: number;
+    edgesAdded: number;
+    edgesUpdated: number;
+    edgesRemoved: number;
+    unmappedFiles: string[];          // Covered files without code elements in the graph
+}
+
+export interface LanguageServerPassResult {
+    filesVisited: string[];           // Files whose symbols were all queried and got an answer
+    edgesAdded: number;
+    timedOut: boolean;
+}
+
+export interface FileManifestEntry {
+    codeHash?: string;                // Content hash when the file was last parsed as a code file
+    testHash?: string;                // Content hash when the file was last parsed as a test file
+    lspHash?: string;                 // Code hash when language servers were last queried for the file
+    fileStamp?: string;               // Modification time and size of the file when it was last hashed
+    removedEdges?: Edge[];            // Edges other files derived into nodes of this file that were removed, restored if the nodes come back
+}
+
+export interface ParserVersions {
+    code: number;                     // CodeParser.VERSION that produced the code nodes
+    test: number;                     // TestParser.VERSION that produced the test nodes
+}
+
+export interface PersistedGraph {
+    schemaVersion: number;            // Version of this file format, see GraphMigrator
+    parserVersions: ParserVersions;
+    createdBy: string;                // Extension version that first created the graph
+    savedBy: string;                  // Extension version that last saved the graph
+    nodes: Array<[string, Node]>;     // File paths relative to the workspace folder of the partition
+    edges: Array<[string, Edge]>;
+    fileManifest: Array<[string, FileManifestEntry]>;   // Keyed by folder-relative path
+}
+
+export interface LearnedStateReport {
+    nodesRestored: number;
+    edgesRestored: number;
+    observedEdgesRestored: number;    // Edges that coverage added and parsing does not derive
+    orphanedNodes: Array<{ nodeId: string; filePath: string }>;   // Learned nodes missing from the rebuilt graph
+    orphanedEdges: Array<{ edgeId: string; filePath: string }>;   // Learned edges missing from the rebuilt graph
+}
+
+export interface GraphIntegrityIssue {
+    type: 'DANGLING_EDGE' | 'DUPLICATE_SYMBOL' | 'SELF_LOOP' | 'ORPHANED_TEST' | 'MISSING_FILE';
+    description: string;
+    filePath?: string;                // Workspace-relative path of the file the issue belongs to
+    nodeIds: string[];
+    edgeId?: string;
+    repair: 'drop' | 'relink' | 'reparse' | 'none';
+    relinkTargetId?: string;          // Existing node a dangling edge can be pointed at instead
+}
+
+export interface GraphIntegrityReport {
+    checkedAt: string;
+    nodeCount: number;
+    edgeCount: number;
+    issues: GraphIntegrityIssue[];
+}
+
+export interface GraphRepairResult {
+    edgesDropped: number;
+    edgesRelinked: number;
+    nodesDropped: number;
+    filesReparsed: string[];
+}
@@ -0,0 +1,174 @@
+// LanguageServerEnhancer.ts - Adds CALLS and USES edges found by the installed language servers
+
+import * as vscode from 'vscode';
+import { Logger } from '../utils/Logger';
+import { SIKGManager } from './SIKGManager';
+import { ParserUtils } from './parser/util/ParserUtils';
+import { Node, LanguageServerPassResult } from './GraphTypes';
+
+// Code element kinds that language servers can report calls and references for
+const SYMBOL_KINDS = ['class', 'function', 'method'];
+
+/**
+ * Queries the reference and call hierarchy providers of VS Code for each code node and
+ * adds the relationships they report as edges with properties.source = 'lsp'
+ */
+export class LanguageServerEnhancer {
+    private sikgManager: SIKGManager;
+
+    constructor(sikgManager: SIKGManager) {
+        this.sikgManager = sikgManager;
+    }
+
+    /**
+     * Query the language servers for the symbols of some files, until the time budget runs out
+     * @param filePaths Workspace-relative paths of the code files to visit
+     * @param timeBudgetMs Time after which no further files are started
+     */
+    public async enhance(filePaths: string[], timeBudgetMs: number): Promise<LanguageServerPassResult> {
+        const result: LanguageServerPassResult = { filesVisited: [], edgesAdded: 0, timedOut: false };
+        const deadline = Date.now() + timeBudgetMs;
+
+        for (const filePath of filePaths) {
+            if (Date.now() >= deadline) {
+                result.timedOut = true;
+                break;
+            }
+
+            try {
+                const visit = await this.visitFile(filePath);
+                result.edgesAdded += visit.edgesAdded;
+                // Files no language server answered for are tried again on the next pass
+                if (visit.answered) {
+                    result.filesVisited.push(filePath);
+                }
+            } catch (error) {
+                Logger.debug(`Language server queries failed for ${filePath}:`, error);
+            }
+        }
+
+        Logger.info(`Language server pass visited ${result.filesVisited.length} of ${filePaths.length} files and added ` +
+            `${result.edgesAdded} edges${result.timedOut ? ' before running out of time' : ''}`);
+        return result;
+    }
+
+    /**
+     * Replace the language server edges of a file's symbols with fresh results
+     */
+    private async visitFile(filePath: string): Promise<{ edgesAdded: number; answered: boolean }> {
+        const symbols = this.sikgManager.getNodesByFilePath(filePath)
+            .filter(node => node.type === 'CodeElement' && SYMBOL_KINDS.includes(node.properties.kind) && node.properties.loc);
+        if (symbols.length === 0) {
+            return { edgesAdded: 0, answered: true };
+        }
+
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(ParserUtils.resolveWorkspacePath(filePath)));
+
+        // Results of an earlier pass over this file are replaced
+        for (const symbol of symbols) {
+            const staleEdges = [
+                ...this.sikgManager.getOutgoingEdges(symbol.id).filter(edge => edge.type === 'CALLS'),
+                ...this.sikgManager.getIncomingEdges(symbol.id).filter(edge => edge.type === 'USES')
+            ];
+            for (const edge of staleEdges) {
+                if (edge.properties.source === 'lsp') {
+                    this.sikgManager.removeEdge(this.sikgManager.getEdgeId(edge));
+                }
+            }
+        }
+
+        let edgesAdded = 0;
+        let answered = false;
+
+        for (const symbol of symbols) {
+            const position = this.getNamePosition(document, symbol);
+
+            const callItems = await vscode.commands.executeCommand<vscode.CallHierarchyItem[]>(
+                'vscode.prepareCallHierarchy', document.uri, position
+            );
+            for (const item of callItems || []) {
+                answered = true;
+                const outgoingCalls = await vscode.commands.executeCommand<vscode.CallHierarchyOutgoingCall[]>(
+                    'vscode.provideOutgoingCalls', item
+                );
+                for (const call of outgoingCalls || []) {
+                    const target = this.findEnclosingNode(call.to.uri, call.to.selectionRange.start);
+                    if (target && this.addEdge(symbol, target, 'CALLS', 0.8)) {
+                        edgesAdded++;
+                    }
+                }
+            }
+
+            const references = await vscode.commands.executeCommand<vscode.Location[]>(
+                'vscode.executeReferenceProvider', document.uri, position
+            );
+            for (const reference of references || []) {
+                answered = true;
+                // The declaration itself is reported as a reference too
+                if (reference.uri.fsPath === document.uri.fsPath && reference.range.start.line === position.line) {
+                    continue;
+                }
+                const user = this.findEnclosingNode(reference.uri, reference.range.start);
+                if (user && this.addEdge(user, symbol, 'USES', 0.6)) {
+                    edgesAdded++;
+                }
+            }
+        }
+
+        return { edgesAdded, answered };
+    }
+
+    /**
+     * Add a language server edge unless the parser already found the relationship
+     * @returns True if an edge was added
+     */
+    private addEdge(source: Node, target: Node, type: string, weight: number): boolean {
+        if (source.id === target.id || this.sikgManager.getEdgesBetween(source.id, target.id).some(edge => edge.type === type)) {
+            return false;
+        }
+
+        this.sikgManager.addEdge({
+            source: source.id,
+            target: target.id,
+            type,
+            weight,
+            properties: { source: 'lsp' },
+            provenance: { producer: 'lsp', confidence: 0.9, createdAt: new Date().toISOString() }
+        });
+        return true;
+    }
+
+    /**
+     * Find the position of a symbol's name, which providers expect instead of the start of its declaration
+     */
+    private getNamePosition(document: vscode.TextDocument, node: Node): vscode.Position {
+        const line = Math.max(0, Math.min(document.lineCount - 1, node.properties.loc.start.line - 1));
+        const text = document.lineAt(line).text;
+        let column = text.indexOf(node.name, node.properties.loc.start.column || 0);
+        if (column < 0) {
+            column = Math.max(0, text.indexOf(node.name));
+        }
+        return new vscode.Position(line, column);
+    }
+
+    /**
+     * Find the innermost code element or module whose lines contain a position
+     */
+    private findEnclosingNode(uri: vscode.Uri, position: vscode.Position): Node | undefined {
+        const filePath = ParserUtils.getWorkspaceRelativePath(uri.fsPath);
+        const line = position.line + 1;
+        let enclosing: Node | undefined;
+
+        for (const node of this.sikgManager.getNodesByFilePath(filePath)) {
+            const loc = node.properties.loc;
+            if ((node.type !== 'CodeElement' && node.type !== 'Module') || !loc || line < loc.start.line || line > loc.end.line) {
+                continue;
+            }
+            if (!enclosing || loc.end.line - loc.start.line < enclosing.properties.loc.end.line - enclosing.properties.loc.start.line) {
+                enclosing = node;
+            }
+        }
+
+        return enclosing;
+    }
+}
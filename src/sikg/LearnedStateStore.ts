@@ -0,0 +1,356 @@
+// LearnedStateStore.ts - Keeps state learned from test runs apart from the parsed graph
+
+import { Graph, Node, Edge, LearnedStateReport } from './GraphTypes';
+
+// Node properties learned from test runs, kept when a file is re-parsed or the graph is rebuilt
+export const LEARNED_NODE_PROPERTIES = ['history', 'lastRun', 'lastStatus', 'executionTime', 'flakiness'];
+
+/**
+ * Learned properties of one node
+ */
+interface LearnedNodeState {
+    filePath: string;                 // Workspace-relative path of the node, used to partition the store
+    properties: Record<string, any>;
+}
+
+/**
+ * Learned weight change of one edge, relative to the weight the parser gives it
+ */
+interface LearnedEdgeState {
+    filePath: string;                 // Workspace-relative path of the edge's source node
+    weightFactor: number;
+}
+
+/**
+ * An edge that test runs observed and parsing does not derive, e.g. from per-test coverage
+ */
+interface ObservedEdgeState {
+    filePath: string;                 // Workspace-relative path of the edge's source node
+    edge: Edge;                       // The edge as last observed, with its weight, properties and provenance
+}
+
+/**
+ * Current ID of a node that was renamed or moved
+ */
+interface NodeAlias {
+    currentId: string;
+    filePath: string;                 // Workspace-relative path of the node under its current ID
+    reason: string;                   // How the node was recognized, see NodeIdentityMatch
+    since: string;                    // When the node was recognized under its current ID
+}
+
+/**
+ * Learned state as stored on disk, with paths relative to the workspace folder of its partition
+ */
+export interface SerializedLearnedState {
+    nodes: Array<[string, LearnedNodeState]>;
+    edges: Array<[string, LearnedEdgeState]>;
+    aliases?: Array<[string, NodeAlias]>;   // Missing in files written before aliases were kept
+    observedEdges?: Array<[string, ObservedEdgeState]>;   // Missing in files written before observed edges were kept
+}
+
+/**
+ * Records test history and edge weight adjustments by node and edge ID, so that they
+ * can be re-applied when the structural graph is rebuilt from scratch. Nodes that were
+ * renamed or moved keep an alias from each of their old IDs to their current one.
+ */
+export class LearnedStateStore {
+    private nodes: Map<string, LearnedNodeState> = new Map();
+    private edges: Map<string, LearnedEdgeState> = new Map();
+    private aliases: Map<string, NodeAlias> = new Map();
+    private observedEdges: Map<string, ObservedEdgeState> = new Map();
+
+    /**
+     * Record the learned properties of a node
+     */
+    public recordNode(node: Node): void {
+        const properties: Record<string, any> = {};
+        for (const key of LEARNED_NODE_PROPERTIES) {
+            if (node.properties[key] !== undefined) {
+                properties[key] = node.properties[key];
+            }
+        }
+        this.nodes.set(node.id, { filePath: node.filePath, properties });
+    }
+
+    /**
+     * Check if learned properties are recorded for a node
+     */
+    public hasNode(nodeId: string): boolean {
+        return this.nodes.has(nodeId);
+    }
+
+    /**
+     * Record a change of an edge's weight
+     * @param filePath Workspace-relative path of the edge's source node
+     * @param previousWeight Weight before the change
+     * @param newWeight Weight after the change
+     */
+    public recordEdgeWeight(edgeId: string, filePath: string, previousWeight: number, newWeight: number): void {
+        if (previousWeight <= 0) {
+            return;
+        }
+        const weightFactor = (this.edges.get(edgeId)?.weightFactor ?? 1) * (newWeight / previousWeight);
+        this.edges.set(edgeId, { filePath, weightFactor });
+
+        // Observed edges are restored with the weight they have now
+        const observed = this.observedEdges.get(edgeId);
+        if (observed) {
+            observed.edge = { ...observed.edge, weight: newWeight };
+        }
+    }
+
+    /**
+     * Record an edge that test runs observed, so that a rebuild, which only derives edges
+     * by parsing, can add it again
+     * @param filePath Workspace-relative path of the edge's source node
+     */
+    public recordObservedEdge(edgeId: string, filePath: string, edge: Edge): void {
+        this.observedEdges.set(edgeId, { filePath, edge: { ...edge, properties: { ...edge.properties } } });
+    }
+
+    /**
+     * Get the weight factor learned for an edge
+     * @returns The factor, or undefined if the edge's weight was never adjusted
+     */
+    public getEdgeWeightFactor(edgeId: string): number | undefined {
+        return this.edges.get(edgeId)?.weightFactor;
+    }
+
+    /**
+     * Move the learned state of a renamed or moved node to its new ID, and keep an alias
+     * so that results stored under the old ID still resolve
+     * @param filePath Workspace-relative path of the node under its new ID
+     * @param reason How the node was recognized
+     */
+    public renameNode(previousId: string, currentId: string, filePath: string, reason: string): void {
+        const nodeState = this.nodes.get(previousId);
+        if (nodeState) {
+            this.nodes.delete(previousId);
+            this.nodes.set(currentId, { ...nodeState, filePath });
+        }
+
+        // Edge IDs have the form "source-TYPE-target"
+        for (const [edgeId, edgeState] of Array.from(this.edges.entries())) {
+            const fromNode = edgeId.startsWith(`${previousId}-`);
+            const toNode = edgeId.endsWith(`-${previousId}`);
+            if (!fromNode && !toNode) {
+                continue;
+            }
+            let currentEdgeId = edgeId;
+            if (fromNode) {
+                currentEdgeId = currentId + currentEdgeId.substring(previousId.length);
+            }
+            if (toNode) {
+                currentEdgeId = currentEdgeId.substring(0, currentEdgeId.length - previousId.length) + currentId;
+            }
+            this.edges.delete(edgeId);
+            this.edges.set(currentEdgeId, { ...edgeState, filePath: fromNode ? filePath : edgeState.filePath });
+        }
+
+        for (const [edgeId, observed] of Array.from(this.observedEdges.entries())) {
+            const { edge } = observed;
+            if (edge.source !== previousId && edge.target !== previousId) {
+                continue;
+            }
+            const currentEdge = {
+                ...edge,
+                source: edge.source === previousId ? currentId : edge.source,
+                target: edge.target === previousId ? currentId : edge.target
+            };
+            this.observedEdges.delete(edgeId);
+            this.observedEdges.set(`${currentEdge.source}-${currentEdge.type}-${currentEdge.target}`, {
+                filePath: edge.source === previousId ? filePath : observed.filePath,
+                edge: currentEdge
+            });
+        }
+
+        // Older aliases follow the node, so that every alias resolves in one step
+        for (const alias of this.aliases.values()) {
+            if (alias.currentId === previousId) {
+                alias.currentId = currentId;
+                alias.filePath = filePath;
+            }
+        }
+        // A node that moved back is no longer an alias of itself
+        this.aliases.delete(currentId);
+        this.aliases.set(previousId, { currentId, filePath, reason, since: new Date().toISOString() });
+    }
+
+    /**
+     * Get the current ID of a node that may have been renamed or moved
+     * @returns The current ID, or the given ID if it is not an alias
+     */
+    public resolveNodeId(nodeId: string): string {
+        return this.aliases.get(nodeId)?.currentId ?? nodeId;
+    }
+
+    /**
+     * Re-apply the learned state onto a freshly parsed graph
+     * @param clampWeight Keeps re-applied weights within the range learning allows
+     * @param addEdge Adds an observed edge to the graph, keeping its indexes up to date
+     * @returns What was restored, and the learned entries whose nodes or edges no longer exist
+     */
+    public applyTo(graph: Graph, clampWeight: (weight: number) => number, addEdge: (edge: Edge) => void): LearnedStateReport {
+        const report: LearnedStateReport = {
+            nodesRestored: 0,
+            edgesRestored: 0,
+            observedEdgesRestored: 0,
+            orphanedNodes: [],
+            orphanedEdges: []
+        };
+
+        for (const [nodeId, state] of this.nodes) {
+            const node = graph.nodes.get(nodeId);
+            if (node) {
+                node.properties = { ...node.properties, ...state.properties };
+                report.nodesRestored++;
+            } else {
+                report.orphanedNodes.push({ nodeId, filePath: state.filePath });
+            }
+        }
+
+        // Observed edges come back as they were last seen, learned weight included,
+        // also where parsing found the same relationship again
+        for (const [edgeId, observed] of this.observedEdges) {
+            if (!graph.nodes.has(observed.edge.source) || !graph.nodes.has(observed.edge.target)) {
+                report.orphanedEdges.push({ edgeId, filePath: observed.filePath });
+                continue;
+            }
+            const parsedEdge = graph.edges.get(edgeId);
+            addEdge({
+                ...observed.edge,
+                properties: { ...(parsedEdge?.properties || {}), ...observed.edge.properties }
+            });
+            report.observedEdgesRestored++;
+        }
+
+        for (const [edgeId, state] of this.edges) {
+            // Restored or reported with its observed state above
+            if (this.observedEdges.has(edgeId)) {
+                continue;
+            }
+            const edge = graph.edges.get(edgeId);
+            if (edge) {
+                edge.weight = clampWeight(edge.weight * state.weightFactor);
+                report.edgesRestored++;
+            } else {
+                report.orphanedEdges.push({ edgeId, filePath: state.filePath });
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * Split the store by the partition its entries belong to
+     * @param getPartition Maps a workspace-relative path to its partition key
+     * @param getStoredPath Maps a workspace-relative path to the path stored in its partition
+     */
+    public serialize(
+        getPartition: (filePath: string) => string,
+        getStoredPath: (filePath: string) => string
+    ): Map<string, SerializedLearnedState> {
+        const partitions = new Map<string, SerializedLearnedState>();
+        const getSerialized = (filePath: string): SerializedLearnedState => {
+            const key = getPartition(filePath);
+            let serialized = partitions.get(key);
+            if (!serialized) {
+                serialized = { nodes: [], edges: [], aliases: [], observedEdges: [] };
+                partitions.set(key, serialized);
+            }
+            return serialized;
+        };
+
+        for (const [nodeId, state] of this.nodes.entries()) {
+            getSerialized(state.filePath).nodes.push([nodeId, { ...state, filePath: getStoredPath(state.filePath) }]);
+        }
+        for (const [edgeId, state] of this.edges.entries()) {
+            getSerialized(state.filePath).edges.push([edgeId, { ...state, filePath: getStoredPath(state.filePath) }]);
+        }
+        for (const [nodeId, alias] of this.aliases.entries()) {
+            getSerialized(alias.filePath).aliases!.push([nodeId, { ...alias, filePath: getStoredPath(alias.filePath) }]);
+        }
+        for (const [edgeId, observed] of this.observedEdges.entries()) {
+            getSerialized(observed.filePath).observedEdges!.push([edgeId, { ...observed, filePath: getStoredPath(observed.filePath) }]);
+        }
+
+        return partitions;
+    }
+
+    /**
+     * Add stored entries to the store
+     * @param getWorkspacePath Maps a path stored in the partition to its workspace-relative path
+     */
+    public load(serialized: SerializedLearnedState, getWorkspacePath: (filePath: string) => string): void {
+        (serialized.nodes || []).forEach(([nodeId, state]) =>
+            this.nodes.set(nodeId, { ...state, filePath: getWorkspacePath(state.filePath) }));
+        (serialized.edges || []).forEach(([edgeId, state]) =>
+            this.edges.set(edgeId, { ...state, filePath: getWorkspacePath(state.filePath) }));
+        (serialized.aliases || []).forEach(([nodeId, alias]) =>
+            this.aliases.set(nodeId, { ...alias, filePath: getWorkspacePath(alias.filePath) }));
+        (serialized.observedEdges || []).forEach(([edgeId, observed]) =>
+            this.observedEdges.set(edgeId, { ...observed, filePath: getWorkspacePath(observed.filePath) }));
+    }
+
+    /**
+     * Forget the learned state of one partition, e.g. when its stored graph is deleted
+     * @param getPartition Maps a workspace-relative path to its partition key, as for serialize
+     * @param partition Key of the partition to forget
+     */
+    public clearPartition(getPartition: (filePath: string) => string, partition: string): void {
+        const maps: Array<Map<string, { filePath: string }>> = [this.nodes, this.edges, this.aliases, this.observedEdges];
+        for (const entries of maps) {
+            for (const [key, entry] of Array.from(entries.entries())) {
+                if (getPartition(entry.filePath) === partition) {
+                    entries.delete(key);
+                }
+            }
+        }
+    }
+
+    /**
+     * Forget all learned state
+     */
+    public clear(): void {
+        this.nodes.clear();
+        this.edges.clear();
+        this.aliases.clear();
+        this.observedEdges.clear();
+    }
+
+    /**
+     * Format the entries a rebuild could not re-apply as a Markdown report
+     */
+    public formatReport(report: LearnedStateReport): string {
+        const lines = [
+            '# SIKG Learned State',
+            '',
+            `Restored the test history of ${report.nodesRestored} nodes, the learned weights of ${report.edgesRestored} edges ` +
+                `and ${report.observedEdgesRestored} edges observed by coverage.`,
+            'The entries below refer to nodes or edges that no longer exist. They are kept, ' +
+                'and re-applied if the code comes back, for example after switching branches.',
+            ''
+        ];
+
+        if (report.orphanedNodes.length > 0) {
+            lines.push(
+                '## Missing nodes',
+                '',
+                ...report.orphanedNodes.map(({ nodeId, filePath }) => `- \`${nodeId}\` (${filePath})`),
+                ''
+            );
+        }
+
+        if (report.orphanedEdges.length > 0) {
+            lines.push(
+                '## Missing edges',
+                '',
+                ...report.orphanedEdges.map(({ edgeId, filePath }) => `- \`${edgeId}\` (${filePath})`),
+                ''
+            );
+        }
+
+        return lines.join('\n');
+    }
+}
@@ -0,0 +1,192 @@
+// NodeIdentityMatcher.ts - Recognizes code elements and tests that were renamed or moved
+
+import * as crypto from 'crypto';
+import { Node } from './GraphTypes';
+
+// Number of MinHash values in a body signature
+const SIGNATURE_SIZE = 16;
+
+// Bodies shorter than this many lines are too common to identify an element
+const MIN_FINGERPRINT_LINES = 2;
+
+// Share of equal signature values from which two bodies count as the same element
+const MIN_BODY_SIMILARITY = 0.7;
+
+// Pairs of nodes above which only exact body matches are looked for
+const MAX_SIMILARITY_COMPARISONS = 250000;
+
+/**
+ * Fingerprint of an element's body, independent of its name and indentation
+ */
+export interface BodyFingerprint {
+    bodyHash: string;                 // Hash of the normalized body, equal for moved or renamed copies
+    bodySignature: number[];          // MinHash signature of the body's lines, close for lightly edited copies
+}
+
+/**
+ * Node of the previous graph recognized as a node of the current graph
+ */
+export interface NodeIdentityMatch {
+    previousId: string;
+    currentId: string;
+    reason: 'renamed-file' | 'same-body' | 'similar-body';
+    similarity: number;               // Estimated share of body lines the two nodes have in common
+}
+
+/**
+ * Matches nodes that disappeared from the graph to nodes that appeared, using the renames
+ * Git detected and the similarity of their bodies
+ */
+export class NodeIdentityMatcher {
+    /**
+     * Fingerprint the body of an element
+     * @param content Content of the element's file
+     * @param loc Location of the element; 1-based lines
+     * @param name Name of the element, left out so that renamed copies fingerprint the same
+     * @returns The fingerprint, or undefined if the body is too short to tell elements apart
+     */
+    public static fingerprint(content: string, loc: { start: { line: number }; end: { line: number } } | undefined, name: string): BodyFingerprint | undefined {
+        if (!loc) {
+            return undefined;
+        }
+
+        const namePattern = name ? new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'g') : null;
+        const lines = content.split('\n')
+            .slice(Math.max(0, loc.start.line - 1), loc.end.line)
+            .map(line => line.trim().replace(/\s+/g, ' '))
+            .filter(line => line.length > 0)
+            .map(line => namePattern ? line.replace(namePattern, '\u0000') : line);
+
+        if (lines.length < MIN_FINGERPRINT_LINES) {
+            return undefined;
+        }
+
+        // MinHash over the set of lines: each value is the smallest hash of any line under one hash function
+        const bodySignature: number[] = new Array(SIGNATURE_SIZE).fill(0xffffffff);
+        for (const line of new Set(lines)) {
+            const lineHash = crypto.createHash('md5').update(line).digest().readUInt32LE(0);
+            for (let i = 0; i < SIGNATURE_SIZE; i++) {
+                let value = Math.imul(lineHash ^ Math.imul(i + 1, 0x85ebca6b), 0x9e3779b1) >>> 0;
+                value = (value ^ (value >>> 15)) >>> 0;
+                if (value < bodySignature[i]) {
+                    bodySignature[i] = value;
+                }
+            }
+        }
+
+        return {
+            bodyHash: crypto.createHash('sha1').update(lines.join('\n')).digest('hex').substring(0, 16),
+            bodySignature
+        };
+    }
+
+    /**
+     * Match nodes that disappeared to nodes that appeared. Nodes are only matched to nodes
+     * of the same type and kind, and each node is matched at most once.
+     * @param previousNodes Nodes no longer in the graph
+     * @param currentNodes Nodes new to the graph
+     * @param renamedFiles New path by old path of the files Git detected as renamed
+     */
+    public static match(previousNodes: Node[], currentNodes: Node[], renamedFiles: Map<string, string>): NodeIdentityMatch[] {
+        const matches: NodeIdentityMatch[] = [];
+        const matchedPrevious = new Set<string>();
+        const matchedCurrent = new Set<string>();
+        const accept = (previous: Node, current: Node, reason: NodeIdentityMatch['reason'], similarity: number): void => {
+            matches.push({ previousId: previous.id, currentId: current.id, reason, similarity });
+            matchedPrevious.add(previous.id);
+            matchedCurrent.add(current.id);
+        };
+
+        // Elements of a file Git saw renamed keep their name; a file's module is its module under the new path
+        const currentBySymbol = new Map<string, Node>();
+        for (const node of currentNodes) {
+            currentBySymbol.set(this.getSymbolKey(node, node.filePath), node);
+        }
+        for (const previous of previousNodes) {
+            const newPath = renamedFiles.get(previous.filePath);
+            const current = newPath ? currentBySymbol.get(this.getSymbolKey(previous, newPath)) : undefined;
+            if (current && !matchedCurrent.has(current.id)) {
+                accept(previous, current, 'renamed-file', 1);
+            }
+        }
+
+        // Identical bodies, as long as only one new node has the body or it also kept its name
+        const currentByBody = new Map<string, Node[]>();
+        for (const node of currentNodes) {
+            if (!matchedCurrent.has(node.id) && node.properties.bodyHash) {
+                const key = `${this.getKindKey(node)}|${node.properties.bodyHash}`;
+                currentByBody.set(key, [...(currentByBody.get(key) || []), node]);
+            }
+        }
+        for (const previous of previousNodes) {
+            if (matchedPrevious.has(previous.id) || !previous.properties.bodyHash) {
+                continue;
+            }
+            const candidates = (currentByBody.get(`${this.getKindKey(previous)}|${previous.properties.bodyHash}`) || [])
+                .filter(node => !matchedCurrent.has(node.id));
+            const current = candidates.length === 1 ? candidates[0] : candidates.find(node => node.name === previous.name);
+            if (current) {
+                accept(previous, current, 'same-body', 1);
+            }
+        }
+
+        // Similar bodies of elements that kept their name or their file, most similar pairs first
+        const previousLeft = previousNodes.filter(node => !matchedPrevious.has(node.id) && node.properties.bodySignature);
+        const currentLeft = currentNodes.filter(node => !matchedCurrent.has(node.id) && node.properties.bodySignature);
+        if (previousLeft.length * currentLeft.length > MAX_SIMILARITY_COMPARISONS) {
+            return matches;
+        }
+
+        const pairs: Array<{ previous: Node; current: Node; similarity: number }> = [];
+        for (const previous of previousLeft) {
+            for (const current of currentLeft) {
+                const related = previous.name === current.name ||
+                    previous.filePath === current.filePath ||
+                    renamedFiles.get(previous.filePath) === current.filePath;
+                if (!related || this.getKindKey(previous) !== this.getKindKey(current)) {
+                    continue;
+                }
+                const similarity = this.getSimilarity(previous.properties.bodySignature, current.properties.bodySignature);
+                if (similarity >= MIN_BODY_SIMILARITY) {
+                    pairs.push({ previous, current, similarity });
+                }
+            }
+        }
+
+        pairs.sort((a, b) => b.similarity - a.similarity);
+        for (const { previous, current, similarity } of pairs) {
+            if (!matchedPrevious.has(previous.id) && !matchedCurrent.has(current.id)) {
+                accept(previous, current, 'similar-body', similarity);
+            }
+        }
+
+        return matches;
+    }
+
+    /**
+     * Estimate the share of lines two bodies have in common from their signatures
+     */
+    private static getSimilarity(a: number[], b: number[]): number {
+        let equal = 0;
+        for (let i = 0; i < SIGNATURE_SIZE; i++) {
+            if (a[i] === b[i]) {
+                equal++;
+            }
+        }
+        return equal / SIGNATURE_SIZE;
+    }
+
+    /**
+     * Get the key of a node's symbol within a file
+     */
+    private static getSymbolKey(node: Node, filePath: string): string {
+        return `${filePath}|${this.getKindKey(node)}|${node.properties.kind === 'module' ? '' : node.name}`;
+    }
+
+    /**
+     * Get the key of a node's type and kind, which a match must share
+     */
+    private static getKindKey(node: Node): string {
+        return `${node.type}|${node.properties.kind || ''}`;
+    }
+}
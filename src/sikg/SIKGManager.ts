@@ -1,39 +1,84 @@
 // FIXED SIKGManager.ts - Proper node marking and graph state management
 
-import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as crypto from 'crypto';
 import { Logger } from '../utils/Logger';
 import { ConfigManager } from '../utils/ConfigManager';
 import { CodeParser } from './CodeParser';
 import { TestParser } from './TestParser';
-import { Graph, Node, Edge, SemanticChangeInfo, TestResult } from './GraphTypes';
+import { GraphStorage } from './GraphStorage';
+import { GraphMigrator, GRAPH_SCHEMA_VERSION } from './GraphMigrator';
+import { LearnedStateStore, LEARNED_NODE_PROPERTIES } from './LearnedStateStore';
+import { SymbolLinker, LINKED_EDGE_TYPES } from './SymbolLinker';
+import { NodeIdentityMatcher } from './NodeIdentityMatcher';
+import { GitService } from '../services/GitService';
+import { ParserUtils } from './parser/util/ParserUtils';
+import { SIKGHost } from '../host/SIKGHost';
+import { Graph, Node, NodeType, Edge, EdgeProvenance, SemanticChangeInfo, RemovedElement, TestResult, TestCoverage, CoverageMappingResult, FileManifestEntry, PersistedGraph, LearnedStateReport } from './GraphTypes';
+
+// Range that learning keeps edge weights in
+const MIN_LEARNED_WEIGHT = 0.1;
+const MAX_LEARNED_WEIGHT = 10;
+
+// Delay before a scheduled save, so that bursts of test results are written once
+const SAVE_DEBOUNCE_MS = 2000;
+
+// Node types produced by parsing code files and test files
+const CODE_NODE_TYPES: NodeType[] = ['Module', 'CodeElement'];
+const TEST_NODE_TYPES: NodeType[] = ['TestSuite', 'TestCase', 'Fixture'];
+
+// Edges whose source depends on their target, so that removing the target affects the source
+const DEPENDENCY_EDGE_TYPES = ['CALLS', 'USES', 'INHERITS_FROM', 'IMPORTS', 'TESTS'];
 
 /**
  * FIXED SIKGManager - Proper graph state management and visualization data
  */
 export class SIKGManager {
     private graph: Graph;
-    private context: vscode.ExtensionContext;
+    private host: SIKGHost;
     private configManager: ConfigManager;
     private codeParser: CodeParser;
     private testParser: TestParser;
-    private graphPath: string;
+    private graphStorage: GraphStorage;
+    private fileManifest: Map<string, FileManifestEntry> = new Map();
+    private partitionCreatedBy: Map<string, string> = new Map();
+    private learnedState: LearnedStateStore = new LearnedStateStore();
+    private gitService: GitService = new GitService();
+    private removedNodes: RemovedNode[] = [];
+    private saveTimer: NodeJS.Timeout | undefined;
+    private pendingSave: Promise<void> = Promise.resolve();
+    private nodesByFile: Map<string, Set<string>> = new Map();
+    private outgoingEdgeIds: Map<string, Set<string>> = new Map();
+    private incomingEdgeIds: Map<string, Set<string>> = new Map();
     private initialized: boolean = false;
 
-    constructor(context: vscode.ExtensionContext, configManager: ConfigManager) {
-        this.context = context;
+    /**
+     * @param host Program the graph is built in, e.g. VS Code or a CI job
+     */
+    constructor(host: SIKGHost, configManager: ConfigManager) {
+        this.host = host;
         this.configManager = configManager;
         this.graph = { nodes: new Map(), edges: new Map() };
         this.codeParser = new CodeParser();
         this.testParser = new TestParser();
         
-        // Set up storage path for the graph
-        const storagePath = context.globalStorageUri.fsPath;
-        if (!fs.existsSync(storagePath)) {
-            fs.mkdirSync(storagePath, { recursive: true });
-        }
-        this.graphPath = path.join(storagePath, 'sikg-graph.json');
+        // Each workspace folder gets its own graph partition so that switching repositories never mixes graphs
+        this.graphStorage = new GraphStorage(host.storagePath);
+    }
+
+    /**
+     * Get the storage holding the graphs of all workspaces
+     */
+    public getGraphStorage(): GraphStorage {
+        return this.graphStorage;
+    }
+
+    /**
+     * Get the storage IDs of the graph partitions of the current workspace's folders
+     */
+    public getGraphIds(): string[] {
+        return this.getPartitionRoots().map(root => this.graphStorage.getGraphId(root));
     }
 
     /**
@@ -41,17 +86,22 @@ export class SIKGManager {
      */
     public async initialize(): Promise<void> {
         try {
-            if (fs.existsSync(this.graphPath)) {
+            await this.loadLearnedState();
+            
+            // A graph from before graphs were stored per workspace is taken over by a workspace without one
+            const partitionRoots = this.getPartitionRoots();
+            if (partitionRoots[0] && !partitionRoots.some(root => this.graphStorage.hasGraph(root))) {
+                this.graphStorage.adoptLegacyGraph(partitionRoots[0]);
+            }
+            
+            if (partitionRoots.some(root => this.graphStorage.hasGraph(root))) {
                 // Load existing graph
                 await this.loadGraph();
                 Logger.info('Loaded existing SIKG graph');
                 
-                // Check if we need to update the graph (e.g., new files added)
-                const needsUpdate = await this.checkForGraphUpdate();
-                if (needsUpdate) {
-                    Logger.info('Updating SIKG graph with new files');
-                    await this.updateGraph();
-                }
+                // Bring the graph up to date with files added, modified or deleted since it was saved,
+                // including the files of folders that have no partition yet
+                await this.refreshChangedFiles();
             } else {
                 // Build new graph
                 await this.rebuildGraph();
@@ -65,73 +115,246 @@ export class SIKGManager {
     }
 
     /**
-     * Check if the graph needs updating due to new files or changes
+     * Re-parse files whose content changed since they were last parsed and remove
+     * nodes of files that no longer exist
+     * @param changedPaths Workspace-relative paths that Git reports as changed or untracked;
+     *                     they are hashed even if their modification time did not move
+     */
+    public async refreshChangedFiles(changedPaths: string[] = []): Promise<void> {
+        const changes = await this.detectFileChanges(new Set(changedPaths));
+        if (changes.codeFiles.length > 0 || changes.testFiles.length > 0 || changes.deletedFiles.length > 0) {
+            Logger.info('Updating SIKG graph with changed files');
+            await this.updateGraph(changes);
+        }
+    }
+
+    /**
+     * Parse files that have no nodes in the graph yet, such as files created since the
+     * last refresh. Files that are not code or test files by the settings are left out.
+     * @param filePaths Workspace-relative paths
+     * @returns Workspace-relative paths of the files that were parsed
+     */
+    public async ensureFilesParsed(filePaths: string[]): Promise<string[]> {
+        const missing = new Set(filePaths.filter(filePath => !this.nodesByFile.get(filePath)?.size));
+        if (missing.size === 0) {
+            return [];
+        }
+
+        const isMissing = (filePath: string) => missing.has(ParserUtils.getWorkspaceRelativePath(filePath));
+        const changes: FileChanges = {
+            codeFiles: (await this.findAllCodeFiles()).filter(isMissing),
+            testFiles: (await this.findAllTestFiles()).filter(isMissing),
+            deletedFiles: []
+        };
+        if (changes.codeFiles.length === 0 && changes.testFiles.length === 0) {
+            return [];
+        }
+
+        Logger.info(`Parsing ${changes.codeFiles.length + changes.testFiles.length} files that are not in the SIKG graph yet`);
+        await this.updateGraph(changes);
+
+        return Array.from(new Set([...changes.codeFiles, ...changes.testFiles]))
+            .map(filePath => ParserUtils.getWorkspaceRelativePath(filePath));
+    }
+
+    /**
+     * Find the code elements of an earlier version of a file that are no longer in the graph,
+     * neither under their ID nor as a renamed or moved node
+     * @param filePath Workspace-relative path of the file
+     * @param originalContent Content of the earlier version
+     */
+    public async findRemovedElements(filePath: string, originalContent: string): Promise<RemovedElement[]> {
+        const elements = await this.codeParser.parseCodeFile(originalContent, filePath);
+        const moduleNode = this.getNodesByFilePath(filePath).find(node => node.type === 'Module');
+
+        return elements
+            .filter(element => !this.getNode(element.id))
+            .map(element => {
+                // Edges that other files derived into a removed node are in the removal log until those files are
+                // parsed again; without any, what depends on the module that held the element stands in for them
+                let dependentIds = this.getDependentNodeIds(element.id, this.fileManifest.get(filePath)?.removedEdges)
+                    .filter(nodeId => this.graph.nodes.has(nodeId));
+                if (element.kind === 'module') {
+                    // Imports of a module that is gone were taken for imports of an external package
+                    dependentIds.push(...this.getAllEdges()
+                        .filter(edge => edge.type === 'DEPENDS_ON_PACKAGE' && edge.properties.unresolvedTarget === element.id)
+                        .map(edge => edge.source));
+                }
+                if (dependentIds.length === 0 && moduleNode) {
+                    dependentIds = this.getDependentNodeIds(moduleNode.id);
+                }
+
+                return {
+                    id: element.id,
+                    name: element.name,
+                    kind: element.kind,
+                    loc: element.loc,
+                    dependentIds: this.addTestsOfTestCode(dependentIds)
+                };
+            });
+    }
+
+    /**
+     * Add the tests defined by code nodes of test files among some nodes: all tests of a module,
+     * and the tests whose lines overlap a function or class. No edge leads from the code nodes of
+     * a test file to its tests, so impact that reaches them would stop there.
+     */
+    private addTestsOfTestCode(nodeIds: string[]): string[] {
+        const result = new Set(nodeIds);
+        for (const nodeId of nodeIds) {
+            const node = this.graph.nodes.get(nodeId);
+            if (!node || !CODE_NODE_TYPES.includes(node.type)) {
+                continue;
+            }
+            const loc = node.properties.loc;
+            for (const fileNode of this.getNodesByFilePath(node.filePath)) {
+                const testLoc = fileNode.properties.loc;
+                if (fileNode.type === 'TestCase' && (node.type === 'Module' ||
+                    (loc && testLoc && testLoc.start.line <= loc.end.line && loc.start.line <= testLoc.end.line))) {
+                    result.add(fileNode.id);
+                }
+            }
+        }
+        return Array.from(result);
+    }
+
+    /**
+     * Compare the workspace with the file manifest to find files that need re-parsing
+     * @param changedPaths Workspace-relative paths to hash whatever their modification time
      */
-    private async checkForGraphUpdate(): Promise<boolean> {
-        // Check if new files have been added since last graph build
+    private async detectFileChanges(changedPaths: Set<string>): Promise<FileChanges> {
         const codeFiles = await this.findAllCodeFiles();
         const testFiles = await this.findAllTestFiles();
-        
-        // Count existing nodes
-        let codeNodeCount = 0;
-        let testNodeCount = 0;
-        
-        for (const node of this.graph.nodes.values()) {
-            if (node.type === 'CodeElement') {
-                codeNodeCount++;
-            } else if (node.type === 'TestCase') {
-                testNodeCount++;
+        const codePaths = new Set<string>();
+        const testPaths = new Set<string>();
+
+        const changes: FileChanges = { codeFiles: [], testFiles: [], deletedFiles: [] };
+
+        for (const filePath of codeFiles) {
+            const relativePath = ParserUtils.getWorkspaceRelativePath(filePath);
+            codePaths.add(relativePath);
+            if (this.hasChanged(filePath, relativePath, 'codeHash', changedPaths)) {
+                changes.codeFiles.push(filePath);
             }
         }
-        
-        // Simple heuristic: if we have more files than nodes of the corresponding type,
-        // we probably need to update the graph
-        return codeFiles.length > codeNodeCount / 5 || testFiles.length > testNodeCount;
+
+        for (const filePath of testFiles) {
+            const relativePath = ParserUtils.getWorkspaceRelativePath(filePath);
+            testPaths.add(relativePath);
+            if (this.hasChanged(filePath, relativePath, 'testHash', changedPaths)) {
+                changes.testFiles.push(filePath);
+            }
+        }
+
+        // Files with nodes or manifest entries that are no longer found in the workspace
+        const knownPaths = new Set([...this.fileManifest.keys(), ...this.nodesByFile.keys()]);
+        for (const relativePath of knownPaths) {
+            const entry = this.fileManifest.get(relativePath);
+            const code = !codePaths.has(relativePath) &&
+                (entry?.codeHash !== undefined || this.hasNodesOfType(relativePath, CODE_NODE_TYPES));
+            const test = !testPaths.has(relativePath) &&
+                (entry?.testHash !== undefined || this.hasNodesOfType(relativePath, TEST_NODE_TYPES));
+
+            if (code || test) {
+                changes.deletedFiles.push({ filePath: relativePath, code, test });
+            }
+        }
+
+        Logger.debug(`Detected ${changes.codeFiles.length} changed code files, ${changes.testFiles.length} changed test files ` +
+            `and ${changes.deletedFiles.length} removed files`);
+        return changes;
+    }
+
+    /**
+     * Check if a file differs from the content it was last parsed with. Only files that Git
+     * reports as changed and files whose modification time or size moved are read and hashed.
+     * @param filePath Absolute path of the file
+     * @param relativePath Workspace-relative path of the file
+     * @param hashKey Hash of the file as a code or as a test file
+     * @param changedPaths Workspace-relative paths to hash whatever their modification time
+     */
+    private hasChanged(filePath: string, relativePath: string, hashKey: 'codeHash' | 'testHash', changedPaths: Set<string>): boolean {
+        const entry = this.fileManifest.get(relativePath);
+        if (!entry?.[hashKey]) {
+            return true;
+        }
+
+        const fileStamp = this.getFileStamp(filePath);
+        if (fileStamp && fileStamp === entry.fileStamp && !changedPaths.has(relativePath)) {
+            return false;
+        }
+
+        if (entry[hashKey] !== this.hashFile(filePath)) {
+            return true;
+        }
+        // Touched but not changed, e.g. by a checkout: no need to hash it again next time
+        entry.fileStamp = fileStamp;
+        return false;
     }
 
     /**
-     * Update the graph with new files while preserving existing nodes and relationships
+     * Get the modification time and size of a file, which change when it is written
      */
-    private async updateGraph(): Promise<void> {
+    private getFileStamp(filePath: string): string | undefined {
         try {
-            // Find all code and test files
-            const codeFiles = await this.findAllCodeFiles();
-            const testFiles = await this.findAllTestFiles();
+            const stats = fs.statSync(filePath);
+            return `${stats.mtimeMs}:${stats.size}`;
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    /**
+     * Update the graph for changed and deleted files while preserving learned state
+     */
+    private async updateGraph(changes: FileChanges): Promise<void> {
+        try {
+            Logger.info(`Updating SIKG graph with ${changes.codeFiles.length} code files and ${changes.testFiles.length} test files, ` +
+                `removing ${changes.deletedFiles.length} files`);
             
-            // Track which files we've already processed
-            const processedCodeFiles = new Set<string>();
-            const processedTestFiles = new Set<string>();
+            const previousNodeIds = new Set(this.graph.nodes.keys());
+            this.removedNodes = [];
             
-            // Check which files are already in the graph
-            for (const node of this.graph.nodes.values()) {
-                if (node.filePath) {
-                    if (node.type === 'CodeElement') {
-                        processedCodeFiles.add(node.filePath);
-                    } else if (node.type === 'TestCase') {
-                        processedTestFiles.add(node.filePath);
+            for (const deleted of changes.deletedFiles) {
+                if (deleted.code) {
+                    this.replaceFileNodes(deleted.filePath, CODE_NODE_TYPES, [], []);
+                }
+                if (deleted.test) {
+                    this.replaceFileNodes(deleted.filePath, TEST_NODE_TYPES, [], []);
+                }
+
+                const entry = this.fileManifest.get(deleted.filePath);
+                if (entry) {
+                    if (deleted.code) {
+                        delete entry.codeHash;
+                    }
+                    if (deleted.test) {
+                        delete entry.testHash;
+                    }
+                    // The removal log outlives the file, which may come back
+                    if (!entry.codeHash && !entry.testHash && !entry.removedEdges) {
+                        this.fileManifest.delete(deleted.filePath);
                     }
                 }
             }
             
-            // Process only new code files
-            const newCodeFiles = codeFiles.filter(file => {
-                const relativePath = vscode.workspace.asRelativePath(file);
-                return !processedCodeFiles.has(relativePath);
-            });
-            
-            // Process only new test files
-            const newTestFiles = testFiles.filter(file => {
-                const relativePath = vscode.workspace.asRelativePath(file);
-                return !processedTestFiles.has(relativePath);
-            });
-            
-            Logger.info(`Updating SIKG graph with ${newCodeFiles.length} new code files and ${newTestFiles.length} new test files`);
+            // Code first, so test coverage can link to the updated code nodes; linking covers
+            // the relationships of both
+            await this.processCodeFiles(changes.codeFiles);
+            await this.processTestFiles(changes.testFiles);
+            this.linkSymbols();
+            this.linkFixtures();
+            this.syncFileNodes([
+                ...[...changes.codeFiles, ...changes.testFiles].map(filePath => ParserUtils.getWorkspaceRelativePath(filePath)),
+                ...changes.deletedFiles.map(deleted => deleted.filePath)
+            ]);
             
-            // Process new code files
-            await this.processCodeFiles(newCodeFiles);
+            // Nodes that were renamed or moved keep their test history and learned weights
+            const removedNodes = this.removedNodes;
+            this.removedNodes = [];
+            await this.carryIdentityForward(removedNodes, previousNodeIds, true);
             
-            // Process new test files
-            await this.processTestFiles(newTestFiles);
+            await this.enhanceGraphRelationships();
             
             // Save the updated graph
             await this.saveGraph();
@@ -145,12 +368,17 @@ export class SIKGManager {
     }
 
     /**
-     * Rebuild the entire knowledge graph from the current workspace
+     * Rebuild the entire knowledge graph from the current workspace, keeping the state learned from test runs
+     * @returns What learned state was re-applied, and the entries whose nodes no longer exist
      */
-    public async rebuildGraph(): Promise<void> {
+    public async rebuildGraph(): Promise<LearnedStateReport> {
         try {
-            // Clear existing graph
+            // Clear existing graph, remembering its nodes to recognize the ones that were renamed or moved
+            const previousGraph = this.graph;
             this.graph = { nodes: new Map(), edges: new Map() };
+            this.fileManifest.clear();
+            this.removedNodes = [];
+            this.rebuildIndexes();
             
             // Find all code and test files in the workspace
             const codeFiles = await this.findAllCodeFiles();
@@ -160,17 +388,43 @@ export class SIKGManager {
             Logger.info(`Building SIKG from ${codeFiles.length} code files and ${testFiles.length} test files`);
             await this.processCodeFiles(codeFiles);
             
-            // Parse test files and link them to code elements
+            // Parse test files
             await this.processTestFiles(testFiles);
             
+            // Point relationships of code and tests to symbols of other files at their nodes, and tests at their fixtures
+            this.linkSymbols();
+            this.linkFixtures();
+            this.syncFileNodes(Array.from(this.nodesByFile.keys()));
+            
+            // Move learned state of renamed or moved nodes to their new IDs before it is re-applied
+            await this.carryIdentityForward(
+                Array.from(previousGraph.nodes.values()).map(node => ({ node, edges: [] })),
+                new Set(previousGraph.nodes.keys()),
+                false
+            );
+            
             // Apply additional analysis to enhance the graph
             await this.enhanceGraphRelationships();
             
+            // Re-apply test history, learned weights and edges observed by coverage onto the new structure
+            const report = this.learnedState.applyTo(
+                this.graph,
+                weight => this.clampLearnedWeight(weight),
+                edge => this.addEdge(edge)
+            );
+            if (report.orphanedNodes.length > 0 || report.orphanedEdges.length > 0) {
+                Logger.warn(`${report.orphanedNodes.length} learned nodes and ${report.orphanedEdges.length} learned edges ` +
+                    'no longer exist in the rebuilt graph');
+            }
+            
             // Save the graph
             await this.saveGraph();
             
             // Log statistics
-            Logger.info(`SIKG built with ${this.graph.nodes.size} nodes and ${this.graph.edges.size} edges`);
+            Logger.info(`SIKG built with ${this.graph.nodes.size} nodes and ${this.graph.edges.size} edges, ` +
+                `restored learned state of ${report.nodesRestored} nodes and ${report.edgesRestored} edges, ` +
+                `and ${report.observedEdgesRestored} edges observed by coverage`);
+            return report;
         } catch (error) {
             Logger.error('Failed to rebuild SIKG graph:', error);
             throw error;
@@ -178,20 +432,34 @@ export class SIKGManager {
     }
 
     /**
-     * Enhance graph relationships by analyzing dependencies and call hierarchies
+     * Enhance graph relationships with the references and call hierarchies reported by
+     * the installed language servers. Only code files that changed since their last pass
+     * are visited, within the configured time budget; the rest follow on the next update.
      */
     private async enhanceGraphRelationships(): Promise<void> {
         try {
-            // This would use VS Code's Language Services to get better dependency information
-            // For demonstration purposes, we'll just log that this step occurred
-            Logger.info('Enhancing graph relationships with additional analysis');
+            const timeBudget = this.configManager.getLanguageServerTimeBudget();
+            // Hosts without an editor have no language servers to ask
+            if (timeBudget <= 0 || !this.host.languageServers) {
+                return;
+            }
+            
+            const filePaths = Array.from(this.fileManifest.entries())
+                .filter(([, entry]) => entry.codeHash && entry.lspHash !== entry.codeHash)
+                .map(([filePath]) => filePath);
+            if (filePaths.length === 0) {
+                return;
+            }
             
-            // In a full implementation, this would:
-            // 1. Use VS Code's "Find All References" to improve call graphs
-            // 2. Use language-specific tools to analyze import/dependency relationships
-            // 3. Perform static analysis to better understand relationships
+            Logger.info(`Enhancing graph relationships of ${filePaths.length} files with language servers`);
+            const result = await this.host.languageServers.enhance(this, filePaths, timeBudget * 1000);
             
-            // For simplicity, we'll skip the actual implementation
+            for (const filePath of result.filesVisited) {
+                const entry = this.fileManifest.get(filePath);
+                if (entry) {
+                    entry.lspHash = entry.codeHash;
+                }
+            }
         } catch (error) {
             Logger.error('Error enhancing graph relationships:', error);
             // Non-critical, so don't throw the error
@@ -210,7 +478,8 @@ export class SIKGManager {
             let changedEdgeWeights = 0;
             
             for (const result of testResults) {
-                const testNodeId = result.testId;
+                // Results stored before a test was renamed or moved carry its old ID
+                const testNodeId = this.resolveNodeId(result.testId);
                 
                 // Find the test node
                 const testNode = this.graph.nodes.get(testNodeId);
@@ -234,6 +503,27 @@ export class SIKGManager {
                         }
                     ].slice(-20) // Keep only the last 20 executions
                 };
+                testNode.properties.flakiness = this.calculateFlakiness(testNode.properties.history);
+                this.learnedState.recordNode(testNode);
+                
+                // Paths from the changed nodes to the test, which the outcome either confirms or refutes
+                const changedNodeIds = (result.changedNodeIds || []).map(nodeId => this.resolveNodeId(nodeId));
+                const ran = result.status === 'passed' || result.status === 'failed';
+                const contributingPaths = changedNodeIds.length > 0 && (ran || result.predictedImpact !== undefined)
+                    ? this.findContributingPaths(testNodeId, changedNodeIds)
+                    : [];
+                
+                // A test that ran after a change went through the relationships between the change and the test,
+                // whether it passed or failed; a skipped test did not
+                if (ran) {
+                    const confirmedAt = result.timestamp || new Date().toISOString();
+                    for (const edgeId of new Set(contributingPaths.flat())) {
+                        const provenance = this.graph.edges.get(edgeId)?.provenance;
+                        if (provenance) {
+                            provenance.lastConfirmed = confirmedAt;
+                        }
+                    }
+                }
                 
                 // If this test was predicted with high impact but passed, or low impact but failed,
                 // adjust the edge weights - this is the reinforcement learning part
@@ -244,9 +534,6 @@ export class SIKGManager {
                     if ((result.predictedImpact > highThreshold && result.status === 'passed') ||
                         (result.predictedImpact < lowThreshold && result.status === 'failed')) {
                         
-                        // Find paths that contributed to this test's score
-                        const contributingPaths = this.findContributingPaths(testNodeId, result.changedNodeIds || []);
-                        
                         for (const path of contributingPaths) {
                             for (const edgeId of path) {
                                 const edge = this.graph.edges.get(edgeId);
@@ -263,7 +550,14 @@ export class SIKGManager {
                                     }
                                     
                                     // Apply adjustment to edge weight
-                                    edge.weight = Math.max(0.1, Math.min(10, edge.weight * adjustmentFactor));
+                                    const previousWeight = edge.weight;
+                                    edge.weight = this.clampLearnedWeight(edge.weight * adjustmentFactor);
+                                    this.learnedState.recordEdgeWeight(
+                                        edgeId,
+                                        this.graph.nodes.get(edge.source)?.filePath || '',
+                                        previousWeight,
+                                        edge.weight
+                                    );
                                     changedEdgeWeights++;
                                 }
                             }
@@ -272,8 +566,8 @@ export class SIKGManager {
                 }
             }
             
-            // Save the updated graph
-            await this.saveGraph();
+            // Save the updated graph in the background
+            this.scheduleSave();
             Logger.info(`Updated SIKG with test results. Modified ${changedEdgeWeights} edge weights.`);
             
         } catch (error) {
@@ -282,6 +576,222 @@ export class SIKGManager {
         }
     }
 
+    /**
+     * Add TESTS/IS_TESTED_BY edges from per-test coverage. Covered lines are attributed
+     * to the innermost code element whose span contains them.
+     * @param coverage Covered lines per test
+     * @param source Provenance stored in the edge properties and as the producer of the edges, e.g. 'coverage'
+     * @param replaceStatic Remove statically guessed edges of covered tests that coverage did not confirm
+     */
+    public async applyTestCoverage(
+        coverage: TestCoverage[],
+        source: string,
+        replaceStatic: boolean
+    ): Promise<CoverageMappingResult> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        const result: CoverageMappingResult = {
+            testsMapped: 0,
+            edgesAdded: 0,
+            edgesUpdated: 0,
+            edgesRemoved: 0,
+            unmappedFiles: []
+        };
+        const unmappedFiles = new Set<string>();
+        const observedAt = new Date().toISOString();
+
+        // Index code elements with a location by file
+        const codeNodesByFile = new Map<string, Node[]>();
+        for (const node of this.graph.nodes.values()) {
+            if (CODE_NODE_TYPES.includes(node.type) && node.properties.loc) {
+                codeNodesByFile.set(node.filePath, [...(codeNodesByFile.get(node.filePath) || []), node]);
+            }
+        }
+
+        for (const testCoverage of coverage) {
+            const testNode = this.getNode(testCoverage.testId);
+            if (!testNode || testNode.type !== 'TestCase') {
+                Logger.debug(`Skipping coverage for unknown test ${testCoverage.testId}`);
+                continue;
+            }
+
+            // Count covered lines per code element
+            const coveredLineCounts = new Map<string, number>();
+            for (const [filePath, lines] of Object.entries(testCoverage.files)) {
+                const codeNodes = codeNodesByFile.get(filePath);
+                if (!codeNodes) {
+                    if (filePath !== testNode.filePath) {
+                        unmappedFiles.add(filePath);
+                    }
+                    continue;
+                }
+
+                for (const line of lines) {
+                    const element = this.findInnermostElement(codeNodes, line);
+                    if (element) {
+                        coveredLineCounts.set(element.id, (coveredLineCounts.get(element.id) || 0) + 1);
+                    }
+                }
+            }
+
+            if (coveredLineCounts.size === 0) {
+                continue;
+            }
+            result.testsMapped++;
+
+            for (const [codeNodeId, coveredLines] of coveredLineCounts) {
+                const loc = this.graph.nodes.get(codeNodeId)!.properties.loc;
+                const spanLines = Math.max(1, loc.end.line - loc.start.line + 1);
+                // Observed execution is stronger evidence than any static guess
+                const weight = 0.8 + 0.2 * Math.min(1, coveredLines / spanLines);
+                const properties = { source, coveredLines };
+                const provenance = { ...this.createProvenance(source, 1.0), lastConfirmed: observedAt };
+
+                const edgeId = `${testNode.id}-TESTS-${codeNodeId}`;
+                const existing = this.graph.edges.get(edgeId);
+                if (existing) {
+                    // Keep weights that learning has already raised above the coverage weight
+                    existing.weight = Math.max(existing.weight, weight);
+                    existing.properties = { ...existing.properties, ...properties };
+                    existing.provenance = { ...provenance, createdAt: existing.provenance?.createdAt || provenance.createdAt };
+                    result.edgesUpdated++;
+                } else {
+                    this.addEdge({ source: testNode.id, target: codeNodeId, type: 'TESTS', weight, properties, provenance });
+                    result.edgesAdded++;
+                }
+
+                const reverseEdgeId = `${codeNodeId}-IS_TESTED_BY-${testNode.id}`;
+                const reverseEdge = this.graph.edges.get(reverseEdgeId);
+                this.addEdge({
+                    source: codeNodeId,
+                    target: testNode.id,
+                    type: 'IS_TESTED_BY',
+                    weight: reverseEdge ? Math.max(reverseEdge.weight, weight) : weight,
+                    properties: { ...(reverseEdge?.properties || {}), ...properties },
+                    provenance
+                });
+                
+                // Parsing does not derive these edges again when the graph is rebuilt
+                this.learnedState.recordObservedEdge(edgeId, testNode.filePath, this.graph.edges.get(edgeId)!);
+                this.learnedState.recordObservedEdge(reverseEdgeId, this.graph.nodes.get(codeNodeId)!.filePath, this.graph.edges.get(reverseEdgeId)!);
+            }
+
+            if (replaceStatic) {
+                // Static guesses that the test never executed are dropped
+                for (const edge of this.getOutgoingEdges(testNode.id)) {
+                    if (edge.type === 'TESTS' && !coveredLineCounts.has(edge.target) && !edge.properties.source) {
+                        this.removeEdge(this.getEdgeId(edge));
+                        this.removeEdge(`${edge.target}-IS_TESTED_BY-${testNode.id}`);
+                        result.edgesRemoved++;
+                    }
+                }
+            }
+        }
+
+        result.unmappedFiles = Array.from(unmappedFiles).sort();
+
+        this.scheduleSave();
+        Logger.info(`Applied ${source} for ${result.testsMapped} tests: ${result.edgesAdded} edges added, ` +
+            `${result.edgesUpdated} updated, ${result.edgesRemoved} removed`);
+
+        return result;
+    }
+
+    /**
+     * Reweight statically guessed TESTS edges from coverage that is not broken down by test.
+     * Such coverage cannot link tests to code, but code that no test executed cannot be
+     * tested by any of the guessed edges pointing at it.
+     * @param files Covered lines per workspace-relative file path
+     * @param source Provenance stored in the edge properties, with a fingerprint of the coverage
+     */
+    public async applyAggregateCoverage(files: Record<string, number[]>, source: string): Promise<CoverageMappingResult> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        const result: CoverageMappingResult = {
+            testsMapped: 0,
+            edgesAdded: 0,
+            edgesUpdated: 0,
+            edgesRemoved: 0,
+            unmappedFiles: []
+        };
+
+        const uncoveredNodeIds = new Set<string>();
+        const mappedFiles = new Set<string>();
+        const coverageKey = `${source}:${this.hashContent(JSON.stringify(files))}`;
+
+        for (const node of this.graph.nodes.values()) {
+            const lines = files[node.filePath];
+            const loc = node.properties.loc;
+            if (!CODE_NODE_TYPES.includes(node.type) || !lines || !loc) {
+                continue;
+            }
+
+            mappedFiles.add(node.filePath);
+            if (!lines.some(line => line >= loc.start.line && line <= loc.end.line)) {
+                uncoveredNodeIds.add(node.id);
+            }
+        }
+
+        for (const edge of this.graph.edges.values()) {
+            if ((edge.type !== 'TESTS' && edge.type !== 'IS_TESTED_BY') || edge.properties.source) {
+                continue;
+            }
+
+            const codeNodeId = edge.type === 'TESTS' ? edge.target : edge.source;
+            // Only weaken each edge once per coverage, so re-importing the same report is harmless
+            // while a later report that still does not cover the code weakens it further
+            if (uncoveredNodeIds.has(codeNodeId) && edge.properties.uncoveredIn !== coverageKey) {
+                const previousWeight = edge.weight;
+                edge.weight = Math.max(0.1, edge.weight * 0.5);
+                edge.properties = { ...edge.properties, uncoveredIn: coverageKey };
+                // Kept like weights learned from test results, so that a rebuild does not undo it
+                this.learnedState.recordEdgeWeight(
+                    this.getEdgeId(edge),
+                    this.graph.nodes.get(edge.source)?.filePath || '',
+                    previousWeight,
+                    edge.weight
+                );
+                if (edge.type === 'TESTS') {
+                    result.edgesUpdated++;
+                }
+            }
+        }
+
+        result.unmappedFiles = Object.keys(files).filter(filePath => !mappedFiles.has(filePath)).sort();
+
+        this.scheduleSave();
+        Logger.info(`Applied aggregate ${source} to ${mappedFiles.size} files: ${result.edgesUpdated} edges weakened`);
+
+        return result;
+    }
+
+    /**
+     * Find the code element with the smallest span that contains a line
+     */
+    private findInnermostElement(codeNodes: Node[], line: number): Node | undefined {
+        let innermost: Node | undefined;
+        let innermostSpan = Infinity;
+
+        for (const node of codeNodes) {
+            const loc = node.properties.loc;
+            if (line < loc.start.line || line > loc.end.line) {
+                continue;
+            }
+
+            const span = loc.end.line - loc.start.line;
+            if (span < innermostSpan) {
+                innermost = node;
+                innermostSpan = span;
+            }
+        }
+
+        return innermost;
+    }
+
     /**
      * FIXED: Export a simplified version of the graph for visualization with proper change marking
      */
@@ -308,20 +818,27 @@ export class SIKGManager {
             });
         }
         
-        // Add edges with appropriate information
+        // Add edges with appropriate information; edges to nodes that are missing cannot be drawn
         for (const [id, edge] of this.graph.edges.entries()) {
+            if (!this.graph.nodes.has(edge.source) || !this.graph.nodes.has(edge.target)) {
+                continue;
+            }
             links.push({
                 source: edge.source,
                 target: edge.target,
                 type: edge.type,
-                weight: edge.weight
+                weight: edge.weight,
+                producer: edge.provenance?.producer,
+                confidence: edge.provenance?.confidence,
+                createdAt: edge.provenance?.createdAt,
+                lastConfirmed: edge.provenance?.lastConfirmed
             });
         }
         
         // FIXED: Log debug information
         const changedNodes = nodes.filter(n => n.changed);
         const testNodes = nodes.filter(n => n.type === 'TestCase');
-        const codeNodes = nodes.filter(n => n.type === 'CodeElement');
+        const codeNodes = nodes.filter(n => CODE_NODE_TYPES.includes(n.type));
         
         Logger.info(`Graph visualization export: ${nodes.length} total nodes (${codeNodes.length} code, ${testNodes.length} test), ${changedNodes.length} changed nodes`);
         
@@ -329,10 +846,17 @@ export class SIKGManager {
     }
 
     /**
-     * Get the node for a given ID
+     * Get the node for a given ID, following the alias of a node that was renamed or moved
      */
     public getNode(nodeId: string): Node | undefined {
-        return this.graph.nodes.get(nodeId);
+        return this.graph.nodes.get(nodeId) || this.graph.nodes.get(this.learnedState.resolveNodeId(nodeId));
+    }
+
+    /**
+     * Get the current ID of a node that may have been renamed or moved since an ID was stored
+     */
+    public resolveNodeId(nodeId: string): string {
+        return this.graph.nodes.has(nodeId) ? nodeId : this.learnedState.resolveNodeId(nodeId);
     }
 
     /**
@@ -351,7 +875,13 @@ export class SIKGManager {
      * Add a new node to the graph
      */
     public addNode(node: Node): void {
+        const existingNode = this.graph.nodes.get(node.id);
+        if (existingNode && existingNode.filePath !== node.filePath) {
+            this.nodesByFile.get(existingNode.filePath)?.delete(node.id);
+        }
+
         this.graph.nodes.set(node.id, node);
+        this.indexNodeFile(node);
     }
 
     /**
@@ -360,65 +890,108 @@ export class SIKGManager {
     public updateNode(nodeId: string, updatedProperties: Partial<Node>): void {
         const existingNode = this.graph.nodes.get(nodeId);
         if (existingNode) {
-            this.graph.nodes.set(nodeId, { ...existingNode, ...updatedProperties });
+            this.addNode({ ...existingNode, ...updatedProperties });
         }
     }
 
     /**
-     * Add a new edge to the graph
+     * Add a new edge to the graph. Edges without provenance are recorded as produced by
+     * their properties.source, or 'unknown'; an edge that replaces one with the same ID
+     * keeps its creation time and last confirmation.
      */
     public addEdge(edge: Edge): void {
-        const edgeId = `${edge.source}-${edge.type}-${edge.target}`;
+        const edgeId = this.getEdgeId(edge);
+        const existingProvenance = this.graph.edges.get(edgeId)?.provenance;
+        const provenance = edge.provenance || this.createProvenance(edge.properties.source || 'unknown', 1.0);
+        edge.provenance = existingProvenance
+            ? {
+                ...provenance,
+                createdAt: existingProvenance.createdAt,
+                lastConfirmed: provenance.lastConfirmed || existingProvenance.lastConfirmed
+            }
+            : provenance;
         this.graph.edges.set(edgeId, edge);
+        this.indexEdge(edgeId, edge);
     }
 
     /**
-     * Update an existing edge in the graph
+     * Update an existing edge in the graph. An edge whose source, target or type changes
+     * moves to the ID of its new ends.
      */
     public updateEdge(edgeId: string, updatedProperties: Partial<Edge>): void {
         const existingEdge = this.graph.edges.get(edgeId);
         if (existingEdge) {
-            this.graph.edges.set(edgeId, { ...existingEdge, ...updatedProperties });
+            this.removeEdge(edgeId);
+            this.addEdge({ ...existingEdge, ...updatedProperties });
         }
     }
 
     /**
-     * Get outgoing edges from a node
+     * Remove an edge from the graph
+     * @returns True if the edge existed
      */
-    public getOutgoingEdges(nodeId: string): Edge[] {
-        const result: Edge[] = [];
-        for (const edge of this.graph.edges.values()) {
-            if (edge.source === nodeId) {
-                result.push(edge);
+    public removeEdge(edgeId: string): boolean {
+        const edge = this.graph.edges.get(edgeId);
+        if (!edge) {
+            return false;
+        }
+
+        this.unindexEdge(edgeId, edge);
+        this.graph.edges.delete(edgeId);
+        return true;
+    }
+
+    /**
+     * Remove a node and all edges connected to it
+     * @returns True if the node existed
+     */
+    public removeNode(nodeId: string): boolean {
+        const node = this.graph.nodes.get(nodeId);
+        if (!node) {
+            return false;
+        }
+
+        const connectedEdgeIds = [
+            ...(this.outgoingEdgeIds.get(nodeId) || []),
+            ...(this.incomingEdgeIds.get(nodeId) || [])
+        ];
+        for (const edgeId of connectedEdgeIds) {
+            this.removeEdge(edgeId);
+        }
+
+        this.graph.nodes.delete(nodeId);
+        this.outgoingEdgeIds.delete(nodeId);
+        this.incomingEdgeIds.delete(nodeId);
+
+        const fileNodeIds = this.nodesByFile.get(node.filePath);
+        if (fileNodeIds) {
+            fileNodeIds.delete(nodeId);
+            if (fileNodeIds.size === 0) {
+                this.nodesByFile.delete(node.filePath);
             }
         }
-        return result;
+        return true;
+    }
+
+    /**
+     * Get outgoing edges from a node
+     */
+    public getOutgoingEdges(nodeId: string): Edge[] {
+        return this.getIndexedEdges(this.outgoingEdgeIds.get(nodeId));
     }
 
     /**
      * Get incoming edges to a node
      */
     public getIncomingEdges(nodeId: string): Edge[] {
-        const result: Edge[] = [];
-        for (const edge of this.graph.edges.values()) {
-            if (edge.target === nodeId) {
-                result.push(edge);
-            }
-        }
-        return result;
+        return this.getIndexedEdges(this.incomingEdgeIds.get(nodeId));
     }
 
     /**
      * Get all edges between two nodes
      */
     public getEdgesBetween(sourceId: string, targetId: string): Edge[] {
-        const result: Edge[] = [];
-        for (const edge of this.graph.edges.values()) {
-            if (edge.source === sourceId && edge.target === targetId) {
-                result.push(edge);
-            }
-        }
-        return result;
+        return this.getOutgoingEdges(sourceId).filter(edge => edge.target === targetId);
     }
 
     /**
@@ -435,12 +1008,12 @@ export class SIKGManager {
     }
 
     /**
-     * Find all code nodes in the graph
+     * Find all code nodes in the graph: modules and the code elements they define
      */
     public getCodeNodes(): Node[] {
         const result: Node[] = [];
         for (const node of this.graph.nodes.values()) {
-            if (node.type === 'CodeElement') {
+            if (CODE_NODE_TYPES.includes(node.type)) {
                 result.push(node);
             }
         }
@@ -448,31 +1021,78 @@ export class SIKGManager {
     }
 
     /**
-     * Find code nodes by file path
+     * Get the edge for a given ID
      */
-    public getNodesByFilePath(filePath: string): Node[] {
-        const result: Node[] = [];
-        for (const node of this.graph.nodes.values()) {
-            if (node.filePath === filePath) {
-                result.push(node);
-            }
-        }
-        return result;
+    public getEdge(edgeId: string): Edge | undefined {
+        return this.graph.edges.get(edgeId);
     }
 
     /**
-     * FIXED: Mark nodes as changed with proper change tracking and impact propagation
+     * Find all edges in the graph
      */
-    public markNodesAsChanged(changedNodes: SemanticChangeInfo[]): void {
-        // FIXED: First reset all nodes to unchanged state
-        this.resetChangedStatus();
-        
-        const changedNodeIds = new Set<string>();
+    public getAllEdges(): Edge[] {
+        return Array.from(this.graph.edges.values());
+    }
+
+    /**
+     * Re-parse files from disk, removing the nodes of files that no longer exist
+     * @param filePaths Workspace-relative paths of files with nodes in the graph
+     */
+    public async reparseFiles(filePaths: string[]): Promise<void> {
+        const changes: FileChanges = { codeFiles: [], testFiles: [], deletedFiles: [] };
         
-        // Mark directly changed nodes
+        for (const filePath of filePaths) {
+            const absolutePath = ParserUtils.resolveWorkspacePath(filePath);
+            const code = this.hasNodesOfType(filePath, CODE_NODE_TYPES);
+            const test = this.hasNodesOfType(filePath, TEST_NODE_TYPES);
+            
+            if (!fs.existsSync(absolutePath)) {
+                changes.deletedFiles.push({ filePath, code, test });
+                continue;
+            }
+            if (code) {
+                changes.codeFiles.push(absolutePath);
+            }
+            if (test) {
+                changes.testFiles.push(absolutePath);
+            }
+        }
+        
+        await this.updateGraph(changes);
+    }
+
+    /**
+     * Find code nodes by file path
+     */
+    public getNodesByFilePath(filePath: string): Node[] {
+        const result: Node[] = [];
+        for (const nodeId of this.nodesByFile.get(filePath) || []) {
+            const node = this.graph.nodes.get(nodeId);
+            if (node) {
+                result.push(node);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * FIXED: Mark nodes as changed with proper change tracking and impact propagation
+     */
+    public markNodesAsChanged(changedNodes: SemanticChangeInfo[]): void {
+        // FIXED: First reset all nodes to unchanged state
+        this.resetChangedStatus();
+        
+        const changedNodeIds = new Set<string>();
+        
+        // Mark directly changed nodes
         for (const change of changedNodes) {
             const node = this.graph.nodes.get(change.nodeId);
-            if (node) {
+            if (!node && change.semanticType === 'REMOVAL') {
+                // A removed element has no node; the tests of what depended on it are impacted
+                for (const dependentId of change.changeDetails.dependentIds || []) {
+                    changedNodeIds.add(dependentId);
+                }
+            } else if (node) {
                 node.properties = {
                     ...node.properties,
                     changed: true,
@@ -637,12 +1257,46 @@ export class SIKGManager {
         return result;
     }
 
+    /**
+     * Format the learned entries a rebuild could not re-apply as a Markdown report
+     */
+    public formatLearnedStateReport(report: LearnedStateReport): string {
+        return this.learnedState.formatReport(report);
+    }
+
+    /**
+     * Forget the graph and learned state of one workspace folder, e.g. after its stored graph
+     * was deleted, and parse the folder's files again. Other folders keep theirs.
+     * @param graphId Storage ID of the folder's partition, see getGraphIds
+     */
+    public async resetPartition(graphId: string): Promise<void> {
+        const root = this.getPartitionRoots().find(candidate => this.graphStorage.getGraphId(candidate) === graphId);
+        if (root === undefined) {
+            return;
+        }
+        const inPartition = (filePath: string) => this.getPartitionRoot(filePath) === root;
+
+        this.learnedState.clearPartition(filePath => this.getPartitionRoot(filePath), root);
+
+        // Removing the nodes first drops their test history and observed edges, which re-parsing would keep
+        const knownPaths = new Set([...this.fileManifest.keys(), ...this.nodesByFile.keys()]);
+        const isInFolder = (filePath: string) => inPartition(ParserUtils.getWorkspaceRelativePath(filePath));
+        await this.updateGraph({
+            codeFiles: (await this.findAllCodeFiles()).filter(isInFolder),
+            testFiles: (await this.findAllTestFiles()).filter(isInFolder),
+            deletedFiles: Array.from(knownPaths)
+                .filter(inPartition)
+                .map(filePath => ({ filePath, code: true, test: true }))
+        });
+    }
+
     /**
      * Clean up resources used by the SIKG
+     * @returns Resolves when a scheduled save, or one already being written, is on disk
      */
-    public dispose(): void {
-        // Save the graph before disposing
-        this.saveGraph().catch(error => {
+    public dispose(): Promise<void> {
+        const save = this.saveTimer ? this.saveGraph() : this.pendingSave;
+        return save.catch(error => {
             Logger.error('Failed to save SIKG on dispose:', error);
         });
     }
@@ -676,7 +1330,7 @@ export class SIKGManager {
                 // Get outgoing edges
                 const outgoingEdges = this.getOutgoingEdges(nodeId);
                 for (const edge of outgoingEdges) {
-                    const edgeId = `${edge.source}-${edge.type}-${edge.target}`;
+                    const edgeId = this.getEdgeId(edge);
                     queue.push({
                         nodeId: edge.target,
                         path: [...path, edgeId]
@@ -689,37 +1343,40 @@ export class SIKGManager {
     }
 
     /**
-     * Find all code files in the workspace
+     * Find all code files in every workspace folder
      */
     private async findAllCodeFiles(): Promise<string[]> {
         const codeExtensions = this.configManager.getCodeFileExtensions();
-        const excludePatterns = this.configManager.getExcludePatterns();
-        
-        const files = await vscode.workspace.findFiles(
-            `**/*.{${codeExtensions.join(',')}}`,
-            `{${excludePatterns.join(',')}}`
-        );
-        
-        return files.map(file => file.fsPath);
+        return this.findFilesInFolders(`**/*.{${codeExtensions.join(',')}}`);
     }
 
     /**
-     * Find all test files in the workspace
+     * Find all test files in every workspace folder
      */
     private async findAllTestFiles(): Promise<string[]> {
         const testPatterns = this.configManager.getTestFilePatterns();
+        return this.findFilesInFolders(`{${testPatterns.join(',')}}`);
+    }
+
+    /**
+     * Search each workspace folder separately, so that the include pattern is matched
+     * against folder-relative paths in multi-root workspaces
+     * @returns Absolute paths, without duplicates from nested folders
+     */
+    private async findFilesInFolders(include: string): Promise<string[]> {
         const excludePatterns = this.configManager.getExcludePatterns();
+        const files = new Set<string>();
         
-        const files = await vscode.workspace.findFiles(
-            `{${testPatterns.join(',')}}`,
-            `{${excludePatterns.join(',')}}`
-        );
+        for (const folder of this.host.workspace.getWorkspaceFolders()) {
+            const folderFiles = await this.host.files.findFiles(folder, include, `{${excludePatterns.join(',')}}`);
+            folderFiles.forEach(filePath => files.add(filePath));
+        }
         
-        return files.map(file => file.fsPath);
+        return Array.from(files);
     }
 
     /**
-     * Process code files and add them to the graph
+     * Parse code files and replace their nodes in the graph
      */
     private async processCodeFiles(codeFiles: string[]): Promise<void> {
         // Process in batches to avoid locking the UI
@@ -730,39 +1387,52 @@ export class SIKGManager {
             
             for (const filePath of batch) {
                 try {
+                    // Taken before reading, so that a write in between is found by the next refresh
+                    const fileStamp = this.getFileStamp(filePath);
                     const content = fs.readFileSync(filePath, 'utf8');
-                    const fileUri = vscode.Uri.file(filePath);
-                    const relativePath = vscode.workspace.asRelativePath(fileUri);
+                    const relativePath = ParserUtils.getWorkspaceRelativePath(filePath);
                     
                     // Parse the code file
                     const codeElements = await this.codeParser.parseCodeFile(content, relativePath);
                     
-                    // Add nodes and edges to the graph
+                    const nodes: Node[] = [];
+                    const edges: Edge[] = [];
+                    
                     for (const element of codeElements) {
-                        // Add the code element node
-                        this.addNode({
+                        // The code element node
+                        nodes.push({
                             id: element.id,
-                            type: 'CodeElement',
+                            type: element.kind === 'module' ? 'Module' : 'CodeElement',
                             name: element.name,
                             filePath: relativePath,
                             properties: {
                                 kind: element.kind,
                                 loc: element.loc,
-                                signature: element.signature
+                                signature: element.signature,
+                                ...(element.imports ? { imports: element.imports } : {}),
+                                ...NodeIdentityMatcher.fingerprint(content, element.loc, element.name)
                             }
                         });
                         
-                        // Add relationships (edges)
+                        // Relationships (edges)
                         for (const relation of element.relations) {
-                            this.addEdge({
+                            edges.push({
                                 source: element.id,
                                 target: relation.targetId,
                                 type: relation.type,
                                 weight: relation.weight || 1.0,
-                                properties: {}
+                                properties: {
+                                    ...(relation.targetName ? { targetName: relation.targetName } : {}),
+                                    ...(relation.targetQualifier ? { targetQualifier: relation.targetQualifier } : {})
+                                },
+                                provenance: this.createProvenance(relation.producer || 'code-parser', relation.confidence ?? 1.0)
                             });
                         }
                     }
+                    
+                    this.forgetLanguageServerPasses(relativePath);
+                    this.replaceFileNodes(relativePath, CODE_NODE_TYPES, nodes, edges);
+                    this.updateManifest(relativePath, { codeHash: this.hashContent(content), fileStamp });
                 } catch (error) {
                     Logger.warn(`Failed to process code file: ${filePath}`, error);
                 }
@@ -774,7 +1444,273 @@ export class SIKGManager {
     }
 
     /**
-     * Process test files and add them to the graph
+     * Rewrite relationships whose guessed target does not exist to the node of the symbol
+     * they refer to, using a symbol table of the whole project. The guessed target is kept
+     * in properties.unresolvedTarget; a choice between several matching symbols halves the
+     * confidence of the edge. Imports of modules outside the workspace become
+     * DEPENDS_ON_PACKAGE edges to the imported package.
+     */
+    private linkSymbols(): void {
+        const linker = new SymbolLinker(this.getCodeNodes(), Array.from(this.graph.edges.values()));
+        let resolved = 0;
+        let ambiguous = 0;
+        let unresolved = 0;
+        let packages = 0;
+        
+        // Imports taken for external packages while their module was missing, e.g. a deleted file that was restored
+        for (const edge of Array.from(this.graph.edges.values())) {
+            if (edge.type !== 'DEPENDS_ON_PACKAGE' || !this.graph.nodes.has(edge.properties.unresolvedTarget)) {
+                continue;
+            }
+            this.removeEdge(this.getEdgeId(edge));
+            const { unresolvedTarget, ...properties } = edge.properties;
+            const importEdge: Edge = { ...edge, target: unresolvedTarget, type: 'IMPORTS', properties };
+            if (!this.graph.edges.has(this.getEdgeId(importEdge))) {
+                this.addEdge(importEdge);
+            }
+        }
+        
+        for (const edge of Array.from(this.graph.edges.values())) {
+            if (!LINKED_EDGE_TYPES.includes(edge.type) || !edge.properties.targetName || this.graph.nodes.has(edge.target)) {
+                continue;
+            }
+            const source = this.graph.nodes.get(edge.source);
+            if (!source) {
+                continue;
+            }
+            
+            const link = linker.resolve(edge, source);
+            if (!link) {
+                if (edge.type === 'IMPORTS' && !edge.properties.targetName.startsWith('.')) {
+                    this.linkExternalPackage(edge);
+                    packages++;
+                } else {
+                    unresolved++;
+                }
+                continue;
+            }
+            
+            this.removeEdge(this.getEdgeId(edge));
+            const linkedEdge: Edge = {
+                ...edge,
+                target: link.targetId,
+                properties: { ...edge.properties, unresolvedTarget: edge.target },
+                provenance: edge.provenance && link.confidence === 'low'
+                    ? { ...edge.provenance, confidence: edge.provenance.confidence * 0.5 }
+                    : edge.provenance
+            };
+            // The parser may already have found the same relationship under the real ID
+            if (!this.graph.edges.has(this.getEdgeId(linkedEdge))) {
+                this.addEdge(linkedEdge);
+            }
+            
+            // The reverse edge of a test link starts at the guessed target too
+            const reverseEdgeId = `${edge.target}-IS_TESTED_BY-${edge.source}`;
+            const reverseEdge = edge.type === 'TESTS' ? this.graph.edges.get(reverseEdgeId) : undefined;
+            if (reverseEdge) {
+                this.removeEdge(reverseEdgeId);
+                const linkedReverseEdge: Edge = {
+                    ...reverseEdge,
+                    source: link.targetId,
+                    properties: { ...reverseEdge.properties, unresolvedSource: edge.target },
+                    provenance: linkedEdge.provenance
+                };
+                if (!this.graph.edges.has(this.getEdgeId(linkedReverseEdge))) {
+                    this.addEdge(linkedReverseEdge);
+                }
+            }
+            
+            if (link.confidence === 'low') {
+                ambiguous++;
+            } else {
+                resolved++;
+            }
+        }
+        
+        // Packages no module imports any more
+        for (const node of Array.from(this.graph.nodes.values())) {
+            if (node.type === 'ExternalPackage' && this.getIncomingEdges(node.id).length === 0) {
+                this.removeNode(node.id);
+            }
+        }
+        
+        Logger.info(`Linked symbols across files: ${resolved} relationships resolved, ${ambiguous} ambiguous, ` +
+            `${packages} to external packages, ${unresolved} left unresolved`);
+    }
+
+    /**
+     * Replace an import of a module outside the workspace by a dependency on its top-level package
+     */
+    private linkExternalPackage(edge: Edge): void {
+        const packageName = edge.properties.targetName.split('.')[0];
+        const packageId = ParserUtils.generateElementId('package', packageName, '');
+        if (!this.graph.nodes.has(packageId)) {
+            // Packages belong to no file of the workspace
+            this.addNode({ id: packageId, type: 'ExternalPackage', name: packageName, filePath: '', properties: {} });
+        }
+        
+        this.removeEdge(this.getEdgeId(edge));
+        const packageEdge: Edge = {
+            ...edge,
+            target: packageId,
+            type: 'DEPENDS_ON_PACKAGE',
+            properties: { ...edge.properties, unresolvedTarget: edge.target },
+            provenance: this.createProvenance('symbol-linker', 0.9)
+        };
+        if (!this.graph.edges.has(this.getEdgeId(packageEdge))) {
+            this.addEdge(packageEdge);
+        }
+    }
+
+    /**
+     * Link tests and fixtures to the fixtures they request by name, with USES_FIXTURE
+     * edges and IS_FIXTURE_FOR edges back. Like pytest, a fixture of the requester's own
+     * file is preferred, then one of the nearest conftest.py in its folder or above.
+     */
+    private linkFixtures(): void {
+        const fixturesByName = new Map<string, Node[]>();
+        for (const node of this.graph.nodes.values()) {
+            if (node.type === 'Fixture') {
+                fixturesByName.set(node.name, [...(fixturesByName.get(node.name) || []), node]);
+            }
+        }
+        
+        let linked = 0;
+        for (const requester of Array.from(this.graph.nodes.values())) {
+            if ((requester.type !== 'TestCase' && requester.type !== 'Fixture') || !requester.properties.fixtures) {
+                continue;
+            }
+            
+            const fixtureIds = new Set<string>();
+            for (const name of requester.properties.fixtures as string[]) {
+                const fixture = this.resolveFixture(requester, fixturesByName.get(name) || []);
+                if (fixture) {
+                    fixtureIds.add(fixture.id);
+                }
+            }
+            
+            for (const edge of this.getOutgoingEdges(requester.id)) {
+                if (edge.type === 'USES_FIXTURE' && !fixtureIds.has(edge.target)) {
+                    this.removeEdge(this.getEdgeId(edge));
+                    this.removeEdge(`${edge.target}-IS_FIXTURE_FOR-${requester.id}`);
+                }
+            }
+            for (const fixtureId of fixtureIds) {
+                const edges: Edge[] = [
+                    {
+                        source: requester.id, target: fixtureId, type: 'USES_FIXTURE', weight: 1.0, properties: {},
+                        provenance: this.createProvenance('fixture-linker', 0.9)
+                    },
+                    {
+                        source: fixtureId, target: requester.id, type: 'IS_FIXTURE_FOR', weight: 1.0, properties: {},
+                        provenance: this.createProvenance('fixture-linker', 0.9)
+                    }
+                ];
+                for (const edge of edges) {
+                    if (!this.graph.edges.has(this.getEdgeId(edge))) {
+                        this.addEdge(edge);
+                    }
+                }
+            }
+            linked += fixtureIds.size;
+        }
+        
+        Logger.debug(`Linked ${linked} fixture requests`);
+    }
+
+    /**
+     * Find the fixture a request by name resolves to
+     * @param candidates Fixtures with the requested name
+     */
+    private resolveFixture(requester: Node, candidates: Node[]): Node | undefined {
+        const sameFile = candidates.find(fixture => fixture.filePath === requester.filePath && fixture.id !== requester.id);
+        if (sameFile) {
+            return sameFile;
+        }
+        
+        // The deepest conftest.py whose folder contains the requester
+        let nearest: Node | undefined;
+        for (const fixture of candidates) {
+            if (path.basename(fixture.filePath) !== 'conftest.py') {
+                continue;
+            }
+            const folder = path.dirname(fixture.filePath);
+            const inFolder = folder === '.' || requester.filePath.startsWith(`${folder}/`) || requester.filePath.startsWith(`${folder}\\`);
+            if (inFolder && (!nearest || folder.length > path.dirname(nearest.filePath).length)) {
+                nearest = fixture;
+            }
+        }
+        return nearest;
+    }
+
+    /**
+     * Keep one File node for each file with nodes, containing the file's module, suites,
+     * fixtures and the tests that are not in a suite
+     * @param filePaths Workspace-relative paths of the files whose nodes changed
+     */
+    private syncFileNodes(filePaths: string[]): void {
+        for (const filePath of new Set(filePaths)) {
+            if (!filePath) {
+                continue;
+            }
+            
+            const fileNodeId = ParserUtils.generateElementId('file', path.basename(filePath), filePath);
+            const contained = this.getNodesByFilePath(filePath).filter(node =>
+                node.type === 'Module' || node.type === 'TestSuite' || node.type === 'Fixture' ||
+                (node.type === 'TestCase' &&
+                    !this.getIncomingEdges(node.id).some(edge => edge.type === 'CONTAINS' && edge.source !== fileNodeId)));
+            
+            if (contained.length === 0) {
+                this.removeNode(fileNodeId);
+                continue;
+            }
+            
+            if (!this.graph.nodes.has(fileNodeId)) {
+                this.addNode({ id: fileNodeId, type: 'File', name: path.basename(filePath), filePath, properties: {} });
+            }
+            
+            const containedIds = new Set(contained.map(node => node.id));
+            for (const edge of this.getOutgoingEdges(fileNodeId)) {
+                if (edge.type === 'CONTAINS' && !containedIds.has(edge.target)) {
+                    this.removeEdge(this.getEdgeId(edge));
+                }
+            }
+            for (const node of contained) {
+                const edge: Edge = {
+                    source: fileNodeId, target: node.id, type: 'CONTAINS', weight: 1.0, properties: {},
+                    provenance: this.createProvenance('file-structure', 1.0)
+                };
+                if (!this.graph.edges.has(this.getEdgeId(edge))) {
+                    this.addEdge(edge);
+                }
+            }
+        }
+    }
+
+    /**
+     * Have the language servers visit the files that a changed file has language server edges
+     * with. Those edges were found while visiting the other file, e.g. a USES edge from a caller
+     * into the function whose references were asked for, so visiting only the changed file
+     * would not bring them up to date.
+     * @param filePath Workspace-relative path of the changed file
+     */
+    private forgetLanguageServerPasses(filePath: string): void {
+        for (const node of this.getNodesByFilePath(filePath)) {
+            for (const edge of [...this.getOutgoingEdges(node.id), ...this.getIncomingEdges(node.id)]) {
+                if (edge.properties.source !== 'lsp') {
+                    continue;
+                }
+                const otherNode = this.graph.nodes.get(edge.source === node.id ? edge.target : edge.source);
+                const entry = otherNode && otherNode.filePath !== filePath ? this.fileManifest.get(otherNode.filePath) : undefined;
+                if (entry) {
+                    delete entry.lspHash;
+                }
+            }
+        }
+    }
+
+    /**
+     * Parse test files and replace their nodes in the graph
      */
     private async processTestFiles(testFiles: string[]): Promise<void> {
         // Process in batches to avoid locking the UI
@@ -785,17 +1721,22 @@ export class SIKGManager {
             
             for (const filePath of batch) {
                 try {
+                    // Taken before reading, so that a write in between is found by the next refresh
+                    const fileStamp = this.getFileStamp(filePath);
                     const content = fs.readFileSync(filePath, 'utf8');
-                    const fileUri = vscode.Uri.file(filePath);
-                    const relativePath = vscode.workspace.asRelativePath(fileUri);
+                    const relativePath = ParserUtils.getWorkspaceRelativePath(filePath);
                     
                     // Parse the test file
                     const testCases = await this.testParser.parseTestFile(content, relativePath);
+                    const fixtures = await this.testParser.parseFixtures(content, relativePath);
+                    
+                    const nodes: Node[] = [];
+                    const edges: Edge[] = [];
+                    const suites = new Map<string, Node>();
                     
-                    // Add nodes and edges to the graph
                     for (const test of testCases) {
-                        // Add the test case node
-                        this.addNode({
+                        // The test case node
+                        nodes.push({
                             id: test.id,
                             type: 'TestCase',
                             name: test.name,
@@ -804,30 +1745,88 @@ export class SIKGManager {
                                 testType: test.testType,
                                 loc: test.loc,
                                 executionTime: test.executionTime || 0,
-                                history: []
+                                history: [],
+                                fixtures: test.fixtures || [],
+                                ...NodeIdentityMatcher.fingerprint(content, test.loc, test.name)
                             }
                         });
                         
+                        // Tests of a test class belong to the class's suite, which spans all of them
+                        if (test.suiteName) {
+                            let suite = suites.get(test.suiteName);
+                            if (!suite) {
+                                suite = {
+                                    id: ParserUtils.generateElementId('suite', test.suiteName, relativePath),
+                                    type: 'TestSuite',
+                                    name: test.suiteName,
+                                    filePath: relativePath,
+                                    properties: { loc: { start: { ...test.loc.start }, end: { ...test.loc.end } } }
+                                };
+                                suites.set(test.suiteName, suite);
+                                nodes.push(suite);
+                            }
+                            const suiteLoc = suite.properties.loc;
+                            if (test.loc.start.line < suiteLoc.start.line) {
+                                suiteLoc.start = { ...test.loc.start };
+                            }
+                            if (test.loc.end.line > suiteLoc.end.line) {
+                                suiteLoc.end = { ...test.loc.end };
+                            }
+                            edges.push({
+                                source: suite.id,
+                                target: test.id,
+                                type: 'CONTAINS',
+                                weight: 1.0,
+                                properties: {},
+                                provenance: this.createProvenance('test-parser', 1.0)
+                            });
+                        }
+                        
                         // Link test to covered code elements
                         for (const coverage of test.coveredElements) {
-                            this.addEdge({
+                            const producer = coverage.producer || 'test-parser';
+                            const confidence = coverage.confidence ?? 0.5;
+                            edges.push({
                                 source: test.id,
                                 target: coverage.targetId,
                                 type: 'TESTS',
                                 weight: coverage.weight || 1.0,
-                                properties: {}
+                                properties: {
+                                    ...(coverage.targetName ? { targetName: coverage.targetName } : {}),
+                                    ...(coverage.targetQualifier ? { targetQualifier: coverage.targetQualifier } : {})
+                                },
+                                provenance: this.createProvenance(producer, confidence)
                             });
                             
                             // Add a reverse edge for easier traversal
-                            this.addEdge({
+                            edges.push({
                                 source: coverage.targetId,
                                 target: test.id,
                                 type: 'IS_TESTED_BY',
                                 weight: coverage.weight || 1.0,
-                                properties: {}
+                                properties: {},
+                                provenance: this.createProvenance(producer, confidence)
                             });
                         }
                     }
+                    
+                    for (const fixture of fixtures) {
+                        nodes.push({
+                            id: fixture.id,
+                            type: 'Fixture',
+                            name: fixture.name,
+                            filePath: relativePath,
+                            properties: {
+                                scope: fixture.scope,
+                                loc: fixture.loc,
+                                fixtures: fixture.fixtures,
+                                ...NodeIdentityMatcher.fingerprint(content, fixture.loc, fixture.name)
+                            }
+                        });
+                    }
+                    
+                    this.replaceFileNodes(relativePath, TEST_NODE_TYPES, nodes, edges);
+                    this.updateManifest(relativePath, { testHash: this.hashContent(content), fileStamp });
                 } catch (error) {
                     Logger.warn(`Failed to process test file: ${filePath}`, error);
                 }
@@ -839,19 +1838,494 @@ export class SIKGManager {
     }
 
     /**
-     * Save the graph to disk
+     * Replace the nodes of one type in a file, and the edges the parser derived from them,
+     * in a single synchronous step. Learned node properties and edge weights are kept for
+     * IDs that survive; edges from other sources (e.g. coverage) are kept while both ends exist.
+     * Edges that parsing other files derived into a removed node move to the removal log in
+     * the file's manifest entry, so that the graph has no dangling edges, what depended on the
+     * node can still be found, and they are live again if the node comes back, e.g. after a
+     * checkout or undo.
+     * @param filePath Workspace-relative path of the file
+     * @param nodeTypes Types of the nodes that the parse produces
+     * @param nodes New nodes of the file; empty to remove the file from the graph
+     * @param edges Edges produced by parsing the file
+     */
+    private replaceFileNodes(filePath: string, nodeTypes: NodeType[], nodes: Node[], edges: Edge[]): void {
+        const oldNodeIds = new Set(
+            this.getNodesByFilePath(filePath)
+                .filter(node => nodeTypes.includes(node.type))
+                .map(node => node.id)
+        );
+        const newNodeIds = new Set(nodes.map(node => node.id));
+        const previousEdges = new Map<string, Edge>();
+        const isTestParse = nodeTypes.includes('TestCase');
+        const removedEdges: Edge[] = [];
+
+        if (oldNodeIds.size > 0) {
+            // Logged edges that this file derived are derived again, or not at all, by this parse
+            for (const entry of this.fileManifest.values()) {
+                if (entry.removedEdges) {
+                    this.setRemovedEdges(entry, entry.removedEdges.filter(edge => !(isTestParse
+                        ? oldNodeIds.has(edge.source) || (oldNodeIds.has(edge.target) && (edge.type === 'IS_TESTED_BY' || edge.type === 'IS_FIXTURE_FOR'))
+                        : oldNodeIds.has(edge.source) && edge.type !== 'IS_TESTED_BY')));
+                }
+            }
+
+            // Take out the parser-derived edges of the old nodes, remembering learned weights
+            for (const nodeId of oldNodeIds) {
+                // Code nodes also start the IS_TESTED_BY edges of test files, which only parsing those files derives
+                const derivedEdges = isTestParse
+                    ? [
+                        ...this.getOutgoingEdges(nodeId),
+                        ...this.getIncomingEdges(nodeId).filter(edge => edge.type === 'IS_TESTED_BY' || edge.type === 'IS_FIXTURE_FOR')
+                    ]
+                    : this.getOutgoingEdges(nodeId).filter(edge => edge.type !== 'IS_TESTED_BY');
+
+                for (const edge of derivedEdges) {
+                    if (!edge.properties.source) {
+                        const edgeId = this.getEdgeId(edge);
+                        previousEdges.set(edgeId, edge);
+                        // Linked edges are found again under the target, or source, the parser guessed
+                        if (edge.properties.unresolvedTarget) {
+                            previousEdges.set(`${edge.source}-${edge.type}-${edge.properties.unresolvedTarget}`, edge);
+                        }
+                        if (edge.properties.unresolvedSource) {
+                            previousEdges.set(`${edge.properties.unresolvedSource}-${edge.type}-${edge.target}`, edge);
+                        }
+                        this.removeEdge(edgeId);
+                    }
+                }
+            }
+
+            for (const nodeId of oldNodeIds) {
+                if (!newNodeIds.has(nodeId)) {
+                    // Kept until the update is complete, in case the node was renamed or moved
+                    this.removedNodes.push({
+                        node: this.graph.nodes.get(nodeId)!,
+                        edges: [...this.getOutgoingEdges(nodeId), ...this.getIncomingEdges(nodeId)]
+                            .filter(edge => edge.properties.source)
+                    });
+                    
+                    // The derived edges of this file are gone; what is left was derived from other files
+                    removedEdges.push(...[...this.getOutgoingEdges(nodeId), ...this.getIncomingEdges(nodeId)]
+                        .filter(edge => !edge.properties.source &&
+                            this.graph.nodes.has(edge.source === nodeId ? edge.target : edge.source)));
+                    this.removeNode(nodeId);
+                }
+            }
+        }
+
+        for (const node of nodes) {
+            const existingNode = this.graph.nodes.get(node.id);
+            if (existingNode) {
+                const learnedProperties: Record<string, any> = {};
+                for (const key of LEARNED_NODE_PROPERTIES) {
+                    if (existingNode.properties[key] !== undefined) {
+                        learnedProperties[key] = existingNode.properties[key];
+                    }
+                }
+                node.properties = { ...existingNode.properties, ...node.properties, ...learnedProperties };
+            }
+            this.addNode(node);
+        }
+
+        // Edges of other files into nodes that came back are live again; the rest wait in the log
+        const entry = this.fileManifest.get(filePath) || {};
+        const loggedEdges = [...(entry.removedEdges || []), ...removedEdges];
+        for (const edge of loggedEdges) {
+            if (this.graph.nodes.has(edge.source) && this.graph.nodes.has(edge.target) && !this.graph.edges.has(this.getEdgeId(edge))) {
+                this.addEdge(edge);
+            }
+        }
+        this.setRemovedEdges(entry, loggedEdges.filter(edge => !this.graph.nodes.has(edge.source) || !this.graph.nodes.has(edge.target)));
+        if (entry.removedEdges && !this.fileManifest.has(filePath)) {
+            this.fileManifest.set(filePath, entry);
+        }
+
+        for (const edge of edges) {
+            const previousEdge = previousEdges.get(`${edge.source}-${edge.type}-${edge.target}`);
+            this.addEdge(previousEdge
+                ? {
+                    ...edge,
+                    weight: previousEdge.weight,
+                    properties: { ...previousEdge.properties, ...edge.properties },
+                    // The parser's current confidence, but the history of the relationship it found again
+                    provenance: edge.provenance && previousEdge.provenance
+                        ? {
+                            ...edge.provenance,
+                            createdAt: previousEdge.provenance.createdAt,
+                            lastConfirmed: previousEdge.provenance.lastConfirmed
+                        }
+                        : edge.provenance
+                }
+                : edge);
+        }
+    }
+
+    /**
+     * Keep the removal log of a manifest entry, leaving no empty log behind
+     */
+    private setRemovedEdges(entry: FileManifestEntry, removedEdges: Edge[]): void {
+        if (removedEdges.length > 0) {
+            entry.removedEdges = removedEdges;
+        } else {
+            delete entry.removedEdges;
+        }
+    }
+
+    /**
+     * Get the nodes that call, use, import or test a node
+     * @param nodeId Node to find the dependents of
+     * @param removedEdges Edges into the node that are only in a removal log
+     */
+    private getDependentNodeIds(nodeId: string, removedEdges: Edge[] = []): string[] {
+        const dependentIds = new Set<string>();
+        for (const edge of [...this.getIncomingEdges(nodeId), ...this.getOutgoingEdges(nodeId), ...removedEdges]) {
+            if (edge.target === nodeId && DEPENDENCY_EDGE_TYPES.includes(edge.type)) {
+                dependentIds.add(edge.source);
+            } else if (edge.source === nodeId && edge.type === 'IS_TESTED_BY') {
+                dependentIds.add(edge.target);
+            }
+        }
+        dependentIds.delete(nodeId);
+        return Array.from(dependentIds);
+    }
+
+    /**
+     * Recognize nodes that left the graph as the new nodes that replaced them when they were
+     * renamed or moved, and carry their learned state and an alias of the old ID forward
+     * @param removedNodes Nodes that left the graph, with the edges parsing cannot derive again
+     * @param previousNodeIds IDs of all nodes before the graph changed
+     * @param restoreLearnedState Copy learned properties and weights onto the new nodes now,
+     *                            instead of leaving them to LearnedStateStore.applyTo
+     */
+    private async carryIdentityForward(
+        removedNodes: RemovedNode[],
+        previousNodeIds: Set<string>,
+        restoreLearnedState: boolean
+    ): Promise<void> {
+        const removed = removedNodes.filter(({ node }) => !this.graph.nodes.has(node.id));
+        const added = Array.from(this.graph.nodes.values()).filter(node => !previousNodeIds.has(node.id));
+        if (removed.length === 0 || added.length === 0) {
+            return;
+        }
+        
+        const renamedFiles = await this.gitService.getRenamedFiles();
+        const matches = NodeIdentityMatcher.match(removed.map(({ node }) => node), added, renamedFiles);
+        const removedById = new Map(removed.map(entry => [entry.node.id, entry]));
+        const currentIds = new Map(matches.map(match => [match.previousId, match.currentId]));
+        const parsedEdgeIds = new Set<string>();
+        
+        for (const match of matches) {
+            const previous = removedById.get(match.previousId)!;
+            const node = this.graph.nodes.get(match.currentId)!;
+            this.learnedState.renameNode(match.previousId, match.currentId, node.filePath, match.reason);
+            Logger.debug(`Recognized ${previous.node.name} (${previous.node.filePath}) as ${node.name} (${node.filePath}) ` +
+                `by ${match.reason}`);
+            
+            if (!restoreLearnedState) {
+                continue;
+            }
+            
+            for (const key of LEARNED_NODE_PROPERTIES) {
+                if (previous.node.properties[key] !== undefined) {
+                    node.properties[key] = previous.node.properties[key];
+                }
+            }
+            
+            // Edges from other sources, e.g. coverage, follow the node
+            for (const edge of previous.edges) {
+                const movedEdge = {
+                    ...edge,
+                    source: currentIds.get(edge.source) || edge.source,
+                    target: currentIds.get(edge.target) || edge.target
+                };
+                if (this.graph.nodes.has(movedEdge.source) && this.graph.nodes.has(movedEdge.target) &&
+                    !this.graph.edges.has(this.getEdgeId(movedEdge))) {
+                    this.addEdge(movedEdge);
+                }
+            }
+            
+            for (const edge of [...this.getOutgoingEdges(node.id), ...this.getIncomingEdges(node.id)]) {
+                if (!edge.properties.source) {
+                    parsedEdgeIds.add(this.getEdgeId(edge));
+                }
+            }
+        }
+        
+        // Parsed edges of the recognized nodes get back the weights learned under the old IDs
+        for (const edgeId of parsedEdgeIds) {
+            const edge = this.graph.edges.get(edgeId);
+            const weightFactor = this.learnedState.getEdgeWeightFactor(edgeId);
+            if (edge && weightFactor !== undefined) {
+                edge.weight = this.clampLearnedWeight(edge.weight * weightFactor);
+            }
+        }
+        
+        if (matches.length > 0) {
+            Logger.info(`Recognized ${matches.length} renamed or moved nodes`);
+        }
+    }
+
+    /**
+     * Create the provenance of an edge produced now
+     * @param producer Parser, linker or strategy that produced the edge
+     * @param confidence How likely the relationship is real, from 0 to 1
+     */
+    private createProvenance(producer: string, confidence: number): EdgeProvenance {
+        return { producer, confidence, createdAt: new Date().toISOString() };
+    }
+
+    /**
+     * Keep a learned edge weight within the range learning allows
+     */
+    private clampLearnedWeight(weight: number): number {
+        return Math.max(MIN_LEARNED_WEIGHT, Math.min(MAX_LEARNED_WEIGHT, weight));
+    }
+
+    /**
+     * Calculate how often a test's outcome flipped between consecutive runs
+     * @returns Share of status changes between passed and failed, from 0 (stable) to 1
+     */
+    private calculateFlakiness(history: Array<{ status: string }>): number {
+        const outcomes = history.map(run => run.status).filter(status => status === 'passed' || status === 'failed');
+        if (outcomes.length < 2) {
+            return 0;
+        }
+        
+        let flips = 0;
+        for (let i = 1; i < outcomes.length; i++) {
+            if (outcomes[i] !== outcomes[i - 1]) {
+                flips++;
+            }
+        }
+        return flips / (outcomes.length - 1);
+    }
+
+    /**
+     * Get the ID under which an edge is stored
+     */
+    public getEdgeId(edge: Edge): string {
+        return `${edge.source}-${edge.type}-${edge.target}`;
+    }
+
+    /**
+     * Look up indexed edges by ID
      */
-    private async saveGraph(): Promise<void> {
+    private getIndexedEdges(edgeIds: Set<string> | undefined): Edge[] {
+        const result: Edge[] = [];
+        for (const edgeId of edgeIds || []) {
+            const edge = this.graph.edges.get(edgeId);
+            if (edge) {
+                result.push(edge);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Add an edge to the source and target adjacency indexes
+     */
+    private indexEdge(edgeId: string, edge: Edge): void {
+        let outgoing = this.outgoingEdgeIds.get(edge.source);
+        if (!outgoing) {
+            outgoing = new Set();
+            this.outgoingEdgeIds.set(edge.source, outgoing);
+        }
+        outgoing.add(edgeId);
+
+        let incoming = this.incomingEdgeIds.get(edge.target);
+        if (!incoming) {
+            incoming = new Set();
+            this.incomingEdgeIds.set(edge.target, incoming);
+        }
+        incoming.add(edgeId);
+    }
+
+    /**
+     * Remove an edge from the adjacency indexes
+     */
+    private unindexEdge(edgeId: string, edge: Edge): void {
+        this.outgoingEdgeIds.get(edge.source)?.delete(edgeId);
+        this.incomingEdgeIds.get(edge.target)?.delete(edgeId);
+    }
+
+    /**
+     * Rebuild the file and adjacency indexes from the graph
+     */
+    private rebuildIndexes(): void {
+        this.nodesByFile.clear();
+        this.outgoingEdgeIds.clear();
+        this.incomingEdgeIds.clear();
+
+        for (const node of this.graph.nodes.values()) {
+            this.indexNodeFile(node);
+        }
+        for (const [edgeId, edge] of this.graph.edges.entries()) {
+            this.indexEdge(edgeId, edge);
+        }
+    }
+
+    /**
+     * Add a node to the file index
+     */
+    private indexNodeFile(node: Node): void {
+        let fileNodeIds = this.nodesByFile.get(node.filePath);
+        if (!fileNodeIds) {
+            fileNodeIds = new Set();
+            this.nodesByFile.set(node.filePath, fileNodeIds);
+        }
+        fileNodeIds.add(node.id);
+    }
+
+    /**
+     * Check if a file has nodes of any of the given types in the graph
+     */
+    private hasNodesOfType(filePath: string, nodeTypes: NodeType[]): boolean {
+        return this.getNodesByFilePath(filePath).some(node => nodeTypes.includes(node.type));
+    }
+
+    /**
+     * Record the content hash of a parsed file
+     */
+    private updateManifest(filePath: string, update: FileManifestEntry): void {
+        this.fileManifest.set(filePath, { ...this.fileManifest.get(filePath), ...update });
+    }
+
+    /**
+     * Hash the content of a file on disk
+     */
+    private hashFile(filePath: string): string | undefined {
         try {
-            // Convert the graph to a serializable format
-            const serializedGraph = {
-                nodes: Array.from(this.graph.nodes.entries()),
-                edges: Array.from(this.graph.edges.entries())
-            };
+            return this.hashContent(fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            Logger.debug(`Could not hash file ${filePath}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Hash file content for change detection
+     */
+    private hashContent(content: string): string {
+        return crypto.createHash('sha1').update(content).digest('hex');
+    }
+
+    /**
+     * Get the roots of the workspace folders, each of which stores its own graph partition
+     */
+    private getPartitionRoots(): string[] {
+        const folders = this.host.workspace.getWorkspaceFolders();
+        return folders.length > 0 ? folders.map(folder => folder.fsPath) : [''];
+    }
+
+    /**
+     * Get the root of the partition that holds a file's nodes
+     * @param filePath Workspace-relative path, qualified with the folder name in multi-root workspaces
+     */
+    private getPartitionRoot(filePath: string): string {
+        return ParserUtils.getWorkspaceFolder(filePath)?.fsPath || this.getPartitionRoots()[0];
+    }
+
+    /**
+     * Get the workspace-relative path of a file stored in the partition of a workspace folder,
+     * qualified with the folder name if the workspace has several folders
+     * @param root Root of the partition's workspace folder
+     * @param filePath Folder-relative path as stored in the partition
+     */
+    private toWorkspacePath(root: string, filePath: string): string {
+        if (!filePath || !root || path.isAbsolute(filePath)) {
+            return filePath;
+        }
+        return ParserUtils.getWorkspaceRelativePath(path.join(root, filePath));
+    }
+
+    /**
+     * Save the graph in the background once no further changes arrive for a moment
+     */
+    public scheduleSave(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveGraph().catch(error => {
+                Logger.error('Failed to save SIKG graph in the background:', error);
+            });
+        }, SAVE_DEBOUNCE_MS);
+    }
+
+    /**
+     * Save the graph now and wait until it is written, e.g. before a short-lived process exits
+     */
+    public async save(): Promise<void> {
+        await this.saveGraph();
+    }
+
+    /**
+     * Save the graph to disk now, replacing any scheduled save. Saves are queued so
+     * that two writes of the same partition never overlap.
+     */
+    private saveGraph(): Promise<void> {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+        }
+        
+        this.pendingSave = this.pendingSave
+            .catch(() => undefined)
+            .then(() => this.writePartitions());
+        return this.pendingSave;
+    }
+
+    /**
+     * Write the graph to disk, one partition per workspace folder
+     */
+    private async writePartitions(): Promise<void> {
+        try {
+            // Convert the graph to a serializable format per partition
+            const extensionVersion = this.getExtensionVersion();
+            const partitions = new Map<string, PersistedGraph>();
+            for (const root of this.getPartitionRoots()) {
+                partitions.set(root, {
+                    schemaVersion: GRAPH_SCHEMA_VERSION,
+                    parserVersions: { code: CodeParser.VERSION, test: TestParser.VERSION },
+                    createdBy: this.partitionCreatedBy.get(root) || extensionVersion,
+                    savedBy: extensionVersion,
+                    nodes: [],
+                    edges: [],
+                    fileManifest: []
+                });
+            }
+            const getPartition = (filePath: string): PersistedGraph => partitions.get(this.getPartitionRoot(filePath))!;
+            
+            // Partitions store folder-relative paths, which do not change when folders are added or removed
+            for (const [id, node] of this.graph.nodes.entries()) {
+                getPartition(node.filePath).nodes.push([id, { ...node, filePath: ParserUtils.getFolderRelativePath(node.filePath) }]);
+            }
+            
+            // Edges are stored with their source node, so that cross-folder edges are kept once
+            for (const entry of this.graph.edges.entries()) {
+                const owner = this.graph.nodes.get(entry[1].source) || this.graph.nodes.get(entry[1].target);
+                getPartition(owner ? owner.filePath : '').edges.push(entry);
+            }
+            
+            for (const [filePath, entry] of this.fileManifest.entries()) {
+                getPartition(filePath).fileManifest.push([ParserUtils.getFolderRelativePath(filePath), entry]);
+            }
+            
+            const learnedPartitions = this.learnedState.serialize(
+                filePath => this.getPartitionRoot(filePath),
+                filePath => ParserUtils.getFolderRelativePath(filePath)
+            );
             
             // Write to disk
-            fs.writeFileSync(this.graphPath, JSON.stringify(serializedGraph, null, 2));
-            Logger.info(`SIKG graph saved to ${this.graphPath}`);
+            const compress = this.configManager.getCompressGraph();
+            for (const [root, serializedGraph] of partitions) {
+                await this.graphStorage.writeGraph(root, serializedGraph, compress);
+                await this.graphStorage.writeLearnedState(root, learnedPartitions.get(root) || { nodes: [], edges: [] }, compress);
+                this.graphStorage.writeMetadata(root, serializedGraph.nodes.length, serializedGraph.edges.length);
+                Logger.info(`SIKG graph saved to ${this.graphStorage.getGraphPath(root)}`);
+            }
         } catch (error) {
             Logger.error('Failed to save SIKG graph:', error);
             throw error;
@@ -859,18 +2333,87 @@ export class SIKGManager {
     }
 
     /**
-     * Load the graph from disk
+     * Get the version of the extension, recorded in saved graphs
+     */
+    private getExtensionVersion(): string {
+        return this.host.version;
+    }
+
+    /**
+     * Load the state learned from test runs, stored apart from the graph of each workspace folder
+     */
+    private async loadLearnedState(): Promise<void> {
+        this.learnedState.clear();
+        for (const root of this.getPartitionRoots()) {
+            const data = await this.graphStorage.readLearnedState(root);
+            if (data) {
+                this.learnedState.load(data, filePath => this.toWorkspacePath(root, filePath));
+            }
+        }
+    }
+
+    /**
+     * Load the graph from disk, merging the partitions of all workspace folders.
+     * Older partitions are migrated to the current schema; partitions that cannot be
+     * migrated are skipped so that the files of their folder are re-parsed.
      */
     private async loadGraph(): Promise<void> {
         try {
-            const content = fs.readFileSync(this.graphPath, 'utf8');
-            const serializedGraph = JSON.parse(content);
+            this.graph = { nodes: new Map(), edges: new Map() };
+            this.fileManifest = new Map();
+            this.partitionCreatedBy.clear();
+            let migrated = false;
             
-            // Reconstruct the graph
-            this.graph = {
-                nodes: new Map(serializedGraph.nodes),
-                edges: new Map(serializedGraph.edges)
-            };
+            for (const root of this.getPartitionRoots()) {
+                const graphPath = this.graphStorage.getGraphPath(root);
+                const data = await this.graphStorage.readGraph(root);
+                if (!data) {
+                    // Missing, or unreadable with no usable backup: the folder's files are re-parsed
+                    continue;
+                }
+                
+                const storedVersion = GraphMigrator.getSchemaVersion(data);
+                const persistedGraph = GraphMigrator.migrate(data);
+                if (!persistedGraph) {
+                    Logger.warn(`Discarding stored graph ${graphPath}; its files will be re-parsed`);
+                    continue;
+                }
+                migrated = migrated || storedVersion !== GRAPH_SCHEMA_VERSION;
+                this.partitionCreatedBy.set(root, persistedGraph.createdBy);
+                
+                // Reconstruct the graph, with the workspace-relative paths of the current workspace
+                persistedGraph.nodes.forEach(([id, node]) =>
+                    this.graph.nodes.set(id, { ...node, filePath: this.toWorkspacePath(root, node.filePath) }));
+                persistedGraph.edges.forEach(([id, edge]) => this.graph.edges.set(id, edge));
+                
+                // Forget the content hashes of files whose parser changed, so that only those files are re-parsed
+                const outdated = GraphMigrator.getOutdatedParsers(persistedGraph);
+                if (outdated.code || outdated.test) {
+                    Logger.info(`Parsers changed since ${graphPath} was saved, re-parsing ` +
+                        `${[outdated.code ? 'code' : '', outdated.test ? 'test' : ''].filter(Boolean).join(' and ')} files`);
+                }
+                for (const [filePath, entry] of persistedGraph.fileManifest) {
+                    this.fileManifest.set(this.toWorkspacePath(root, filePath), {
+                        ...entry,
+                        codeHash: outdated.code ? undefined : entry.codeHash,
+                        testHash: outdated.test ? undefined : entry.testHash
+                    });
+                }
+            }
+            
+            // Graphs saved before the learned state store existed carry their test history only on the nodes
+            for (const node of this.graph.nodes.values()) {
+                if (node.properties.history?.length && !this.learnedState.hasNode(node.id)) {
+                    this.learnedState.recordNode(node);
+                }
+            }
+            
+            this.rebuildIndexes();
+            
+            // Persist migrated partitions, so that each migration runs only once
+            if (migrated) {
+                this.scheduleSave();
+            }
             
             Logger.info(`Loaded SIKG graph with ${this.graph.nodes.size} nodes and ${this.graph.edges.size} edges`);
         } catch (error) {
@@ -878,4 +2421,25 @@ export class SIKGManager {
             throw error;
         }
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Node removed while updating the graph, kept until renamed and moved nodes are recognized
+ */
+interface RemovedNode {
+    node: Node;
+    edges: Edge[];                    // Edges from other sources than parsing, e.g. coverage
+}
+
+/**
+ * Files that need to be re-parsed or removed to bring the graph up to date
+ */
+interface FileChanges {
+    codeFiles: string[];              // Absolute paths of new or modified code files
+    testFiles: string[];              // Absolute paths of new or modified test files
+    deletedFiles: Array<{
+        filePath: string;             // Workspace-relative path
+        code: boolean;                // Remove the file's code elements
+        test: boolean;                // Remove the file's test cases
+    }>;
+}
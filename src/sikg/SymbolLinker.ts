@@ -0,0 +1,182 @@
+// SymbolLinker.ts - Resolves relationship targets across files using a project symbol table
+
+import { Node, Edge, ImportBinding } from './GraphTypes';
+
+// Relationship types whose targets the parsers guess from a name
+export const LINKED_EDGE_TYPES = ['CALLS', 'USES', 'IMPORTS', 'INHERITS_FROM', 'TESTS'];
+
+/**
+ * Node a guessed relationship target resolves to
+ */
+export interface SymbolLink {
+    targetId: string;
+    confidence: 'high' | 'low';       // Low when several symbols matched and the nearest one was chosen
+}
+
+/**
+ * Project-wide table of module, class, function and method qualified names, used to
+ * point relationships the parsers guessed one file at a time at the nodes that exist
+ */
+export class SymbolLinker {
+    private symbolsBySuffix: Map<string, Node[]> = new Map();
+    private classByMethod: Map<string, Node> = new Map();
+    private importsByFile: Map<string, Map<string, ImportBinding>> = new Map();
+
+    /**
+     * @param nodes Code nodes of the whole graph
+     * @param edges Edges of the whole graph, used to find the class of each method
+     */
+    constructor(nodes: Node[], edges: Edge[]) {
+        const nodesById = new Map(nodes.map(node => [node.id, node]));
+
+        for (const edge of edges) {
+            const target = nodesById.get(edge.target);
+            if (edge.type === 'BELONGS_TO' && target?.properties.kind === 'class') {
+                this.classByMethod.set(edge.source, target);
+            }
+        }
+
+        for (const node of nodes) {
+            // Every suffix of a qualified name is indexed, so that names also match below source roots like src/
+            const segments = this.getQualifiedName(node).split('.').filter(Boolean);
+            for (let i = 0; i < segments.length; i++) {
+                const suffix = segments.slice(i).join('.');
+                const symbols = this.symbolsBySuffix.get(suffix);
+                if (symbols) {
+                    symbols.push(node);
+                } else {
+                    this.symbolsBySuffix.set(suffix, [node]);
+                }
+            }
+
+            if (node.properties.kind === 'module' && node.properties.imports) {
+                this.importsByFile.set(
+                    node.filePath,
+                    new Map((node.properties.imports as ImportBinding[]).map(binding => [binding.alias, binding]))
+                );
+            }
+        }
+    }
+
+    /**
+     * Resolve the target of a relationship whose guessed target ID does not exist
+     * @param edge Relationship with the symbol name in properties.targetName
+     * @param source Node the relationship starts from
+     * @returns The resolved target, or null if no symbol in the project matches
+     */
+    public resolve(edge: Edge, source: Node): SymbolLink | null {
+        const targetName: string = edge.properties.targetName;
+        const sourceModule = this.getModuleName(source.filePath);
+
+        if (edge.type === 'IMPORTS') {
+            return this.pick(source, [this.resolveModuleName(targetName, source.filePath)], ['module']);
+        }
+
+        const kinds = edge.type === 'INHERITS_FROM' ? ['class']
+            : edge.type === 'USES' ? ['class', 'module']
+            : edge.type === 'TESTS' ? ['class', 'function', 'method', 'module']
+            : ['class', 'function', 'method'];
+        const fullName = edge.properties.targetQualifier ? `${edge.properties.targetQualifier}.${targetName}` : targetName;
+        const [head, ...rest] = fullName.split('.');
+        const candidates: string[] = [];
+
+        // self.method() and cls.method() refer to the class of the calling method
+        const sourceClass = this.classByMethod.get(source.id);
+        if ((head === 'self' || head === 'cls') && sourceClass && rest.length > 0) {
+            candidates.push(`${this.getQualifiedName(sourceClass)}.${rest.join('.')}`);
+        }
+
+        // Names bound by an import of the source file
+        const binding = this.importsByFile.get(source.filePath)?.get(head);
+        if (binding) {
+            const module = this.resolveModuleName(binding.module, source.filePath);
+            candidates.push([binding.name ? `${module}.${binding.name}` : module, ...rest].join('.'));
+        }
+
+        // Symbols of the source file, then symbols anywhere in the project
+        candidates.push(`${sourceModule}.${fullName}`, fullName);
+        if (rest.length > 0) {
+            candidates.push(targetName);
+        }
+
+        return this.pick(source, candidates, kinds);
+    }
+
+    /**
+     * Look up candidate names in order and pick from the first that matches any symbol
+     */
+    private pick(source: Node, qualifiedNames: string[], kinds: string[]): SymbolLink | null {
+        for (const qualifiedName of qualifiedNames) {
+            const matches = (this.symbolsBySuffix.get(qualifiedName) || [])
+                .filter(node => node.id !== source.id && kinds.includes(node.properties.kind));
+
+            if (matches.length === 1) {
+                return { targetId: matches[0].id, confidence: 'high' };
+            }
+            if (matches.length > 1) {
+                // Prefer the symbol whose file is closest to the source file
+                const nearest = matches.reduce((best, node) =>
+                    this.commonPrefixLength(node.filePath, source.filePath) > this.commonPrefixLength(best.filePath, source.filePath)
+                        ? node
+                        : best);
+                return { targetId: nearest.id, confidence: 'low' };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Get the qualified name of a node, e.g. "pkg.module.Class.method"
+     */
+    private getQualifiedName(node: Node): string {
+        const moduleName = this.getModuleName(node.filePath);
+        switch (node.properties.kind) {
+            case 'module':
+                return moduleName;
+            case 'method': {
+                const ownerClass = this.classByMethod.get(node.id);
+                return ownerClass ? `${moduleName}.${ownerClass.name}.${node.name}` : `${moduleName}.${node.name}`;
+            }
+            default:
+                return `${moduleName}.${node.name}`;
+        }
+    }
+
+    /**
+     * Get the module name of a workspace-relative file path, e.g. "pkg/module.py" -> "pkg.module"
+     */
+    private getModuleName(filePath: string): string {
+        const segments = filePath.replace(/\\/g, '/').replace(/\.[^./]+$/, '').split('/');
+        if (segments[segments.length - 1] === '__init__') {
+            segments.pop();
+        }
+        return segments.join('.');
+    }
+
+    /**
+     * Resolve a relative module name like "..utils" against the module of the importing file
+     */
+    private resolveModuleName(moduleName: string, importingFilePath: string): string {
+        const level = moduleName.length - moduleName.replace(/^\.+/, '').length;
+        if (level === 0) {
+            return moduleName;
+        }
+
+        // A package's __init__ file is its own package, so one level less is dropped
+        const packageSegments = this.getModuleName(importingFilePath).split('.');
+        const isPackageInit = /(^|[\\/])__init__\.[^./]+$/.test(importingFilePath);
+        const base = packageSegments.slice(0, packageSegments.length - (isPackageInit ? level - 1 : level));
+        return [...base, moduleName.substring(level)].filter(Boolean).join('.');
+    }
+
+    /**
+     * Count the leading path characters two files share
+     */
+    private commonPrefixLength(a: string, b: string): number {
+        let length = 0;
+        while (length < a.length && length < b.length && a[length] === b[length]) {
+            length++;
+        }
+        return length;
+    }
+}
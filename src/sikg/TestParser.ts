@@ -1,6 +1,6 @@
 // TestParser.ts - Facade for the modular test parsing implementation
 
-import { TestCase } from './GraphTypes';
+import { TestCase, TestFixture } from './GraphTypes';
 import { Logger } from '../utils/Logger';
 import { TestParserFactory } from './parser/test/TestParserFactory';
 
@@ -10,6 +10,9 @@ import { TestParserFactory } from './parser/test/TestParserFactory';
  * to the new modular implementation.
  */
 export class TestParser {
+    // Bump when the test parsers change their output, so that stored graphs re-parse test files
+    public static readonly VERSION = 3;
+
     private parserFactory: TestParserFactory;
     private initialized: boolean = false;
 
@@ -59,6 +62,26 @@ export class TestParser {
         }
     }
 
+    /**
+     * Parse a test file and extract the fixtures it defines
+     * @param content Content of the file to parse
+     * @param filePath Path to the file
+     * @returns Array of fixtures defined in the file
+     */
+    public async parseFixtures(content: string, filePath: string): Promise<TestFixture[]> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        try {
+            const parser = this.parserFactory.getParserForFile(filePath, content);
+            return parser.parseFixtures(content, filePath);
+        } catch (error) {
+            Logger.error(`Error parsing fixtures of ${filePath}:`, error);
+            return [];
+        }
+    }
+
     /**
      * Generate a unique ID for a test node
      * @param testName Name of the test
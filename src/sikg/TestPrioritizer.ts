@@ -38,16 +38,22 @@ export class TestPrioritizer {
             // Track visited nodes for this propagation to avoid cycles
             const visitedNodesForThisChange = new Set<string>();
             
-            // Start propagation from the changed node
-            const queue: PropagationQueueItem[] = [{
-                nodeId: change.nodeId,
+            // Start propagation from the changed node. A removed element is no longer in the graph,
+            // so its full impact starts at the callers and tests that depended on it.
+            const startNodeIds: string[] = change.semanticType === 'REMOVAL' && !this.sikgManager.getNode(change.nodeId)
+                ? change.changeDetails.dependentIds || []
+                : [change.nodeId];
+            const queue: PropagationQueueItem[] = startNodeIds.map(nodeId => ({
+                nodeId,
                 currentScore: change.initialImpactScore,
                 depth: 0,
-                path: [change.nodeId]
-            }];
+                path: [nodeId]
+            }));
             
-            visitedNodesForThisChange.add(change.nodeId);
-            allVisitedNodes.add(change.nodeId);
+            for (const nodeId of startNodeIds) {
+                visitedNodesForThisChange.add(nodeId);
+                allVisitedNodes.add(nodeId);
+            }
             
             // Process the queue (Breadth-First Traversal)
             while (queue.length > 0) {
@@ -116,8 +122,11 @@ export class TestPrioritizer {
                         // Apply historical boost if available (from reinforcement learning)
                         const historicalBoost = this.getHistoricalBoost(change.nodeId, change.semanticType, edge.target);
                         
+                        // Relationships the parsers only guessed carry less impact than observed ones
+                        const confidence = edge.provenance?.confidence ?? 1.0;
+                        
                         // Calculate the propagated score
-                        const propagatedScore = currentScore * edge.weight * attenuation + historicalBoost;
+                        const propagatedScore = currentScore * edge.weight * confidence * attenuation + historicalBoost;
                         
                         // Only propagate if the score is still significant
                         if (propagatedScore > minImpactThreshold) {
@@ -206,6 +215,14 @@ export class TestPrioritizer {
                 return 0.9; // Strong connection
             case 'IMPORTS':
                 return 0.6; // Moderate connection
+            case 'CONTAINS':
+                return 0.7; // A change to a file or suite reaches what it contains
+            case 'IS_FIXTURE_FOR':
+                return 1.0; // Every requester of a changed fixture runs its code
+            case 'USES_FIXTURE':
+                return 0.6; // Moderate connection
+            case 'DEPENDS_ON_PACKAGE':
+                return 0.3; // Packages are shared by many modules and rarely explain a failure
             default:
                 return 0.5; // Default moderate connection
         }
@@ -48,9 +48,11 @@ export abstract class CodeParserBase {
     /**
      * Build relationships between code elements
      * @param elements Code elements to process
+     * @param producer Name of the parser or strategy, recorded on relationships that have none
+     * @param confidence Confidence recorded on relationships that have none
      * @returns The processed code elements with unique relationships
      */
-    protected buildRelationships(elements: CodeElement[]): CodeElement[] {
+    protected buildRelationships(elements: CodeElement[], producer: string, confidence: number): CodeElement[] {
         // Map of element IDs to their index in the elements array
         const elementMap = new Map<string, number>();
         
@@ -61,9 +63,11 @@ export abstract class CodeParserBase {
         
         // Resolve and deduplicate relationships
         elements.forEach(element => {
-            const uniqueRelations = new Map<string, { targetId: string; type: string; weight?: number }>();
+            const uniqueRelations = new Map<string, CodeElement['relations'][number]>();
             
             element.relations.forEach(relation => {
+                relation.producer = relation.producer || producer;
+                relation.confidence = relation.confidence ?? confidence;
                 const key = `${relation.type}-${relation.targetId}`;
                 
                 // If this relationship already exists, use the one with the higher weight
@@ -6,7 +6,7 @@ import { GenericCodeParser } from './language/GenericCodeParser';
 import { AstProcessorManager } from '../util/AstProcessorManager';
 import { Logger } from '../../../utils/Logger';
 import { ParserUtils } from '../util/ParserUtils';
-import * as vscode from 'vscode';
+import { Host } from '../../../host/SIKGHost';
 
 /**
  * Factory for creating language-specific code parsers with fixed language detection
@@ -123,25 +123,19 @@ export class CodeParserFactory {
     }
 
     /**
-     * Get language from VS Code's language service
+     * Get language from the editor, if the file is open in one
      * @param filePath Path to the file
      * @returns Language identifier or null if not found
      */
     private getLanguageFromVSCode(filePath: string): string | null {
         try {
-            // Check if the file is currently open in VS Code
-            const document = vscode.workspace.textDocuments.find(doc => 
-                doc.fileName === filePath || 
-                doc.fileName.endsWith(filePath) ||
-                doc.uri.fsPath === filePath
-            );
-            
-            if (document) {
-                Logger.debug(`Found open document with language: ${document.languageId}`);
-                return document.languageId;
+            const language = Host.get().workspace.getOpenDocumentLanguage(filePath);
+            if (language) {
+                Logger.debug(`Found open document with language: ${language}`);
+                return language;
             }
         } catch (error) {
-            Logger.debug(`Could not get language from VS Code for ${filePath}:`, error);
+            Logger.debug(`Could not get language from the editor for ${filePath}:`, error);
         }
         
         return null;
@@ -119,7 +119,8 @@ export class GenericCodeParser extends CodeParserBase {
                         classElement.relations.push({
                             targetId: parentClassId,
                             type: 'INHERITS_FROM',
-                            weight: 1.0
+                            weight: 1.0,
+                            targetName: extendsClass
                         });
                     }
                     
@@ -217,7 +218,7 @@ export class GenericCodeParser extends CodeParserBase {
             }
             
             // Add relationships between elements
-            return this.buildRelationships(elements);
+            return this.buildRelationships(elements, 'generic-regex', 0.5);
             
         } catch (error) {
             return this.handleError(filePath, error);
@@ -246,7 +247,8 @@ export class GenericCodeParser extends CodeParserBase {
             functionElement.relations.push({
                 targetId: this.generateElementId('function', calledFunctionName, functionElement.filePath),
                 type: 'CALLS',
-                weight: 0.8
+                weight: 0.8,
+                targetName: calledFunctionName
             });
         }
         
@@ -260,14 +262,17 @@ export class GenericCodeParser extends CodeParserBase {
             functionElement.relations.push({
                 targetId: this.generateElementId('class', objectName, functionElement.filePath),
                 type: 'USES',
-                weight: 0.6
+                weight: 0.6,
+                targetName: objectName
             });
             
             // Add calls relationship for the method
             functionElement.relations.push({
                 targetId: this.generateElementId('method', methodName, functionElement.filePath),
                 type: 'CALLS',
-                weight: 0.7
+                weight: 0.7,
+                targetName: methodName,
+                targetQualifier: objectName
             });
         }
     }
@@ -2,8 +2,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as vscode from 'vscode';
-import { CodeElement } from '../../../GraphTypes';
+import { CodeElement, ImportBinding } from '../../../GraphTypes';
 import { Logger } from '../../../../utils/Logger';
 import { ParserUtils } from '../../util/ParserUtils';
 import { FileUtils } from '../../util/FileUtils';
@@ -86,14 +85,8 @@ export class PythonCodeParser extends CodeParserBase {
             return filePath;
         }
         
-        // If we have a workspace, resolve relative to workspace
-        if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-            const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath;
-            return path.resolve(workspaceRoot, filePath);
-        }
-        
-        // Fallback to current working directory
-        return path.resolve(filePath);
+        // Resolve relative to the workspace folder the path belongs to
+        return ParserUtils.resolveWorkspacePath(filePath);
     }
 
     /**
@@ -169,25 +162,39 @@ export class PythonCodeParser extends CodeParserBase {
         });
         
         // Process imports with enhanced tracking
+        const imports: ImportBinding[] = [];
         for (const importItem of astData.imports) {
             const importedModuleName = importItem.name;
             const resolvedImportPath = this.resolveImportPath(importedModuleName, filePath);
             const importId = this.generateElementId('module', importedModuleName, resolvedImportPath);
+            const qualifiedModuleName = '.'.repeat(importItem.level || 0) + importedModuleName;
             
             // Add import relationship to the module
             elements[0].relations.push({
                 targetId: importId,
                 type: 'IMPORTS',
-                weight: 0.7
+                weight: 0.7,
+                targetName: qualifiedModuleName
             });
             
-            // Store the name to ID mapping for imported names
-            for (const name of importItem.imported_names || []) {
-                // Generate consistent IDs for imported functions
-                const functionId = this.generateElementId('function', name, resolvedImportPath);
-                idMap.set(name, functionId);
+            if (importItem.type === 'from') {
+                // Store the name to ID mapping for imported names, under the name they are bound to
+                (importItem.imported_names || []).forEach((name: string, index: number) => {
+                    const alias = importItem.aliases?.[index] || name;
+                    // Generate consistent IDs for imported functions
+                    const functionId = this.generateElementId('function', name, resolvedImportPath);
+                    idMap.set(alias, functionId);
+                    imports.push({ alias, module: qualifiedModuleName, name });
+                });
+            } else if (importItem.asname) {
+                imports.push({ alias: importItem.asname, module: importedModuleName });
+            } else {
+                // "import a.b" binds the top-level package "a"
+                const topLevelName = importedModuleName.split('.')[0];
+                imports.push({ alias: topLevelName, module: topLevelName });
             }
         }
+        elements[0].imports = imports;
         
         // Process classes
         for (const classData of astData.classes) {
@@ -219,7 +226,8 @@ export class PythonCodeParser extends CodeParserBase {
                 classElement.relations.push({
                     targetId: baseClassId,
                     type: 'INHERITS_FROM',
-                    weight: 1.0
+                    weight: 1.0,
+                    targetName: baseClass
                 });
             }
             
@@ -292,7 +300,7 @@ export class PythonCodeParser extends CodeParserBase {
             elements.push(funcElement);
         }
         
-        return this.buildRelationships(elements);
+        return this.buildRelationships(elements, 'python-ast', 0.9);
     }
 
     /**
@@ -306,6 +314,8 @@ export class PythonCodeParser extends CodeParserBase {
     ): void {
         const isMethod = calledFunc.includes('.');
         let callTargetId: string;
+        let callTargetName: string;
+        let callTargetQualifier: string | undefined;
         
         if (isMethod) {
             // This is a method call like obj.method()
@@ -316,20 +326,26 @@ export class PythonCodeParser extends CodeParserBase {
             element.relations.push({
                 targetId: objId,
                 type: 'USES',
-                weight: 0.6
+                weight: 0.6,
+                targetName: obj
             });
             
             // Add CALLS relationship for the method
             callTargetId = this.generateElementId('method', method, filePath);
+            callTargetName = method;
+            callTargetQualifier = obj;
         } else {
             // This is a regular function call
             callTargetId = idMap.get(calledFunc) || this.generateElementId('function', calledFunc, filePath);
+            callTargetName = calledFunc;
         }
         
         element.relations.push({
             targetId: callTargetId,
             type: 'CALLS',
-            weight: 0.8
+            weight: 0.8,
+            targetName: callTargetName,
+            targetQualifier: callTargetQualifier
         });
     }
 
@@ -624,7 +640,7 @@ export class PythonCodeParser extends CodeParserBase {
             }
             
             // Add relationships between elements based on function calls and references
-            return this.buildRelationships(elements);
+            return this.buildRelationships(elements, 'python-regex', 0.6);
             
         } catch (error) {
             return this.handleError(filePath, error);
@@ -1,6 +1,6 @@
 // TestParserBase.ts - Abstract base class for test parsers
 
-import { TestCase } from '../../GraphTypes';
+import { TestCase, TestFixture } from '../../GraphTypes';
 import { Logger } from '../../../utils/Logger';
 import { ParserUtils } from '../util/ParserUtils';
 import { CodeParserBase } from '../code/CodeParserBase';
@@ -24,6 +24,17 @@ export abstract class TestParserBase {
      */
     public abstract parseTestFile(content: string, filePath: string): Promise<TestCase[]>;
 
+    /**
+     * Parse the fixtures a test file defines. Parsers of frameworks without
+     * fixtures keep this default.
+     * @param content Content of the file to parse
+     * @param filePath Path to the file
+     * @returns Array of fixtures defined in the file
+     */
+    public parseFixtures(content: string, filePath: string): TestFixture[] {
+        return [];
+    }
+
     /**
      * Clean up any resources used by this parser
      */
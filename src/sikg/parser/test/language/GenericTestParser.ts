@@ -203,7 +203,10 @@ export class GenericTestParser extends TestParserBase {
                 coveredIds.add(functionId);
                 testCase.coveredElements.push({
                     targetId: functionId,
-                    weight: 0.8 // High confidence that it's testing this function
+                    targetName: calledFunction,
+                    weight: 0.8, // High confidence that it's testing this function
+                    producer: 'generic-test-regex',
+                    confidence: 0.3
                 });
             }
         }
@@ -221,7 +224,10 @@ export class GenericTestParser extends TestParserBase {
                 coveredIds.add(classId);
                 testCase.coveredElements.push({
                     targetId: classId,
-                    weight: 0.9 // Very high confidence it's testing this class
+                    targetName: className,
+                    weight: 0.9, // Very high confidence it's testing this class
+                    producer: 'generic-test-regex',
+                    confidence: 0.4
                 });
             }
         }
@@ -245,7 +251,10 @@ export class GenericTestParser extends TestParserBase {
                 coveredIds.add(classId);
                 testCase.coveredElements.push({
                     targetId: classId,
-                    weight: 0.7 // Good confidence it's testing this class
+                    targetName: objectName,
+                    weight: 0.7, // Good confidence it's testing this class
+                    producer: 'generic-test-regex',
+                    confidence: 0.3
                 });
             }
             
@@ -257,7 +266,11 @@ export class GenericTestParser extends TestParserBase {
                 coveredIds.add(methodId);
                 testCase.coveredElements.push({
                     targetId: methodId,
-                    weight: 0.8 // High confidence it's testing this method
+                    targetName: methodName,
+                    targetQualifier: objectName,
+                    weight: 0.8, // High confidence it's testing this method
+                    producer: 'generic-test-regex',
+                    confidence: 0.3
                 });
             }
         }
@@ -281,7 +294,10 @@ export class GenericTestParser extends TestParserBase {
                     coveredIds.add(elementId);
                     testCase.coveredElements.push({
                         targetId: elementId,
-                        weight: 0.7 // Moderate confidence
+                        targetName: assertedName,
+                        weight: 0.7, // Moderate confidence
+                        producer: 'generic-test-regex',
+                        confidence: 0.2
                     });
                 }
             }
@@ -2,7 +2,7 @@
 
 import * as path from 'path';
 import * as fs from 'fs';
-import { TestCase } from '../../../GraphTypes';
+import { TestCase, TestFixture } from '../../../GraphTypes';
 import { Logger } from '../../../../utils/Logger';
 import { ParserUtils } from '../../util/ParserUtils';
 import { FileUtils } from '../../util/FileUtils';
@@ -133,7 +133,8 @@ export class PythonTestParser extends TestParserBase {
                         start: { line: testMethod.start_line, column: testMethod.start_col },
                         end: { line: testMethod.end_line, column: testMethod.end_col }
                     },
-                    coveredElements: []
+                    coveredElements: [],
+                    suiteName: testClass.name
                 };
                 
                 // FIXED: Add covered elements with proper ID generation
@@ -157,7 +158,8 @@ export class PythonTestParser extends TestParserBase {
                     start: { line: testFunc.start_line, column: testFunc.start_col },
                     end: { line: testFunc.end_line, column: testFunc.end_col }
                 },
-                coveredElements: []
+                coveredElements: [],
+                fixtures: this.getFixtureNames(testFunc.params || [])
             };
             
             // FIXED: Add covered elements with proper ID generation
@@ -336,7 +338,10 @@ export class PythonTestParser extends TestParserBase {
                     coveredIds.add(targetId);
                     testCase.coveredElements.push({
                         targetId,
-                        weight: assertion.confidence || 0.8
+                        targetName: func.name,
+                        weight: assertion.confidence || 0.8,
+                        producer: 'python-test-assertion',
+                        confidence: 0.8
                     });
                     Logger.debug(`Added assertion-based coverage: ${testCase.name} -> ${func.name} (${targetId})`);
                 }
@@ -351,7 +356,10 @@ export class PythonTestParser extends TestParserBase {
                 coveredIds.add(targetId);
                 testCase.coveredElements.push({
                     targetId,
-                    weight: 0.7
+                    targetName: call.name,
+                    weight: 0.7,
+                    producer: 'python-test-call',
+                    confidence: 0.7
                 });
                 Logger.debug(`Added call-based coverage: ${testCase.name} -> ${call.name} (${targetId})`);
             }
@@ -367,7 +375,10 @@ export class PythonTestParser extends TestParserBase {
                     coveredIds.add(targetId);
                     testCase.coveredElements.push({
                         targetId,
-                        weight: 0.5
+                        targetName: module,
+                        weight: 0.5,
+                        producer: 'python-test-module',
+                        confidence: 0.4
                     });
                     Logger.debug(`Added module coverage: ${testCase.name} -> ${module} (${targetId})`);
                 }
@@ -382,7 +393,10 @@ export class PythonTestParser extends TestParserBase {
                 coveredIds.add(targetId);
                 testCase.coveredElements.push({
                     targetId,
-                    weight: inference.confidence || 0.9
+                    targetName: inference.name,
+                    weight: inference.confidence || 0.9,
+                    producer: 'python-test-name-inference',
+                    confidence: 0.4
                 });
                 Logger.debug(`Added name-based inference: ${testCase.name} -> ${inference.name} (${targetId})`);
             }
@@ -408,7 +422,10 @@ export class PythonTestParser extends TestParserBase {
                         coveredIds.add(targetId);
                         testCase.coveredElements.push({
                             targetId,
-                            weight: 0.95 // High confidence for name-based inference
+                            targetName: importedName,
+                            weight: 0.95, // High confidence for name-based inference
+                            producer: 'python-test-name-inference',
+                            confidence: 0.5
                         });
                         
                         Logger.info(`Name-based inference: ${testName} -> ${importedName} (${sourceFile})`);
@@ -434,7 +451,10 @@ export class PythonTestParser extends TestParserBase {
                         coveredIds.add(targetId);
                         testCase.coveredElements.push({
                             targetId,
-                            weight: 0.85
+                            targetName: functionName,
+                            weight: 0.85,
+                            producer: 'python-test-local-name-inference',
+                            confidence: 0.3
                         });
                         
                         Logger.info(`Local name-based inference: ${testName} -> ${functionName} (${normalizedSourceFile})`);
@@ -621,6 +641,7 @@ export class PythonTestParser extends TestParserBase {
                             );
                             
                             if (testCase) {
+                                testCase.suiteName = className;
                                 testCases.push(testCase);
                             }
                         }
@@ -636,6 +657,7 @@ export class PythonTestParser extends TestParserBase {
                         );
                         
                         if (testCase) {
+                            testCase.fixtures = this.getFixtureNames(functionMatch[2].split(','));
                             testCases.push(testCase);
                         }
                     }
@@ -649,6 +671,82 @@ export class PythonTestParser extends TestParserBase {
         }
     }
 
+    /**
+     * Parse the pytest fixtures a test file or conftest.py defines
+     */
+    public parseFixtures(content: string, filePath: string): TestFixture[] {
+        const fixtures: TestFixture[] = [];
+        const lines = content.split('\n');
+        
+        for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+            const decoratorMatch = lines[lineIndex].match(/^\s*@(?:pytest\.)?fixture\b(?:\((.*)\))?/);
+            if (!decoratorMatch) {
+                continue;
+            }
+            
+            // Other decorators may sit between the fixture decorator and the function
+            let defIndex = lineIndex + 1;
+            while (defIndex < lines.length && /^\s*(@|$)/.test(lines[defIndex])) {
+                defIndex++;
+            }
+            const functionMatch = lines[defIndex]?.match(/^\s*(?:async\s+)?def\s+(\w+)\s*\(([^)]*)/);
+            if (!functionMatch) {
+                continue;
+            }
+            
+            // A fixture is requested under the name given to the decorator, if any
+            const decoratorArgs = decoratorMatch[1] || '';
+            const name = decoratorArgs.match(/\bname\s*=\s*['"]([^'"]+)['"]/)?.[1] || functionMatch[1];
+            const scope = decoratorArgs.match(/\bscope\s*=\s*['"](\w+)['"]/)?.[1] || 'function';
+            const endLine = this.findBlockEnd(lines, defIndex);
+            
+            fixtures.push({
+                id: ParserUtils.generateElementId('fixture', name, filePath),
+                name,
+                filePath,
+                scope,
+                loc: {
+                    start: { line: defIndex + 1, column: lines[defIndex].indexOf(functionMatch[1]) },
+                    end: { line: endLine + 1, column: 0 }
+                },
+                fixtures: this.getFixtureNames(functionMatch[2].split(','))
+            });
+            lineIndex = endLine;
+        }
+        
+        Logger.debug(`Found ${fixtures.length} fixtures in ${filePath}`);
+        return fixtures;
+    }
+
+    /**
+     * Get the names of the fixtures a test or fixture requests through its parameters
+     */
+    private getFixtureNames(params: string[]): string[] {
+        return params
+            .map(param => param.split(/[:=]/)[0].trim())
+            .filter(param => param.length > 0 && !param.startsWith('*') && param !== 'self' && param !== 'cls');
+    }
+
+    /**
+     * Find the last line of the indented block that starts at a line
+     */
+    private findBlockEnd(lines: string[], startIndex: number): number {
+        const indentation = this.getIndentation(lines[startIndex]);
+        let endIndex = startIndex;
+        
+        for (let i = startIndex + 1; i < lines.length; i++) {
+            if (lines[i].trim().length === 0) {
+                continue;
+            }
+            if (this.getIndentation(lines[i]) <= indentation) {
+                break;
+            }
+            endIndex = i;
+        }
+        
+        return endIndex;
+    }
+
     /**
      * FIXED: Extract imports from content using regex with better resolution
      */
@@ -804,7 +902,10 @@ export class PythonTestParser extends TestParserBase {
                 coveredIds.add(targetId);
                 testCase.coveredElements.push({
                     targetId,
-                    weight: 0.8
+                    targetName: calledFunctionName,
+                    weight: 0.8,
+                    producer: 'python-test-regex',
+                    confidence: 0.5
                 });
                 Logger.debug(`Function call coverage: ${testCase.name} -> ${calledFunctionName} (${targetId})`);
             }
@@ -829,7 +930,10 @@ export class PythonTestParser extends TestParserBase {
                 coveredIds.add(classId);
                 testCase.coveredElements.push({
                     targetId: classId,
-                    weight: 0.9
+                    targetName: objectName,
+                    weight: 0.9,
+                    producer: 'python-test-regex',
+                    confidence: 0.5
                 });
                 Logger.debug(`Object usage coverage: ${testCase.name} -> ${objectName} (${classId})`);
             }
@@ -840,7 +944,11 @@ export class PythonTestParser extends TestParserBase {
                 coveredIds.add(methodId);
                 testCase.coveredElements.push({
                     targetId: methodId,
-                    weight: 0.8
+                    targetName: methodName,
+                    targetQualifier: objectName,
+                    weight: 0.8,
+                    producer: 'python-test-regex',
+                    confidence: 0.4
                 });
                 Logger.debug(`Method call coverage: ${testCase.name} -> ${methodName} (${methodId})`);
             }
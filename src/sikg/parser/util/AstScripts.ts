@@ -467,6 +467,7 @@ class AstVisitor(ast.NodeVisitor):
             'name': node.module or '',
             'level': node.level,
             'imported_names': imported_names,
+            'aliases': [name.asname or name.name for name in node.names],
             'type': 'from'
         })
     
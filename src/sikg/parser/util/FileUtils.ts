@@ -30,11 +30,7 @@ export class FileUtils {
     public static cleanupTempDirectory(dirPath: string): void {
         try {
             if (fs.existsSync(dirPath)) {
-                const files = fs.readdirSync(dirPath);
-                for (const file of files) {
-                    fs.unlinkSync(path.join(dirPath, file));
-                }
-                fs.rmdirSync(dirPath);
+                fs.rmSync(dirPath, { recursive: true, force: true });
                 Logger.debug(`Cleaned up temporary directory: ${dirPath}`);
             }
         } catch (error) {
@@ -2,8 +2,8 @@
 
 import * as path from 'path';
 import * as crypto from 'crypto';
-import * as vscode from 'vscode';
 import { Logger } from '../../../utils/Logger';
+import { Host, WorkspaceFolderInfo } from '../../../host/SIKGHost';
 
 /**
  * Utility functions for parsing and analyzing code and test files
@@ -39,7 +39,9 @@ export class ParserUtils {
     }
 
     /**
-     * Normalize file path for consistent ID generation across different contexts
+     * Normalize file path for consistent ID generation across different contexts. Paths within
+     * the workspace are made folder-relative, so that IDs do not depend on where the repository
+     * is checked out. Only in multi-root workspaces are they qualified with the folder name.
      * @param filePath Path to normalize
      * @returns Normalized path
      */
@@ -48,43 +50,66 @@ export class ParserUtils {
             return '';
         }
 
-        // Convert to absolute path if possible
-        let normalizedPath = filePath;
-
         try {
-            // If we have a workspace, resolve relative to workspace
-            if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-                const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath;
-                
-                if (path.isAbsolute(filePath)) {
-                    // If the path is already absolute, check if it's within the workspace
-                    const relativePath = path.relative(workspaceRoot, filePath);
-                    if (!relativePath.startsWith('..')) {
-                        // Path is within workspace, use relative path for consistency
-                        normalizedPath = relativePath;
-                    } else {
-                        // Path is outside workspace, use absolute path
-                        normalizedPath = path.normalize(filePath);
-                    }
-                } else {
-                    // Path is relative, keep it relative but normalize
-                    normalizedPath = path.normalize(filePath);
-                }
-            } else {
-                // No workspace, normalize the path as-is
-                normalizedPath = path.normalize(filePath);
+            const normalizedPath = path.normalize(filePath);
+            const workspaceFolder = this.getWorkspaceFolder(normalizedPath);
+            if (!workspaceFolder) {
+                return normalizedPath.replace(/\\/g, '/');
             }
+            const folderRelativePath = this.getFolderRelativePath(normalizedPath);
+            return this.isMultiRootWorkspace() ? `${workspaceFolder.name}/${folderRelativePath}` : folderRelativePath;
         } catch (error) {
             Logger.debug(`Error normalizing path ${filePath}:`, error);
-            normalizedPath = path.normalize(filePath);
+            return path.normalize(filePath).replace(/\\/g, '/');
+        }
+    }
+
+    /**
+     * Check whether the workspace has more than one folder. Workspace-relative paths
+     * are then qualified with the folder name, e.g. "backend/src/app.py".
+     */
+    public static isMultiRootWorkspace(): boolean {
+        return Host.get().workspace.getWorkspaceFolders().length > 1;
+    }
+
+    /**
+     * Get the workspace folder that contains a file
+     * @param filePath Absolute path, or workspace-relative path as stored on graph nodes
+     * @returns The containing folder, or undefined if the file is outside the workspace
+     */
+    public static getWorkspaceFolder(filePath: string): WorkspaceFolderInfo | undefined {
+        const folders = Host.get().workspace.getWorkspaceFolders();
+        if (folders.length === 0) {
+            return undefined;
+        }
+
+        if (path.isAbsolute(filePath)) {
+            // The innermost folder, if workspace folders are nested
+            let containing: WorkspaceFolderInfo | undefined;
+            for (const folder of folders) {
+                const relativePath = path.relative(folder.fsPath, filePath);
+                const inFolder = !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+                if (inFolder && (!containing || folder.fsPath.length > containing.fsPath.length)) {
+                    containing = folder;
+                }
+            }
+            return containing;
+        }
+
+        if (folders.length > 1) {
+            const folderName = filePath.replace(/\\/g, '/').split('/')[0];
+            const folder = folders.find(candidate => candidate.name === folderName);
+            if (folder) {
+                return folder;
+            }
         }
 
-        // Always use forward slashes for consistency across platforms
-        return normalizedPath.replace(/\\/g, '/');
+        return folders[0];
     }
 
     /**
-     * Get workspace-relative path if possible, otherwise return the original path
+     * Get workspace-relative path if possible, otherwise return the original path.
+     * In multi-root workspaces the path starts with the name of its folder.
      * @param filePath Path to convert
      * @returns Workspace-relative path or original path
      */
@@ -94,14 +119,11 @@ export class ParserUtils {
         }
 
         try {
-            if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-                const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath;
-                
-                if (path.isAbsolute(filePath)) {
-                    const relativePath = path.relative(workspaceRoot, filePath);
-                    if (!relativePath.startsWith('..')) {
-                        return relativePath.replace(/\\/g, '/');
-                    }
+            if (path.isAbsolute(filePath)) {
+                const workspaceFolder = this.getWorkspaceFolder(filePath);
+                if (workspaceFolder) {
+                    const relativePath = path.relative(workspaceFolder.fsPath, filePath).replace(/\\/g, '/');
+                    return this.isMultiRootWorkspace() ? `${workspaceFolder.name}/${relativePath}` : relativePath;
                 }
             }
         } catch (error) {
@@ -111,9 +133,40 @@ export class ParserUtils {
         return filePath.replace(/\\/g, '/');
     }
 
+    /**
+     * Get the path of a file within its workspace folder, without the folder name that
+     * qualifies workspace-relative paths in multi-root workspaces. Graph partitions store
+     * these paths, so that they do not depend on the other folders of the workspace.
+     * @param filePath Absolute path, or workspace-relative path as stored on graph nodes
+     * @returns Folder-relative path, or the original path if the file is outside the workspace
+     */
+    public static getFolderRelativePath(filePath: string): string {
+        if (!filePath) {
+            return '';
+        }
+
+        try {
+            const workspaceFolder = this.getWorkspaceFolder(filePath);
+            if (workspaceFolder) {
+                if (path.isAbsolute(filePath)) {
+                    return path.relative(workspaceFolder.fsPath, filePath).replace(/\\/g, '/');
+                }
+                const normalized = filePath.replace(/\\/g, '/');
+                const folderPrefix = `${workspaceFolder.name}/`;
+                return this.isMultiRootWorkspace() && normalized.startsWith(folderPrefix)
+                    ? normalized.substring(folderPrefix.length)
+                    : normalized;
+            }
+        } catch (error) {
+            Logger.debug(`Error getting folder relative path for ${filePath}:`, error);
+        }
+
+        return filePath.replace(/\\/g, '/');
+    }
+
     /**
      * Convert workspace-relative path to absolute path
-     * @param relativePath Workspace-relative path
+     * @param relativePath Workspace-relative path, qualified with the folder name in multi-root workspaces
      * @returns Absolute path
      */
     public static resolveWorkspacePath(relativePath: string): string {
@@ -126,9 +179,9 @@ export class ParserUtils {
         }
 
         try {
-            if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-                const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath;
-                return path.resolve(workspaceRoot, relativePath);
+            const workspaceFolder = this.getWorkspaceFolder(relativePath);
+            if (workspaceFolder) {
+                return path.resolve(workspaceFolder.fsPath, this.getFolderRelativePath(relativePath));
             }
         } catch (error) {
             Logger.debug(`Error resolving workspace path ${relativePath}:`, error);
@@ -435,17 +488,14 @@ export class ParserUtils {
             return language;
         }
 
-        // Try to get language from VS Code's language service
+        // Try to get language from the editor, if the file is open in one
         try {
-            const document = vscode.workspace.textDocuments.find(doc => 
-                doc.fileName === filePath || doc.fileName.endsWith(filePath)
-            );
-            
-            if (document) {
-                return document.languageId;
+            const language = Host.get().workspace.getOpenDocumentLanguage(filePath);
+            if (language) {
+                return language;
             }
         } catch (error) {
-            Logger.debug(`Could not determine language from VS Code for ${filePath}:`, error);
+            Logger.debug(`Could not determine language from the editor for ${filePath}:`, error);
         }
 
         // Default fallback
@@ -453,11 +503,11 @@ export class ParserUtils {
     }
 
     /**
-     * Get language from VS Code document
-     * @param document VS Code text document
+     * Get language from an editor document
+     * @param document Text document, e.g. a VS Code TextDocument
      * @returns Language identifier
      */
-    public static getLanguageFromDocument(document: vscode.TextDocument): string {
+    public static getLanguageFromDocument(document: { languageId: string }): string {
         return document.languageId;
     }
 
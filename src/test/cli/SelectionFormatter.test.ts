@@ -0,0 +1,94 @@
+// SelectionFormatter.test.ts - Tests for the test selection formats of the sikg command
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SelectionFormatter } from '../../cli/SelectionFormatter';
+import { Host } from '../../host/SIKGHost';
+import { NodeHost } from '../../host/NodeHost';
+import { TestImpact } from '../../sikg/GraphTypes';
+
+suite('SelectionFormatter', () => {
+    let workspaceRoot: string;
+
+    const impact = (testPath: string, testName: string, impactScore: number = 0.5): TestImpact => ({
+        testId: `${testPath}::${testName}`,
+        testName,
+        testPath,
+        impactScore,
+        contributingChanges: []
+    });
+
+    suiteSetup(() => {
+        workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sikg-select-'));
+        fs.mkdirSync(path.join(workspaceRoot, 'src', 'test', 'java'), { recursive: true });
+        fs.writeFileSync(path.join(workspaceRoot, 'src', 'test', 'java', 'CartTest.java'), 'package com.shop;\n\nclass CartTest {}\n');
+        Host.init(new NodeHost({ workspaceRoots: [workspaceRoot], storagePath: workspaceRoot, log: { appendLine: () => undefined } }));
+    });
+
+    suiteTeardown(() => {
+        fs.rmSync(workspaceRoot, { recursive: true, force: true });
+    });
+
+    test('writes pytest node IDs and leaves out tests of other languages', () => {
+        const { output, skipped } = SelectionFormatter.format([
+            impact('tests/test_cart.py', 'TestCart.test_add'),
+            impact('tests/test_util.py', 'test_round'),
+            impact('web/cart.test.ts', 'adds items')
+        ], 'pytest');
+
+        assert.strictEqual(output, 'tests/test_cart.py::TestCart::test_add\ntests/test_util.py::test_round');
+        assert.deepStrictEqual(skipped.map(test => test.testPath), ['web/cart.test.ts']);
+    });
+
+    test('writes an escaped name pattern for jest and mocha', () => {
+        const tests = [impact('a.test.ts', 'adds (two) items'), impact('b.test.js', 'a+b'), impact('c.test.js', 'a+b')];
+
+        assert.strictEqual(SelectionFormatter.format(tests, 'jest').output, 'adds \\(two\\) items|a\\+b');
+        assert.strictEqual(SelectionFormatter.format(tests, 'mocha').output, 'adds \\(two\\) items|a\\+b');
+    });
+
+    test('writes a go test -run pattern of top-level tests', () => {
+        const { output } = SelectionFormatter.format([
+            impact('calc_test.go', 'TestAdd/negative'),
+            impact('calc_test.go', 'TestAdd/positive'),
+            impact('calc_test.go', 'calc.TestSub')
+        ], 'go');
+
+        assert.strictEqual(output, '^(TestAdd|TestSub)$');
+        assert.strictEqual(SelectionFormatter.format([], 'go').output, '');
+    });
+
+    test('groups Java tests by their qualified class for maven and gradle', () => {
+        const tests = [
+            impact('src/test/java/CartTest.java', 'CartTest.addsItem'),
+            impact('src/test/java/CartTest.java', 'removesItem'),
+            impact('src/test/java/missing/PriceTest.java', 'PriceTest')
+        ];
+
+        assert.strictEqual(SelectionFormatter.format(tests, 'maven').output, 'com.shop.CartTest#addsItem+removesItem,PriceTest');
+        assert.strictEqual(
+            SelectionFormatter.format(tests, 'gradle').output,
+            '--tests com.shop.CartTest.addsItem --tests com.shop.CartTest.removesItem --tests PriceTest'
+        );
+    });
+
+    test('writes a dotnet filter where a test named after its class selects the whole class', () => {
+        const { output } = SelectionFormatter.format([
+            impact('Tests/CartTests.cs', 'AddsItem'),
+            impact('Tests/CartTests.cs', 'CartTests'),
+            impact('Tests/PriceTests.cs', 'Rounds')
+        ], 'dotnet');
+
+        assert.strictEqual(output, 'FullyQualifiedName~CartTests|FullyQualifiedName~PriceTests.Rounds');
+    });
+
+    test('writes every test as a list or as JSON', () => {
+        const tests = [impact('tests/test_cart.py', 'test_add', 0.9), impact('web/cart.test.ts', 'adds items', 0.4)];
+
+        assert.strictEqual(SelectionFormatter.format(tests, 'list').output, 'tests/test_cart.py::test_add\nweb/cart.test.ts::adds items');
+        assert.deepStrictEqual(JSON.parse(SelectionFormatter.format(tests, 'json').output).map((test: any) => test.impactScore), [0.9, 0.4]);
+        assert.deepStrictEqual(SelectionFormatter.format(tests, 'json').skipped, []);
+    });
+});
@@ -0,0 +1,78 @@
+// NodeHost.test.ts - Tests for finding files and reading settings outside the editor
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NodeHost } from '../../host/NodeHost';
+
+suite('NodeHost', () => {
+    suite('globToRegExp', () => {
+        const matches = (pattern: string, filePath: string) => NodeHost.globToRegExp(pattern).test(filePath);
+
+        test('lets "**/" match any number of folders, including none', () => {
+            assert.ok(matches('**/test_*.py', 'test_calc.py'));
+            assert.ok(matches('**/test_*.py', 'tests/unit/test_calc.py'));
+            assert.ok(matches('**/node_modules/**', 'web/node_modules/lib/index.js'));
+            assert.ok(!matches('**/test_*.py', 'tests/calc_test.py'));
+        });
+
+        test('keeps "*" and "?" within one folder', () => {
+            assert.ok(matches('src/*.ts', 'src/app.ts'));
+            assert.ok(!matches('src/*.ts', 'src/lib/app.ts'));
+            assert.ok(matches('test?.py', 'test1.py'));
+            assert.ok(!matches('test?.py', 'test12.py'));
+        });
+
+        test('supports character classes and nested alternatives', () => {
+            assert.ok(matches('**/*.{js,ts{,x}}', 'src/app.tsx'));
+            assert.ok(matches('**/*.{js,ts{,x}}', 'src/app.ts'));
+            assert.ok(!matches('**/*.{js,ts{,x}}', 'src/app.jsx'));
+            assert.ok(matches('v[0-9].py', 'v2.py'));
+            assert.ok(!matches('v[!0-9].py', 'v2.py'));
+        });
+
+        test('matches other characters literally', () => {
+            assert.ok(matches('setup.py', 'setup.py'));
+            assert.ok(!matches('setup.py', 'setup_py'));
+            assert.ok(matches('lib(1)/a+b.js', 'lib(1)/a+b.js'));
+        });
+    });
+
+    suite('files', () => {
+        let workspaceRoot: string;
+        let host: NodeHost;
+
+        setup(() => {
+            workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sikg-workspace-'));
+            for (const filePath of ['calc.py', 'tests/test_calc.py', 'tests/data.json', 'venv/lib/test_site.py']) {
+                fs.mkdirSync(path.dirname(path.join(workspaceRoot, filePath)), { recursive: true });
+                fs.writeFileSync(path.join(workspaceRoot, filePath), '');
+            }
+            host = new NodeHost({ workspaceRoots: [workspaceRoot], storagePath: workspaceRoot, settings: { maxTraversalDepth: 3 } });
+        });
+
+        teardown(() => {
+            fs.rmSync(workspaceRoot, { recursive: true, force: true });
+        });
+
+        test('finds the files matching a pattern outside excluded folders, in order', async () => {
+            const [folder] = host.workspace.getWorkspaceFolders();
+
+            assert.deepStrictEqual(await host.files.findFiles(folder, '**/*.py', '**/venv/**'), [
+                path.join(workspaceRoot, 'calc.py'),
+                path.join(workspaceRoot, 'tests', 'test_calc.py')
+            ]);
+            assert.deepStrictEqual(await host.files.findFiles(folder, '**/test_*.py', ''), [
+                path.join(workspaceRoot, 'tests', 'test_calc.py'),
+                path.join(workspaceRoot, 'venv', 'lib', 'test_site.py')
+            ]);
+        });
+
+        test('names folders after their directory and reads the given settings', () => {
+            assert.deepStrictEqual(host.workspace.getWorkspaceFolders(), [{ name: path.basename(workspaceRoot), fsPath: workspaceRoot }]);
+            assert.strictEqual(host.configuration.get('maxTraversalDepth', 5), 3);
+            assert.strictEqual(host.configuration.get('minImpactThreshold', 0.1), 0.1);
+        });
+    });
+});
@@ -0,0 +1,159 @@
+// GitService.test.ts - Tests for the diff scopes of the Git service, run against a temporary repository
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { GitService, FileChange } from '../../services/GitService';
+import { Host } from '../../host/SIKGHost';
+import { NodeHost } from '../../host/NodeHost';
+
+suite('GitService', () => {
+    let repositoryRoot: string;
+    let rootCommit: string;
+    let gitService: GitService;
+
+    const git = (command: string): string =>
+        execSync(`git -c user.name=sikg -c user.email=sikg@example.com ${command}`, { cwd: repositoryRoot, stdio: ['ignore', 'pipe', 'ignore'] })
+            .toString()
+            .trim();
+    const write = (filePath: string, content: string) => fs.writeFileSync(path.join(repositoryRoot, filePath), content);
+    const sorted = (changes: FileChange[]) => changes
+        .map(change => `${change.changeType} ${change.filePath}`)
+        .sort();
+
+    suiteSetup(() => {
+        repositoryRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'sikg-git-')));
+        Host.init(new NodeHost({ workspaceRoots: [repositoryRoot], storagePath: repositoryRoot, log: { appendLine: () => undefined } }));
+
+        git('init -q -b main');
+        write('calc.py', 'def add(a, b):\n    return a + b\n');
+        write('util.py', 'def noop():\n    pass\n');
+        git('add .');
+        git('commit -q -m root');
+        rootCommit = git('rev-parse HEAD');
+
+        write('calc.py', 'def add(a, b):\n    return b + a\n');
+        write('extra.py', 'X = 1\n');
+        git('add .');
+        git('commit -q -m second');
+
+        git('checkout -q -b feature');
+        git('rm -q util.py');
+        git('commit -q -m third');
+    });
+
+    suiteTeardown(() => {
+        fs.rmSync(repositoryRoot, { recursive: true, force: true });
+    });
+
+    setup(() => {
+        gitService = new GitService();
+    });
+
+    teardown(() => {
+        git('reset -q --hard');
+        git('clean -q -fd');
+    });
+
+    test('rejects revisions that are not plain Git revisions', () => {
+        assert.throws(() => gitService.setScope({ kind: 'commit', commit: 'HEAD; rm -rf /' }), /Invalid Git revision/);
+        assert.throws(() => gitService.setScope({ kind: 'range', base: '--output=x', head: 'HEAD' }), /Invalid Git revision/);
+        assert.doesNotThrow(() => gitService.setScope({ kind: 'range', base: 'origin/main~2', head: 'HEAD^{commit}' }));
+    });
+
+    test('describes scopes for messages', () => {
+        assert.strictEqual(GitService.describeScope({ kind: 'staged' }), 'staged changes');
+        assert.strictEqual(GitService.describeScope({ kind: 'range', base: 'main', head: 'feature' }), 'main..feature');
+    });
+
+    test('reports uncommitted and untracked changes of the working tree', async () => {
+        write('calc.py', 'def add(a, b):\n    return a - b\n');
+        write('new.py', 'Y = 2\n');
+
+        assert.deepStrictEqual(sorted(await gitService.getChanges()), ['add new.py', 'modify calc.py']);
+    });
+
+    test('reports only staged changes in the staged scope', async () => {
+        write('calc.py', 'def add(a, b):\n    return a - b\n');
+        write('extra.py', 'X = 3\n');
+        git('add calc.py');
+        gitService.setScope({ kind: 'staged' });
+
+        assert.deepStrictEqual(sorted(await gitService.getChanges()), ['modify calc.py']);
+        assert.strictEqual(await gitService.getOriginalContent('calc.py'), 'def add(a, b):\n    return b + a\n');
+    });
+
+    test('compares a commit with its parent', async () => {
+        gitService.setScope({ kind: 'commit', commit: 'main' });
+
+        assert.deepStrictEqual(sorted(await gitService.getChanges()), ['add extra.py', 'modify calc.py']);
+        assert.strictEqual(await gitService.getOriginalContent('calc.py'), 'def add(a, b):\n    return a + b\n');
+        assert.strictEqual(await gitService.getOriginalContent('extra.py'), null);
+    });
+
+    test('compares the root commit with the empty tree', async () => {
+        gitService.setScope({ kind: 'commit', commit: rootCommit });
+
+        assert.deepStrictEqual(sorted(await gitService.getChanges()), ['add calc.py', 'add util.py']);
+        assert.strictEqual(await gitService.getOriginalContent('calc.py'), null);
+        const diff = await gitService.getDiffDetails('calc.py');
+        assert.ok(diff);
+        assert.deepStrictEqual(diff.hunks.map(hunk => [hunk.oldStart, hunk.newStart, hunk.newLines]), [[0, 1, 2]]);
+    });
+
+    test('compares a commit only in the folder it was picked from', async () => {
+        const otherRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'sikg-git-')));
+        try {
+            execSync('git init -q -b main', { cwd: otherRoot, stdio: 'ignore' });
+            Host.init(new NodeHost({ workspaceRoots: [repositoryRoot, otherRoot], storagePath: repositoryRoot, log: { appendLine: () => undefined } }));
+            const folderName = path.basename(repositoryRoot);
+
+            gitService.setScope({ kind: 'commit', commit: rootCommit, folder: repositoryRoot });
+            assert.deepStrictEqual(sorted(await gitService.getChanges()), [`add ${folderName}/calc.py`, `add ${folderName}/util.py`]);
+
+            // The other repository does not have the commit
+            gitService.setScope({ kind: 'commit', commit: rootCommit });
+            await assert.rejects(gitService.getChanges());
+        } finally {
+            Host.init(new NodeHost({ workspaceRoots: [repositoryRoot], storagePath: repositoryRoot, log: { appendLine: () => undefined } }));
+            fs.rmSync(otherRoot, { recursive: true, force: true });
+        }
+    });
+
+    test('compares the two ends of a commit range', async () => {
+        gitService.setScope({ kind: 'range', base: rootCommit, head: 'feature' });
+
+        assert.deepStrictEqual(sorted(await gitService.getChanges()), ['add extra.py', 'delete util.py', 'modify calc.py']);
+    });
+
+    test('reports everything since branching, including uncommitted and untracked files', async () => {
+        write('calc.py', 'def add(a, b):\n    return 0\n');
+        write('new.py', 'Y = 2\n');
+        gitService.setScope({ kind: 'mergeBase', base: 'main' });
+
+        assert.deepStrictEqual(sorted(await gitService.getChanges()), ['add new.py', 'delete util.py', 'modify calc.py']);
+        assert.strictEqual(await gitService.getOriginalContent('util.py'), 'def noop():\n    pass\n');
+    });
+
+    test('detects files moved to paths that are staged or not yet added', async () => {
+        fs.mkdirSync(path.join(repositoryRoot, 'src'));
+        git('mv calc.py src/calc.py');
+        fs.renameSync(path.join(repositoryRoot, 'extra.py'), path.join(repositoryRoot, 'src/extra.py'));
+        write('new.py', 'Y = 2\n');
+
+        const renamedFiles = await gitService.getRenamedFiles();
+
+        assert.deepStrictEqual(Array.from(renamedFiles.entries()).sort(), [
+            ['calc.py', 'src/calc.py'],
+            ['extra.py', 'src/extra.py']
+        ]);
+    });
+
+    test('fails for revisions that do not exist', async () => {
+        gitService.setScope({ kind: 'range', base: 'no-such-branch', head: 'HEAD' });
+
+        await assert.rejects(gitService.getChanges());
+    });
+});
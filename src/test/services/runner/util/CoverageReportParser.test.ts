@@ -0,0 +1,136 @@
+// CoverageReportParser.test.ts - Tests for the lcov, Cobertura, coverage.py and istanbul parsers
+
+import * as assert from 'assert';
+import { CoverageReportParser } from '../../../../services/runner/util/CoverageReportParser';
+
+suite('CoverageReportParser', () => {
+    suite('lcov', () => {
+        test('merges records of the same file and keeps test names as contexts', () => {
+            const lcov = [
+                'TN:test_add',
+                'SF:src/calc.py',
+                'DA:1,1',
+                'DA:2,0',
+                'DA:3,4',
+                'end_of_record',
+                'TN:test_sub',
+                'SF:src/calc.py',
+                'DA:1,1',
+                'DA:5,1',
+                'end_of_record'
+            ].join('\n');
+
+            const [fileCoverage] = CoverageReportParser.parseLcov(lcov);
+
+            assert.strictEqual(fileCoverage.file, 'src/calc.py');
+            assert.deepStrictEqual(fileCoverage.lines, [1, 3, 5]);
+            assert.deepStrictEqual(fileCoverage.contexts, { test_add: [1, 3], test_sub: [1, 5] });
+        });
+
+        test('records no contexts without test names', () => {
+            const [fileCoverage] = CoverageReportParser.parseLcov('SF:/abs/a.js\r\nDA:7,2\r\nend_of_record\r\n');
+
+            assert.deepStrictEqual(fileCoverage, { file: '/abs/a.js', lines: [7] });
+        });
+    });
+
+    suite('Cobertura', () => {
+        test('parses covered lines per file and the source roots', () => {
+            const xml = `<?xml version="1.0" ?>
+<coverage line-rate="0.5">
+  <sources>
+    <source>/build/src</source>
+  </sources>
+  <packages><package name="calc"><classes>
+    <class name="calc.py" filename="calc/calc.py">
+      <lines>
+        <line number="3" hits="1"/>
+        <line number="1" hits="2"/>
+        <line number="2" hits="0"/>
+      </lines>
+    </class>
+    <class name="Other" filename="calc/calc.py">
+      <lines><line number="9" hits="1" branch="false"/></lines>
+    </class>
+  </classes></package></packages>
+</coverage>`;
+
+            const report = CoverageReportParser.parse(xml);
+
+            assert.ok(report);
+            assert.strictEqual(report.format, 'cobertura');
+            assert.deepStrictEqual(report.sourceRoots, ['/build/src']);
+            assert.deepStrictEqual(report.files, [{ file: 'calc/calc.py', lines: [1, 3, 9] }]);
+        });
+    });
+
+    suite('coverage.py JSON', () => {
+        test('parses executed lines and per-test contexts without the empty context', () => {
+            const json = JSON.stringify({
+                meta: { version: '7.3.2', show_contexts: true },
+                files: {
+                    'src/calc.py': {
+                        executed_lines: [1, 2, 4],
+                        contexts: {
+                            '1': [''],
+                            '2': ['tests.test_calc.test_add', 'tests.test_calc.test_sub'],
+                            '4': ['tests.test_calc.test_sub']
+                        }
+                    },
+                    'src/util.py': { executed_lines: [3] }
+                }
+            });
+
+            const report = CoverageReportParser.parse(json);
+
+            assert.ok(report);
+            assert.strictEqual(report.format, 'coverage.py');
+            assert.deepStrictEqual(report.files, [
+                {
+                    file: 'src/calc.py',
+                    lines: [1, 2, 4],
+                    contexts: { 'tests.test_calc.test_add': [2], 'tests.test_calc.test_sub': [2, 4] }
+                },
+                { file: 'src/util.py', lines: [3] }
+            ]);
+        });
+    });
+
+    suite('istanbul JSON', () => {
+        test('expands covered statements to their lines', () => {
+            const json = JSON.stringify({
+                '/repo/src/a.js': {
+                    path: '/repo/src/a.js',
+                    statementMap: {
+                        '0': { start: { line: 1, column: 0 }, end: { line: 3, column: 1 } },
+                        '1': { start: { line: 5, column: 0 }, end: { line: 5, column: 9 } }
+                    },
+                    s: { '0': 1, '1': 0 }
+                }
+            });
+
+            const report = CoverageReportParser.parse(json);
+
+            assert.ok(report);
+            assert.strictEqual(report.format, 'istanbul');
+            assert.deepStrictEqual(report.files, [{ file: '/repo/src/a.js', lines: [1, 2, 3] }]);
+        });
+    });
+
+    test('detects lcov by its records and rejects unknown content', () => {
+        assert.strictEqual(CoverageReportParser.parse('SF:a.py\nDA:1,1\nend_of_record')?.format, 'lcov');
+        assert.strictEqual(CoverageReportParser.parse('<html></html>'), null);
+        assert.strictEqual(CoverageReportParser.parse('{"unrelated": true}'), null);
+        assert.strictEqual(CoverageReportParser.parse('plain text'), null);
+    });
+
+    test('gets the test names and file of coverage contexts', () => {
+        assert.deepStrictEqual(CoverageReportParser.getContextTestNames('tests.test_calc.TestCalc.test_add'),
+            ['TestCalc.test_add', 'test_add']);
+        assert.deepStrictEqual(CoverageReportParser.getContextTestNames('tests/test_calc.py::TestCalc::test_add[2-3]|run'),
+            ['TestCalc.test_add', 'test_add']);
+        assert.deepStrictEqual(CoverageReportParser.getContextTestNames('tests/test_calc.py::test_add|run'), ['test_add']);
+        assert.strictEqual(CoverageReportParser.getContextTestFile('tests/test_calc.py::test_add|run'), 'tests/test_calc.py');
+        assert.strictEqual(CoverageReportParser.getContextTestFile('tests.test_calc.test_add'), undefined);
+    });
+});
@@ -0,0 +1,57 @@
+// GoTestJsonParser.test.ts - Tests for the go test -json parser
+
+import * as assert from 'assert';
+import { GoTestJsonParser } from '../../../../services/runner/util/GoTestJsonParser';
+
+suite('GoTestJsonParser', () => {
+    const event = (fields: Record<string, any>) => JSON.stringify({ Package: 'example.com/calc', ...fields });
+
+    test('parses top-level tests and subtests with their own durations', () => {
+        const output = [
+            event({ Action: 'run', Test: 'TestAdd' }),
+            event({ Action: 'run', Test: 'TestAdd/negative' }),
+            event({ Action: 'output', Test: 'TestAdd/negative', Output: '    calc_test.go:12: got 1\n' }),
+            event({ Action: 'fail', Test: 'TestAdd/negative', Elapsed: 0.01 }),
+            event({ Action: 'fail', Test: 'TestAdd', Elapsed: 0.03 }),
+            event({ Action: 'run', Test: 'TestSub' }),
+            event({ Action: 'pass', Test: 'TestSub', Elapsed: 0 }),
+            event({ Action: 'skip', Test: 'TestMul', Elapsed: 0 }),
+            event({ Action: 'fail', Elapsed: 0.05 })
+        ].join('\n');
+
+        const testCases = GoTestJsonParser.parse(output);
+
+        assert.deepStrictEqual(testCases.map(testCase => [testCase.name, testCase.status, testCase.time]), [
+            ['TestAdd', 'failed', 0.03],
+            ['TestAdd/negative', 'failed', 0.01],
+            ['TestSub', 'passed', 0],
+            ['TestMul', 'skipped', 0]
+        ]);
+        assert.strictEqual(testCases[1].output, '    calc_test.go:12: got 1\n');
+        assert.strictEqual(testCases[0].packageName, 'example.com/calc');
+    });
+
+    test('skips build output and malformed lines', () => {
+        const output = [
+            '# example.com/calc',
+            '{not json',
+            event({ Action: 'pass', Test: 'TestAdd', Elapsed: 0.2 })
+        ].join('\n');
+
+        assert.deepStrictEqual(GoTestJsonParser.parse(output).map(testCase => testCase.name), ['TestAdd']);
+    });
+
+    test('keeps tests of the same name in different packages apart', () => {
+        const output = [
+            event({ Action: 'pass', Test: 'TestAdd' }),
+            JSON.stringify({ Package: 'example.com/other', Action: 'fail', Test: 'TestAdd' })
+        ].join('\n');
+
+        assert.deepStrictEqual(GoTestJsonParser.parse(output).map(testCase => testCase.status), ['passed', 'failed']);
+    });
+
+    test('gets the top-level name of a subtest', () => {
+        assert.strictEqual(GoTestJsonParser.getTopLevelName('TestAdd/negative/zero'), 'TestAdd');
+        assert.strictEqual(GoTestJsonParser.getTopLevelName('TestAdd'), 'TestAdd');
+    });
+});
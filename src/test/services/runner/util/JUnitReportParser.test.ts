@@ -0,0 +1,61 @@
+// JUnitReportParser.test.ts - Tests for the JUnit XML report parser
+
+import * as assert from 'assert';
+import { JUnitReportParser } from '../../../../services/runner/util/JUnitReportParser';
+
+suite('JUnitReportParser', () => {
+    test('parses passed, failed, errored and skipped test cases in report order', () => {
+        const xml = `<?xml version="1.0" encoding="utf-8"?>
+<testsuites>
+  <testsuite name="pytest" tests="4">
+    <testcase classname="tests.test_math" name="test_add" file="tests/test_math.py" time="0.012" />
+    <testcase classname="tests.test_math" name="test_sub" time="0.5">
+      <failure message="assert 1 == 2">tests/test_math.py:10: AssertionError</failure>
+    </testcase>
+    <testcase classname="tests.test_math" name="test_div" time="0.1">
+      <error message="ZeroDivisionError" />
+    </testcase>
+    <testcase classname="tests.test_math" name="test_mul" time="0">
+      <skipped message="not ready" />
+    </testcase>
+  </testsuite>
+</testsuites>`;
+
+        const testCases = JUnitReportParser.parse(xml);
+
+        assert.deepStrictEqual(testCases.map(testCase => [testCase.name, testCase.status]), [
+            ['test_add', 'passed'],
+            ['test_sub', 'failed'],
+            ['test_div', 'failed'],
+            ['test_mul', 'skipped']
+        ]);
+        assert.strictEqual(testCases[0].className, 'tests.test_math');
+        assert.strictEqual(testCases[0].file, 'tests/test_math.py');
+        assert.strictEqual(testCases[0].time, 0.012);
+        assert.strictEqual(testCases[1].message, 'assert 1 == 2\ntests/test_math.py:10: AssertionError');
+        assert.strictEqual(testCases[2].message, 'ZeroDivisionError');
+        assert.strictEqual(testCases[3].message, 'not ready');
+    });
+
+    test('decodes entities in attributes and unwraps CDATA failure text', () => {
+        const xml = `<testcase classname="Suite" name="compares &lt;a&gt; &amp; &quot;b&quot;" time="1">
+  <failure message="expected &apos;x&apos;"><![CDATA[stack with <tags> & more]]></failure>
+</testcase>`;
+
+        const [testCase] = JUnitReportParser.parse(xml);
+
+        assert.strictEqual(testCase.name, 'compares <a> & "b"');
+        assert.strictEqual(testCase.message, "expected 'x'\nstack with <tags> & more");
+    });
+
+    test('treats a missing or invalid time as zero', () => {
+        const testCases = JUnitReportParser.parse('<testcase name="a"/><testcase name="b" time="n/a"/>');
+
+        assert.deepStrictEqual(testCases.map(testCase => testCase.time), [0, 0]);
+        assert.strictEqual(testCases[0].className, '');
+    });
+
+    test('decodes numeric character references', () => {
+        assert.strictEqual(JUnitReportParser.decodeEntities('&#65;&#x42;&amp;lt;'), 'AB&lt;');
+    });
+});
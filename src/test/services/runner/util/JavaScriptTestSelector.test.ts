@@ -0,0 +1,105 @@
+// JavaScriptTestSelector.test.ts - Tests for choosing the framework and the test titles to run in JavaScript projects
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JavaScriptTestSelector } from '../../../../services/runner/util/JavaScriptTestSelector';
+
+suite('JavaScriptTestSelector', () => {
+    suite('detectFramework', () => {
+        let projectRoot: string;
+
+        const write = (fileName: string, content: string) => fs.writeFileSync(path.join(projectRoot, fileName), content);
+
+        setup(() => {
+            projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sikg-jsproject-'));
+        });
+
+        teardown(() => {
+            fs.rmSync(projectRoot, { recursive: true, force: true });
+        });
+
+        test('uses the configured framework', () => {
+            write('jest.config.js', '');
+            assert.strictEqual(JavaScriptTestSelector.detectFramework(projectRoot, 'mocha'), 'mocha');
+        });
+
+        test('prefers config files over dependencies', () => {
+            write('package.json', JSON.stringify({ devDependencies: { jest: '^29.0.0' } }));
+            write('vitest.config.ts', '');
+            assert.strictEqual(JavaScriptTestSelector.detectFramework(projectRoot, 'auto'), 'vitest');
+        });
+
+        test('falls back to dependencies and the test script', () => {
+            write('package.json', JSON.stringify({ devDependencies: { chai: '^4.0.0' }, scripts: { test: 'mocha "test/**/*.js"' } }));
+            assert.strictEqual(JavaScriptTestSelector.detectFramework(projectRoot, 'auto'), 'mocha');
+
+            write('package.json', JSON.stringify({ devDependencies: { 'ts-jest': '^29.0.0' } }));
+            assert.strictEqual(JavaScriptTestSelector.detectFramework(projectRoot, 'auto'), 'jest');
+        });
+
+        test('detects nothing without a package.json or config file', () => {
+            assert.strictEqual(JavaScriptTestSelector.detectFramework(projectRoot, 'auto'), null);
+        });
+    });
+
+    suite('titles', () => {
+        const content = [
+            "import { add, sub } from '../src/calc';",
+            '',
+            "describe('Calc', () => {",
+            "    describe('add()', () => {",
+            "        it('adds two numbers', () => {",
+            '            expect(add(1, 2)).toBe(3);',
+            '        });',
+            '',
+            "        it('ignores \\'undefined\\'', () => {",
+            '            expect(add(1, undefined)).toBe(1);',
+            '        });',
+            '    });',
+            '',
+            "    test('subtracts (a - b)', () => {",
+            "        // a closing ) in a comment or ')' in a string does not end the test",
+            '        expect(sub(3, 1)).toBe(2);',
+            '    });',
+            '});',
+            '',
+            "it('runs outside a describe block', () => {",
+            '    expect(true).toBe(true);',
+            '});'
+        ].join('\n');
+
+        test('finds each block with the titles of the describe blocks around it', () => {
+            const blocks = JavaScriptTestSelector.parseBlocks(content);
+
+            assert.deepStrictEqual(blocks.map(block => [block.kind, block.titles, block.startLine, block.endLine]), [
+                ['suite', ['Calc'], 3, 18],
+                ['suite', ['Calc', 'add()'], 4, 12],
+                ['test', ['Calc', 'add()', 'adds two numbers'], 5, 7],
+                ['test', ['Calc', 'add()', "ignores 'undefined'"], 9, 11],
+                ['test', ['Calc', 'subtracts (a - b)'], 14, 17],
+                ['test', ['runs outside a describe block'], 20, 22]
+            ]);
+        });
+
+        test('selects the innermost blocks that mention a test name', () => {
+            const blocks = JavaScriptTestSelector.parseBlocks(content);
+
+            assert.deepStrictEqual(JavaScriptTestSelector.findTitles('sub(3', content, blocks), [['Calc', 'subtracts (a - b)']]);
+            assert.deepStrictEqual(JavaScriptTestSelector.findTitles('add(1', content, blocks), [
+                ['Calc', 'add()', 'adds two numbers'],
+                ['Calc', 'add()', "ignores 'undefined'"]
+            ]);
+            assert.deepStrictEqual(JavaScriptTestSelector.findTitles("'add()'", content, blocks), [['Calc', 'add()']]);
+            assert.deepStrictEqual(JavaScriptTestSelector.findTitles('calc', content, blocks), []);
+        });
+
+        test('builds a name pattern of the full titles with special characters escaped', () => {
+            assert.strictEqual(
+                JavaScriptTestSelector.buildNamePattern([['Calc', 'subtracts (a - b)'], ['Calc', 'add()']]),
+                'Calc subtracts \\(a - b\\)|Calc add\\(\\)'
+            );
+        });
+    });
+});
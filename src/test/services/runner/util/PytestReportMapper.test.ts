@@ -0,0 +1,54 @@
+// PytestReportMapper.test.ts - Tests for mapping pytest JUnit reports to the requested tests
+
+import * as assert from 'assert';
+import { JUnitReportParser } from '../../../../services/runner/util/JUnitReportParser';
+import { PytestReportMapper } from '../../../../services/runner/util/PytestReportMapper';
+
+suite('PytestReportMapper', () => {
+    const tests = [
+        { testId: 'test_add', testName: 'test_add' },
+        { testId: 'TestCalc.test_sub', testName: 'TestCalc.test_sub' }
+    ];
+
+    test('maps test cases by name, class and parametrization id', () => {
+        const xml = `<testsuites><testsuite name="pytest" tests="3">
+  <testcase classname="tests.test_calc" name="test_add[1-2]" time="0.1" />
+  <testcase classname="tests.test_calc" name="test_add[2-3]" time="0.2">
+    <failure message="assert 5 == 6" />
+  </testcase>
+  <testcase classname="tests.test_calc.TestCalc" name="test_sub" time="0.3" />
+</testsuite></testsuites>`;
+
+        const outcomes = PytestReportMapper.mapTestCases(JUnitReportParser.parse(xml), tests, 'tests/test_calc.py');
+
+        assert.deepStrictEqual(outcomes.map(outcome => [outcome.testId, outcome.status]), [
+            ['test_add', 'passed'],
+            ['test_add', 'failed'],
+            ['TestCalc.test_sub', 'passed']
+        ]);
+    });
+
+    test('fails every requested test when the module could not be collected', () => {
+        const xml = `<?xml version="1.0" encoding="utf-8"?><testsuites><testsuite name="pytest" errors="1" failures="0" skipped="0" tests="1" time="0.051">
+  <testcase classname="" name="tests.test_calc" time="0.000">
+    <error message="collection failure">ImportError while importing test module 'tests/test_calc.py'.
+E   ImportError: cannot import name 'sub' from 'calc'</error>
+  </testcase>
+</testsuite></testsuites>`;
+
+        const outcomes = PytestReportMapper.mapTestCases(JUnitReportParser.parse(xml), tests, 'tests/test_calc.py');
+
+        assert.deepStrictEqual(outcomes.map(outcome => [outcome.testId, outcome.status]), [
+            ['test_add', 'failed'],
+            ['TestCalc.test_sub', 'failed']
+        ]);
+        assert.ok(outcomes[0].errorMessage!.includes("cannot import name 'sub'"));
+    });
+
+    test('recognizes collection errors named relative to a different rootdir', () => {
+        const [testCase] = JUnitReportParser.parse('<testcase classname="" name="test_calc"><error message="collection failure" /></testcase>');
+
+        assert.ok(PytestReportMapper.isCollectionError(testCase, 'tests.test_calc'));
+        assert.ok(!PytestReportMapper.isCollectionError(testCase, 'tests.test_other'));
+    });
+});
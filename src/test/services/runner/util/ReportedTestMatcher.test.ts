@@ -0,0 +1,59 @@
+// ReportedTestMatcher.test.ts - Tests for mapping reported test cases to the test nodes of the graph
+
+import * as assert from 'assert';
+import { Node } from '../../../../sikg/GraphTypes';
+import { ReportedTestMatcher } from '../../../../services/runner/util/ReportedTestMatcher';
+import { TestReportParser } from '../../../../services/runner/util/TestReportParser';
+
+suite('ReportedTestMatcher', () => {
+    const testNode = (name: string, filePath: string): Node =>
+        ({ id: `${filePath}::${name}`, type: 'TestCase', name, filePath, properties: {} });
+
+    const testNodes = [
+        testNode('test_add', 'tests/test_calc.py'),
+        testNode('TestCalc.test_sub', 'tests/test_calc.py'),
+        testNode('test_other', 'tests/test_other.py')
+    ];
+
+    test('merges parametrized cases into one result per test node', () => {
+        const matcher = new ReportedTestMatcher(testNodes, {});
+
+        const matched = matcher.addTestCases(TestReportParser.parse(`<testsuite>
+  <testcase classname="tests.test_calc" name="test_add[1-2]" time="0.1" />
+  <testcase classname="tests.test_calc" name="test_add[2-3]" time="0.2"><failure message="assert 5 == 6" /></testcase>
+  <testcase classname="tests.test_calc.TestCalc" name="test_sub" time="0.3" />
+</testsuite>`));
+
+        assert.strictEqual(matched, 3);
+        assert.deepStrictEqual(matcher.getResults().map(result => [result.testId, result.status]), [
+            ['tests/test_calc.py::test_add', 'failed'],
+            ['tests/test_calc.py::TestCalc.test_sub', 'passed']
+        ]);
+    });
+
+    test('fails every test of a module that could not be collected', () => {
+        const matcher = new ReportedTestMatcher(testNodes, {});
+
+        const matched = matcher.addTestCases(TestReportParser.parse(`<testsuite errors="1" tests="1">
+  <testcase classname="" name="tests.test_calc" time="0.000">
+    <error message="collection failure">ImportError: cannot import name 'sub' from 'calc'</error>
+  </testcase>
+</testsuite>`));
+
+        assert.strictEqual(matched, 1);
+        assert.deepStrictEqual(matcher.getResults().map(result => [result.testId, result.status]), [
+            ['tests/test_calc.py::test_add', 'failed'],
+            ['tests/test_calc.py::TestCalc.test_sub', 'failed']
+        ]);
+        assert.ok(matcher.getResults()[0].errorMessage!.includes("cannot import name 'sub'"));
+    });
+
+    test('tells module errors apart from failed tests without a suite', () => {
+        const matcher = new ReportedTestMatcher(testNodes, {});
+
+        assert.deepStrictEqual(matcher.matchModuleError({ name: 'test_calc', suite: '', time: 0, status: 'failed' }), testNodes.slice(0, 2));
+        assert.deepStrictEqual(matcher.matchModuleError({ name: 'test_other', suite: '', time: 0, status: 'failed' }), []);
+        assert.deepStrictEqual(matcher.matchModuleError({ name: 'adds two numbers', suite: '', time: 0, status: 'failed' }), []);
+        assert.deepStrictEqual(matcher.matchModuleError({ name: 'tests.test_calc', suite: '', time: 0, status: 'passed' }), []);
+    });
+});
@@ -0,0 +1,81 @@
+// TestReportParser.test.ts - Tests for the format-detecting test report parser
+
+import * as assert from 'assert';
+import { TestReportParser } from '../../../../services/runner/util/TestReportParser';
+
+suite('TestReportParser', () => {
+    test('parses Jest and Vitest JSON reports', () => {
+        const report = {
+            numTotalTests: 3,
+            testResults: [{
+                name: '/repo/src/math.test.ts',
+                assertionResults: [
+                    { ancestorTitles: ['math', 'add'], title: 'adds numbers', status: 'passed', duration: 12 },
+                    {
+                        ancestorTitles: ['math'],
+                        title: 'divides',
+                        status: 'failed',
+                        duration: 3,
+                        failureMessages: ['\u001b[31mExpected 1\u001b[39m']
+                    },
+                    { ancestorTitles: [], title: 'later', status: 'todo' }
+                ]
+            }]
+        };
+
+        const testCases = TestReportParser.parse(JSON.stringify(report));
+
+        assert.deepStrictEqual(testCases, [
+            { name: 'adds numbers', suite: 'math add', file: '/repo/src/math.test.ts', time: 0.012, status: 'passed', message: undefined },
+            { name: 'divides', suite: 'math', file: '/repo/src/math.test.ts', time: 0.003, status: 'failed', message: 'Expected 1' },
+            { name: 'later', suite: '', file: '/repo/src/math.test.ts', time: 0, status: 'skipped', message: undefined }
+        ]);
+    });
+
+    test('parses Mocha JSON reports', () => {
+        const report = {
+            stats: { tests: 3 },
+            tests: [
+                { title: 'adds', fullTitle: 'Calculator adds', file: 'test/calc.js', duration: 5, err: {} },
+                { title: 'divides', fullTitle: 'Calculator divides', duration: 1, err: { message: 'boom', stack: 'Error: boom' } },
+                { title: 'later', fullTitle: 'Calculator later', err: {} }
+            ],
+            pending: [{ title: 'later', fullTitle: 'Calculator later' }]
+        };
+
+        const testCases = TestReportParser.parse(JSON.stringify(report));
+
+        assert.deepStrictEqual(testCases.map(testCase => [testCase.name, testCase.suite, testCase.status]), [
+            ['adds', 'Calculator', 'passed'],
+            ['divides', 'Calculator', 'failed'],
+            ['later', 'Calculator', 'skipped']
+        ]);
+        assert.strictEqual(testCases[0].time, 0.005);
+        assert.strictEqual(testCases[1].message, 'Error: boom');
+    });
+
+    test('detects JUnit XML and TRX reports', () => {
+        const junit = TestReportParser.parse('<testsuite><testcase classname="tests.test_a" name="test_x" time="1"/></testsuite>');
+        const trx = TestReportParser.parse('<TestRun><UnitTestResult testId="1" testName="X" outcome="Passed"/></TestRun>');
+
+        assert.deepStrictEqual(junit.map(testCase => [testCase.suite, testCase.name, testCase.status]), [['tests.test_a', 'test_x', 'passed']]);
+        assert.deepStrictEqual(trx.map(testCase => [testCase.name, testCase.status]), [['X', 'passed']]);
+    });
+
+    test('reports only top-level Go tests, with the output of failures', () => {
+        const output = [
+            { Action: 'output', Package: 'calc', Test: 'TestAdd', Output: 'calc_test.go:5: wrong\n' },
+            { Action: 'fail', Package: 'calc', Test: 'TestAdd/negative', Elapsed: 0.1 },
+            { Action: 'fail', Package: 'calc', Test: 'TestAdd', Elapsed: 0.2 }
+        ].map(event => JSON.stringify(event)).join('\n');
+
+        assert.deepStrictEqual(TestReportParser.parse(output), [
+            { name: 'TestAdd', suite: 'calc', time: 0.2, status: 'failed', message: 'calc_test.go:5: wrong' }
+        ]);
+    });
+
+    test('returns no test cases for unknown content', () => {
+        assert.deepStrictEqual(TestReportParser.parse('not a report'), []);
+        assert.deepStrictEqual(TestReportParser.parse('{"coverage": {}}'), []);
+    });
+});
@@ -0,0 +1,56 @@
+// TrxReportParser.test.ts - Tests for the TRX report parser
+
+import * as assert from 'assert';
+import { TrxReportParser } from '../../../../services/runner/util/TrxReportParser';
+
+suite('TrxReportParser', () => {
+    const trx = `<?xml version="1.0" encoding="utf-8"?>
+<TestRun>
+  <Results>
+    <UnitTestResult testId="a1" testName="Adds" outcome="Passed" duration="00:00:01.5000000" />
+    <UnitTestResult testId="b2" testName="Calc.Tests.CalculatorTests.Divides(0)" outcome="Failed" duration="00:01:02.2500000">
+      <Output>
+        <ErrorInfo>
+          <Message>Expected &lt;1&gt; but was &lt;0&gt;</Message>
+          <StackTrace>at CalculatorTests.Divides()</StackTrace>
+        </ErrorInfo>
+      </Output>
+    </UnitTestResult>
+    <UnitTestResult testId="c3" testName="Ignored" outcome="NotExecuted" />
+  </Results>
+  <TestDefinitions>
+    <UnitTest name="Adds" id="a1">
+      <TestMethod codeBase="Calc.Tests.dll" className="Calc.Tests.CalculatorTests, Calc.Tests" name="Adds" />
+    </UnitTest>
+    <UnitTest name="Divides" id="b2">
+      <TestMethod codeBase="Calc.Tests.dll" className="Calc.Tests.CalculatorTests" name="Divides" />
+    </UnitTest>
+  </TestDefinitions>
+</TestRun>`;
+
+    test('parses results with the class of their test definition', () => {
+        const testCases = TrxReportParser.parse(trx);
+
+        assert.deepStrictEqual(testCases.map(testCase => [testCase.name, testCase.className, testCase.status]), [
+            ['Adds', 'Calc.Tests.CalculatorTests', 'passed'],
+            ['Calc.Tests.CalculatorTests.Divides(0)', 'Calc.Tests.CalculatorTests', 'failed'],
+            ['Ignored', '', 'skipped']
+        ]);
+    });
+
+    test('parses durations into seconds and joins message and stack trace', () => {
+        const testCases = TrxReportParser.parse(trx);
+
+        assert.strictEqual(testCases[0].time, 1.5);
+        assert.strictEqual(testCases[1].time, 62.25);
+        assert.strictEqual(testCases[2].time, 0);
+        assert.strictEqual(testCases[1].message, 'Expected <1> but was <0>\nat CalculatorTests.Divides()');
+        assert.strictEqual(testCases[0].message, undefined);
+    });
+
+    test('treats unknown outcomes as failures', () => {
+        const [testCase] = TrxReportParser.parse('<UnitTestResult testId="x" testName="Times out" outcome="Timeout" />');
+
+        assert.strictEqual(testCase.status, 'failed');
+    });
+});
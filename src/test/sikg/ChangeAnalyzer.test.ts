@@ -0,0 +1,142 @@
+// ChangeAnalyzer.test.ts - Tests for turning file changes into semantic changes, run against a temporary repository
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { ChangeAnalyzer } from '../../sikg/ChangeAnalyzer';
+import { SIKGManager } from '../../sikg/SIKGManager';
+import { GitService } from '../../services/GitService';
+import { ConfigManager } from '../../utils/ConfigManager';
+import { Host } from '../../host/SIKGHost';
+import { NodeHost } from '../../host/NodeHost';
+
+suite('ChangeAnalyzer', () => {
+    let repositoryRoot: string;
+    let storagePath: string;
+    let manager: SIKGManager;
+    let gitService: GitService;
+    let analyzer: ChangeAnalyzer;
+
+    const git = (command: string) =>
+        execSync(`git -c user.name=sikg -c user.email=sikg@example.com ${command}`, { cwd: repositoryRoot, stdio: 'ignore' });
+    const write = (filePath: string, content: string) => fs.writeFileSync(path.join(repositoryRoot, filePath), content);
+
+    setup(async () => {
+        repositoryRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'sikg-git-')));
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'sikg-storage-'));
+        write('calc.py', 'def add(a, b):\n    return a + b\n\n\ndef double(a):\n    return add(a, a)\n');
+        write('test_calc.py', 'from calc import add\n\n\ndef test_add():\n    assert add(1, 2) == 3\n');
+        git('init -q -b main');
+        git('add .');
+        git('commit -q -m root');
+
+        const host = new NodeHost({ workspaceRoots: [repositoryRoot], storagePath, log: { appendLine: () => undefined } });
+        Host.init(host);
+        const configManager = new ConfigManager(host.configuration);
+        manager = new SIKGManager(host, configManager);
+        await manager.initialize();
+        gitService = new GitService();
+        analyzer = new ChangeAnalyzer(manager, gitService, configManager);
+    });
+
+    teardown(async () => {
+        await manager.dispose();
+        fs.rmSync(repositoryRoot, { recursive: true, force: true });
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    const analyzeNewFile = async () => {
+        const changes = await analyzer.analyzeChanges(await gitService.getChanges());
+        const names = changes.map(change => manager.getNode(change.nodeId)!.name);
+
+        // The file was created after the graph was built, so its nodes come from parsing it on the fly
+        assert.ok(manager.getNodesByFilePath('shapes.py').length > 0);
+        assert.ok(names.includes('area'));
+        assert.ok(names.includes('perimeter'));
+        for (const change of changes) {
+            assert.strictEqual(change.semanticType, 'FEATURE_ADDITION');
+            assert.strictEqual(change.changeDetails.fileAdded, true);
+            assert.strictEqual(change.changeDetails.filePath, 'shapes.py');
+        }
+    };
+
+    suite('new files', () => {
+        setup(() => {
+            write('shapes.py', 'def area(w, h):\n    return w * h\n\n\ndef perimeter(w, h):\n    return 2 * (w + h)\n');
+        });
+
+        test('treats an untracked file as a whole-file feature addition', async () => {
+            await analyzeNewFile();
+        });
+
+        test('treats a file added to the index as a whole-file feature addition', async () => {
+            git('add shapes.py');
+
+            await analyzeNewFile();
+        });
+    });
+
+    test('classifies only the edited elements of a tracked file', async () => {
+        write('calc.py', 'def add(a, b):\n    return b + a\n\n\ndef double(a):\n    return add(a, a)\n');
+
+        const changes = await analyzer.analyzeChanges(await gitService.getChanges());
+
+        assert.ok(changes.length > 0);
+        assert.ok(changes.every(change => !change.changeDetails.fileAdded));
+        assert.ok(changes.some(change => manager.getNode(change.nodeId)!.name === 'add'));
+    });
+
+    suite('removed code', () => {
+        const describe = (nodeId: string) => `${manager.getNode(nodeId)!.type} ${manager.getNode(nodeId)!.name}`;
+
+        test('reports a deleted function as a REMOVAL that impacts the code that called it', async () => {
+            write('calc.py', 'def double(a):\n    return add(a, a)\n');
+            await manager.refreshChangedFiles();
+
+            const changes = await analyzer.analyzeChanges(await gitService.getChanges());
+            const removals = changes.filter(change => change.semanticType === 'REMOVAL');
+
+            assert.deepStrictEqual(removals.map(change => change.changeDetails.elementName), ['add']);
+            const [removal] = removals;
+            assert.strictEqual(removal.initialImpactScore, 1.0);
+            assert.deepStrictEqual(removal.changeDetails.changeLocation, { startLine: 1, endLine: 2 });
+            // The test function calls add, so the test it defines is impacted too
+            assert.deepStrictEqual(removal.changeDetails.dependentIds.map(describe).sort(),
+                ['CodeElement double', 'CodeElement test_add', 'TestCase test_add']);
+        });
+
+        test('reports every element of a deleted file', async () => {
+            fs.unlinkSync(path.join(repositoryRoot, 'calc.py'));
+            await manager.refreshChangedFiles();
+
+            const changes = await analyzer.analyzeChanges(await gitService.getChanges());
+
+            assert.deepStrictEqual(changes.map(change => change.changeDetails.elementName).sort(), ['add', 'calc', 'double']);
+            assert.ok(changes.every(change => change.semanticType === 'REMOVAL' && change.changeDetails.fileDeleted));
+            // Callers that were removed with the file are left out
+            const removedAdd = changes.find(change => change.changeDetails.elementName === 'add')!;
+            assert.deepStrictEqual(removedAdd.changeDetails.dependentIds.map(describe).sort(), ['CodeElement test_add', 'TestCase test_add']);
+        });
+
+        test('finds what depended on a function removed before the graph was loaded', async () => {
+            write('calc.py', 'def double(a):\n    return add(a, a)\n');
+            await manager.refreshChangedFiles();
+            await manager.save();
+
+            // As when the graph is built and the changes are analyzed by separate runs
+            await manager.dispose();
+            const host = Host.get();
+            const configManager = new ConfigManager(host.configuration);
+            manager = new SIKGManager(host, configManager);
+            await manager.initialize();
+            analyzer = new ChangeAnalyzer(manager, gitService, configManager);
+
+            const [removal] = (await analyzer.analyzeChanges(await gitService.getChanges()))
+                .filter(change => change.semanticType === 'REMOVAL');
+            assert.strictEqual(removal.changeDetails.elementName, 'add');
+            assert.ok(removal.changeDetails.dependentIds.map(describe).includes('TestCase test_add'));
+        });
+    });
+});
@@ -0,0 +1,148 @@
+// GraphIntegrityChecker.test.ts - Tests for finding and repairing graph inconsistencies
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GraphIntegrityChecker } from '../../sikg/GraphIntegrityChecker';
+import { SIKGManager } from '../../sikg/SIKGManager';
+import { ConfigManager } from '../../utils/ConfigManager';
+import { Node } from '../../sikg/GraphTypes';
+import { Host } from '../../host/SIKGHost';
+import { NodeHost } from '../../host/NodeHost';
+
+suite('GraphIntegrityChecker', () => {
+    let workspaceRoot: string;
+    let storagePath: string;
+    let manager: SIKGManager;
+    let checker: GraphIntegrityChecker;
+
+    const codeNode = (id: string, name: string, filePath: string): Node =>
+        ({ id, type: 'CodeElement', name, filePath, properties: { kind: 'function' } });
+
+    const nodesNamed = (name: string, filePath: string) =>
+        manager.getNodesByFilePath(filePath).filter(node => node.name === name);
+
+    setup(async () => {
+        workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sikg-workspace-'));
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'sikg-storage-'));
+        fs.writeFileSync(path.join(workspaceRoot, 'calc.py'), 'def add(a, b):\n    return a + b\n\n\ndef sub(a, b):\n    return add(a, -b)\n');
+        fs.writeFileSync(path.join(workspaceRoot, 'util.py'), 'def fmt(value):\n    return str(value)\n');
+        fs.writeFileSync(path.join(workspaceRoot, 'test_calc.py'), 'from calc import add\n\n\ndef test_add():\n    assert add(1, 2) == 3\n');
+
+        const host = new NodeHost({ workspaceRoots: [workspaceRoot], storagePath, log: { appendLine: () => undefined } });
+        Host.init(host);
+        manager = new SIKGManager(host, new ConfigManager(host.configuration));
+        await manager.initialize();
+        checker = new GraphIntegrityChecker(manager);
+    });
+
+    teardown(async () => {
+        await manager.dispose();
+        fs.rmSync(workspaceRoot, { recursive: true, force: true });
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    suite('dangling edges', () => {
+        const addDanglingCall = (targetName: string) => {
+            const [sub] = nodesNamed('sub', 'calc.py');
+            const edge = { source: sub.id, target: 'function_missing', type: 'CALLS', weight: 0.8, properties: { targetName } };
+            manager.addEdge(edge);
+            return manager.getEdgeId(edge);
+        };
+
+        test('relinks to the only node with the target name in the source file', () => {
+            manager.addNode(codeNode('fmt_elsewhere', 'fmt', 'test_calc.py'));
+            manager.addNode(codeNode('fmt_here', 'fmt', 'calc.py'));
+            const edgeId = addDanglingCall('fmt');
+
+            const issue = checker.check().issues.find(candidate => candidate.edgeId === edgeId)!;
+
+            assert.strictEqual(issue.type, 'DANGLING_EDGE');
+            assert.strictEqual(issue.repair, 'relink');
+            assert.strictEqual(issue.relinkTargetId, 'fmt_here');
+        });
+
+        test('relinks to the only node with the target name in the workspace', () => {
+            const edgeId = addDanglingCall('fmt');
+
+            const issue = checker.check().issues.find(candidate => candidate.edgeId === edgeId)!;
+
+            assert.strictEqual(issue.repair, 'relink');
+            assert.strictEqual(issue.relinkTargetId, nodesNamed('fmt', 'util.py')[0].id);
+        });
+
+        test('drops edges whose target name is ambiguous or unknown', () => {
+            manager.addNode(codeNode('fmt_other', 'fmt', 'test_calc.py'));
+            const ambiguous = addDanglingCall('fmt');
+            const unknown = addDanglingCall('missing');
+
+            const issues = checker.check().issues;
+
+            assert.strictEqual(issues.find(issue => issue.edgeId === ambiguous)!.repair, 'drop');
+            assert.strictEqual(issues.find(issue => issue.edgeId === unknown)!.repair, 'drop');
+        });
+
+        test('repair points relinked edges at their new target and removes dropped ones', async () => {
+            const relinked = addDanglingCall('fmt');
+            const [sub] = nodesNamed('sub', 'calc.py');
+            const selfLoop = { source: sub.id, target: sub.id, type: 'CALLS', weight: 0.8, properties: {} };
+            manager.addEdge(selfLoop);
+            const report = checker.check();
+            report.issues = report.issues.filter(issue => issue.edgeId === relinked || issue.edgeId === manager.getEdgeId(selfLoop));
+
+            const result = await checker.repair(report);
+
+            assert.deepStrictEqual(result, { edgesDropped: 1, edgesRelinked: 1, nodesDropped: 0, filesReparsed: [] });
+            assert.strictEqual(manager.getEdge(relinked), undefined);
+            assert.strictEqual(manager.getEdge(manager.getEdgeId(selfLoop)), undefined);
+            assert.strictEqual(manager.getEdgesBetween(sub.id, nodesNamed('fmt', 'util.py')[0].id)[0].type, 'CALLS');
+        });
+    });
+
+    test('reports self-loops', () => {
+        const [add] = nodesNamed('add', 'calc.py');
+        manager.addEdge({ source: add.id, target: add.id, type: 'CALLS', weight: 0.8, properties: {} });
+
+        const issue = checker.check().issues.find(candidate => candidate.type === 'SELF_LOOP' && candidate.nodeIds[0] === add.id)!;
+
+        assert.strictEqual(issue.filePath, 'calc.py');
+        assert.strictEqual(issue.repair, 'drop');
+    });
+
+    test('re-parses files with duplicate symbols or tests without TESTS edges', async () => {
+        manager.addNode(codeNode('function_stale', 'add', 'calc.py'));
+        manager.addNode({ id: 'test_stale', type: 'TestCase', name: 'test_old', filePath: 'test_calc.py', properties: {} });
+        const report = checker.check();
+
+        const duplicate = report.issues.find(issue => issue.type === 'DUPLICATE_SYMBOL')!;
+        assert.strictEqual(duplicate.filePath, 'calc.py');
+        assert.strictEqual(duplicate.repair, 'reparse');
+        assert.ok(duplicate.nodeIds.includes('function_stale'));
+        const orphaned = report.issues.find(issue => issue.type === 'ORPHANED_TEST' && issue.nodeIds[0] === 'test_stale')!;
+        assert.strictEqual(orphaned.repair, 'reparse');
+
+        const result = await checker.repair({ ...report, issues: [duplicate, orphaned] });
+
+        assert.deepStrictEqual(result.filesReparsed, ['calc.py', 'test_calc.py']);
+        assert.strictEqual(manager.getNode('function_stale'), undefined);
+        assert.strictEqual(manager.getNode('test_stale'), undefined);
+        assert.strictEqual(nodesNamed('add', 'calc.py').length, 1);
+        assert.strictEqual(nodesNamed('test_add', 'test_calc.py').filter(node => node.type === 'TestCase').length, 1);
+    });
+
+    test('drops the nodes of files that no longer exist', async () => {
+        const utilNodes = manager.getCodeNodes().filter(node => node.filePath === 'util.py').length;
+        fs.unlinkSync(path.join(workspaceRoot, 'util.py'));
+        const report = checker.check();
+
+        const missing = report.issues.find(issue => issue.type === 'MISSING_FILE')!;
+        assert.strictEqual(missing.filePath, 'util.py');
+        assert.strictEqual(missing.nodeIds.length, utilNodes);
+
+        const result = await checker.repair({ ...report, issues: [missing] });
+
+        assert.strictEqual(result.nodesDropped, utilNodes);
+        assert.deepStrictEqual(manager.getNodesByFilePath('util.py'), []);
+    });
+});
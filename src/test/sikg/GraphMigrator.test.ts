@@ -0,0 +1,105 @@
+// GraphMigrator.test.ts - Tests for the migration of stored graphs to the current schema
+
+import * as assert from 'assert';
+import { GraphMigrator, GRAPH_SCHEMA_VERSION } from '../../sikg/GraphMigrator';
+import { CodeParser } from '../../sikg/CodeParser';
+import { TestParser } from '../../sikg/TestParser';
+
+suite('GraphMigrator', () => {
+    const unversionedGraph = () => ({
+        nodes: [
+            ['module_1', { id: 'module_1', name: 'calc', type: 'CodeElement', filePath: 'calc.py', properties: { kind: 'module' } }],
+            ['function_1', { id: 'function_1', name: 'add', type: 'CodeElement', filePath: 'calc.py', properties: { kind: 'function' } }]
+        ],
+        edges: [
+            ['a-CALLS-b', { source: 'a', target: 'b', type: 'CALLS', weight: 1, properties: { source: 'lsp' } }],
+            ['c-TESTS-d', { source: 'c', target: 'd', type: 'TESTS', weight: 0.5, properties: { confidence: 'low' } }],
+            ['e-TESTS-f', { source: 'e', target: 'f', type: 'TESTS', weight: 0.8, properties: {} }]
+        ],
+        fileManifest: [['calc.py', { codeHash: 'c1', testHash: 't1', lspHash: 'c1' }]]
+    });
+
+    test('treats graphs without a schema version as version 1', () => {
+        assert.strictEqual(GraphMigrator.getSchemaVersion({ nodes: [] }), 1);
+        assert.strictEqual(GraphMigrator.getSchemaVersion(null), 1);
+        assert.strictEqual(GraphMigrator.getSchemaVersion({ schemaVersion: 4 }), 4);
+    });
+
+    test('migrates an unversioned graph to the current schema version', () => {
+        const migrated = GraphMigrator.migrate(unversionedGraph());
+
+        assert.ok(migrated);
+        assert.strictEqual(migrated.schemaVersion, GRAPH_SCHEMA_VERSION);
+        assert.deepStrictEqual(migrated.parserVersions, { code: 1, test: 1 });
+        assert.strictEqual(migrated.createdBy, 'unknown');
+        assert.strictEqual(migrated.nodes.length, 2);
+        assert.strictEqual(migrated.edges.length, 3);
+    });
+
+    test('forgets content hashes so that nodes get body fingerprints (v2 to v3)', () => {
+        const migrated = GraphMigrator.migrate({ ...unversionedGraph(), schemaVersion: 2, parserVersions: { code: 1, test: 1 } });
+
+        assert.ok(migrated);
+        const [[filePath, entry]] = migrated.fileManifest;
+        assert.strictEqual(filePath, 'calc.py');
+        assert.strictEqual(entry.codeHash, undefined);
+        assert.strictEqual(entry.testHash, undefined);
+        assert.strictEqual(entry.lspHash, 'c1');
+    });
+
+    test('gives modules their own node type (v3 to v4)', () => {
+        const migrated = GraphMigrator.migrate({ ...unversionedGraph(), schemaVersion: 3 });
+
+        assert.ok(migrated);
+        assert.deepStrictEqual(migrated.nodes.map(([, node]) => node.type), ['Module', 'CodeElement']);
+    });
+
+    test('turns edge sources and confidence into provenance (v4 to v5)', () => {
+        const migrated = GraphMigrator.migrate({ ...unversionedGraph(), schemaVersion: 4 });
+
+        assert.ok(migrated);
+        const provenances = migrated.edges.map(([, edge]) => edge.provenance!);
+        assert.deepStrictEqual(provenances.map(provenance => [provenance.producer, provenance.confidence]), [
+            ['lsp', 0.9],
+            ['unknown', 0.35],
+            ['unknown', 0.7]
+        ]);
+        assert.ok(provenances.every(provenance => !isNaN(Date.parse(provenance.createdAt))));
+        // The old confidence property lives on only in the provenance
+        assert.strictEqual(migrated.edges[1][1].properties.confidence, undefined);
+    });
+
+    test('forgets content hashes so that re-parsing changes node IDs (v5 to v7)', () => {
+        for (const schemaVersion of [5, 6]) {
+            const migrated = GraphMigrator.migrate({ ...unversionedGraph(), schemaVersion, parserVersions: { code: 4, test: 3 } });
+
+            assert.ok(migrated);
+            const [[filePath, entry]] = migrated.fileManifest;
+            assert.strictEqual(filePath, 'calc.py');
+            assert.strictEqual(entry.codeHash, undefined);
+            assert.strictEqual(entry.testHash, undefined);
+            assert.strictEqual(entry.lspHash, 'c1');
+        }
+    });
+
+    test('leaves graphs of the current schema version unchanged', () => {
+        const graph = { ...unversionedGraph(), schemaVersion: GRAPH_SCHEMA_VERSION };
+
+        assert.strictEqual(GraphMigrator.migrate(graph), graph);
+    });
+
+    test('refuses graphs written by a newer schema version', () => {
+        assert.strictEqual(GraphMigrator.migrate({ ...unversionedGraph(), schemaVersion: GRAPH_SCHEMA_VERSION + 1 }), null);
+    });
+
+    test('reports which parsers changed since a graph was saved', () => {
+        const migrated = GraphMigrator.migrate({
+            ...unversionedGraph(),
+            schemaVersion: GRAPH_SCHEMA_VERSION,
+            parserVersions: { code: CodeParser.VERSION, test: TestParser.VERSION - 1 }
+        });
+
+        assert.ok(migrated);
+        assert.deepStrictEqual(GraphMigrator.getOutdatedParsers(migrated), { code: false, test: true });
+    });
+});
@@ -0,0 +1,152 @@
+// GraphStorage.test.ts - Tests for storing one graph per workspace, written atomically with a backup
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { GraphStorage } from '../../sikg/GraphStorage';
+
+suite('GraphStorage', () => {
+    const workspaceRoot = path.join(os.tmpdir(), 'sikg-workspace');
+    const otherRoot = path.join(os.tmpdir(), 'sikg-other-workspace');
+    let storagePath: string;
+    let storage: GraphStorage;
+
+    const writeGraphFile = (root: string, graph: any) => fs.writeFileSync(storage.getGraphPath(root), JSON.stringify(graph));
+
+    setup(() => {
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'sikg-storage-'));
+        storage = new GraphStorage(storagePath);
+    });
+
+    teardown(() => {
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    test('moves the legacy global graph to the first workspace without a graph', async () => {
+        fs.writeFileSync(path.join(storagePath, 'sikg-graph.json'), JSON.stringify({ legacy: true }));
+
+        assert.ok(storage.adoptLegacyGraph(workspaceRoot));
+        assert.ok(!storage.adoptLegacyGraph(otherRoot));
+        assert.ok(!fs.existsSync(path.join(storagePath, 'sikg-graph.json')));
+        assert.deepStrictEqual(await storage.readGraph(workspaceRoot), { legacy: true });
+        assert.ok(!storage.hasGraph(otherRoot));
+    });
+
+    test('keeps the graphs of different workspace roots apart', () => {
+        assert.notStrictEqual(storage.getGraphId(workspaceRoot), storage.getGraphId(otherRoot));
+        assert.strictEqual(storage.getGraphId(workspaceRoot + path.sep), storage.getGraphId(workspaceRoot));
+        assert.notStrictEqual(storage.getGraphPath(workspaceRoot), storage.getGraphPath(otherRoot));
+        assert.strictEqual(path.dirname(path.dirname(storage.getGraphPath(workspaceRoot))), path.join(storagePath, 'graphs'));
+    });
+
+    test('writes plain and compressed graphs that read back the same', async () => {
+        await storage.writeGraph(workspaceRoot, { nodes: [['a', {}]], generation: 1 }, false);
+        assert.deepStrictEqual(await storage.readGraph(workspaceRoot), { nodes: [['a', {}]], generation: 1 });
+
+        await storage.writeGraph(workspaceRoot, { generation: 2 }, true);
+        const content = fs.readFileSync(storage.getGraphPath(workspaceRoot));
+        assert.deepStrictEqual(JSON.parse(zlib.gunzipSync(content).toString('utf8')), { generation: 2 });
+        assert.deepStrictEqual(await storage.readGraph(workspaceRoot), { generation: 2 });
+    });
+
+    test('keeps the previous file as the backup and leaves no temporary file', async () => {
+        await storage.writeGraph(workspaceRoot, { generation: 1 }, false);
+        await storage.writeGraph(workspaceRoot, { generation: 2 }, false);
+
+        const graphPath = storage.getGraphPath(workspaceRoot);
+        assert.deepStrictEqual(JSON.parse(fs.readFileSync(graphPath + '.bak', 'utf8')), { generation: 1 });
+        assert.ok(!fs.existsSync(graphPath + '.tmp'));
+    });
+
+    test('recovers from the backup when the graph file is corrupt or missing', async () => {
+        await storage.writeGraph(workspaceRoot, { generation: 1 }, false);
+        await storage.writeGraph(workspaceRoot, { generation: 2 }, false);
+        const graphPath = storage.getGraphPath(workspaceRoot);
+
+        fs.writeFileSync(graphPath, '{"truncated":');
+        assert.deepStrictEqual(await storage.readGraph(workspaceRoot), { generation: 1 });
+
+        fs.unlinkSync(graphPath);
+        assert.ok(storage.hasGraph(workspaceRoot));
+        assert.deepStrictEqual(await storage.readGraph(workspaceRoot), { generation: 1 });
+    });
+
+    test('reads nothing when neither the graph nor its backup can be read', async () => {
+        assert.strictEqual(await storage.readGraph(workspaceRoot), null);
+
+        const graphPath = storage.getGraphPath(workspaceRoot);
+        fs.writeFileSync(graphPath, 'not json');
+        fs.writeFileSync(graphPath + '.bak', Buffer.from([0x1f, 0x8b, 0x00]));
+        assert.strictEqual(await storage.readGraph(workspaceRoot), null);
+    });
+
+    test('stores learned state next to the graph with its own backup', async () => {
+        await storage.writeLearnedState(workspaceRoot, { nodes: [], edges: [] }, false);
+        await storage.writeLearnedState(workspaceRoot, { nodes: [['t', {}]], edges: [] }, true);
+
+        assert.deepStrictEqual(await storage.readLearnedState(workspaceRoot), { nodes: [['t', {}]], edges: [] });
+        assert.strictEqual(await storage.readGraph(workspaceRoot), null);
+    });
+
+    test('lists stored graphs with their metadata and the legacy global graph', () => {
+        writeGraphFile(workspaceRoot, { nodes: [] });
+        storage.writeMetadata(workspaceRoot, 3, 2);
+        writeGraphFile(otherRoot, { nodes: [] });
+        fs.writeFileSync(path.join(storagePath, 'sikg-graph.json'), '{}');
+        // Directories without a graph file are not graphs
+        fs.mkdirSync(path.join(storagePath, 'graphs', 'empty'));
+
+        const graphs = storage.listGraphs();
+
+        assert.strictEqual(graphs.length, 3);
+        const first = graphs.find(graph => graph.id === storage.getGraphId(workspaceRoot))!;
+        assert.strictEqual(first.workspaceRoot, workspaceRoot);
+        assert.strictEqual(first.workspaceName, 'sikg-workspace');
+        assert.strictEqual(first.nodeCount, 3);
+        assert.strictEqual(first.edgeCount, 2);
+        assert.strictEqual(first.legacy, false);
+        const other = graphs.find(graph => graph.id === storage.getGraphId(otherRoot))!;
+        assert.strictEqual(other.workspaceName, other.id);
+        assert.strictEqual(graphs.filter(graph => graph.legacy).length, 1);
+    });
+
+    test('deletes a stored graph with its directory and the legacy graph file', () => {
+        writeGraphFile(workspaceRoot, { nodes: [] });
+        storage.writeMetadata(workspaceRoot, 0, 0);
+        fs.writeFileSync(path.join(storagePath, 'sikg-graph.json'), '{}');
+
+        for (const graph of storage.listGraphs()) {
+            storage.deleteGraph(graph);
+        }
+
+        assert.deepStrictEqual(storage.listGraphs(), []);
+        assert.ok(!fs.existsSync(path.join(storagePath, 'graphs', storage.getGraphId(workspaceRoot), 'workspace.json')));
+    });
+
+    test('reports node and edge counts by type', () => {
+        writeGraphFile(workspaceRoot, {
+            nodes: [
+                ['a', { type: 'CodeElement', filePath: 'a.py' }],
+                ['b', { type: 'CodeElement', filePath: 'a.py' }],
+                ['t', { type: 'TestCase', filePath: 'test_a.py' }]
+            ],
+            edges: [['t-TESTS-a', { type: 'TESTS' }]]
+        });
+        const [graph] = storage.listGraphs();
+
+        const report = storage.formatGraphReport(graph);
+
+        assert.ok(report.includes('3 nodes and 1 edges from 2 files.'));
+        assert.ok(report.includes('| CodeElement | 2 |'));
+        assert.ok(report.includes('| TESTS | 1 |'));
+    });
+
+    test('reports a graph file that cannot be read', () => {
+        fs.writeFileSync(storage.getGraphPath(workspaceRoot), 'not json');
+        const [graph] = storage.listGraphs();
+
+        assert.ok(storage.formatGraphReport(graph).endsWith('The graph file could not be read.'));
+    });
+});
@@ -0,0 +1,172 @@
+// LearnedStateStore.test.ts - Tests for keeping learned state across rebuilds
+
+import * as assert from 'assert';
+import { LearnedStateStore } from '../../sikg/LearnedStateStore';
+import { Graph, Node, Edge } from '../../sikg/GraphTypes';
+
+suite('LearnedStateStore', () => {
+    const node = (id: string, filePath: string, properties: Record<string, any> = {}): Node =>
+        ({ id, type: 'TestCase', name: id, filePath, properties });
+    const edge = (source: string, type: string, target: string, weight: number, properties: Record<string, any> = {}): Edge =>
+        ({ source, type, target, weight, properties });
+    const graphOf = (nodes: Node[], edges: Edge[]): Graph => ({
+        nodes: new Map(nodes.map(n => [n.id, n])),
+        edges: new Map(edges.map(e => [`${e.source}-${e.type}-${e.target}`, e]))
+    });
+    const clamp = (weight: number) => Math.min(Math.max(weight, 0.1), 2);
+
+    suite('applyTo', () => {
+        test('re-applies learned node properties and keeps parsed ones', () => {
+            const store = new LearnedStateStore();
+            store.recordNode(node('t1', 'test_a.py', { lastStatus: 'failed', history: [{ status: 'failed' }], loc: { start: 1 } }));
+
+            const graph = graphOf([node('t1', 'test_a.py', { loc: { start: 5 } })], []);
+            const report = store.applyTo(graph, clamp, () => undefined);
+
+            assert.deepStrictEqual(graph.nodes.get('t1')!.properties, {
+                loc: { start: 5 },
+                lastStatus: 'failed',
+                history: [{ status: 'failed' }]
+            });
+            assert.strictEqual(report.nodesRestored, 1);
+        });
+
+        test('multiplies parsed weights by the learned factor within the clamp', () => {
+            const store = new LearnedStateStore();
+            store.recordEdgeWeight('a-CALLS-b', 'a.py', 1, 0.9);
+            store.recordEdgeWeight('a-CALLS-b', 'a.py', 0.9, 0.81);
+            store.recordEdgeWeight('c-CALLS-d', 'c.py', 1, 1.5);
+
+            const graph = graphOf([node('a', 'a.py'), node('b', 'b.py'), node('c', 'c.py'), node('d', 'd.py')],
+                [edge('a', 'CALLS', 'b', 0.5), edge('c', 'CALLS', 'd', 2)]);
+            const report = store.applyTo(graph, clamp, () => undefined);
+
+            assert.strictEqual(graph.edges.get('a-CALLS-b')!.weight.toFixed(3), '0.405');
+            assert.strictEqual(graph.edges.get('c-CALLS-d')!.weight, 2);
+            assert.strictEqual(report.edgesRestored, 2);
+        });
+
+        test('adds observed edges with their last weight and the parsed properties', () => {
+            const store = new LearnedStateStore();
+            store.recordObservedEdge('t-TESTS-f', 'test_a.py', edge('t', 'TESTS', 'f', 1, { source: 'coverage' }));
+            store.recordEdgeWeight('t-TESTS-f', 'test_a.py', 1, 0.8);
+
+            const graph = graphOf([node('t', 'test_a.py'), node('f', 'a.py')], [edge('t', 'TESTS', 'f', 0.3, { guessed: true })]);
+            const added: Edge[] = [];
+            const report = store.applyTo(graph, clamp, e => added.push(e));
+
+            assert.deepStrictEqual(added, [edge('t', 'TESTS', 'f', 0.8, { guessed: true, source: 'coverage' })]);
+            assert.strictEqual(report.observedEdgesRestored, 1);
+            // Not applied a second time as a weight factor
+            assert.strictEqual(report.edgesRestored, 0);
+        });
+
+        test('reports learned entries whose nodes or edges are missing', () => {
+            const store = new LearnedStateStore();
+            store.recordNode(node('gone', 'test_old.py', { lastStatus: 'passed' }));
+            store.recordEdgeWeight('x-CALLS-y', 'x.py', 1, 1.1);
+            store.recordObservedEdge('t-TESTS-gone', 'test_a.py', edge('t', 'TESTS', 'gone', 1));
+
+            const report = store.applyTo(graphOf([node('t', 'test_a.py')], []), clamp, () => assert.fail('nothing to add'));
+
+            assert.deepStrictEqual(report.orphanedNodes, [{ nodeId: 'gone', filePath: 'test_old.py' }]);
+            assert.deepStrictEqual(report.orphanedEdges, [
+                { edgeId: 't-TESTS-gone', filePath: 'test_a.py' },
+                { edgeId: 'x-CALLS-y', filePath: 'x.py' }
+            ]);
+        });
+    });
+
+    suite('renameNode', () => {
+        test('moves node state, edge weights and observed edges to the new ID', () => {
+            const store = new LearnedStateStore();
+            store.recordNode(node('old', 'test_a.py', { lastStatus: 'failed' }));
+            store.recordEdgeWeight('old-TESTS-f', 'test_a.py', 1, 0.5);
+            store.recordEdgeWeight('g-CALLS-old', 'g.py', 1, 1.2);
+            store.recordObservedEdge('old-TESTS-h', 'test_a.py', edge('old', 'TESTS', 'h', 1, { source: 'coverage' }));
+
+            store.renameNode('old', 'new', 'tests/test_a.py', 'renamed-file');
+
+            assert.ok(!store.hasNode('old'));
+            assert.ok(store.hasNode('new'));
+            assert.strictEqual(store.getEdgeWeightFactor('old-TESTS-f'), undefined);
+            assert.strictEqual(store.getEdgeWeightFactor('new-TESTS-f'), 0.5);
+            assert.strictEqual(store.getEdgeWeightFactor('g-CALLS-new'), 1.2);
+
+            const graph = graphOf([node('new', 'tests/test_a.py'), node('f', 'a.py'), node('h', 'h.py')], [edge('new', 'TESTS', 'f', 1)]);
+            const added: Edge[] = [];
+            store.applyTo(graph, clamp, e => added.push(e));
+            assert.deepStrictEqual(added.map(e => [e.source, e.target]), [['new', 'h']]);
+            assert.strictEqual(graph.nodes.get('new')!.properties.lastStatus, 'failed');
+            assert.strictEqual(graph.edges.get('new-TESTS-f')!.weight, 0.5);
+        });
+
+        test('keeps aliases of every earlier ID pointing at the current one', () => {
+            const store = new LearnedStateStore();
+            store.renameNode('v1', 'v2', 'a.py', 'same-body');
+            store.renameNode('v2', 'v3', 'b.py', 'renamed-file');
+
+            assert.strictEqual(store.resolveNodeId('v1'), 'v3');
+            assert.strictEqual(store.resolveNodeId('v2'), 'v3');
+            assert.strictEqual(store.resolveNodeId('v3'), 'v3');
+
+            // Moving back makes the node's own ID current again
+            store.renameNode('v3', 'v1', 'a.py', 'renamed-file');
+            assert.strictEqual(store.resolveNodeId('v1'), 'v1');
+            assert.strictEqual(store.resolveNodeId('v2'), 'v1');
+        });
+
+        test('stores aliases with the partition of the node\'s current file', () => {
+            const store = new LearnedStateStore();
+            store.renameNode('old', 'new', 'backend/test_a.py', 'renamed-file');
+
+            const partitions = store.serialize(filePath => filePath.split('/')[0], filePath => filePath);
+            const loaded = new LearnedStateStore();
+            loaded.load(partitions.get('backend')!, filePath => filePath);
+
+            assert.strictEqual(loaded.resolveNodeId('old'), 'new');
+        });
+    });
+
+    test('forgets the learned state of one partition only', () => {
+        const store = new LearnedStateStore();
+        store.recordNode(node('t1', 'backend/test_a.py', { lastStatus: 'passed' }));
+        store.recordNode(node('t2', 'frontend/a.test.ts', { lastStatus: 'failed' }));
+        store.recordEdgeWeight('t1-TESTS-f', 'backend/test_a.py', 1, 0.5);
+        store.recordEdgeWeight('t2-TESTS-g', 'frontend/a.test.ts', 1, 0.5);
+        store.recordObservedEdge('t1-TESTS-h', 'backend/test_a.py', edge('t1', 'TESTS', 'h', 1));
+        store.renameNode('t0', 't1', 'backend/test_a.py', 'same-body');
+        store.renameNode('u0', 't2', 'frontend/a.test.ts', 'same-body');
+
+        store.clearPartition(filePath => filePath.split('/')[0], 'backend');
+
+        assert.ok(!store.hasNode('t1'));
+        assert.strictEqual(store.getEdgeWeightFactor('t1-TESTS-f'), undefined);
+        assert.strictEqual(store.resolveNodeId('t0'), 't0');
+        assert.ok(store.hasNode('t2'));
+        assert.strictEqual(store.getEdgeWeightFactor('t2-TESTS-g'), 0.5);
+        assert.strictEqual(store.resolveNodeId('u0'), 't2');
+
+        const partitions = store.serialize(filePath => filePath.split('/')[0], filePath => filePath);
+        assert.deepStrictEqual(Array.from(partitions.keys()), ['frontend']);
+    });
+
+    test('splits stored entries by partition and loads them back', () => {
+        const store = new LearnedStateStore();
+        store.recordNode(node('t1', 'backend/test_a.py', { lastStatus: 'passed' }));
+        store.recordEdgeWeight('a-CALLS-b', 'frontend/a.ts', 1, 0.5);
+
+        const partitions = store.serialize(
+            filePath => filePath.split('/')[0],
+            filePath => filePath.substring(filePath.indexOf('/') + 1)
+        );
+
+        assert.deepStrictEqual(Array.from(partitions.keys()).sort(), ['backend', 'frontend']);
+        assert.deepStrictEqual(partitions.get('backend')!.nodes, [['t1', { filePath: 'test_a.py', properties: { lastStatus: 'passed' } }]]);
+
+        const loaded = new LearnedStateStore();
+        loaded.load(partitions.get('frontend')!, filePath => `frontend/${filePath}`);
+        assert.strictEqual(loaded.getEdgeWeightFactor('a-CALLS-b'), 0.5);
+        assert.ok(!loaded.hasNode('t1'));
+    });
+});
@@ -0,0 +1,97 @@
+// NodeIdentityMatcher.test.ts - Tests for recognizing renamed and moved nodes
+
+import * as assert from 'assert';
+import { NodeIdentityMatcher } from '../../sikg/NodeIdentityMatcher';
+import { Node } from '../../sikg/GraphTypes';
+
+suite('NodeIdentityMatcher', () => {
+    const body = (name: string, lines: string[]) => [`def ${name}(values):`, ...lines.map(line => `    ${line}`)].join('\n');
+    const loc = (content: string) => ({ start: { line: 1 }, end: { line: content.split('\n').length } });
+    const functionNode = (id: string, name: string, filePath: string, content?: string): Node => ({
+        id,
+        type: 'CodeElement',
+        name,
+        filePath,
+        properties: { kind: 'function', ...(content ? NodeIdentityMatcher.fingerprint(content, loc(content), name) : {}) }
+    });
+    const lines = Array.from({ length: 20 }, (_, i) => `total = total + values[${i}] * ${i + 1}`);
+
+    suite('fingerprint', () => {
+        test('is independent of the name and indentation of the element', () => {
+            const original = body('compute', lines);
+            const renamed = body('calculate', lines).replace(/^ {4}/gm, '\t');
+
+            assert.strictEqual(
+                NodeIdentityMatcher.fingerprint(original, loc(original), 'compute')!.bodyHash,
+                NodeIdentityMatcher.fingerprint(renamed, loc(renamed), 'calculate')!.bodyHash
+            );
+        });
+
+        test('leaves out bodies too short to tell elements apart', () => {
+            assert.strictEqual(NodeIdentityMatcher.fingerprint('def f(): pass', { start: { line: 1 }, end: { line: 1 } }, 'f'), undefined);
+            assert.strictEqual(NodeIdentityMatcher.fingerprint('a\nb', undefined, 'f'), undefined);
+        });
+    });
+
+    suite('match', () => {
+        test('matches elements of a file Git saw renamed by name', () => {
+            const matches = NodeIdentityMatcher.match(
+                [functionNode('old', 'add', 'src/calc.py')],
+                [functionNode('new', 'add', 'src/math/calc.py'), functionNode('other', 'sub', 'src/math/calc.py')],
+                new Map([['src/calc.py', 'src/math/calc.py']])
+            );
+
+            assert.deepStrictEqual(matches, [{ previousId: 'old', currentId: 'new', reason: 'renamed-file', similarity: 1 }]);
+        });
+
+        test('matches a renamed element by its identical body', () => {
+            const matches = NodeIdentityMatcher.match(
+                [functionNode('old', 'compute', 'a.py', body('compute', lines))],
+                [functionNode('new', 'calculate', 'b.py', body('calculate', lines))],
+                new Map()
+            );
+
+            assert.deepStrictEqual(matches.map(match => [match.previousId, match.currentId, match.reason]), [['old', 'new', 'same-body']]);
+        });
+
+        test('does not guess between several new copies of the same body with other names', () => {
+            const matches = NodeIdentityMatcher.match(
+                [functionNode('old', 'compute', 'a.py', body('compute', lines))],
+                [
+                    functionNode('copy1', 'first', 'b.py', body('first', lines)),
+                    functionNode('copy2', 'second', 'c.py', body('second', lines))
+                ],
+                new Map()
+            );
+
+            assert.deepStrictEqual(matches, []);
+        });
+
+        test('matches a lightly edited element that kept its name', () => {
+            const edited = [...lines.slice(0, 19), 'return total'];
+            const matches = NodeIdentityMatcher.match(
+                [functionNode('old', 'compute', 'a.py', body('compute', lines))],
+                [functionNode('new', 'compute', 'b.py', body('compute', edited))],
+                new Map()
+            );
+
+            assert.strictEqual(matches.length, 1);
+            assert.strictEqual(matches[0].reason, 'similar-body');
+            assert.ok(matches[0].similarity >= 0.7 && matches[0].similarity < 1);
+        });
+
+        test('does not match similar bodies of unrelated elements or of another kind', () => {
+            const edited = [...lines.slice(0, 19), 'return total'];
+            const otherKind = functionNode('class', 'compute', 'b.py', body('compute', lines));
+            otherKind.properties.kind = 'class';
+
+            const matches = NodeIdentityMatcher.match(
+                [functionNode('old', 'compute', 'a.py', body('compute', lines))],
+                [functionNode('new', 'total', 'b.py', body('total', edited)), otherKind],
+                new Map()
+            );
+
+            assert.deepStrictEqual(matches, []);
+        });
+    });
+});
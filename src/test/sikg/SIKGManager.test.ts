@@ -0,0 +1,456 @@
+// SIKGManager.test.ts - Tests for building and updating the knowledge graph
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SIKGManager } from '../../sikg/SIKGManager';
+import { GraphIntegrityChecker } from '../../sikg/GraphIntegrityChecker';
+import { ConfigManager } from '../../utils/ConfigManager';
+import { Node } from '../../sikg/GraphTypes';
+import { Host, SIKGHost, LanguageServerHost } from '../../host/SIKGHost';
+import { NodeHost } from '../../host/NodeHost';
+
+suite('SIKGManager', () => {
+    let storagePath: string;
+    let manager: SIKGManager;
+
+    const openWorkspace = async (workspaceRoots: string[], settings?: Record<string, any>, languageServers?: LanguageServerHost) => {
+        // Suites with their own workspace replace the manager of the empty one
+        await manager?.dispose();
+        const host: SIKGHost = new NodeHost({ workspaceRoots, storagePath, settings, log: { appendLine: () => undefined } });
+        host.languageServers = languageServers;
+        Host.init(host);
+        manager = new SIKGManager(host, new ConfigManager(host.configuration));
+        await manager.initialize();
+    };
+
+    const codeNode = (id: string, startLine: number, endLine: number, filePath = 'calc.py'): Node => ({
+        id,
+        type: 'CodeElement',
+        name: id,
+        filePath,
+        properties: { kind: 'function', loc: { start: { line: startLine, column: 0 }, end: { line: endLine, column: 0 } } }
+    });
+
+    const testNode = (id: string): Node => ({
+        id,
+        type: 'TestCase',
+        name: id,
+        filePath: 'tests/test_calc.py',
+        properties: { testType: 'unit', history: [] }
+    });
+
+    setup(async () => {
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'sikg-storage-'));
+        await openWorkspace([]);
+    });
+
+    teardown(async () => {
+        await manager.dispose();
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    suite('applyTestCoverage', () => {
+        setup(() => {
+            manager.addNode(codeNode('add', 1, 3));
+            manager.addNode({ ...codeNode('Calc', 5, 20), properties: { ...codeNode('Calc', 5, 20).properties, kind: 'class' } });
+            manager.addNode(codeNode('Calc.mul', 10, 12));
+            manager.addNode(testNode('test_add'));
+        });
+
+        test('attributes covered lines to the innermost element that contains them', async () => {
+            const result = await manager.applyTestCoverage(
+                [{ testId: 'test_add', files: { 'calc.py': [2, 11, 12] } }], 'coverage', false);
+
+            assert.deepStrictEqual(result, { testsMapped: 1, edgesAdded: 2, edgesUpdated: 0, edgesRemoved: 0, unmappedFiles: [] });
+            assert.deepStrictEqual(manager.getOutgoingEdges('test_add').map(edge => edge.target).sort(), ['Calc.mul', 'add']);
+
+            // Covering more of an element's span makes the edge stronger
+            const [toAdd] = manager.getEdgesBetween('test_add', 'add');
+            const [toMul] = manager.getEdgesBetween('test_add', 'Calc.mul');
+            assert.ok(Math.abs(toAdd.weight - (0.8 + 0.2 / 3)) < 1e-9);
+            assert.ok(Math.abs(toMul.weight - (0.8 + 0.2 * 2 / 3)) < 1e-9);
+            assert.deepStrictEqual(toMul.properties, { source: 'coverage', coveredLines: 2 });
+            assert.strictEqual(manager.getEdgesBetween('Calc.mul', 'test_add')[0].type, 'IS_TESTED_BY');
+        });
+
+        test('maps lines outside every element to nothing and reports files without code elements', async () => {
+            const result = await manager.applyTestCoverage([{
+                testId: 'test_add',
+                files: { 'calc.py': [4, 25], 'util.py': [1], 'tests/test_calc.py': [3] }
+            }], 'coverage', false);
+
+            assert.strictEqual(result.testsMapped, 0);
+            assert.deepStrictEqual(result.unmappedFiles, ['util.py']);
+            assert.deepStrictEqual(manager.getOutgoingEdges('test_add'), []);
+        });
+
+        test('keeps weights that learning raised and merges the coverage properties', async () => {
+            manager.addEdge({ source: 'test_add', target: 'add', type: 'TESTS', weight: 0.95, properties: { runs: 3 } });
+
+            const result = await manager.applyTestCoverage([{ testId: 'test_add', files: { 'calc.py': [1] } }], 'coverage', false);
+
+            assert.strictEqual(result.edgesUpdated, 1);
+            const [edge] = manager.getEdgesBetween('test_add', 'add');
+            assert.strictEqual(edge.weight, 0.95);
+            assert.deepStrictEqual(edge.properties, { runs: 3, source: 'coverage', coveredLines: 1 });
+        });
+
+        test('drops static guesses that coverage did not confirm only when asked to', async () => {
+            manager.addEdge({ source: 'test_add', target: 'Calc', type: 'TESTS', weight: 0.5, properties: {} });
+            manager.addEdge({ source: 'Calc', target: 'test_add', type: 'IS_TESTED_BY', weight: 0.5, properties: {} });
+            const coverage = [{ testId: 'test_add', files: { 'calc.py': [2] } }];
+
+            await manager.applyTestCoverage(coverage, 'coverage', false);
+            assert.strictEqual(manager.getEdgesBetween('test_add', 'Calc').length, 1);
+
+            const result = await manager.applyTestCoverage(coverage, 'coverage', true);
+            assert.strictEqual(result.edgesRemoved, 1);
+            assert.deepStrictEqual(manager.getEdgesBetween('test_add', 'Calc'), []);
+            assert.deepStrictEqual(manager.getEdgesBetween('Calc', 'test_add'), []);
+        });
+
+        test('skips coverage of tests that are not in the graph', async () => {
+            const result = await manager.applyTestCoverage([{ testId: 'missing', files: { 'calc.py': [2] } }], 'coverage', false);
+
+            assert.strictEqual(result.testsMapped, 0);
+            assert.deepStrictEqual(manager.getIncomingEdges('add'), []);
+        });
+    });
+    suite('applyAggregateCoverage', () => {
+        setup(() => {
+            manager.addNode(codeNode('add', 1, 3));
+            manager.addNode(testNode('test_add'));
+            manager.addEdge({ source: 'test_add', target: 'add', type: 'TESTS', weight: 0.8, properties: {} });
+        });
+
+        test('weakens guessed edges to uncovered code once for each different report', async () => {
+            const uncovered = { 'calc.py': [5] };
+
+            assert.strictEqual((await manager.applyAggregateCoverage(uncovered, 'lcov')).edgesUpdated, 1);
+            assert.strictEqual((await manager.applyAggregateCoverage(uncovered, 'lcov')).edgesUpdated, 0);
+            assert.strictEqual(manager.getEdgesBetween('test_add', 'add')[0].weight, 0.4);
+
+            // A later report that still leaves the code uncovered is new evidence
+            await manager.applyAggregateCoverage({ 'calc.py': [5, 6] }, 'lcov');
+            assert.strictEqual(manager.getEdgesBetween('test_add', 'add')[0].weight, 0.2);
+        });
+
+        test('keeps edges to covered code and edges that coverage observed', async () => {
+            manager.addNode(codeNode('sub', 5, 7));
+            manager.addEdge({ source: 'test_add', target: 'sub', type: 'TESTS', weight: 0.8, properties: { source: 'coverage' } });
+
+            const result = await manager.applyAggregateCoverage({ 'calc.py': [2], 'util.py': [1] }, 'lcov');
+
+            assert.deepStrictEqual(result.unmappedFiles, ['util.py']);
+            assert.strictEqual(manager.getEdgesBetween('test_add', 'add')[0].weight, 0.8);
+            assert.strictEqual(manager.getEdgesBetween('test_add', 'sub')[0].weight, 0.8);
+        });
+    });
+
+    suite('edge provenance', () => {
+        const provenance = (producer: string, confidence: number) =>
+            ({ producer, confidence, createdAt: '2026-01-01T00:00:00.000Z' });
+
+        setup(() => {
+            manager.addNode(codeNode('add', 1, 3));
+            manager.addNode(codeNode('sub', 5, 7));
+            manager.addNode(testNode('test_sub'));
+        });
+
+        test('records the producer of edges added without provenance', () => {
+            manager.addEdge({ source: 'test_sub', target: 'sub', type: 'TESTS', weight: 1, properties: { source: 'coverage' } });
+            manager.addEdge({ source: 'sub', target: 'add', type: 'CALLS', weight: 1, properties: {} });
+
+            const [tests] = manager.getEdgesBetween('test_sub', 'sub');
+            const [calls] = manager.getEdgesBetween('sub', 'add');
+            assert.strictEqual(tests.provenance!.producer, 'coverage');
+            assert.strictEqual(tests.provenance!.confidence, 1.0);
+            assert.strictEqual(calls.provenance!.producer, 'unknown');
+            assert.ok(calls.provenance!.createdAt);
+        });
+
+        test('keeps the creation time and last confirmation of an edge that is added again', () => {
+            manager.addEdge({ source: 'sub', target: 'add', type: 'CALLS', weight: 1, properties: {},
+                provenance: { ...provenance('python-ast', 0.7), lastConfirmed: '2026-02-01T00:00:00.000Z' } });
+            manager.addEdge({ source: 'sub', target: 'add', type: 'CALLS', weight: 1, properties: {},
+                provenance: { ...provenance('symbol-linker', 0.9), createdAt: '2026-03-01T00:00:00.000Z' } });
+
+            assert.deepStrictEqual(manager.getEdgesBetween('sub', 'add')[0].provenance, {
+                producer: 'symbol-linker',
+                confidence: 0.9,
+                createdAt: '2026-01-01T00:00:00.000Z',
+                lastConfirmed: '2026-02-01T00:00:00.000Z'
+            });
+        });
+
+        const connectChangeToTest = () => {
+            manager.addEdge({ source: 'add', target: 'sub', type: 'IS_CALLED_BY', weight: 1, properties: {}, provenance: provenance('python-ast', 0.7) });
+            manager.addEdge({ source: 'sub', target: 'test_sub', type: 'IS_TESTED_BY', weight: 1, properties: {}, provenance: provenance('test-parser', 0.5) });
+            manager.addEdge({ source: 'test_sub', target: 'sub', type: 'TESTS', weight: 1, properties: {}, provenance: provenance('test-parser', 0.5) });
+        };
+        const runAfterChange = (status: 'passed' | 'failed' | 'skipped') => manager.updateWithTestResults([{
+            testId: 'test_sub', status, executionTime: 1, changedNodeIds: ['add'], timestamp: '2026-04-01T00:00:00.000Z'
+        }]);
+
+        for (const [status, outcome] of [['failed', 'fails'], ['passed', 'passes']] as const) {
+            test(`confirms the edges between a change and a test that ${outcome} after it`, async () => {
+                connectChangeToTest();
+                await runAfterChange(status);
+
+                assert.strictEqual(manager.getEdgesBetween('add', 'sub')[0].provenance!.lastConfirmed, '2026-04-01T00:00:00.000Z');
+                assert.strictEqual(manager.getEdgesBetween('sub', 'test_sub')[0].provenance!.lastConfirmed, '2026-04-01T00:00:00.000Z');
+                assert.strictEqual(manager.getEdgesBetween('test_sub', 'sub')[0].provenance!.lastConfirmed, undefined);
+            });
+        }
+
+        test('confirms nothing for a skipped test', async () => {
+            connectChangeToTest();
+            await runAfterChange('skipped');
+
+            assert.strictEqual(manager.getEdgesBetween('add', 'sub')[0].provenance!.lastConfirmed, undefined);
+        });
+    });
+
+    suite('node types', () => {
+        let workspaceRoot: string;
+
+        const nodeNamed = (type: string, name: string, filePath: string) =>
+            manager.getNodesByFilePath(filePath).find(node => node.type === type && node.name === name)!;
+
+        const targetsOf = (source: Node, type: string) =>
+            manager.getOutgoingEdges(source.id).filter(edge => edge.type === type).map(edge => manager.getNode(edge.target)!.name).sort();
+
+        setup(async () => {
+            workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sikg-workspace-'));
+            fs.mkdirSync(path.join(workspaceRoot, 'tests'));
+            fs.writeFileSync(path.join(workspaceRoot, 'calc.py'), 'import requests\n\n\ndef add(a, b):\n    return a + b\n');
+            fs.writeFileSync(path.join(workspaceRoot, 'conftest.py'), 'import pytest\n\n\n@pytest.fixture\ndef numbers():\n    return (1, 2)\n');
+            fs.writeFileSync(path.join(workspaceRoot, 'tests', 'test_calc.py'), [
+                'import unittest',
+                'import pytest',
+                'from calc import add',
+                '',
+                '',
+                '@pytest.fixture',
+                'def total(numbers):',
+                '    return add(*numbers)',
+                '',
+                '',
+                'def test_sum(total):',
+                '    assert total == 3',
+                '',
+                '',
+                'class TestCalc(unittest.TestCase):',
+                '    def test_add(self):',
+                '        self.assertEqual(add(1, 2), 3)',
+                ''
+            ].join('\n'));
+
+            await openWorkspace([workspaceRoot], { testFilePatterns: ['**/test_*.py', '**/conftest.py'] });
+        });
+
+        teardown(() => {
+            fs.rmSync(workspaceRoot, { recursive: true, force: true });
+        });
+
+        test('adds a File node containing the module, suites, fixtures and tests outside a suite', () => {
+            assert.deepStrictEqual(targetsOf(nodeNamed('File', 'calc.py', 'calc.py'), 'CONTAINS'), ['calc']);
+            assert.strictEqual(nodeNamed('Module', 'calc', 'calc.py').type, 'Module');
+            assert.deepStrictEqual(targetsOf(nodeNamed('File', 'test_calc.py', 'tests/test_calc.py'), 'CONTAINS'), ['TestCalc', 'test_calc', 'test_sum', 'total']);
+        });
+
+        test('groups the tests of a test class under a TestSuite that spans them', () => {
+            const suiteNode = nodeNamed('TestSuite', 'TestCalc', 'tests/test_calc.py');
+
+            assert.deepStrictEqual(targetsOf(suiteNode, 'CONTAINS'), ['TestCalc.test_add']);
+            assert.strictEqual(suiteNode.properties.loc.start.line, 16);
+        });
+
+        test('links tests and fixtures to the fixtures they request, preferring their own file', () => {
+            assert.deepStrictEqual(targetsOf(nodeNamed('TestCase', 'test_sum', 'tests/test_calc.py'), 'USES_FIXTURE'), ['total']);
+
+            const total = nodeNamed('Fixture', 'total', 'tests/test_calc.py');
+            assert.deepStrictEqual(targetsOf(total, 'USES_FIXTURE'), ['numbers']);
+            assert.deepStrictEqual(targetsOf(total, 'IS_FIXTURE_FOR'), ['test_sum']);
+            assert.ok(nodeNamed('Fixture', 'numbers', 'conftest.py'));
+        });
+
+        test('links the functions a test calls in another file to the test, in both directions', () => {
+            const testAdd = nodeNamed('TestCase', 'TestCalc.test_add', 'tests/test_calc.py');
+            const add = nodeNamed('CodeElement', 'add', 'calc.py');
+
+            assert.deepStrictEqual(manager.getEdgesBetween(testAdd.id, add.id).map(edge => edge.type), ['TESTS']);
+            assert.deepStrictEqual(manager.getEdgesBetween(add.id, testAdd.id).map(edge => edge.type), ['IS_TESTED_BY']);
+        });
+
+        test('restores edges that coverage observed after a rebuild', async () => {
+            const testSum = nodeNamed('TestCase', 'test_sum', 'tests/test_calc.py');
+            const add = nodeNamed('CodeElement', 'add', 'calc.py');
+            await manager.applyTestCoverage([{ testId: testSum.id, files: { 'calc.py': [5] } }], 'coverage', false);
+
+            const report = await manager.rebuildGraph();
+
+            assert.strictEqual(report.observedEdgesRestored, 2);
+            const [edge] = manager.getEdgesBetween(testSum.id, add.id);
+            assert.strictEqual(edge.properties.source, 'coverage');
+        });
+
+        test('keeps edges that aggregate coverage weakened weak after a rebuild', async () => {
+            const testAdd = nodeNamed('TestCase', 'TestCalc.test_add', 'tests/test_calc.py');
+            const add = nodeNamed('CodeElement', 'add', 'calc.py');
+            const parsedWeight = manager.getEdgesBetween(testAdd.id, add.id)[0].weight;
+
+            await manager.applyAggregateCoverage({ 'calc.py': [1] }, 'lcov');
+            await manager.rebuildGraph();
+
+            assert.strictEqual(manager.getEdgesBetween(testAdd.id, add.id)[0].weight, parsedWeight * 0.5);
+        });
+
+        test('adds one ExternalPackage node for each third-party package that is imported', () => {
+            const requests = nodeNamed('ExternalPackage', 'requests', '');
+            const [edge] = manager.getIncomingEdges(requests.id);
+
+            assert.strictEqual(edge.type, 'DEPENDS_ON_PACKAGE');
+            assert.strictEqual(manager.getNode(edge.source)!.name, 'calc');
+            assert.strictEqual(manager.getNodesByFilePath('').filter(node => node.name === 'pytest').length, 1);
+        });
+    });
+
+    suite('file updates', () => {
+        let workspaceRoot: string;
+
+        const write = (filePath: string, content: string) => fs.writeFileSync(path.join(workspaceRoot, filePath), content);
+        const callsOf = (name: string) => manager.getNodesByFilePath('main.py')
+            .filter(node => node.name === name)
+            .flatMap(node => manager.getOutgoingEdges(node.id))
+            .filter(edge => edge.type === 'CALLS')
+            .map(edge => manager.getNode(edge.target)?.name);
+
+        setup(async () => {
+            workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sikg-workspace-'));
+            write('calc.py', 'def add(a, b):\n    return a + b\n');
+            write('main.py', 'from calc import add\n\n\ndef run():\n    return add(1, 2)\n');
+            await openWorkspace([workspaceRoot]);
+        });
+
+        teardown(() => {
+            fs.rmSync(workspaceRoot, { recursive: true, force: true });
+        });
+
+        test('links calls from other files again when a removed function comes back', async () => {
+            assert.deepStrictEqual(callsOf('run'), ['add']);
+
+            write('calc.py', 'def sub(a, b):\n    return a - b\n');
+            await manager.refreshChangedFiles();
+            assert.deepStrictEqual(callsOf('run').filter(name => name !== undefined), []);
+
+            write('calc.py', 'def add(a, b):\n    return a + b\n');
+            await manager.refreshChangedFiles();
+            assert.deepStrictEqual(callsOf('run'), ['add']);
+        });
+
+        test('keeps the callers of a removed function in a removal log instead of dangling edges', async () => {
+            const dependentsOfAdd = async () => {
+                const [removed] = await manager.findRemovedElements('calc.py', 'def add(a, b):\n    return a + b\n');
+                return removed.dependentIds.map(nodeId => manager.getNode(nodeId)!.name);
+            };
+
+            write('calc.py', 'def sub(a, b):\n    return a - b\n');
+            await manager.refreshChangedFiles();
+
+            const checker = new GraphIntegrityChecker(manager);
+            const report = checker.check();
+            assert.deepStrictEqual(report.issues.filter(issue => issue.type === 'DANGLING_EDGE'), []);
+            await checker.repair(report);
+            assert.deepStrictEqual(await dependentsOfAdd(), ['run']);
+
+            await manager.save();
+            await openWorkspace([workspaceRoot]);
+            assert.deepStrictEqual(await dependentsOfAdd(), ['run']);
+        });
+
+        test('re-parses files whose modification time changed or that Git reports as changed', async () => {
+            const names = () => manager.getNodesByFilePath('calc.py').map(node => node.name).sort();
+            const calcPath = path.join(workspaceRoot, 'calc.py');
+            const mtime = new Date('2026-01-01T00:00:00Z');
+            fs.utimesSync(calcPath, mtime, mtime);
+            await manager.refreshChangedFiles();
+
+            // Same size and modification time: taken as unchanged without reading it
+            write('calc.py', 'def sub(a, b):\n    return a - b\n');
+            fs.utimesSync(calcPath, mtime, mtime);
+            await manager.refreshChangedFiles();
+            assert.ok(names().includes('add'));
+
+            await manager.refreshChangedFiles(['calc.py']);
+            assert.ok(names().includes('sub') && !names().includes('add'));
+
+            write('calc.py', 'def add(a, b):\n    return a + b\n');
+            fs.utimesSync(calcPath, mtime, new Date(mtime.getTime() + 2000));
+            await manager.refreshChangedFiles();
+            assert.ok(names().includes('add') && !names().includes('sub'));
+        });
+
+        test('has the language servers visit the files a changed file has language server edges with', async () => {
+            const visits: string[][] = [];
+            await openWorkspace([workspaceRoot], undefined, {
+                enhance: async (_, filePaths) => {
+                    visits.push([...filePaths].sort());
+                    return { filesVisited: filePaths, edgesAdded: 0, timedOut: false };
+                }
+            });
+            const nodeId = (filePath: string, name: string) => manager.getNodesByFilePath(filePath).find(node => node.name === name)!.id;
+            manager.addEdge({ source: nodeId('main.py', 'run'), target: nodeId('calc.py', 'add'), type: 'USES', weight: 0.6, properties: { source: 'lsp' } });
+
+            write('main.py', 'from calc import add\n\n\ndef run():\n    return add(1, 2)\n\n\ndef main():\n    run()\n');
+            await manager.refreshChangedFiles();
+            write('main.py', 'from calc import add\n\n\ndef run():\n    return add(2, 3)\n');
+            await manager.refreshChangedFiles();
+
+            assert.deepStrictEqual(visits, [['calc.py', 'main.py'], ['calc.py', 'main.py']]);
+        });
+
+        test('keeps the edge indexes in step when an edge is added, moved to other ends, loaded and removed', async () => {
+            const nodeId = (filePath: string, name: string) => manager.getNodesByFilePath(filePath).find(node => node.name === name)!.id;
+            const run = nodeId('main.py', 'run');
+            const add = nodeId('calc.py', 'add');
+            const calc = nodeId('calc.py', 'calc');
+            const usesFromRun = (target: string) => manager.getIncomingEdges(target).filter(edge => edge.type === 'USES' && edge.source === run);
+            const assertUses = (target: string) => {
+                assert.deepStrictEqual(manager.getOutgoingEdges(run).filter(edge => edge.type === 'USES').map(edge => edge.target), [target]);
+                for (const nodeId of [add, calc]) {
+                    assert.strictEqual(usesFromRun(nodeId).length, nodeId === target ? 1 : 0);
+                }
+            };
+
+            const uses = { source: run, target: add, type: 'USES', weight: 0.5, properties: { source: 'lsp' } };
+            manager.addEdge(uses);
+            assertUses(add);
+
+            manager.updateEdge(manager.getEdgeId(uses), { target: calc, weight: 0.4 });
+            assertUses(calc);
+            assert.strictEqual(usesFromRun(calc)[0].weight, 0.4);
+
+            await manager.save();
+            await openWorkspace([workspaceRoot]);
+            assertUses(calc);
+
+            assert.ok(manager.removeEdge(manager.getEdgeId({ ...uses, target: calc })));
+            assert.deepStrictEqual(manager.getOutgoingEdges(run).filter(edge => edge.type === 'USES'), []);
+            assert.deepStrictEqual(usesFromRun(calc), []);
+        });
+
+        test('writes a scheduled save when it is disposed', async () => {
+            const nodeId = (filePath: string, name: string) => manager.getNodesByFilePath(filePath).find(node => node.name === name)!.id;
+            const uses = { source: nodeId('main.py', 'run'), target: nodeId('calc.py', 'add'), type: 'USES', weight: 0.3, properties: { source: 'lsp' } };
+            manager.addEdge(uses);
+            manager.scheduleSave();
+            await manager.dispose();
+
+            await openWorkspace([workspaceRoot]);
+            assert.strictEqual(manager.getEdgesBetween(uses.source, uses.target).find(edge => edge.type === 'USES')?.weight, 0.3);
+        });
+    });
+});
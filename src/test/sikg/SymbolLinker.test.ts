@@ -0,0 +1,97 @@
+// SymbolLinker.test.ts - Tests for resolving relationship targets across files
+
+import * as assert from 'assert';
+import { SymbolLinker } from '../../sikg/SymbolLinker';
+import { Node, Edge, ImportBinding } from '../../sikg/GraphTypes';
+
+suite('SymbolLinker', () => {
+    const codeNode = (id: string, kind: string, name: string, filePath: string, imports?: ImportBinding[]): Node => ({
+        id,
+        type: kind === 'module' ? 'Module' : 'CodeElement',
+        name,
+        filePath,
+        properties: imports ? { kind, imports } : { kind }
+    });
+    const relation = (type: string, targetName: string, targetQualifier?: string): Edge => ({
+        source: '',
+        target: 'unresolved',
+        type,
+        weight: 1,
+        properties: targetQualifier ? { targetName, targetQualifier } : { targetName }
+    });
+
+    const nodes = [
+        codeNode('pkg', 'module', 'pkg', 'src/pkg/__init__.py', [{ alias: 'helpers', module: '.util.helpers' }]),
+        codeNode('util', 'module', 'util', 'src/pkg/util/__init__.py'),
+        codeNode('helpers', 'module', 'helpers', 'src/pkg/util/helpers.py'),
+        codeNode('app', 'module', 'app', 'src/pkg/app.py', [
+            { alias: 'fmt', module: '.util.helpers', name: 'format_total' },
+            { alias: 'h', module: 'pkg.util.helpers' }
+        ]),
+        codeNode('format_total', 'function', 'format_total', 'src/pkg/util/helpers.py'),
+        codeNode('Cart', 'class', 'Cart', 'src/pkg/app.py'),
+        codeNode('Cart.total', 'method', 'total', 'src/pkg/app.py'),
+        codeNode('Cart.add', 'method', 'add', 'src/pkg/app.py'),
+        codeNode('main', 'function', 'main', 'src/pkg/app.py'),
+        codeNode('other_main', 'function', 'main', 'scripts/tool.py')
+    ];
+    const edges: Edge[] = [
+        { source: 'Cart.total', target: 'Cart', type: 'BELONGS_TO', weight: 1, properties: {} },
+        { source: 'Cart.add', target: 'Cart', type: 'BELONGS_TO', weight: 1, properties: {} }
+    ];
+    const byId = (id: string) => nodes.find(node => node.id === id)!;
+    const linker = new SymbolLinker(nodes, edges);
+
+    suite('module names', () => {
+        test('resolves absolute imports below source roots', () => {
+            assert.deepStrictEqual(linker.resolve(relation('IMPORTS', 'pkg.util.helpers'), byId('app')),
+                { targetId: 'helpers', confidence: 'high' });
+        });
+
+        test('resolves relative imports against the package of the importing module', () => {
+            assert.strictEqual(linker.resolve(relation('IMPORTS', '.util.helpers'), byId('app'))?.targetId, 'helpers');
+            assert.strictEqual(linker.resolve(relation('IMPORTS', '..util'), byId('helpers'))?.targetId, 'util');
+        });
+
+        test('treats a package __init__ module as its own package', () => {
+            assert.strictEqual(linker.resolve(relation('IMPORTS', '.util.helpers'), byId('pkg'))?.targetId, 'helpers');
+            assert.strictEqual(linker.resolve(relation('IMPORTS', '.helpers'), byId('util'))?.targetId, 'helpers');
+        });
+
+        test('finds no module that is not in the project', () => {
+            assert.strictEqual(linker.resolve(relation('IMPORTS', 'requests'), byId('app')), null);
+        });
+    });
+
+    suite('symbols', () => {
+        test('resolves names bound by a from-import', () => {
+            assert.deepStrictEqual(linker.resolve(relation('CALLS', 'fmt'), byId('main')), { targetId: 'format_total', confidence: 'high' });
+        });
+
+        test('resolves attributes of an imported module', () => {
+            assert.strictEqual(linker.resolve(relation('CALLS', 'format_total', 'h'), byId('main'))?.targetId, 'format_total');
+        });
+
+        test('resolves self calls to methods of the calling method\'s class', () => {
+            assert.strictEqual(linker.resolve(relation('CALLS', 'total', 'self'), byId('Cart.add'))?.targetId, 'Cart.total');
+        });
+
+        test('prefers a symbol of the source file', () => {
+            assert.deepStrictEqual(linker.resolve(relation('CALLS', 'main'), byId('Cart.add')), { targetId: 'main', confidence: 'high' });
+        });
+
+        test('picks the nearest of several project symbols with low confidence', () => {
+            const link = linker.resolve(relation('CALLS', 'main'), codeNode('cli', 'function', 'cli', 'scripts/cli.py'));
+
+            assert.deepStrictEqual(link, { targetId: 'other_main', confidence: 'low' });
+        });
+
+        test('only links relationships to symbols of a fitting kind', () => {
+            assert.strictEqual(linker.resolve(relation('INHERITS_FROM', 'main'), byId('Cart')), null);
+            assert.strictEqual(linker.resolve(relation('INHERITS_FROM', 'Cart'), byId('main'))?.targetId, 'Cart');
+            // Tests can cover a whole module
+            assert.strictEqual(linker.resolve(relation('CALLS', 'helpers'), byId('main')), null);
+            assert.strictEqual(linker.resolve(relation('TESTS', 'helpers'), byId('main'))?.targetId, 'helpers');
+        });
+    });
+});
@@ -0,0 +1,71 @@
+// TestPrioritizer.test.ts - Tests for propagating change impact to tests
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SIKGManager } from '../../sikg/SIKGManager';
+import { TestPrioritizer } from '../../sikg/TestPrioritizer';
+import { ConfigManager } from '../../utils/ConfigManager';
+import { Node, SemanticChangeInfo } from '../../sikg/GraphTypes';
+import { Host } from '../../host/SIKGHost';
+import { NodeHost } from '../../host/NodeHost';
+
+suite('TestPrioritizer', () => {
+    let storagePath: string;
+    let manager: SIKGManager;
+    let prioritizer: TestPrioritizer;
+
+    const node = (id: string, type: 'CodeElement' | 'TestCase'): Node =>
+        ({ id, type, name: id, filePath: type === 'TestCase' ? 'test_calc.py' : 'calc.py', properties: {} });
+
+    const change = (nodeId: string, semanticType: SemanticChangeInfo['semanticType'] = 'BUG_FIX', dependentIds?: string[]): SemanticChangeInfo => ({
+        nodeId,
+        semanticType,
+        changeDetails: { linesChanged: 1, oldCodeHash: 'a', newCodeHash: 'b', dependentIds },
+        initialImpactScore: 1.0
+    });
+
+    setup(async () => {
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'sikg-storage-'));
+        const host = new NodeHost({ workspaceRoots: [], storagePath, log: { appendLine: () => undefined } });
+        Host.init(host);
+        const configManager = new ConfigManager(host.configuration);
+        manager = new SIKGManager(host, configManager);
+        await manager.initialize();
+        prioritizer = new TestPrioritizer(manager, configManager);
+    });
+
+    teardown(async () => {
+        await manager.dispose();
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    test('weights the impact that reaches a test by the confidence of the edges on the way', async () => {
+        manager.addNode(node('add', 'CodeElement'));
+        manager.addNode(node('test_observed', 'TestCase'));
+        manager.addNode(node('test_guessed', 'TestCase'));
+        const createdAt = new Date().toISOString();
+        manager.addEdge({ source: 'add', target: 'test_observed', type: 'IS_TESTED_BY', weight: 1, properties: {},
+            provenance: { producer: 'coverage', confidence: 1.0, createdAt } });
+        manager.addEdge({ source: 'add', target: 'test_guessed', type: 'IS_TESTED_BY', weight: 1, properties: {},
+            provenance: { producer: 'test-parser', confidence: 0.5, createdAt } });
+
+        const impacts = await prioritizer.calculateTestImpact([change('add')]);
+
+        assert.strictEqual(impacts.test_observed.impactScore, 1);
+        assert.strictEqual(impacts.test_guessed.impactScore, Math.round((1.0 * 0.5 + 0.01) / (1.0 + 0.01) * 10000) / 10000);
+    });
+
+    test('starts the impact of a removed element at the nodes that depended on it', async () => {
+        manager.addNode(node('double', 'CodeElement'));
+        manager.addNode(node('test_double', 'TestCase'));
+        manager.addNode(node('test_other', 'TestCase'));
+        manager.addEdge({ source: 'double', target: 'test_double', type: 'IS_TESTED_BY', weight: 1, properties: {} });
+
+        const impacts = await prioritizer.calculateTestImpact([change('add', 'REMOVAL', ['double']), change('missing')]);
+
+        assert.deepStrictEqual(Object.keys(impacts), ['test_double']);
+        assert.strictEqual(impacts.test_double.impactScore, 1);
+    });
+});
@@ -0,0 +1,65 @@
+// ParserUtils.test.ts - Tests for path handling and ID generation across workspace layouts
+
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { ParserUtils } from '../../../../sikg/parser/util/ParserUtils';
+import { Host } from '../../../../host/SIKGHost';
+import { NodeHost } from '../../../../host/NodeHost';
+
+suite('ParserUtils', () => {
+    const useWorkspace = (...roots: string[]) =>
+        Host.init(new NodeHost({ workspaceRoots: roots, storagePath: os.tmpdir(), log: { appendLine: () => undefined } }));
+    const checkout = (...segments: string[]) => path.join(os.tmpdir(), ...segments);
+
+    test('gives the same IDs to clones of a repository in differently named directories', () => {
+        useWorkspace(checkout('sikg-clone'));
+        const elementId = ParserUtils.generateElementId('function', 'add', checkout('sikg-clone', 'src', 'calc.py'));
+        const testId = ParserUtils.generateTestId('test_add', checkout('sikg-clone', 'tests', 'test_calc.py'));
+
+        useWorkspace(checkout('build', 'src'));
+        assert.strictEqual(ParserUtils.generateElementId('function', 'add', checkout('build', 'src', 'src', 'calc.py')), elementId);
+        assert.strictEqual(ParserUtils.generateTestId('test_add', checkout('build', 'src', 'tests', 'test_calc.py')), testId);
+    });
+
+    test('gives the same ID to absolute and workspace-relative paths', () => {
+        useWorkspace(checkout('sikg-clone'));
+
+        assert.strictEqual(
+            ParserUtils.generateElementId('class', 'Cart', 'src/cart.py'),
+            ParserUtils.generateElementId('class', 'Cart', checkout('sikg-clone', 'src', 'cart.py'))
+        );
+    });
+
+    test('qualifies paths with the folder name in multi-root workspaces', () => {
+        useWorkspace(checkout('multi', 'backend'), checkout('multi', 'frontend'));
+        const backendPath = checkout('multi', 'backend', 'src', 'app.py');
+
+        assert.strictEqual(ParserUtils.getWorkspaceRelativePath(backendPath), 'backend/src/app.py');
+        assert.strictEqual(ParserUtils.getFolderRelativePath('backend/src/app.py'), 'src/app.py');
+        assert.strictEqual(ParserUtils.resolveWorkspacePath('frontend/src/app.ts'), checkout('multi', 'frontend', 'src', 'app.ts'));
+        assert.strictEqual(
+            ParserUtils.generateElementId('function', 'main', backendPath),
+            ParserUtils.generateElementId('function', 'main', 'backend/src/app.py')
+        );
+        assert.notStrictEqual(
+            ParserUtils.generateElementId('function', 'main', backendPath),
+            ParserUtils.generateElementId('function', 'main', checkout('multi', 'frontend', 'src', 'app.py'))
+        );
+    });
+
+    test('resolves unqualified paths against the first folder', () => {
+        useWorkspace(checkout('multi', 'backend'), checkout('multi', 'frontend'));
+
+        assert.strictEqual(ParserUtils.getWorkspaceFolder('src/app.py')?.name, 'backend');
+        assert.strictEqual(ParserUtils.resolveWorkspacePath('src/app.py'), checkout('multi', 'backend', 'src', 'app.py'));
+    });
+
+    test('keeps paths outside the workspace as they are', () => {
+        useWorkspace(checkout('sikg-clone'));
+        const outside = checkout('elsewhere', 'lib.py');
+
+        assert.strictEqual(ParserUtils.getWorkspaceRelativePath(outside), outside.replace(/\\/g, '/'));
+        assert.strictEqual(ParserUtils.getWorkspaceFolder(outside), undefined);
+    });
+});
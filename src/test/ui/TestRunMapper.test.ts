@@ -0,0 +1,78 @@
+// TestRunMapper.test.ts - Tests for mapping Test Explorer run requests to SIKG tests and results to test run outcomes
+
+import * as assert from 'assert';
+import { TestImpact, TestResult } from '../../sikg/GraphTypes';
+import { RunRequestItem, TestRunMapper } from '../../ui/TestRunMapper';
+
+suite('TestRunMapper', () => {
+    interface FakeItem extends RunRequestItem<FakeItem> {
+        childItems: FakeItem[];
+    }
+
+    const item = (id: string, childItems: FakeItem[] = []): FakeItem =>
+        ({ id, childItems, children: { forEach: callback => childItems.forEach(callback) } });
+    const impact = (testId: string, impactScore: number): TestImpact =>
+        ({ testId, impactScore, testName: testId, testPath: 'tests/test_calc.py', contributingChanges: [] });
+    const result = (testId: string, status: TestResult['status'], errorMessage?: string): TestResult =>
+        ({ testId, status, executionTime: 12, errorMessage, timestamp: '2026-01-01T00:00:00.000Z' });
+
+    // file > class > tests, as the controller builds the tree
+    const testAdd = item('tests/test_calc.py::test_add');
+    const testSub = item('tests/test_calc.py::TestCalc.test_sub');
+    const testMul = item('tests/test_calc.py::TestCalc.test_mul');
+    const classItem = item('class:tests/test_calc.py::TestCalc', [testSub, testMul]);
+    const fileItem = item('file:tests/test_calc.py', [testAdd, classItem]);
+    const testItems = new Map([testAdd, testSub, testMul].map(testItem => [testItem.id, testItem]));
+    const testImpacts = {
+        [testSub.id]: impact(testSub.id, 0.4),
+        [testMul.id]: impact(testMul.id, 0.9)
+    };
+
+    test('maps included file and class items to their tests, ordered by impact', () => {
+        const tests = TestRunMapper.collectTests([fileItem], [testAdd], testItems, testImpacts);
+
+        assert.deepStrictEqual(tests.map(testItem => testItem.id), [testMul.id, testSub.id]);
+        assert.deepStrictEqual(TestRunMapper.collectTests([classItem, testSub], undefined, testItems, testImpacts).map(testItem => testItem.id), [testMul.id, testSub.id]);
+    });
+
+    test('runs the impacted tests when a request includes everything', () => {
+        const tests = TestRunMapper.collectTests(undefined, [classItem, testMul], testItems, testImpacts);
+
+        // Excluding a class does not exclude its tests one by one
+        assert.deepStrictEqual(tests.map(testItem => testItem.id), [testSub.id]);
+        assert.deepStrictEqual(TestRunMapper.collectTests(undefined, undefined, new Map(), testImpacts), []);
+    });
+
+    test('runs manually selected tests that are not impacted with a zero impact', () => {
+        assert.strictEqual(TestRunMapper.getImpactForRun(testSub.id, testImpacts, undefined), testImpacts[testSub.id]);
+        assert.deepStrictEqual(
+            TestRunMapper.getImpactForRun(testAdd.id, testImpacts, { id: testAdd.id, type: 'TestCase', name: 'test_add', filePath: 'tests/test_calc.py', properties: {} }),
+            { testId: testAdd.id, impactScore: 0, testName: 'test_add', testPath: 'tests/test_calc.py', contributingChanges: [] }
+        );
+    });
+
+    test('reports failed and skipped results', () => {
+        const outcomes = TestRunMapper.mapResults([testSub.id, testMul.id], [
+            result(testMul.id, 'failed', 'assert 6 == 5'),
+            result(testSub.id, 'skipped')
+        ], false);
+
+        assert.deepStrictEqual(outcomes, [
+            { testId: testMul.id, status: 'failed', message: 'assert 6 == 5', duration: 12 },
+            { testId: testSub.id, status: 'skipped' }
+        ]);
+        assert.deepStrictEqual(TestRunMapper.mapResults([testSub.id], [result(testSub.id, 'failed')], false),
+            [{ testId: testSub.id, status: 'failed', message: 'Test failed', duration: 12 }]);
+    });
+
+    test('skips the tests a cancelled run did not finish', () => {
+        const outcomes = TestRunMapper.mapResults([testAdd.id, testSub.id, testMul.id], [result(testMul.id, 'passed')], true);
+
+        assert.deepStrictEqual(outcomes, [
+            { testId: testMul.id, status: 'passed', duration: 12 },
+            { testId: testAdd.id, status: 'skipped' },
+            { testId: testSub.id, status: 'skipped' }
+        ]);
+        assert.deepStrictEqual(TestRunMapper.mapResults([testAdd.id], [], false), []);
+    });
+});
@@ -0,0 +1,252 @@
+// SIKGTestController.ts - Exposes SIKG test nodes through the VS Code Testing API
+
+import * as vscode from 'vscode';
+import { SIKGManager } from '../sikg/SIKGManager';
+import { Node, TestImpact } from '../sikg/GraphTypes';
+import { TestRunnerService } from '../services/TestRunnerService';
+import { ParserUtils } from '../sikg/parser/util/ParserUtils';
+import { Logger } from '../utils/Logger';
+import { SIKGViewProvider } from './SIKGViewProvider';
+import { TestRunMapper, TestRunOutcome } from './TestRunMapper';
+
+/**
+ * Test controller that mirrors the test nodes of the SIKG graph in the Test Explorer,
+ * grouped by file and class, with a run profile that runs impacted tests by impact score
+ */
+export class SIKGTestController implements vscode.Disposable {
+    private controller: vscode.TestController;
+    private sikgManager: SIKGManager;
+    private testRunnerService: TestRunnerService;
+    private sikgViewProvider: SIKGViewProvider;
+    private testItems: Map<string, vscode.TestItem> = new Map();
+    private testImpacts: Record<string, TestImpact> = {};
+
+    constructor(
+        sikgManager: SIKGManager,
+        testRunnerService: TestRunnerService,
+        sikgViewProvider: SIKGViewProvider
+    ) {
+        this.sikgManager = sikgManager;
+        this.testRunnerService = testRunnerService;
+        this.sikgViewProvider = sikgViewProvider;
+
+        this.controller = vscode.tests.createTestController('sikgTests', 'SIKG Tests');
+        this.controller.resolveHandler = async item => {
+            if (!item) {
+                this.refresh();
+            }
+        };
+        this.controller.refreshHandler = () => this.refresh();
+
+        this.controller.createRunProfile(
+            'Run Impacted Tests',
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runImpactedTests(request, token),
+            true
+        );
+    }
+
+    /**
+     * Rebuild the test tree from the test nodes of the graph
+     */
+    public refresh(): void {
+        Logger.debug('Refreshing SIKG test items');
+        this.testItems.clear();
+
+        const fileItems = new Map<string, vscode.TestItem>();
+        const classItems = new Map<string, vscode.TestItem>();
+
+        for (const node of this.sikgManager.getTestNodes()) {
+            const uri = vscode.Uri.file(ParserUtils.resolveWorkspacePath(node.filePath));
+
+            let fileItem = fileItems.get(node.filePath);
+            if (!fileItem) {
+                fileItem = this.controller.createTestItem(`file:${node.filePath}`, node.filePath, uri);
+                fileItems.set(node.filePath, fileItem);
+            }
+
+            // Dotted test names ("TestCalc.test_add") are grouped under their class
+            const nameParts = node.name.split('.');
+            const testLabel = nameParts.pop() || node.name;
+            let parentItem = fileItem;
+
+            if (nameParts.length > 0) {
+                const className = nameParts.join('.');
+                const classKey = `${node.filePath}::${className}`;
+                let classItem = classItems.get(classKey);
+                if (!classItem) {
+                    classItem = this.controller.createTestItem(`class:${classKey}`, className, uri);
+                    classItems.set(classKey, classItem);
+                    fileItem.children.add(classItem);
+                }
+                parentItem = classItem;
+            }
+
+            const testItem = this.controller.createTestItem(node.id, testLabel, uri);
+            testItem.range = this.getRange(node);
+            parentItem.children.add(testItem);
+            this.testItems.set(node.id, testItem);
+        }
+
+        this.controller.items.replace(Array.from(fileItems.values()));
+        this.applyTestImpacts();
+
+        Logger.info(`SIKG test controller shows ${this.testItems.size} tests in ${fileItems.size} files`);
+    }
+
+    /**
+     * Show the impact of the latest change analysis on the test items
+     * @param testImpacts Impact scores keyed by test ID
+     */
+    public updateWithTestImpacts(testImpacts: Record<string, TestImpact>): void {
+        this.testImpacts = testImpacts;
+
+        if (this.testItems.size === 0) {
+            this.refresh();
+        } else {
+            this.applyTestImpacts();
+        }
+    }
+
+    /**
+     * Annotate test items with their impact score and order them by it
+     */
+    private applyTestImpacts(): void {
+        const rankedImpacts = Object.values(this.testImpacts)
+            .sort((a, b) => b.impactScore - a.impactScore);
+        const ranks = new Map(rankedImpacts.map((impact, index) => [impact.testId, index]));
+
+        for (const [testId, testItem] of this.testItems) {
+            const impact = this.testImpacts[testId];
+            const rank = ranks.get(testId);
+
+            if (!impact || rank === undefined) {
+                testItem.description = undefined;
+                testItem.sortText = `z${testItem.label}`;
+                continue;
+            }
+
+            testItem.description = this.describeImpact(impact);
+            testItem.sortText = `a${rank.toString().padStart(6, '0')}`;
+        }
+    }
+
+    /**
+     * Describe the impact score and contributing changes of a test
+     */
+    private describeImpact(impact: TestImpact): string {
+        const changes = impact.contributingChanges
+            .slice()
+            .sort((a, b) => b.contribution - a.contribution)
+            .slice(0, 3)
+            .map(change => {
+                const changedNode = this.sikgManager.getNode(change.nodeId);
+                return changedNode ? `${change.semanticType} in ${changedNode.name}` : change.semanticType;
+            });
+
+        const more = impact.contributingChanges.length > changes.length
+            ? ` (+${impact.contributingChanges.length - changes.length} more)`
+            : '';
+
+        return `${(impact.impactScore * 100).toFixed(0)}% impact${changes.length > 0 ? ` · ${changes.join(', ')}${more}` : ''}`;
+    }
+
+    /**
+     * Run handler of the "Run Impacted Tests" profile
+     */
+    private async runImpactedTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const testsToRun = TestRunMapper.collectTests(request.include, request.exclude, this.testItems, this.testImpacts);
+
+        if (testsToRun.length === 0) {
+            vscode.window.showInformationMessage('No impacted tests to run. Run "SIKG: Analyze Changes" first.');
+            return;
+        }
+
+        const run = this.controller.createTestRun(request, 'SIKG: Impacted Tests');
+
+        try {
+            const selectedImpacts: Record<string, TestImpact> = {};
+            for (const testItem of testsToRun) {
+                selectedImpacts[testItem.id] = TestRunMapper.getImpactForRun(testItem.id, this.testImpacts, this.sikgManager.getNode(testItem.id));
+                run.enqueued(testItem);
+            }
+
+            if (token.isCancellationRequested) {
+                return;
+            }
+
+            for (const testItem of testsToRun) {
+                run.started(testItem);
+            }
+
+            const results = await this.testRunnerService.runPrioritizedTests(selectedImpacts, undefined, token);
+
+            // Tests the cancelled run did not finish are reported as skipped
+            const outcomes = TestRunMapper.mapResults(testsToRun.map(testItem => testItem.id), results, token.isCancellationRequested);
+            this.reportOutcomes(run, outcomes);
+
+            // Feed the results back into the graph like sikg.runPrioritizedTests does
+            try {
+                await this.sikgManager.updateWithTestResults(results);
+            } catch (error) {
+                Logger.warn('Failed to update SIKG with test results:', error);
+            }
+
+            this.sikgViewProvider.updateWithTestResults(results);
+        } catch (error) {
+            Logger.error('Error running impacted tests:', error);
+            const message = new vscode.TestMessage(`Failed to run tests: ${error instanceof Error ? error.message : String(error)}`);
+            for (const testItem of testsToRun) {
+                run.errored(testItem, message);
+            }
+        } finally {
+            run.end();
+        }
+    }
+
+    /**
+     * Report the outcomes of a run's tests to the test run
+     */
+    private reportOutcomes(run: vscode.TestRun, outcomes: TestRunOutcome[]): void {
+        for (const outcome of outcomes) {
+            const testItem = this.testItems.get(outcome.testId);
+            if (!testItem) {
+                continue;
+            }
+
+            switch (outcome.status) {
+                case 'passed':
+                    run.passed(testItem, outcome.duration);
+                    break;
+                case 'failed':
+                    run.failed(testItem, new vscode.TestMessage(outcome.message || 'Test failed'), outcome.duration);
+                    break;
+                default:
+                    run.skipped(testItem);
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Get the source range of a test node
+     */
+    private getRange(node: Node): vscode.Range | undefined {
+        const loc = node.properties.loc;
+        if (!loc || !loc.start) {
+            return undefined;
+        }
+
+        const startLine = Math.max(0, loc.start.line - 1);
+        const endLine = Math.max(startLine, (loc.end?.line || loc.start.line) - 1);
+        return new vscode.Range(startLine, loc.start.column || 0, endLine, loc.end?.column || 0);
+    }
+
+    /**
+     * Clean up the test controller
+     */
+    public dispose(): void {
+        this.testItems.clear();
+        this.controller.dispose();
+    }
+}
@@ -5,6 +5,7 @@ import { SIKGManager } from '../sikg/SIKGManager';
 import { TestPrioritizer } from '../sikg/TestPrioritizer';
 import { SemanticChangeInfo, TestImpact, TestResult } from '../sikg/GraphTypes';
 import { Logger } from '../utils/Logger';
+import { ParserUtils } from '../sikg/parser/util/ParserUtils';
 
 /**
  * WebView provider for displaying SIKG analysis results
@@ -135,10 +136,8 @@ export class SIKGViewProvider implements vscode.WebviewViewProvider {
         }
         
         try {
-            // Convert to URI if it's a relative path
-            const fileUri = filePath.startsWith('/')
-                ? vscode.Uri.file(filePath)
-                : vscode.Uri.file(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath + '/' + filePath);
+            // Resolve workspace-relative paths against the folder they belong to
+            const fileUri = vscode.Uri.file(ParserUtils.resolveWorkspacePath(filePath));
                 
             vscode.workspace.openTextDocument(fileUri).then(document => {
                 vscode.window.showTextDocument(document).then(editor => {
@@ -229,6 +228,9 @@ export class SIKGViewProvider implements vscode.WebviewViewProvider {
                         .change-type.DEPENDENCY_UPDATE {
                             color: var(--vscode-terminal-ansiCyan);
                         }
+                        .change-type.REMOVAL {
+                            color: var(--vscode-terminal-ansiBrightRed);
+                        }
                         .impact-score {
                             display: inline-block;
                             width: 40px;
@@ -430,9 +432,9 @@ export class SIKGViewProvider implements vscode.WebviewViewProvider {
                                     </div>
                                     <div>
                                         Element: <span class="file-link" data-file="${node?.filePath || ''}" data-line="${node?.properties?.loc?.start?.line || 1}">
-                                            ${node?.name || change.nodeId}
+                                            ${node?.name || change.changeDetails.elementName || change.nodeId}
                                         </span>
-                                        <span class="time-info">${node?.filePath || ''}</span>
+                                        <span class="time-info">${node?.filePath || change.changeDetails.filePath || ''}</span>
                                     </div>
                                 </div>
                             `}).join('')}
@@ -0,0 +1,122 @@
+// TestRunMapper.ts - Maps Test Explorer run requests to SIKG tests and SIKG results to test run outcomes
+
+import { Node, TestImpact, TestResult } from '../sikg/GraphTypes';
+
+/**
+ * Decides which SIKG tests a Test Explorer run request runs and how their results are
+ * reported. Only the IDs and children of test items are used, so this works without VS Code.
+ */
+export class TestRunMapper {
+    /**
+     * Collect the leaf test items selected by a run request, ordered by impact score.
+     * Without an explicit selection, all tests with an impact score are run.
+     * @param include Items the request includes, or undefined if it includes everything
+     * @param exclude Items the request excludes, children included
+     * @param testItems Leaf test items keyed by SIKG test ID
+     * @param testImpacts Latest impact scores keyed by test ID
+     */
+    public static collectTests<T extends RunRequestItem<T>>(
+        include: readonly T[] | undefined,
+        exclude: readonly T[] | undefined,
+        testItems: Map<string, T>,
+        testImpacts: Record<string, TestImpact>
+    ): T[] {
+        const excluded = new Set((exclude || []).map(item => item.id));
+        const selected = new Map<string, T>();
+
+        const visit = (item: T) => {
+            if (excluded.has(item.id)) {
+                return;
+            }
+            if (testItems.get(item.id) === item) {
+                selected.set(item.id, item);
+                return;
+            }
+            item.children.forEach(visit);
+        };
+
+        if (include) {
+            include.forEach(visit);
+        } else {
+            for (const testId of Object.keys(testImpacts)) {
+                const testItem = testItems.get(testId);
+                if (testItem && !excluded.has(testId)) {
+                    selected.set(testId, testItem);
+                }
+            }
+        }
+
+        return Array.from(selected.values()).sort((a, b) =>
+            (testImpacts[b.id]?.impactScore || 0) - (testImpacts[a.id]?.impactScore || 0)
+        );
+    }
+
+    /**
+     * Get the impact entry used to run a test, creating a zero-impact entry for tests
+     * that were selected manually but not impacted by the latest analysis
+     * @param node Test node of the graph, if it still exists
+     */
+    public static getImpactForRun(testId: string, testImpacts: Record<string, TestImpact>, node: Node | undefined): TestImpact {
+        const impact = testImpacts[testId];
+        if (impact) {
+            return impact;
+        }
+
+        return {
+            testId,
+            impactScore: 0,
+            testName: node?.name || testId,
+            testPath: node?.filePath || '',
+            contributingChanges: []
+        };
+    }
+
+    /**
+     * Map the results of a run to the outcomes reported to the Test Explorer
+     * @param testIds Tests the run started
+     * @param results Results of the run
+     * @param cancelled Whether the run was cancelled; started tests without a result are skipped
+     * @returns One outcome per result, then one per unfinished test of a cancelled run
+     */
+    public static mapResults(testIds: string[], results: TestResult[], cancelled: boolean): TestRunOutcome[] {
+        const outcomes: TestRunOutcome[] = results.map(result => {
+            switch (result.status) {
+                case 'passed':
+                    return { testId: result.testId, status: 'passed', duration: result.executionTime };
+                case 'failed':
+                    return { testId: result.testId, status: 'failed', message: result.errorMessage || 'Test failed', duration: result.executionTime };
+                default:
+                    return { testId: result.testId, status: 'skipped' };
+            }
+        });
+
+        if (cancelled) {
+            const finished = new Set(results.map(result => result.testId));
+            for (const testId of testIds) {
+                if (!finished.has(testId)) {
+                    outcomes.push({ testId, status: 'skipped' });
+                }
+            }
+        }
+
+        return outcomes;
+    }
+}
+
+/**
+ * The parts of a Test Explorer test item that run requests are mapped with
+ */
+export interface RunRequestItem<T> {
+    id: string;
+    children: { forEach(callback: (item: T) => unknown): void };
+}
+
+/**
+ * How a test of a run is reported to the Test Explorer
+ */
+export interface TestRunOutcome {
+    testId: string;
+    status: 'passed' | 'failed' | 'skipped';
+    message?: string;                 // Failure message
+    duration?: number;                // Milliseconds
+}
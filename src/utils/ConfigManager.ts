@@ -1,13 +1,16 @@
 // ConfigManager.ts - Fixed language support configuration
 
-import * as vscode from 'vscode';
+import { ConfigurationSource } from '../host/SIKGHost';
 
 export class ConfigManager {
-    private context: vscode.ExtensionContext;
+    private configuration: ConfigurationSource;
     private initialized: boolean = false;
 
-    constructor(context: vscode.ExtensionContext) {
-        this.context = context;
+    /**
+     * @param configuration The sikg.* settings of the host
+     */
+    constructor(configuration: ConfigurationSource) {
+        this.configuration = configuration;
     }
 
     /**
@@ -15,11 +18,9 @@ export class ConfigManager {
      */
     public async initialize(): Promise<void> {
         // Register configuration change handlers
-        vscode.workspace.onDidChangeConfiguration(e => {
-            if (e.affectsConfiguration('sikg')) {
-                // Configuration changed, reload values
-                this.loadConfiguration();
-            }
+        this.configuration.onDidChange(() => {
+            // Configuration changed, reload values
+            this.loadConfiguration();
         });
 
         // Initial configuration load
@@ -38,14 +39,14 @@ export class ConfigManager {
      * Get log level from configuration
      */
     public getLogLevel(): 'debug' | 'info' | 'warn' | 'error' {
-        return vscode.workspace.getConfiguration('sikg').get<'debug' | 'info' | 'warn' | 'error'>('logLevel', 'info');
+        return this.configuration.get<'debug' | 'info' | 'warn' | 'error'>('logLevel', 'info');
     }
 
     /**
      * Get code file extensions to consider - FIXED to use standard VS Code language identifiers
      */
     public getCodeFileExtensions(): string[] {
-        return vscode.workspace.getConfiguration('sikg').get<string[]>('codeFileExtensions', [
+        return this.configuration.get<string[]>('codeFileExtensions', [
             'py',      // Python files
             'js',      // JavaScript files
             'ts',      // TypeScript files
@@ -61,7 +62,7 @@ export class ConfigManager {
      * Get test file patterns to identify test files - FIXED patterns
      */
     public getTestFilePatterns(): string[] {
-        return vscode.workspace.getConfiguration('sikg').get<string[]>('testFilePatterns', [
+        return this.configuration.get<string[]>('testFilePatterns', [
             // Python test patterns
             '**/test_*.py',
             '**/*_test.py',
@@ -97,7 +98,7 @@ export class ConfigManager {
      * Get patterns to exclude from analysis
      */
     public getExcludePatterns(): string[] {
-        return vscode.workspace.getConfiguration('sikg').get<string[]>('excludePatterns', [
+        return this.configuration.get<string[]>('excludePatterns', [
             '**/node_modules/**',
             '**/dist/**',
             '**/build/**',
@@ -113,32 +114,53 @@ export class ConfigManager {
         ]);
     }
 
+    /**
+     * Check whether stored graphs should be gzip-compressed
+     */
+    public getCompressGraph(): boolean {
+        return this.configuration.get<boolean>('compressGraph', false);
+    }
+
+    /**
+     * Get the time in seconds that language server queries may add to a graph update, 0 to skip them
+     */
+    public getLanguageServerTimeBudget(): number {
+        return this.configuration.get<number>('languageServerTimeBudget', 30);
+    }
+
+    /**
+     * Get the branch that "changes since branching" analyses compare with
+     */
+    public getMergeBaseBranch(): string {
+        return this.configuration.get<string>('mergeBaseBranch', 'main');
+    }
+
     /**
      * Get maximum traversal depth for impact propagation
      */
     public getMaxTraversalDepth(): number {
-        return vscode.workspace.getConfiguration('sikg').get<number>('maxTraversalDepth', 5);
+        return this.configuration.get<number>('maxTraversalDepth', 5);
     }
 
     /**
      * Get minimum impact threshold to continue propagation
      */
     public getMinImpactThreshold(): number {
-        return vscode.workspace.getConfiguration('sikg').get<number>('minImpactThreshold', 0.05);
+        return this.configuration.get<number>('minImpactThreshold', 0.05);
     }
 
     /**
      * Get high impact threshold for feedback learning
      */
     public getHighImpactThreshold(): number {
-        return vscode.workspace.getConfiguration('sikg').get<number>('highImpactThreshold', 0.7);
+        return this.configuration.get<number>('highImpactThreshold', 0.7);
     }
 
     /**
      * Get low impact threshold for feedback learning
      */
     public getLowImpactThreshold(): number {
-        return vscode.workspace.getConfiguration('sikg').get<number>('lowImpactThreshold', 0.3);
+        return this.configuration.get<number>('lowImpactThreshold', 0.3);
     }
 
     /**
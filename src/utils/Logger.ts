@@ -1,28 +1,27 @@
 // Logger - Logging utility for the extension
 
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { LogSink } from '../host/SIKGHost';
 
 export class Logger {
-    private static outputChannel: vscode.OutputChannel;
+    private static sink: LogSink | undefined;
     private static logLevel: 'debug' | 'info' | 'warn' | 'error' = 'info';
     private static logFile: string | null = null;
 
     /**
      * Initialize the logger
+     * @param sink Destination of log lines, e.g. the host's output channel
+     * @param storagePath Directory under which log files are written
      */
-    public static init(context: vscode.ExtensionContext, logLevel: 'debug' | 'info' | 'warn' | 'error'): void {
-        // Create output channel if not already created
-        if (!this.outputChannel) {
-            this.outputChannel = vscode.window.createOutputChannel('SIKG');
-        }
+    public static init(sink: LogSink, storagePath: string, logLevel: 'debug' | 'info' | 'warn' | 'error'): void {
+        this.sink = sink;
 
         // Set log level
         this.logLevel = logLevel;
 
         // Set up log file (optional)
-        const logDir = path.join(context.globalStorageUri.fsPath, 'logs');
+        const logDir = path.join(storagePath, 'logs');
         if (!fs.existsSync(logDir)) {
             fs.mkdirSync(logDir, { recursive: true });
         }
@@ -99,8 +98,8 @@ export class Logger {
 
         const logMessage = `[${timestamp}] [${level}] ${message} ${formattedArgs}`.trim();
 
-        // Log to output channel
-        this.outputChannel.appendLine(logMessage);
+        // Log to the host's output, which is missing until the logger is initialized
+        this.sink?.appendLine(logMessage);
 
         // Also log to file if configured
         if (this.logFile) {